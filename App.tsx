@@ -18,27 +18,56 @@ import {
   Sparkles, 
   Home, 
   Heart, 
-  Dog, 
-  Cat, 
   PawPrint, 
   Swords, 
   MessageSquare, 
   UserX,
   GraduationCap,
   Gamepad2,
-  Gift
+  Gift,
+  History,
+  CloudOff,
+  Printer,
+  FileDown,
+  Archive,
+  Upload,
+  BarChart3,
+  ListChecks,
+  Plus,
+  Handshake,
+  Lock,
+  AlarmClock,
+  X as XIcon
 } from 'lucide-react';
 import { 
   CaseData, 
   CaseStatus, 
   UserRole, 
   Verdict, 
-  JudgePersona,
-  PenaltyTask
+  PenaltyTask,
+  VerdictRecord,
+  TrackedTask,
+  EvidenceItem,
+  Demand,
+  Counterclaim,
+  DisputePoint,
+  SealedContent,
+  SealedPhase,
+  JuryVote
 } from './types';
 import * as GeminiService from './services/geminiService';
 import { MockDb } from './services/mockDb';
+import { normalizeVerdict } from './services/aiSchema';
+import { 
+  DEFAULT_JUDGMENT_STATEMENT, 
+  getStatusLabel, 
+  getStepBack 
+} from './services/caseWorkflow';
 import { VerdictSection } from './VerdictSection';
+import { PersonaPicker, PersonaAvatar } from './components/PersonaManager';
+import { PenaltyTaskList } from './components/PenaltyTaskList';
+import { getCaseTasks, getOutstandingTasks, isCaseResolved, isTaskOverdue, TaskAction } from './services/penaltyTasks';
+import { BUILT_IN_PERSONAS, courtTitleOf, PersonaRegistry } from './services/personaRegistry';
 import { 
   ConfirmDialog, 
   VoiceTextarea, 
@@ -47,41 +76,93 @@ import {
 } from './components/Shared';
 import { supabase } from './supabaseClient';
 import Auth from './components/Auth';
+import { CaseTimeline } from './components/CaseTimeline';
+import { InsightsView } from './components/InsightsView';
+import { PrecedentConsent } from './components/PrecedentConsent';
+import { JuryResultCard, PublicHearingPanel } from './components/PublicHearing';
+import { SpectatorView } from './components/SpectatorView';
+import { SealStatus } from './components/SealStatus';
+import { checkRevealed, getSeal, isRevealed } from './services/caseSealing';
+import { DeadlineBanner, formatTimeLeft } from './components/DeadlineBanner';
+import { DEADLINE_OPTIONS, DEADLINE_PHASE_LABELS, DEADLINE_PHASES, getDeadline, getDeadlineReminder, getMissedDeadlines } from './services/caseDeadlines';
+import { findPrecedents } from './services/casePrecedents';
+import { getJuryResult, getJuryVote, isJuryVotingOpen, JuryResult } from './services/caseHearing';
+import { MergeConflict } from './services/caseMerge';
+import { PendingWrite } from './services/syncQueue';
+import { EvidenceStore } from './services/evidenceStore';
+import { getRulings, parseJudgmentLines, RulingKind } from './services/judgmentFormat';
+import { buildCounterclaimsUpdate, buildDemandResponse, buildDemandsUpdate, createCounterclaim, createDemand, getCaseDemands, getCounterclaims, STANCE_LABELS } from './services/caseDemands';
+import { ClaimResponse } from './components/ClaimResponse';
+import { MediationStep, SettlementView } from './components/MediationStep';
+import { startMediation } from './services/caseMediation';
+import { useModerationGate } from './components/ModerationGate';
+import { COOLING_OFF_MS, getCivilityReport } from './services/caseModeration';
+import * as CaseExport from './services/caseExport';
+import {
+  buildVerdictDelivery,
+  compareVerdicts,
+  getAppealedPersona,
+  getRemainingAppeals,
+  getRoundLabel,
+  getVerdictHistory,
+  isAppealActive,
+  newAppeal
+} from './services/caseAppeal';
 
 // --- Logic Steps (Wrapped components) ---
 
 const FilingForm = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
   const [desc, setDesc] = useState(data.description);
-  const [demands, setDemands] = useState(data.demands);
+  // One row per demand; ids are kept when editing so the defendant's answers stay attached
+  const [demands, setDemands] = useState<Demand[]>(() => {
+    const existing = getCaseDemands(data);
+    return existing.length > 0 ? existing : [createDemand()];
+  });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const gate = useModerationGate(data, UserRole.PLAINTIFF, onSubmit);
+
+  const setDemandContent = (id: string, content: string) =>
+    setDemands(list => list.map(d => d.id === id ? { ...d, content } : d));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!desc.trim()) return alert("请填写陈述");
+    try {
+      buildDemandsUpdate(demands);
+    } catch (err: any) {
+      return alert(err.message);
+    }
     
     setIsSubmitting(true);
 
-    // 1. Wait ONLY for Data Save to Supabase (Blocking Navigation)
+    // 1. Check the tone before the defendant can read anything; rewrites replace the drafts
+    const [reviewedDesc] = await gate.review('description', [desc]) || [];
+    const reviewedDemands = reviewedDesc !== undefined && await gate.review('demands', demands.map(d => d.content));
+    if (!reviewedDemands) {
+      setIsSubmitting(false);
+      return;
+    }
+    const finalDemands = demands.map((d, i) => ({ ...d, content: reviewedDemands[i] }));
+    setDesc(reviewedDesc);
+    setDemands(finalDemands);
+
+    // 2. Wait ONLY for Data Save to Supabase (Blocking Navigation)
     // Once this awaits successfully, the parent will receive the status update.
     // The UI will likely re-render and unmount this component shortly after.
     await onSubmit({ 
-      description: desc, 
-      demands,
+      description: reviewedDesc, 
+      ...buildDemandsUpdate(finalDemands),
       status: CaseStatus.PLAINTIFF_EVIDENCE 
     });
 
-    // 2. Background AI Processing (Non-Blocking)
+    // 3. Background AI Processing (Non-Blocking)
     // We do NOT await this. It runs in the background.
     // Even if this component unmounts, the Promise chain usually completes in JS environment.
     // Ideally we'd use a global store or context to ensure it persists, but this works for this architecture.
     Promise.all([
-      GeminiService.analyzeSentiment(desc),
-      GeminiService.generateCaseTitle(desc),
-      GeminiService.summarizeStatement(desc, "Plaintiff")
-    ]).then(([sentiment, title, summary]) => {
-      if (sentiment.isToxic) {
-         console.warn("Toxic content detected:", sentiment.reason);
-      }
+      GeminiService.generateCaseTitle(reviewedDesc),
+      GeminiService.summarizeStatement(reviewedDesc, "Plaintiff")
+    ]).then(([title, summary]) => {
       // Update the case with AI results. 
       // CaseManager is still mounted, so this onSubmit (which refers to CaseManager.update) is safe to call.
       onSubmit({
@@ -101,7 +182,53 @@ const FilingForm = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<
     <div className="bg-white p-6 rounded-xl shadow-sm border border-rose-100 space-y-4">
       <h2 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2 font-cute"><FileText className="text-rose-500" />原告起诉</h2>
       <VoiceTextarea label="事实陈述" placeholder="请具体描述..." value={desc} onChange={setDesc} required />
-      <VoiceTextarea label="诉请" placeholder="诉请 (如: 道歉)..." value={demands} onChange={setDemands} required />
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-1">诉请</label>
+        <div className="space-y-2">
+          {demands.map((d, i) => (
+            <div key={d.id} className="flex items-center gap-2">
+              <span className="text-slate-400 text-sm w-5 shrink-0">{i + 1}.</span>
+              <input
+                value={d.content}
+                onChange={e => setDemandContent(d.id, e.target.value)}
+                placeholder={i === 0 ? "诉请 (如: 道歉)..." : "再提一项诉请..."}
+                className="flex-1 min-w-0 p-2.5 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-rose-200"
+              />
+              {demands.length > 1 && (
+                <button type="button" onClick={() => setDemands(list => list.filter(x => x.id !== d.id))} className="p-1.5 text-slate-300 hover:text-red-500" title="删除">
+                  <XIcon size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <button type="button" onClick={() => setDemands(list => [...list, createDemand('', list.length)])} className="mt-2 text-xs font-bold text-rose-600 flex items-center gap-1">
+          <Plus size={14} /> 添加诉请
+        </button>
+      </div>
+      <label className="flex items-start gap-2 text-xs text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={!!data.coolingOff} onChange={e => onSubmit({ coolingOff: e.target.checked })} className="mt-0.5 accent-rose-600" />
+        <span>冷静期：双方说了特别过激的话时，{COOLING_OFF_MS / 60000} 分钟内只能换个说法发送</span>
+      </label>
+      <div className="text-xs text-slate-500">
+        <p className="mb-1">各环节期限（逾期将自动缺席判决、视为放弃或认可对方观点）</p>
+        <div className="grid grid-cols-3 gap-2">
+          {DEADLINE_PHASES.map(phase => (
+            <label key={phase} className="flex flex-col gap-1">
+              <span>{DEADLINE_PHASE_LABELS[phase]}</span>
+              <select
+                value={data.phaseDeadlines?.[phase] || 0}
+                onChange={e => onSubmit({ phaseDeadlines: { ...data.phaseDeadlines, [phase]: Number(e.target.value) } })}
+                className="p-1.5 rounded-lg border border-slate-200 bg-white text-slate-700"
+              >
+                {DEADLINE_OPTIONS.map(hours => (
+                  <option key={hours} value={hours}>{hours === 0 ? '不限' : hours % 24 === 0 ? `${hours / 24} 天` : `${hours} 小时`}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
       <button 
         onClick={handleSubmit} 
         disabled={isSubmitting}
@@ -109,44 +236,77 @@ const FilingForm = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<
       >
         {isSubmitting ? <Loader2 className="animate-spin" /> : "下一步：举证"}
       </button>
+      {gate.dialog}
     </div>
   );
 };
 
-const PlaintiffEvidenceStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => (
-  <div className="space-y-6 animate-fade-in">
-    <div className="bg-white p-6 rounded-xl shadow-sm border border-rose-100">
-      <h2 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2 font-cute"><Gavel className="text-rose-500" />原告举证</h2>
-      <EvidenceList 
-        items={data.evidence} 
-        title="已提交证据" 
-        onDelete={(id) => onSubmit({ evidence: data.evidence.filter(e => e.id !== id) })}
-      />
-      <div className="mt-6 border-t pt-4">
-        <EvidenceCreator userRole={UserRole.PLAINTIFF} onAdd={e => onSubmit({ evidence: [...data.evidence, e] })} />
+const PlaintiffEvidenceStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
+  const gate = useModerationGate(data, UserRole.PLAINTIFF, onSubmit);
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-rose-100">
+        <h2 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2 font-cute"><Gavel className="text-rose-500" />原告举证</h2>
+        <EvidenceList 
+          items={data.evidence} 
+          title="已提交证据" 
+          onDelete={(id) => {
+            EvidenceStore.discardMedia(data.evidence.find(e => e.id === id)?.media);
+            onSubmit({ evidence: data.evidence.filter(e => e.id !== id) });
+          }}
+        />
+        <div className="mt-6 border-t pt-4">
+          <EvidenceCreator userRole={UserRole.PLAINTIFF} caseId={data.id} onAdd={async e => {
+            const item = await gate.reviewEvidence(e);
+            if (!item) return false;
+            await onSubmit({ evidence: [...data.evidence, item] });
+          }} />
+        </div>
       </div>
+      <button onClick={() => onSubmit({ status: CaseStatus.DEFENSE_PENDING })} className="w-full bg-rose-600 text-white font-bold py-3 rounded-xl hover:bg-rose-700 shadow-lg">提交给被告</button>
+      {gate.dialog}
     </div>
-    <button onClick={() => onSubmit({ status: CaseStatus.DEFENSE_PENDING })} className="w-full bg-rose-600 text-white font-bold py-3 rounded-xl hover:bg-rose-700 shadow-lg">提交给被告</button>
-  </div>
-);
+  );
+};
 
 const DefenseStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
   const [stmt, setStmt] = useState(data.defenseStatement);
+  // Counterclaims are optional; ids are kept when editing so the plaintiff's answers stay attached
+  const [counterclaims, setCounterclaims] = useState<Counterclaim[]>(() => getCounterclaims(data));
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const gate = useModerationGate(data, UserRole.DEFENDANT, onSubmit);
+  const demands = getCaseDemands(data);
+  const counterclaimEvidence = data.counterclaimEvidence || [];
+
+  const setCounterclaimContent = (id: string, content: string) =>
+    setCounterclaims(list => list.map(d => d.id === id ? { ...d, content } : d));
 
   const handleSubmit = async () => {
       if (!stmt.trim()) return alert("请填写答辩理由");
+      if (demands.some(d => !d.defendantStance)) return alert("请逐项回应原告的诉请");
       
       setIsSubmitting(true);
 
-      // 1. Wait ONLY for Data Save to Supabase (Blocking Navigation)
+      // 1. Check the tone before the plaintiff can read anything; rewrites replace the drafts
+      const [reviewedStmt] = await gate.review('defenseStatement', [stmt]) || [];
+      const reviewedClaims = reviewedStmt !== undefined && await gate.review('counterclaims', counterclaims.map(d => d.content));
+      if (!reviewedClaims) {
+          setIsSubmitting(false);
+          return;
+      }
+      const finalClaims = counterclaims.map((d, i) => ({ ...d, content: reviewedClaims[i] }));
+      setStmt(reviewedStmt);
+      setCounterclaims(finalClaims);
+
+      // 2. Wait ONLY for Data Save to Supabase (Blocking Navigation)
       await onSubmit({ 
-          defenseStatement: stmt, 
+          defenseStatement: reviewedStmt, 
+          ...buildCounterclaimsUpdate(finalClaims),
           status: CaseStatus.CROSS_EXAMINATION 
       });
 
-      // 2. Background AI Processing (Non-Blocking)
-      GeminiService.summarizeStatement(stmt, "Defendant")
+      // 3. Background AI Processing (Non-Blocking)
+      GeminiService.summarizeStatement(reviewedStmt, "Defendant")
         .then(summary => {
            onSubmit({ defenseSummary: summary });
         })
@@ -163,6 +323,25 @@ const DefenseStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial
            "{data.plaintiffSummary || data.description}"
         </p>
       </div>
+      {demands.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h2 className="text-xl font-bold text-slate-800 mb-1 font-cute">逐项回应诉请</h2>
+          <p className="text-xs text-slate-400 mb-4">法官会参考你对每一项的态度</p>
+          <div className="space-y-4">
+            {demands.map((d, i) => (
+              <React.Fragment key={d.id}>
+                <ClaimResponse
+                  index={i}
+                  content={d.content}
+                  stance={d.defendantStance}
+                  comment={d.defendantComment}
+                  onRespond={response => onSubmit(buildDemandResponse(data, d.id, response))}
+                />
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
         <h2 className="text-xl font-bold text-slate-800 mb-4 font-cute">被告举证与答辩</h2>
         <VoiceTextarea label="答辩理由" placeholder="陈述你的理由..." value={stmt} onChange={setStmt} required />
@@ -170,11 +349,60 @@ const DefenseStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial
           <EvidenceList 
             items={data.defendantEvidence} 
             title="被告提交的证据" 
-            onDelete={(id) => onSubmit({ defendantEvidence: data.defendantEvidence.filter(e => e.id !== id) })}
+            onDelete={(id) => {
+              EvidenceStore.discardMedia(data.defendantEvidence.find(e => e.id === id)?.media);
+              onSubmit({ defendantEvidence: data.defendantEvidence.filter(e => e.id !== id) });
+            }}
           />
-          <div className="mt-2"><EvidenceCreator userRole={UserRole.DEFENDANT} onAdd={e => onSubmit({ defendantEvidence: [...data.defendantEvidence, e] })} /></div>
+          <div className="mt-2"><EvidenceCreator userRole={UserRole.DEFENDANT} caseId={data.id} onAdd={async e => {
+            const item = await gate.reviewEvidence(e);
+            if (!item) return false;
+            await onSubmit({ defendantEvidence: [...data.defendantEvidence, item] });
+          }} /></div>
         </div>
       </div>
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-xl font-bold text-slate-800 mb-1 font-cute">反诉（选填）</h2>
+        <p className="text-xs text-slate-400 mb-4">你也有想让对方做的事？原告会在质证环节逐项回应，法官会与原告的诉请一并裁决</p>
+        {counterclaims.length > 0 && (
+          <div className="space-y-2">
+            {counterclaims.map((d, i) => (
+              <div key={d.id} className="flex items-center gap-2">
+                <span className="text-slate-400 text-sm w-5 shrink-0">{i + 1}.</span>
+                <input
+                  value={d.content}
+                  onChange={e => setCounterclaimContent(d.id, e.target.value)}
+                  placeholder="反诉请求 (如: 以后吵架不许冷战)..."
+                  className="flex-1 min-w-0 p-2.5 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-indigo-200"
+                />
+                <button type="button" onClick={() => setCounterclaims(list => list.filter(x => x.id !== d.id))} className="p-1.5 text-slate-300 hover:text-red-500" title="删除">
+                  <XIcon size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <button type="button" onClick={() => setCounterclaims(list => [...list, createCounterclaim('', list.length)])} className="mt-2 text-xs font-bold text-indigo-600 flex items-center gap-1">
+          <Plus size={14} /> 添加反诉请求
+        </button>
+        {(counterclaims.length > 0 || counterclaimEvidence.length > 0) && (
+          <div className="mt-6">
+            <EvidenceList 
+              items={counterclaimEvidence} 
+              title="反诉证据" 
+              onDelete={(id) => {
+                EvidenceStore.discardMedia(counterclaimEvidence.find(e => e.id === id)?.media);
+                onSubmit({ counterclaimEvidence: counterclaimEvidence.filter(e => e.id !== id) });
+              }}
+            />
+            <div className="mt-2"><EvidenceCreator userRole={UserRole.DEFENDANT} caseId={data.id} onAdd={async e => {
+              const item = await gate.reviewEvidence(e);
+              if (!item) return false;
+              await onSubmit({ counterclaimEvidence: [...counterclaimEvidence, item] });
+            }} /></div>
+          </div>
+        )}
+      </div>
       <button 
         onClick={handleSubmit} 
         disabled={isSubmitting}
@@ -182,24 +410,71 @@ const DefenseStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial
       >
          {isSubmitting ? <Loader2 className="animate-spin" /> : "进入质证环节"}
       </button>
+      {gate.dialog}
     </div>
   );
 };
 
-const DisputeDebateStep = ({ data, onSubmit, userRole }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void, userRole: UserRole }) => {
+const DisputeDebateStep = ({ data, onSubmit, userRole, onSeal, onReveal }: {
+    data: CaseData,
+    onSubmit: (d: Partial<CaseData>) => Promise<void> | void,
+    userRole: UserRole,
+    onSeal: (content: SealedContent) => Promise<boolean>,
+    onReveal: (phase: SealedPhase) => Promise<void> | void
+}) => {
     const isPlaintiff = userRole === UserRole.PLAINTIFF;
     const isDefendant = userRole === UserRole.DEFENDANT;
+    const gate = useModerationGate(data, userRole, onSubmit);
+
+    // Own arguments are private drafts until sealed; both sides are revealed together.
+    // Their tone is checked before sealing, since the other party reads them as they were sealed.
+    const phase = CaseStatus.DEBATE;
+    const userId = isPlaintiff ? data.plaintiffId : data.defendantId;
+    const mySeal = getSeal(data, phase, userRole);
+    const revealed = isRevealed(data, phase);
+    const canWrite = (isPlaintiff || isDefendant) && !mySeal && !revealed;
+    const [drafts, setDrafts] = useState<Record<string, string>>(() => (userId && MockDb.getDraft<Record<string, string>>(data.id, userId, 'arguments')) || {});
+    const [isSealing, setIsSealing] = useState(false);
+    const sentArg = (p: DisputePoint) => (isPlaintiff ? p.plaintiffArg : p.defendantArg) || "";
+    const myArg = (p: DisputePoint) => canWrite ? drafts[p.id] ?? sentArg(p) : revealed ? sentArg(p) : mySeal?.arguments?.[p.id] ?? "";
+
+    const handleDraftChange = (pointId: string, value: string) => {
+        const next = { ...drafts, [pointId]: value };
+        setDrafts(next);
+        if (userId) MockDb.saveDraft(data.id, userId, 'arguments', next);
+    };
+
+    const handleSeal = async () => {
+        const points = data.disputePoints;
+        setIsSealing(true);
+        const reviewed = await gate.review('disputeArgument', points.map(myArg));
+        const sealed = !!reviewed && await onSeal({ arguments: Object.fromEntries(points.map((p, i) => [p.id, reviewed[i]])) });
+        setIsSealing(false);
+        if (sealed && userId) MockDb.discardDraft(data.id, userId, 'arguments');
+    };
 
-    const handleArgUpdate = (pointId: string, text: string) => {
-        const updatedPoints = data.disputePoints.map(p => {
-            if (p.id === pointId) {
-                return isPlaintiff ? { ...p, plaintiffArg: text } : { ...p, defendantArg: text };
-            }
-            return p;
-        });
-        onSubmit({ disputePoints: updatedPoints });
+    const proceed = () => {
+        const unrevealed = checkRevealed(data, phase);
+        if (unrevealed) return alert(unrevealed);
+        onSubmit({ status: CaseStatus.ADJUDICATING });
     };
 
+    // The other side's answer: what was revealed, or whether this round is sealed yet
+    const renderOpponentArg = (arg: string | undefined, sealed: boolean) => (
+        <p className="text-sm text-slate-700 italic">{sealed && !revealed ? "已密封，双方都提交后揭晓" : arg || "暂无陈述"}</p>
+    );
+
+    const renderMyArg = (point: DisputePoint) => canWrite ? (
+        <VoiceTextarea 
+            label=""
+            placeholder="针对此问题（是/否），请陈述你的理由..."
+            value={myArg(point)}
+            onChange={(val) => handleDraftChange(point.id, val)}
+        />
+    ) : (
+        <p className="text-sm text-slate-700 whitespace-pre-wrap">{myArg(point) || "暂无陈述"}</p>
+    );
+
     return (
         <div className="space-y-6 animate-fade-in">
             <div className="bg-purple-50 border border-purple-200 p-6 rounded-xl text-center">
@@ -210,6 +485,8 @@ const DisputeDebateStep = ({ data, onSubmit, userRole }: { data: CaseData, onSub
                 <p className="text-purple-700 text-sm">AI 已结合双方论述与案件事实，总结出以下核心辩论题。请针对每个问题进行回答。</p>
             </div>
 
+            <SealStatus data={data} phase={phase} onReveal={onReveal} />
+
             <div className="space-y-6">
                 {data.disputePoints.map((point, index) => (
                     <div key={point.id} className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -228,117 +505,169 @@ const DisputeDebateStep = ({ data, onSubmit, userRole }: { data: CaseData, onSub
                             <div className={`p-4 rounded-lg border-l-4 ${isPlaintiff ? 'bg-rose-50 border-rose-500' : 'bg-slate-50 border-slate-300'}`}>
                                 <div className="flex items-center gap-2 mb-2 font-bold text-rose-700 text-sm">
                                     <User size={14} /> 原告观点
-                                    {!isPlaintiff && !point.plaintiffArg && <span className="text-slate-400 font-normal ml-auto text-xs">等待输入...</span>}
+                                    {!isPlaintiff && !point.plaintiffArg && !revealed && <span className="text-slate-400 font-normal ml-auto text-xs">等待输入...</span>}
                                 </div>
-                                {isPlaintiff ? (
-                                    <VoiceTextarea 
-                                        label=""
-                                        placeholder="针对此问题（是/否），请陈述你的理由..."
-                                        value={point.plaintiffArg || ""}
-                                        onChange={(val) => handleArgUpdate(point.id, val)}
-                                    />
-                                ) : (
-                                    <p className="text-sm text-slate-700 italic">{point.plaintiffArg || "暂无陈述"}</p>
-                                )}
+                                {isPlaintiff ? renderMyArg(point) : renderOpponentArg(point.plaintiffArg, !!getSeal(data, phase, UserRole.PLAINTIFF))}
                             </div>
 
                             {/* Defendant Side */}
                             <div className={`p-4 rounded-lg border-l-4 ${isDefendant ? 'bg-indigo-50 border-indigo-500' : 'bg-slate-50 border-slate-300'}`}>
                                 <div className="flex items-center gap-2 mb-2 font-bold text-indigo-700 text-sm">
                                     <User size={14} /> 被告观点
-                                    {!isDefendant && !point.defendantArg && <span className="text-slate-400 font-normal ml-auto text-xs">等待输入...</span>}
+                                    {!isDefendant && !point.defendantArg && !revealed && <span className="text-slate-400 font-normal ml-auto text-xs">等待输入...</span>}
                                 </div>
-                                {isDefendant ? (
-                                    <VoiceTextarea 
-                                        label=""
-                                        placeholder="针对此问题（是/否），请陈述你的理由..."
-                                        value={point.defendantArg || ""}
-                                        onChange={(val) => handleArgUpdate(point.id, val)}
-                                    />
-                                ) : (
-                                    <p className="text-sm text-slate-700 italic">{point.defendantArg || "暂无陈述"}</p>
-                                )}
+                                {isDefendant ? renderMyArg(point) : renderOpponentArg(point.defendantArg, !!getSeal(data, phase, UserRole.DEFENDANT))}
                             </div>
                         </div>
                     </div>
                 ))}
             </div>
 
+            {canWrite && (
+                <button onClick={handleSeal} disabled={isSealing} className={`w-full text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-70 ${isPlaintiff ? 'bg-rose-600' : 'bg-indigo-600'}`}>
+                    {isSealing ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} 密封提交我的全部观点
+                </button>
+            )}
+
             <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-xl text-sm text-yellow-800 flex gap-2 items-start">
                 <AlertOctagon className="shrink-0 mt-0.5" size={18}/>
                 <p>辩论结束后，将直接提交给 AI 法官进行最终裁决。请确保已充分表达。</p>
             </div>
 
-            <button onClick={() => onSubmit({ status: CaseStatus.ADJUDICATING })} className="w-full bg-slate-900 text-white font-bold py-4 rounded-xl hover:bg-black shadow-lg flex items-center justify-center gap-2">
+            <button onClick={proceed} className="w-full bg-slate-900 text-white font-bold py-4 rounded-xl hover:bg-black shadow-lg flex items-center justify-center gap-2">
                 <Gavel size={20}/> 辩论结束，申请判决 (Proceed to Verdict)
             </button>
+            {(isPlaintiff || isDefendant) && (
+                <button onClick={() => onSubmit({ ...startMediation(data, userRole), status: CaseStatus.MEDIATION })} className="w-full bg-white text-teal-700 border border-teal-200 font-bold py-3 rounded-xl flex items-center justify-center gap-2">
+                    <Handshake size={18}/> 先不判了，申请调解
+                </button>
+            )}
+            {gate.dialog}
         </div>
     );
 };
 
-const AdjudicationStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
-  const [persona, setPersona] = useState(data.judgePersona);
+// Shown while the verdict streams in: "正在撰写「事实认定」..."
+const VERDICT_SECTION_LABELS: Record<keyof Verdict, string> = {
+  summary: '案情摘要',
+  facts: '事实认定',
+  responsibilitySplit: '责任划分',
+  disputeAnalyses: '争议焦点分析',
+  reasoning: '判决理由',
+  rulings: '诉请裁决',
+  finalJudgment: '法官寄语',
+  penaltyTasks: '爱的破冰大冒险',
+  tone: '判决基调',
+  panel: '合议庭意见'
+};
+
+const personaName = (persona: string) => PersonaRegistry.get(persona).name;
+
+// Panel mode: the built-in judges plus the presiding judge when that is a custom one
+const panelFor = (presiding: string) => [...new Set([presiding, ...BUILT_IN_PERSONAS.map(p => p.id)])];
+
+const partyName = (role: UserRole) => role === UserRole.PLAINTIFF ? '原告' : '被告';
+
+const AdjudicationStep = ({ data, userId, onSubmit }: { data: CaseData, userId: string, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
+  // A re-hearing after an appeal goes to a different judge than the one appealed against
+  const appealedPersona = getAppealedPersona(data);
+  const [persona, setPersona] = useState(
+    appealedPersona === data.judgePersona ? BUILT_IN_PERSONAS.find(p => p.id !== appealedPersona)!.id : data.judgePersona
+  );
+  // Panel mode: every judge rules independently, the selected judge presides and writes the majority opinion
+  const [panelMode, setPanelMode] = useState(false);
   const [isDeliberating, setIsDeliberating] = useState(false);
   const [progress, setProgress] = useState(0);
+  // Sections received so far; kept when the stream breaks so the user can resume
+  const [partial, setPartial] = useState<Partial<Verdict> | null>(null);
+  const [deliberation, setDeliberation] = useState<GeminiService.VerdictProgress['deliberation'] | null>(null);
+  const [opinions, setOpinions] = useState<GeminiService.PanelOpinions | null>(null);
+  const [streamError, setStreamError] = useState<string | null>(null);
 
-  const handleJudgement = async () => {
+  const handleJudgement = async (resume = false) => {
     setIsDeliberating(true);
-    setProgress(0);
-    
-    // Simulate progress: Reaches 95% in about 48s (0.4% per 200ms)
-    // This provides a "live" feel compared to pure CSS transition
-    const timer = setInterval(() => {
-      setProgress(old => {
-        if (old >= 95) {
-            // Stall at 99% max until done
-            return old < 99 ? old + 0.05 : 99;
-        }
-        return old + 0.4; 
-      });
-    }, 200);
+    setStreamError(null);
+    if (!resume) {
+      setPartial(null);
+      setDeliberation(null);
+      setOpinions(null);
+      setProgress(0);
+    }
 
     try {
+      // Earlier cases of the two parties; empty unless both agreed to it
+      const precedents = findPrecedents(data, await MockDb.getCasesForUser(userId));
       const verdict = await GeminiService.generateVerdict(
-        data.category, data.description, data.demands, data.defenseStatement,
+        data.category, data.description, getCaseDemands(data), data.defenseStatement,
         data.evidence, data.defendantEvidence, 
         data.plaintiffRebuttal, data.plaintiffRebuttalEvidence, 
         data.defendantRebuttal || "", data.defendantRebuttalEvidence || [],
         data.disputePoints || [],
-        persona
+        persona,
+        {
+          resumeFrom: resume ? partial || undefined : undefined,
+          panel: panelMode ? panelFor(persona) : undefined,
+          panelOpinions: resume ? opinions || undefined : undefined,
+          precedents,
+          civility: getCivilityReport(data),
+          missedDeadlines: getMissedDeadlines(data),
+          counterclaims: getCounterclaims(data),
+          counterclaimEvidence: data.counterclaimEvidence || [],
+          appeal: isAppealActive(data)
+            ? { previous: normalizeVerdict(data.verdict), previousPersona: appealedPersona!, filing: data.appeal! }
+            : undefined,
+          onProgress: p => {
+            if (Object.keys(p.partial).length > 0) setPartial(p.partial);
+            if (p.deliberation) setDeliberation(p.deliberation);
+            if (p.opinions) setOpinions(p.opinions);
+            setProgress(p.progress * 100);
+          }
+        }
       );
       
-      clearInterval(timer);
+      setPartial(verdict);
       setProgress(100);
 
       // Brief delay to show 100% before switching view
       setTimeout(() => {
-          onSubmit({ verdict, judgePersona: persona, status: CaseStatus.CLOSED });
+          onSubmit({ ...buildVerdictDelivery(data, verdict, persona), status: CaseStatus.CLOSED });
       }, 500);
     } catch (e) { 
-        clearInterval(timer);
+        if (e instanceof GeminiService.VerdictStreamError && (Object.keys(e.partial).length > 0 || Object.keys(e.opinions || {}).length > 0)) {
+          // Keep what arrived (sections, panel opinions) and offer to continue from there
+          setPartial(Object.keys(e.partial).length > 0 ? e.partial : null);
+          if (e.opinions) setOpinions(e.opinions);
+          setStreamError(e.message);
+          return;
+        }
         alert("AI 法官忙碌中: " + (e as any).message); 
         setIsDeliberating(false); 
+        setPartial(null);
+        setDeliberation(null);
+        setOpinions(null);
         setProgress(0); 
     } 
   };
 
-  const personas = [
-    { 
-      id: JudgePersona.BORDER_COLLIE, 
-      name: "汪汪法官", 
-      desc: "客观中立，理性判断，法理思维断案",
-      icon: <Dog size={32} className="text-slate-800" />
-    },
-    { 
-      id: JudgePersona.CAT, 
-      name: "喵喵法官", 
-      desc: "兼顾事实与情绪，治愈系中立判决",
-      icon: <Cat size={32} className="text-rose-600" />
-    }
-  ];
+  const handleRestart = () => {
+    setIsDeliberating(false);
+    setPartial(null);
+    setDeliberation(null);
+    setOpinions(null);
+    setStreamError(null);
+    setProgress(0);
+  };
 
   if (isDeliberating) {
-    const isCat = persona === JudgePersona.CAT;
+    const judge = PersonaRegistry.get(persona);
+    const isWarm = judge.palette === 'warm';
+    const sections: (keyof Verdict)[] = panelMode ? [...GeminiService.VERDICT_SECTIONS, 'panel'] : GeminiService.VERDICT_SECTIONS;
+    const pending = sections.filter(k => !partial || !(k in partial));
+    const completedCount = sections.length - pending.length;
+    const nextSection = pending[0];
+    const opinionsDone = deliberation ? deliberation.filter(d => d.done).length : 0;
+    // Panel mode starts with the independent opinions; the majority opinion streams in afterwards
+    const isConferring = !!deliberation && opinionsDone < deliberation.length;
     return (
        <div className="min-h-[60vh] flex flex-col items-center justify-center p-8 space-y-10 animate-fade-in">
           {/* Animated Scene: Reading */}
@@ -348,11 +677,7 @@ const AdjudicationStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Pa
                 <div className="absolute -top-12 left-1/2 -translate-x-1/2 z-20 transform -rotate-6">
                     <GraduationCap size={64} className="text-slate-900 fill-slate-800 drop-shadow-md" strokeWidth={1.5} />
                 </div>
-                {isCat ? (
-                   <Cat size={110} className="text-rose-500 drop-shadow-xl" strokeWidth={1.8} />
-                ) : (
-                   <Dog size={110} className="text-slate-800 drop-shadow-xl" strokeWidth={1.8} />
-                )}
+                <PersonaAvatar persona={judge} size={110} strokeWidth={1.8} className={`${isWarm ? 'text-rose-500' : 'text-slate-800'} drop-shadow-xl`} />
              </div>
           </div>
 
@@ -361,26 +686,63 @@ const AdjudicationStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Pa
                AI 法官正在审理中...
              </h3>
              <p className="text-slate-500 font-medium">
-               （预计 1分钟）
+               {streamError
+                 ? '审理中断，已生成的部分已保留'
+                 : isConferring ? '合议庭各位法官正在独立评议...'
+                 : nextSection ? `正在撰写「${VERDICT_SECTION_LABELS[nextSection]}」...` : '正在宣读判决...'}
              </p>
           </div>
 
-          {/* Progress Bar with Percentage Text */}
+          {deliberation && (
+            <div className="flex flex-wrap justify-center gap-2">
+              {deliberation.map(d => (
+                <span key={d.persona} className={`text-xs font-bold px-3 py-1 rounded-full flex items-center gap-1 ${d.done ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-500'}`}>
+                  {d.done ? <CheckCircle2 size={12} /> : <Loader2 size={12} className="animate-spin" />}
+                  {personaName(d.persona)}{d.persona === persona ? '（审判长）' : ''}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Progress Bar with Percentage Text: share of verdict sections received */}
           <div className="w-full max-w-xs">
             <div className="bg-slate-100 h-3 rounded-full overflow-hidden shadow-inner border border-slate-200 mb-2">
                <div 
-                 className="h-full rounded-full transition-all ease-linear duration-200"
+                 className="h-full rounded-full transition-all ease-out duration-500"
                  style={{ 
                    width: `${progress}%`, 
-                   backgroundColor: isCat ? '#fb7185' : '#475569'
+                   backgroundColor: isWarm ? '#fb7185' : '#475569'
                  }}
                ></div>
             </div>
             <div className="flex justify-between px-1">
-                <p className="text-xs text-slate-400 italic">正在查阅案卷与证据...</p>
-                <p className={`text-xs font-bold ${isCat ? 'text-rose-500' : 'text-slate-500'}`}>{Math.floor(progress)}%</p>
+                <p className="text-xs text-slate-400 italic">
+                  {partial ? `已完成 ${completedCount}/${sections.length} 个部分`
+                    : isConferring ? `已有 ${opinionsDone}/${deliberation.length} 位法官形成意见` : '正在查阅案卷与证据...'}
+                </p>
+                <p className={`text-xs font-bold ${isWarm ? 'text-rose-500' : 'text-slate-500'}`}>{Math.floor(progress)}%</p>
             </div>
           </div>
+
+          {streamError && (
+            <div className="w-full max-w-md bg-red-50 border border-red-200 rounded-xl p-4 space-y-3">
+              <p className="text-sm text-red-700 flex items-center gap-2"><AlertOctagon size={16} /> {streamError}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => handleJudgement(true)} className="bg-slate-900 text-white text-sm font-bold py-2 rounded-lg flex items-center justify-center gap-1">
+                  <RefreshCw size={14} /> 继续生成
+                </button>
+                <button onClick={handleRestart} className="bg-white text-slate-600 border border-slate-200 text-sm font-bold py-2 rounded-lg">
+                  重新开始
+                </button>
+              </div>
+            </div>
+          )}
+
+          {partial && (
+            <div className="w-full">
+              <VerdictView verdict={normalizeVerdict(partial)} persona={persona} pending={pending} demands={getCaseDemands(data)} counterclaims={getCounterclaims(data)} />
+            </div>
+          )}
        </div>
     )
   }
@@ -389,50 +751,64 @@ const AdjudicationStep = ({ data, onSubmit }: { data: CaseData, onSubmit: (d: Pa
     <div className="p-4 space-y-6">
       <div className="text-center space-y-2 py-4">
         <Gavel size={48} className="text-slate-800 mx-auto" />
-        <h2 className="text-2xl font-bold text-slate-800 font-cute">AI 法庭已开庭</h2>
-        <p className="text-slate-500">请选择本案的主审法官风格</p>
+        <h2 className="text-2xl font-bold text-slate-800 font-cute">{appealedPersona ? 'AI 法庭上诉重审' : 'AI 法庭已开庭'}</h2>
+        <p className="text-slate-500">{appealedPersona ? '请选择与原审不同的法官重新审理' : '请选择本案的主审法官风格'}</p>
       </div>
+
+      {appealedPersona && <AppealSummary appeal={data.appeal!} />}
       
-      <div className="grid gap-4">
-        {personas.map(p => (
-          <button 
-            key={p.id} 
-            onClick={() => setPersona(p.id)} 
-            className={`flex items-center p-4 rounded-xl border-2 transition-all text-left group ${
-              persona === p.id 
-                ? 'border-rose-500 bg-rose-50 shadow-md scale-[1.02]' 
-                : 'border-slate-200 bg-white hover:border-rose-200'
-            }`}
-          >
-            <div className={`w-14 h-14 rounded-full flex items-center justify-center mr-4 transition-colors ${
-              persona === p.id ? 'bg-white' : 'bg-slate-100 group-hover:bg-slate-50'
-            }`}>
-              {p.icon}
-            </div>
-            <div>
-              <h3 className={`font-bold text-lg font-cute ${persona === p.id ? 'text-rose-700' : 'text-slate-800'}`}>
-                {p.name}
-              </h3>
-              <p className={`text-xs ${persona === p.id ? 'text-rose-600' : 'text-slate-500'}`}>
-                {p.desc}
-              </p>
-            </div>
-          </button>
-        ))}
-      </div>
+      <PersonaPicker userId={userId} selected={persona} excluded={appealedPersona} onSelect={setPersona} />
 
-      <button onClick={handleJudgement} className="w-full bg-slate-900 text-white font-bold py-4 rounded-xl shadow-xl flex justify-center items-center gap-2 mt-4 hover:scale-[1.01] transition-transform">
+      <label className={`flex items-start gap-3 p-4 rounded-xl border-2 cursor-pointer transition-all ${panelMode ? 'border-amber-400 bg-amber-50' : 'border-dashed border-slate-200 bg-white'}`}>
+        <input type="checkbox" checked={panelMode} onChange={e => setPanelMode(e.target.checked)} className="mt-1 accent-amber-500" />
+        <div>
+          <p className="font-bold text-slate-800 flex items-center gap-1"><Users size={16} /> 合议庭审理</p>
+          <p className="text-xs text-slate-500">{panelFor(persona).length} 位法官（内置法官与选中的法官）分别独立判决，由选中的法官担任审判长形成多数意见，责任比例取平均，分歧较大的法官可发表异议。耗时更长。</p>
+        </div>
+      </label>
+
+      <button onClick={() => handleJudgement()} className="w-full bg-slate-900 text-white font-bold py-4 rounded-xl shadow-xl flex justify-center items-center gap-2 mt-4 hover:scale-[1.01] transition-transform">
         <><Gavel size={20} /> 召唤 AI 判决</>
       </button>
     </div>
   );
 };
 
-const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict, persona: JudgePersona, onReset: () => void, onAppeal: () => void }) => {
-  const isCat = persona === JudgePersona.CAT;
+const RULING_COLORS: Record<RulingKind, string> = {
+  support: 'text-green-600', // Pure support
+  reject: 'text-rose-600',
+  modify: 'text-orange-600',
+  other: 'text-slate-700'
+};
+
+type ExportKind = 'print' | 'html' | 'archive';
+
+// Placeholder for a verdict section that has not streamed in yet
+const SectionSkeleton = ({ title }: { title: string }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-dashed border-slate-100">
+    <h3 className="text-xl text-slate-300 mb-4 flex items-center gap-2">
+      <Loader2 size={18} className="animate-spin" /> {title}
+    </h3>
+    <div className="space-y-2 animate-pulse">
+      <div className="h-3 bg-slate-100 rounded w-full"></div>
+      <div className="h-3 bg-slate-100 rounded w-5/6"></div>
+      <div className="h-3 bg-slate-100 rounded w-2/3"></div>
+    </div>
+  </div>
+);
+
+// `pending` lists sections still being generated: they render as skeletons and the actions are hidden
+// `tasks` (closed cases) turns the penalty tasks into a tracker the parties can work through
+// `demands` labels the structured rulings with the demand they answer
+const VerdictView = ({ verdict, persona, pending, demands = [], counterclaims = [], history, appealsLeft, tasks, viewerRole, caseId, jury, onTaskAction, onReset, onAppeal, onExport }: { verdict: Verdict, persona: string, pending?: (keyof Verdict)[], demands?: Demand[], counterclaims?: Counterclaim[], history?: VerdictRecord[], appealsLeft?: number, tasks?: TrackedTask[], viewerRole?: UserRole, caseId?: string, jury?: JuryResult | null, onTaskAction?: (taskId: string, action: TaskAction, details?: { proof?: EvidenceItem; reason?: string }) => Promise<void>, onReset?: () => void, onAppeal?: () => void, onExport?: (kind: ExportKind) => void }) => {
+  const judge = PersonaRegistry.get(persona);
+  const isWarm = judge.palette === 'warm';
+  const streaming = !!pending;
+  const isPending = (section: keyof Verdict) => !!pending?.includes(section);
+  const isPanel = !!verdict.panel?.length || isPending('panel');
   
   // Styles based on persona
-  const headerClass = isCat ? 'bg-rose-400' : 'bg-slate-800';
+  const headerClass = isWarm ? 'bg-rose-400' : 'bg-slate-800';
   
   // Filter Tasks
   const plaintiffTasks = verdict.penaltyTasks.filter(t => t.assignee === 'PLAINTIFF');
@@ -440,44 +816,22 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
 
   // Helper to format the final judgment text
   const renderJudgmentText = (text: string) => {
-    // 1. Normalize line breaks
-    let normalized = text.replace(/\\n/g, '\n');
-    
-    // 2. If it looks like a list "1. ... 2. ...", insert newlines if missing
-    // Match "digit." or "digit、" preceded by space or start of line
-    normalized = normalized.replace(/(\s|^)(\d+[.、])/g, '$1\n$2');
-    
-    // 3. Remove excessive newlines
-    normalized = normalized.replace(/\n{2,}/g, '\n');
-
-    return normalized.split('\n').map((line, index) => {
-      const trimmed = line.trim();
-      if (!trimmed) return null;
-
-      // Check for the specific pattern: "1. 【Decision】Content"
-      // Example: "1. 【支持】 关于要求..."
-      const match = trimmed.match(/^(\d+[.、])?\s*(【.*?】)(.*)/);
-      
-      if (match) {
-         const [_, prefix, decision, content] = match;
-         let decisionColor = 'text-slate-700';
+    return parseJudgmentLines(text).map((line, index) => {
+      if (line.decision) {
          // Check decision type for coloring
-         if (decision.includes('支持') && !decision.includes('修正')) decisionColor = 'text-green-600'; // Pure support
-         else if (decision.includes('驳回')) decisionColor = 'text-rose-600'; // Reject
-         else if (decision.includes('修正') || decision.includes('建议')) decisionColor = 'text-orange-600'; // Modify
-
+         const decisionColor = RULING_COLORS[line.kind!];
          return (
             <p key={index} className="mb-3 pl-0 text-slate-700 font-sans leading-relaxed">
-               {prefix && <span className="font-bold mr-1 text-slate-800">{prefix}</span>}
-               <span className={`font-bold ${decisionColor} mr-1`}>{decision}</span>
-               <span style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{content}</span>
+               {line.prefix && <span className="font-bold mr-1 text-slate-800">{line.prefix}</span>}
+               <span className={`font-bold ${decisionColor} mr-1`}>{line.decision}</span>
+               <span style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{line.text}</span>
             </p>
          );
       }
 
       return (
-        <p key={index} className={`mb-2 ${/^\d+[.、]/.test(trimmed) ? 'pl-0' : ''}`} style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>
-          {trimmed}
+        <p key={index} className={`mb-2 ${/^\d+[.、]/.test(line.text) ? 'pl-0' : ''}`} style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>
+          {line.text}
         </p>
       );
     });
@@ -494,20 +848,28 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
         <div className="relative z-10 text-center">
           <div className="flex justify-center mb-2">
              <div className="bg-white/20 p-3 rounded-full backdrop-blur-sm">
-                {isCat ? <Cat size={40} className="text-white drop-shadow-md" /> : <Dog size={40} className="text-white drop-shadow-md" />}
+                <PersonaAvatar persona={judge} size={40} className="text-white drop-shadow-md" />
              </div>
           </div>
           {/* Added font-normal to avoid synthetic bolding on ZCOOL KuaiLe which breaks some chars like '决' */}
           <h2 className="text-4xl mb-2 tracking-widest drop-shadow-md font-normal">判决书</h2>
           <div className="flex items-center justify-center gap-2 opacity-90 text-sm font-sans bg-black/10 mx-auto w-fit px-3 py-1 rounded-full">
             <PawPrint size={14} />
-            <span>{isCat ? '猫猫法庭 · 喵呜裁决' : '边牧法庭 · 汪汪裁决'}</span>
+            <span>{isPanel ? `合议庭 · 审判长${judge.name}` : courtTitleOf(judge)}</span>
             <PawPrint size={14} />
           </div>
         </div>
       </div>
 
       <div className="bg-white p-6 rounded-b-3xl shadow-xl -mt-6 border-x border-b border-slate-100 relative z-20">
+         {isPending('summary') ? (
+           <div className="h-3 bg-slate-100 rounded w-3/4 mx-auto mb-4 animate-pulse"></div>
+         ) : verdict.summary && (
+           <p className="text-slate-500 text-sm text-center mb-4 font-sans" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{verdict.summary}</p>
+         )}
+         {isPending('responsibilitySplit') ? (
+           <div className="h-6 bg-slate-100 rounded-full animate-pulse"></div>
+         ) : (<>
          <div className="flex justify-between mb-2 text-lg font-bold uppercase font-sans">
             <span className="text-rose-500 flex items-center gap-1"><User size={18}/> 原告 {verdict.responsibilitySplit.plaintiff}%</span>
             <span className="text-indigo-500 flex items-center gap-1">被告 {verdict.responsibilitySplit.defendant}% <User size={18}/></span>
@@ -516,11 +878,45 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
             <div className="bg-rose-500 h-full flex items-center justify-center transition-all duration-1000" style={{ width: `${verdict.responsibilitySplit.plaintiff}%` }}></div>
             <div className="bg-indigo-500 h-full flex items-center justify-center transition-all duration-1000" style={{ width: `${verdict.responsibilitySplit.defendant}%` }}></div>
          </div>
+         </>)}
       </div>
 
+      {isPending('panel') ? <SectionSkeleton title="合议庭意见" /> : verdict.panel && verdict.panel.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100">
+          <h3 className="text-xl text-slate-800 mb-4 flex items-center gap-2">
+            <Users className={isWarm ? "text-rose-500" : "text-slate-800"} />
+            合议庭意见
+          </h3>
+          <div className="space-y-3 font-sans">
+            {verdict.panel.map(o => (
+              <div key={o.persona} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="font-bold text-slate-700 flex items-center gap-1">
+                    <PersonaAvatar persona={PersonaRegistry.get(o.persona)} size={16} className="text-slate-700" />
+                    {personaName(o.persona)}{o.persona === persona ? '（审判长）' : ''}
+                  </span>
+                  {o.responsibilitySplit && (
+                    <span className="text-xs text-slate-400">原告 {o.responsibilitySplit.plaintiff}% · 被告 {o.responsibilitySplit.defendant}%</span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{o.position}</p>
+                {o.dissent && (
+                  <p className="text-sm text-amber-800 bg-amber-50 border border-amber-100 p-2 rounded mt-2" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>
+                    <span className="font-bold">异议：</span>{o.dissent}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {jury && <JuryResultCard jury={jury} verdict={verdict.responsibilitySplit} />}
+
+      {isPending('facts') ? <SectionSkeleton title="事实认定" /> : (
       <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100 relative overflow-hidden">
         <h3 className="text-xl text-slate-800 mb-4 flex items-center gap-2">
-            <CheckCircle2 className={isCat ? "text-rose-500" : "text-slate-800"} /> 
+            <CheckCircle2 className={isWarm ? "text-rose-500" : "text-slate-800"} /> 
             事实认定
         </h3>
         <ul className="space-y-3 text-slate-600 font-sans">
@@ -532,17 +928,19 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
             ))}
         </ul>
       </div>
+      )}
 
+      {isPending('disputeAnalyses') && <SectionSkeleton title="争议焦点分析" />}
       {verdict.disputeAnalyses && verdict.disputeAnalyses.length > 0 && (
         <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100 relative overflow-hidden">
           <h3 className="text-xl text-slate-800 mb-4 flex items-center gap-2">
-             <Scale className={isCat ? "text-rose-500" : "text-slate-800"} />
+             <Scale className={isWarm ? "text-rose-500" : "text-slate-800"} />
              争议焦点分析
           </h3>
           <div className="space-y-4 font-sans">
             {verdict.disputeAnalyses.map((item, idx) => (
-              <div key={idx} className={`p-4 rounded-xl ${isCat ? 'bg-rose-50/50 border border-rose-100' : 'bg-slate-50 border border-slate-100'}`}>
-                 <h4 className={`font-bold mb-2 ${isCat ? 'text-rose-700' : 'text-slate-700'}`} style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{item.title}</h4>
+              <div key={idx} className={`p-4 rounded-xl ${isWarm ? 'bg-rose-50/50 border border-rose-100' : 'bg-slate-50 border border-slate-100'}`}>
+                 <h4 className={`font-bold mb-2 ${isWarm ? 'text-rose-700' : 'text-slate-700'}`} style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{item.title}</h4>
                  <p className="text-slate-600 text-base leading-relaxed" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{item.analysis}</p>
               </div>
             ))}
@@ -550,18 +948,58 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
         </div>
       )}
 
-      <div className={`${isCat ? 'bg-orange-50 border-orange-100' : 'bg-blue-50 border-blue-100'} p-6 rounded-2xl shadow-sm border-2 relative`}>
+      {isPending('rulings') ? <SectionSkeleton title="诉请裁决" /> : verdict.rulings && verdict.rulings.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100">
+          <h3 className="text-xl text-slate-800 mb-4 flex items-center gap-2">
+            <ListChecks className={isWarm ? "text-rose-500" : "text-slate-800"} />
+            诉请裁决
+          </h3>
+          <div className="space-y-3 font-sans">
+            {getRulings(verdict, demands, counterclaims).map((r, i) => {
+              const demand = demands.find(d => d.id === r.demandId);
+              const counterclaim = counterclaims.find(d => d.id === r.demandId);
+              return (
+                <div key={r.demandId || i} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+                  <div className="flex justify-between items-start gap-2">
+                    <p className="font-bold text-slate-800" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>
+                      {i + 1}. {r.counterclaim && <span className="text-xs text-indigo-600 bg-indigo-50 border border-indigo-100 px-1.5 py-0.5 rounded mr-1">反诉</span>}{r.demand || '诉请'}
+                    </p>
+                    <span className={`font-bold shrink-0 ${RULING_COLORS[r.kind]}`}>{r.decision}</span>
+                  </div>
+                  {demand?.defendantStance && (
+                    <p className="text-xs text-slate-400 mt-1">被告回应：{STANCE_LABELS[demand.defendantStance]}{demand.defendantComment ? `，${demand.defendantComment}` : ''}</p>
+                  )}
+                  {counterclaim?.plaintiffStance && (
+                    <p className="text-xs text-slate-400 mt-1">原告回应：{STANCE_LABELS[counterclaim.plaintiffStance]}{counterclaim.plaintiffComment ? `，${counterclaim.plaintiffComment}` : ''}</p>
+                  )}
+                  {r.remedy && (
+                    <p className="text-sm text-orange-800 bg-orange-50 border border-orange-100 p-2 rounded mt-2" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>
+                      <span className="font-bold">调整为：</span>{r.remedy}
+                    </p>
+                  )}
+                  <p className="text-sm text-slate-600 mt-2" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{r.text}</p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {isPending('finalJudgment') ? <SectionSkeleton title="法官寄语" /> : (
+      <div className={`${isWarm ? 'bg-orange-50 border-orange-100' : 'bg-blue-50 border-blue-100'} p-6 rounded-2xl shadow-sm border-2 relative`}>
         <div className="absolute top-0 right-0 p-4 opacity-10">
-            <Gavel size={80} className={isCat ? "text-orange-500" : "text-blue-500"} />
+            <Gavel size={80} className={isWarm ? "text-orange-500" : "text-blue-500"} />
         </div>
-        <h3 className={`text-xl mb-3 flex items-center gap-2 ${isCat ? 'text-orange-800' : 'text-blue-800'}`}>
+        <h3 className={`text-xl mb-3 flex items-center gap-2 ${isWarm ? 'text-orange-800' : 'text-blue-800'}`}>
             <Sparkles size={20} /> 法官寄语
         </h3>
-        <div className={`text-lg leading-relaxed ${isCat ? 'text-orange-900' : 'text-slate-800'}`}>
+        <div className={`text-lg leading-relaxed ${isWarm ? 'text-orange-900' : 'text-slate-800'}`}>
             {renderJudgmentText(verdict.finalJudgment)}
         </div>
       </div>
+      )}
       
+      {isPending('penaltyTasks') && <SectionSkeleton title="爱的破冰大冒险" />}
       {/* Revised Penalty Tasks Section - "Love Ice-breaking Adventure" */}
       {(plaintiffTasks.length > 0 || defendantTasks.length > 0) && (
          <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100">
@@ -573,6 +1011,9 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
              </div>
              <p className="text-xs text-slate-400 mb-4 ml-1">完成这些互动小挑战，让爱重新流动起来~</p>
              
+             {tasks ? (
+               <PenaltyTaskList tasks={tasks} viewerRole={viewerRole} caseId={caseId} onAction={onTaskAction} />
+             ) : (
              <div className="space-y-6">
                  {/* Plaintiff Tasks */}
                  {plaintiffTasks.length > 0 && (
@@ -614,46 +1055,285 @@ const VerdictView = ({ verdict, persona, onReset, onAppeal }: { verdict: Verdict
                      </div>
                  )}
              </div>
+             )}
          </div>
       )}
 
+      {history && history.length > 1 && <VerdictComparison history={history} demands={demands} counterclaims={counterclaims} />}
+
+      {!streaming && (
       <div className="space-y-3 pt-2 font-sans">
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => onExport('print')} className="bg-white text-slate-700 border border-slate-200 text-sm font-bold py-2 rounded-xl flex flex-col items-center gap-1 hover:bg-slate-50">
+            <Printer size={18} /> 打印 / PDF
+          </button>
+          <button onClick={() => onExport('html')} className="bg-white text-slate-700 border border-slate-200 text-sm font-bold py-2 rounded-xl flex flex-col items-center gap-1 hover:bg-slate-50">
+            <FileDown size={18} /> 下载判决书
+          </button>
+          <button onClick={() => onExport('archive')} className="bg-white text-slate-700 border border-slate-200 text-sm font-bold py-2 rounded-xl flex flex-col items-center gap-1 hover:bg-slate-50">
+            <Archive size={18} /> 导出存档
+          </button>
+        </div>
         <button onClick={onReset} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl">结案，新案件</button>
-        <button onClick={onAppeal} className="w-full bg-white text-rose-600 border-2 border-rose-100 font-bold py-3 rounded-xl">不服判决？换法官重审</button>
+        {appealsLeft > 0 ? (
+          <button onClick={onAppeal} className="w-full bg-white text-rose-600 border-2 border-rose-100 font-bold py-3 rounded-xl">不服判决？提起上诉（还可上诉 {appealsLeft} 次）</button>
+        ) : (
+          <p className="text-center text-xs text-slate-400 py-2">本案上诉次数已用完，判决为终审判决</p>
+        )}
       </div>
+      )}
     </div>
   )
 };
 
+// --- Appeals ---
+
+// Grounds and response of an appeal, shown to both parties and on the re-hearing screen
+const AppealSummary = ({ appeal }: { appeal: NonNullable<CaseData['appeal']> }) => (
+  <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3 text-sm">
+    <div>
+      <p className="font-bold text-amber-900 mb-1">{partyName(appeal.appellant)}的上诉理由</p>
+      <p className="text-amber-800 whitespace-pre-wrap bg-white/60 p-2 rounded">{appeal.grounds}</p>
+    </div>
+    {appeal.response && (
+      <div>
+        <p className="font-bold text-amber-900 mb-1">{partyName(appeal.appellant === UserRole.PLAINTIFF ? UserRole.DEFENDANT : UserRole.PLAINTIFF)}的答辩意见</p>
+        <p className="text-amber-800 whitespace-pre-wrap bg-white/60 p-2 rounded">{appeal.response}</p>
+      </div>
+    )}
+  </div>
+);
+
+const AppealFilingForm = ({ data, remaining, onSubmit, onCancel }: { data: CaseData, remaining: number, onSubmit: (grounds: string) => Promise<void> | void, onCancel: () => void }) => {
+  const [grounds, setGrounds] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!grounds.trim()) return alert("请填写上诉理由");
+    setIsSubmitting(true);
+    await onSubmit(grounds);
+    setIsSubmitting(false);
+  };
+
+  const verdict = normalizeVerdict(data.verdict);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-100 p-5 rounded-xl border border-slate-200 text-sm space-y-2">
+        <p className="font-bold text-slate-700">原判决（{personaName(data.judgePersona)}）</p>
+        <p className="text-slate-600">责任划分：原告 {verdict.responsibilitySplit.plaintiff}% · 被告 {verdict.responsibilitySplit.defendant}%</p>
+        <p className="text-slate-500 line-clamp-4 whitespace-pre-wrap">{verdict.finalJudgment}</p>
+      </div>
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-xl font-bold text-slate-800 mb-1 font-cute">提起上诉</h2>
+        <p className="text-xs text-slate-400 mb-4">对方答辩后，将由另一位法官结合原判决与上诉理由重新审理。本案还可上诉 {remaining} 次。</p>
+        <VoiceTextarea label="上诉理由" placeholder="原判决哪里认定有误？请具体说明..." value={grounds} onChange={setGrounds} required />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={onCancel} className="bg-white text-slate-600 border border-slate-200 font-bold py-3 rounded-xl">取消</button>
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          className="bg-rose-600 text-white font-bold py-3 rounded-xl hover:bg-rose-700 shadow-lg flex items-center justify-center gap-2 disabled:opacity-70"
+        >
+          {isSubmitting ? <Loader2 className="animate-spin" /> : "提交上诉"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// APPEAL status: the other party answers the grounds, the appellant may withdraw meanwhile
+const AppealStep = ({ data, role, onSubmit }: { data: CaseData, role: UserRole, onSubmit: (d: Partial<CaseData>) => Promise<void> | void }) => {
+  const [response, setResponse] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const appeal = data.appeal!;
+  const isAppellant = role === appeal.appellant;
+  // Default judgments have no defendant to answer: the appellant proceeds directly
+  const hasRespondent = !!data.defendantId;
+
+  const submit = async (patch: Partial<CaseData>) => {
+    setIsSubmitting(true);
+    await onSubmit(patch);
+    setIsSubmitting(false);
+  };
+
+  const handleRespond = () => {
+    if (!response.trim()) return alert("请填写答辩意见");
+    submit({ appeal: { ...appeal, response: response.trim(), respondedAt: Date.now() }, status: CaseStatus.ADJUDICATING });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-1 py-2">
+        <Scale size={40} className="text-amber-600 mx-auto" />
+        <h2 className="text-xl font-bold text-slate-800 font-cute">{partyName(appeal.appellant)}已提起上诉</h2>
+        <p className="text-xs text-slate-400">{new Date(appeal.filedAt).toLocaleString()}</p>
+      </div>
+
+      <AppealSummary appeal={appeal} />
+
+      {!isAppellant && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800 mb-4 font-cute">上诉答辩</h2>
+          <VoiceTextarea label="答辩意见" placeholder="你对上诉理由的看法..." value={response} onChange={setResponse} required />
+          <button
+            onClick={handleRespond}
+            disabled={isSubmitting}
+            className="w-full mt-4 bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-70"
+          >
+            {isSubmitting ? <Loader2 className="animate-spin" /> : <><Gavel size={18} /> 提交答辩，换法官重审</>}
+          </button>
+        </div>
+      )}
+
+      {isAppellant && (
+        <div className="space-y-3">
+          {hasRespondent ? (
+            <p className="text-center text-sm text-slate-500 bg-slate-100 p-4 rounded-xl">等待对方提交答辩意见...</p>
+          ) : (
+            <button
+              onClick={() => submit({ status: CaseStatus.ADJUDICATING })}
+              disabled={isSubmitting}
+              className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2 disabled:opacity-70"
+            >
+              <Gavel size={18} /> 对方缺席，直接进入重审
+            </button>
+          )}
+          <button
+            onClick={() => submit({ appeal: { ...appeal, withdrawnAt: Date.now() }, status: CaseStatus.CLOSED })}
+            disabled={isSubmitting}
+            className="w-full bg-white text-slate-600 border border-slate-200 font-bold py-3 rounded-xl disabled:opacity-70"
+          >
+            撤回上诉
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// How the responsibility split and the rulings changed from one hearing to the next
+const VerdictComparison = ({ history, demands, counterclaims }: { history: VerdictRecord[], demands: Demand[], counterclaims: Counterclaim[] }) => {
+  const rounds = history.map(r => ({ ...r, verdict: normalizeVerdict(r.verdict) }));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-slate-100 font-sans">
+      <h3 className="text-xl text-slate-800 mb-4 flex items-center gap-2 font-cute">
+        <History className="text-amber-600" /> 历次判决对比
+      </h3>
+      <div className="space-y-4">
+        {rounds.map((r, i) => {
+          const change = i > 0 ? compareVerdicts(rounds[i - 1].verdict, r.verdict, demands, counterclaims) : null;
+          const split = r.verdict.responsibilitySplit;
+          return (
+            <div key={r.round} className="border border-slate-100 rounded-xl p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="font-bold text-slate-800">
+                  {getRoundLabel(r.round)} · {r.verdict.panel?.length ? `合议庭（审判长${personaName(r.judgePersona)}）` : personaName(r.judgePersona)}
+                </span>
+                <span className="text-xs text-slate-400">{new Date(r.deliveredAt).toLocaleDateString()}</span>
+              </div>
+              {r.appeal && (
+                <p className="text-xs text-amber-800 bg-amber-50 p-2 rounded line-clamp-3">
+                  {partyName(r.appeal.appellant)}上诉：{r.appeal.grounds}
+                </p>
+              )}
+              <div>
+                <div className="flex justify-between text-xs font-bold mb-1">
+                  <span className="text-rose-500">原告 {split.plaintiff}%</span>
+                  {change && change.plaintiffDelta !== 0 && (
+                    <span className="text-slate-500">原告责任 {change.plaintiffDelta > 0 ? '+' : ''}{change.plaintiffDelta}%</span>
+                  )}
+                  <span className="text-indigo-500">被告 {split.defendant}%</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden flex">
+                  <div className="bg-rose-500 h-full" style={{ width: `${split.plaintiff}%` }}></div>
+                  <div className="bg-indigo-500 h-full" style={{ width: `${split.defendant}%` }}></div>
+                </div>
+              </div>
+              {change && change.rulings.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {change.rulings.map((ruling, j) => (
+                    <li key={j} className="flex items-start gap-2">
+                      <span className="text-slate-400 shrink-0">{j + 1}.</span>
+                      {ruling.demand && <span className="text-slate-600 line-clamp-1">{ruling.counterclaim ? '（反诉）' : ''}{ruling.demand}</span>}
+                      <span className="text-slate-400 shrink-0">{ruling.before?.decision || '—'}</span>
+                      <span className="text-slate-300 shrink-0">→</span>
+                      <span className={`font-bold shrink-0 ${ruling.after ? RULING_COLORS[ruling.after.kind] : 'text-slate-400'}`}>{ruling.after?.decision || '—'}</span>
+                      {ruling.changed && <span className="text-xs bg-amber-100 text-amber-700 px-1.5 rounded shrink-0">改判</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 // --- Auth & Dashboard ---
 
-const getStatusText = (status: CaseStatus) => {
-  switch (status) {
-    case CaseStatus.DRAFTING: return "起草中";
-    case CaseStatus.PLAINTIFF_EVIDENCE: return "原告举证";
-    case CaseStatus.DEFENSE_PENDING: return "等待应诉";
-    case CaseStatus.CROSS_EXAMINATION: return "质证环节";
-    case CaseStatus.DEBATE: return "争议辩论";
-    case CaseStatus.ADJUDICATING: return "AI审理中";
-    case CaseStatus.CLOSED: return "已结案";
-    case CaseStatus.CANCELLED: return "已撤诉";
-    default: return status;
-  }
+// Shown on case cards while writes wait in the offline queue
+const SyncBadge = ({ caseId }: { caseId: string }) => {
+  const state = MockDb.getSyncState(caseId);
+  if (state === 'synced') return null;
+  const failed = state === 'failed';
+  return (
+    <div
+      className={`text-xs px-2 py-1 rounded font-bold whitespace-nowrap flex items-center gap-1 ${failed ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+      title={failed ? '同步失败，请在上方处理' : '离线修改，联网后自动同步'}
+    >
+      <CloudOff size={12} /> {failed ? '同步失败' : '待同步'}
+    </div>
+  );
 };
 
-const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCase: (id: string) => void, onLogout: () => void }) => {
+const Dashboard = ({ user, userName, onSelectCase, onOpenInsights, onLogout }: { user: string, userName: string, onSelectCase: (id: string) => void, onOpenInsights: () => void, onLogout: () => void }) => {
   const [cases, setCases] = useState<CaseData[]>([]);
+  const [hearings, setHearings] = useState<CaseData[]>([]);
   const [joinCode, setJoinCode] = useState("");
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
-
-  const refresh = () => setCases(MockDb.getCasesForUser(user));
+  const [failedWrites, setFailedWrites] = useState<PendingWrite[]>([]);
+  // Penalty tasks of closed cases that have not been confirmed yet
+  const outstandingTasks = cases.flatMap(c => getOutstandingTasks(c).map(task => ({ c, task })));
+  // Phases whose deadline is near while this user still owes an answer
+  const deadlineReminders = cases.flatMap(c => {
+    const role = c.plaintiffId === user ? UserRole.PLAINTIFF : c.defendantId === user ? UserRole.DEFENDANT : UserRole.SPECTATOR;
+    const reminder = getDeadlineReminder(c, role);
+    return reminder ? [{ c, ...reminder }] : [];
+  });
+
+  const refresh = async () => {
+    setFailedWrites(MockDb.getFailedWrites());
+    setCases(await MockDb.getCasesForUser(user));
+    setHearings(await MockDb.getHearingsForUser(user));
+  };
   useEffect(() => { refresh(); }, [user]);
 
+  // Re-render the sync badges whenever the offline write queue changes
+  useEffect(() => {
+    return MockDb.onSyncQueueChange(refresh);
+  }, [user]);
+
+  const handleRetryWrite = async (entryId: string) => {
+    await MockDb.retryWrite(entryId);
+    refresh();
+  };
+
+  const handleDiscardWrite = async (entryId: string) => {
+    if (!window.confirm("放弃后，本设备上尚未同步的修改将被丢弃，并恢复为云端版本。确定吗？")) return;
+    await MockDb.discardWrite(entryId);
+    refresh();
+  };
+
   const handleCreate = async () => {
     setIsCreating(true);
     try {
-      const newCase = await MockDb.createCase(user);
+      const newCase = await MockDb.createCase();
       onSelectCase(newCase.id);
     } catch (e) {
       console.error(e);
@@ -663,8 +1343,28 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
     }
   };
 
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await MockDb.importCase(CaseExport.parseCaseArchive(await file.text()), user);
+      await refresh();
+      alert("案件存档已导入");
+    } catch (e: any) {
+      console.error("Import failed", e);
+      alert(e?.message || "导入失败");
+    }
+  };
+
   const handleJoin = async () => {
-    const res = await MockDb.joinCase(joinCode.trim().toUpperCase(), user);
+    const res = await MockDb.joinCase(joinCode.trim().toUpperCase());
+    if (res.success && res.caseId) onSelectCase(res.caseId);
+    else alert(res.error || "加入失败");
+  };
+
+  const handleJoinHearing = async () => {
+    const res = await MockDb.joinHearing(joinCode);
     if (res.success && res.caseId) onSelectCase(res.caseId);
     else alert(res.error || "加入失败");
   };
@@ -677,12 +1377,12 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
     setDeleteTargetId(caseId);
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = async () => {
     if (deleteTargetId) {
        try {
-        MockDb.deleteCase(deleteTargetId);
+        await MockDb.deleteCase(deleteTargetId);
         // Immediately refresh state
-        setCases(MockDb.getCasesForUser(user));
+        setCases(await MockDb.getCasesForUser(user));
       } catch (err) {
         console.error("Delete failed", err);
       }
@@ -713,19 +1413,109 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
 
       <div className="space-y-6 max-w-md mx-auto">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-rose-100 text-center">
-          <h2 className="text-lg font-bold text-slate-800 mb-4 font-cute">欢迎, {user}</h2>
+          <h2 className="text-lg font-bold text-slate-800 mb-4 font-cute">欢迎, {userName}</h2>
           <div className="grid grid-cols-2 gap-3">
             <button onClick={handleCreate} disabled={isCreating} className="bg-rose-600 text-white p-4 rounded-xl font-bold flex flex-col items-center gap-2 hover:bg-rose-700 disabled:opacity-50">
               {isCreating ? <Loader2 className="animate-spin" /> : <PlusCircle />} 
               发起起诉
             </button>
             <div className="bg-slate-100 p-4 rounded-xl flex flex-col gap-2">
-              <input value={joinCode} onChange={e => setJoinCode(e.target.value)} placeholder="输入案件码" className="w-full text-center text-sm p-1 rounded bg-white border border-slate-200 uppercase" />
-              <button onClick={handleJoin} disabled={!joinCode} className="bg-indigo-600 text-white text-sm font-bold py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">被告应诉</button>
+              <input value={joinCode} onChange={e => setJoinCode(e.target.value)} placeholder="输入案件码或旁听码" className="w-full text-center text-sm p-1 rounded bg-white border border-slate-200 uppercase" />
+              <div className="flex gap-2">
+                <button onClick={handleJoin} disabled={!joinCode} className="flex-1 bg-indigo-600 text-white text-sm font-bold py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">被告应诉</button>
+                <button onClick={handleJoinHearing} disabled={!joinCode} className="bg-white text-indigo-600 border border-indigo-200 text-sm font-bold px-2 py-2 rounded-lg hover:bg-indigo-50 disabled:opacity-50">旁听</button>
+              </div>
             </div>
           </div>
+          <div className="mt-3 flex justify-center gap-4">
+            <label className="text-xs text-slate-500 hover:text-rose-600 cursor-pointer inline-flex items-center gap-1">
+              <Upload size={12} /> 导入案件存档
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+            {cases.some(c => c.status === CaseStatus.CLOSED) && (
+              <button onClick={onOpenInsights} className="text-xs text-slate-500 hover:text-rose-600 inline-flex items-center gap-1">
+                <BarChart3 size={12} /> 关系洞察
+              </button>
+            )}
+          </div>
         </div>
 
+        {failedWrites.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 space-y-3">
+            <h3 className="text-sm font-bold text-red-700 flex items-center gap-2">
+              <CloudOff size={16} /> 以下修改未能同步到云端
+            </h3>
+            {failedWrites.map(w => {
+              const c = cases.find(item => item.id === w.caseId);
+              return (
+                <div key={w.id} className="bg-white rounded-lg border border-red-100 p-3">
+                  <p className="text-sm font-bold text-slate-800 line-clamp-1">
+                    {c ? (c.title || c.description || c.category) : w.caseId}
+                    <span className="text-xs font-normal text-slate-500 ml-1">({w.kind === 'insert' ? '立案' : w.kind === 'upload' ? '上传证据' : '修改'})</span>
+                  </p>
+                  {w.lastError && <p className="text-xs text-red-600 mt-1 break-all">{w.lastError}</p>}
+                  <div className="flex gap-2 mt-2">
+                    <button onClick={() => handleRetryWrite(w.id)} className="flex-1 text-xs font-bold py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700 flex items-center justify-center gap-1">
+                      <RefreshCw size={12} /> 重试
+                    </button>
+                    <button onClick={() => handleDiscardWrite(w.id)} className="flex-1 text-xs font-bold py-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200">
+                      {w.kind === 'upload' ? '不再上传' : '放弃本地修改'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {deadlineReminders.length > 0 && (
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">即将到期</h3>
+            <div className="bg-white rounded-xl shadow-sm border border-red-100 divide-y divide-slate-100">
+              {deadlineReminders.map(({ c, deadline, overdue }) => (
+                <div key={c.id} onClick={() => onSelectCase(c.id)} className="p-3 cursor-pointer hover:bg-slate-50 flex items-start gap-3">
+                  <AlarmClock size={16} className="mt-0.5 shrink-0 text-red-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-800 line-clamp-1">{c.title || c.description || c.category}</p>
+                    <p className="text-xs text-slate-400">{getStatusLabel(c.status)} • 截止 {new Date(deadline).toLocaleString()}</p>
+                  </div>
+                  <span className="text-xs font-bold whitespace-nowrap text-red-600">
+                    {overdue ? '已逾期' : `剩 ${formatTimeLeft(deadline - Date.now())}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {outstandingTasks.length > 0 && (
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">待履行的任务</h3>
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+              {outstandingTasks.map(({ c, task }) => {
+                const mine = task.assignee === (c.plaintiffId === user ? 'PLAINTIFF' : 'DEFENDANT');
+                const state = task.status === 'done'
+                  ? (mine ? '等待对方确认' : '待我确认')
+                  : task.status === 'disputed' ? (mine ? '对方有异议' : '等待对方重做') : (mine ? '待完成' : '等待对方完成');
+                const needsMe = mine ? task.status !== 'done' : task.status === 'done';
+                return (
+                  <div key={task.id} onClick={() => onSelectCase(c.id)} className="p-3 cursor-pointer hover:bg-slate-50 flex items-start gap-3">
+                    <Gift size={16} className={`mt-0.5 shrink-0 ${needsMe ? 'text-rose-500' : 'text-slate-300'}`} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-800 line-clamp-2">{task.content}</p>
+                      <p className="text-xs text-slate-400 line-clamp-1">
+                        {c.title || c.category} • {mine ? '我的任务' : '对方的任务'}
+                        {isTaskOverdue(task) && <span className="text-red-600 font-bold"> • 已逾期</span>}
+                      </p>
+                    </div>
+                    <span className={`text-xs font-bold whitespace-nowrap ${needsMe ? 'text-rose-600' : 'text-slate-400'}`}>{state}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <div>
           <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">我的案件</h3>
           <div className="space-y-3">
@@ -738,16 +1528,18 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
                   <p className="text-xs text-slate-500">
                     {/* If title exists, show category in subtitle. Else standard behavior */}
                     {c.title ? c.category + ' • ' : (c.description ? c.category + ' • ' : '')} 
-                    {new Date(c.createdDate).toLocaleDateString()} • {getStatusText(c.status)}
+                    {new Date(c.createdDate).toLocaleDateString()} • {getStatusLabel(c.status)}
                   </p>
                 </div>
                 <div className="flex items-center gap-3 shrink-0">
+                  <SyncBadge caseId={c.id} />
                   <div className={`text-xs px-2 py-1 rounded font-bold whitespace-nowrap ${
-                    c.status === CaseStatus.CLOSED ? 'bg-green-100 text-green-700' : 
+                    c.status === CaseStatus.CLOSED || c.status === CaseStatus.SETTLED ? (isCaseResolved(c) ? 'bg-green-100 text-green-700' : 'bg-teal-50 text-teal-700') : 
                     c.status === CaseStatus.CANCELLED ? 'bg-slate-200 text-slate-500' :
+                    c.status === CaseStatus.APPEAL ? 'bg-amber-100 text-amber-700' :
                     'bg-yellow-100 text-yellow-700'
                   }`}>
-                    {c.status === CaseStatus.CLOSED ? '已结案' : c.status === CaseStatus.CANCELLED ? '已撤诉' : '进行中'}
+                    {c.status === CaseStatus.CLOSED ? (isCaseResolved(c) ? '圆满结案' : '履行中') : c.status === CaseStatus.SETTLED ? (isCaseResolved(c) ? '已和解' : '和解履行中') : c.status === CaseStatus.CANCELLED ? '已撤诉' : c.status === CaseStatus.APPEAL ? '上诉中' : '进行中'}
                   </div>
                   {c.plaintiffId === user && (
                     <button 
@@ -764,6 +1556,26 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
             ))}
           </div>
         </div>
+
+        {hearings.length > 0 && (
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">旁听的案件</h3>
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+              {hearings.map(c => (
+                <div key={c.id} onClick={() => onSelectCase(c.id)} className="p-3 cursor-pointer hover:bg-slate-50 flex items-start gap-3">
+                  <Users size={16} className="mt-0.5 shrink-0 text-indigo-400" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-800 line-clamp-1">{c.title || c.description || c.category}</p>
+                    <p className="text-xs text-slate-400">{getStatusLabel(c.status)}</p>
+                  </div>
+                  {isJuryVotingOpen(c) && !getJuryVote(c, user) && (
+                    <span className="text-xs font-bold whitespace-nowrap text-indigo-600">待投票</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -771,59 +1583,150 @@ const Dashboard = ({ user, onSelectCase, onLogout }: { user: string, onSelectCas
 
 // --- Case Manager (Logic & Orchestration) ---
 
+// Phases in which the parties can still decide whether earlier cases are used (dispute focus, verdict)
+const PRECEDENT_PHASES = [CaseStatus.DEFENSE_PENDING, CaseStatus.CROSS_EXAMINATION, CaseStatus.DEBATE, CaseStatus.ADJUDICATING, CaseStatus.APPEAL];
+
+// Statuses whose regular screen (judgment, settlement) is also what spectators see
+const DECIDED_STATUSES = [CaseStatus.CLOSED, CaseStatus.SETTLED, CaseStatus.CANCELLED];
+
 const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, user: string, onBack: () => void, onSwitchUser: () => void }) => {
   const [data, setData] = useState<CaseData | null>(null);
   const [loading, setLoading] = useState(true);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showDefaultJudgmentConfirm, setShowDefaultJudgmentConfirm] = useState(false);
+  const [showAppealForm, setShowAppealForm] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+  // Custom judges that heard this case, so they display even if this user never imported them
+  PersonaRegistry.remember(data?.judgeProfiles);
   
-  // Use ref to track the time of the last local update action
-  const lastActionTimeRef = useRef<number>(0);
-
   const load = async () => {
-    // Prevent overwriting local optimistic updates with stale server data immediately after a user action (5s buffer)
-    if (Date.now() - lastActionTimeRef.current < 5000) {
-        return;
-    }
-
-    // Sync from cloud instead of just local get to ensure multi-user updates are reflected
+    // Manual refresh: sync from cloud to ensure multi-user updates are reflected
     const c = await MockDb.syncCaseFromCloud(caseId);
     if (c) setData(c);
     setLoading(false);
   };
 
-  // Poll every 3 seconds to keep UI in sync
-  useEffect(() => { 
-      load(); 
-      const int = setInterval(load, 3000); 
-      return () => clearInterval(int); 
+  // Live updates (realtime channel, with polling fallback inside MockDb)
+  useEffect(() => {
+      setLoading(true);
+      const unsubscribe = MockDb.subscribeToCase(caseId, (c) => {
+          setData(c);
+          setLoading(false);
+      });
+      return unsubscribe;
+  }, [caseId]);
+
+  // Surface concurrent edits that could not be merged automatically
+  useEffect(() => {
+      return MockDb.onConflict((id, found) => {
+          if (id !== caseId) return;
+          setConflicts(prev => [...prev, ...found]);
+          MockDb.getCase(caseId).then(merged => merged && setData(merged));
+      });
   }, [caseId]);
 
+  // The appeal form belongs to the CLOSED screen; leave it once the case moves on (or the filing went through)
+  useEffect(() => {
+      setShowAppealForm(false);
+  }, [data?.status]);
+
+  const isPlaintiff = !!data && user === data.plaintiffId;
+  const isDefendant = !!data && user === data.defendantId;
+  const role = isPlaintiff ? UserRole.PLAINTIFF : isDefendant ? UserRole.DEFENDANT : UserRole.SPECTATOR;
+
+  // Once the deadline of the current phase passes, the first party device to notice applies its consequences
+  useEffect(() => {
+      if (!data || role === UserRole.SPECTATOR) return;
+      const deadline = getDeadline(data);
+      if (deadline === null) return;
+      const apply = () => MockDb.applyDeadline(data.id, { userId: user, role })
+        .then(updated => updated && setData(updated))
+        .catch(e => console.warn("Deadline consequences not applied:", e.message));
+      if (Date.now() >= deadline) {
+        apply();
+        return;
+      }
+      const timer = setTimeout(apply, deadline - Date.now());
+      return () => clearTimeout(timer);
+  }, [data, role]);
+
   const update = async (patch: Partial<CaseData>) => {
     if (!data) return;
     
-    // Mark the timestamp of this local action
-    lastActionTimeRef.current = Date.now();
-    
-    // Update local state and sync with Supabase async
-    const updated = await MockDb.updateCase(data.id, patch);
-    setData(updated);
+    // Update local state and sync with Supabase async.
+    // Status changes are validated and recorded by the case state machine.
+    try {
+      const { status, ...rest } = patch;
+      const updated = status !== undefined && status !== data.status
+        ? await MockDb.transitionCase(data.id, status, { userId: user, role }, rest)
+        : await MockDb.updateCase(data.id, rest);
+      setData(updated);
+    } catch (e: any) {
+      console.error("Case update rejected:", e);
+      alert(e.message || "操作失败，请重试");
+    }
+  };
+
+  // Sealed answers go through MockDb, which keeps them from the other party until the round is revealed
+  const seal = async (content: SealedContent) => {
+    if (!data) return false;
+    try {
+      setData(await MockDb.sealSubmission(data.id, { userId: user, role }, content));
+      return true;
+    } catch (e: any) {
+      console.error("Seal rejected:", e);
+      alert(e.message || "提交失败，请重试");
+      return false;
+    }
+  };
+
+  const castJuryVote = async (vote: Pick<JuryVote, 'points' | 'plaintiffShare'>) => {
+    if (!data) return;
+    try {
+      setData(await MockDb.castJuryVote(data.id, vote));
+    } catch (e: any) {
+      console.error("Jury vote rejected:", e);
+      alert(e.message || "投票失败，请重试");
+    }
+  };
+
+  // Triggered automatically once a round is due; the other device may have revealed it first
+  const reveal = async (phase: SealedPhase) => {
+    if (!data) return;
+    try {
+      setData(await MockDb.revealSubmissions(data.id, phase));
+    } catch (e: any) {
+      console.warn("Reveal skipped:", e.message);
+    }
   };
 
   const handleDeleteClick = () => {
     setShowDeleteConfirm(true);
   };
 
-  const confirmDelete = () => {
+  const confirmDelete = async () => {
     if (data) {
-       MockDb.deleteCase(data.id);
+       await MockDb.deleteCase(data.id);
        onBack();
     }
   };
 
+  const handleExport = async (kind: ExportKind) => {
+    if (!data) return;
+    try {
+      if (kind === 'print') await CaseExport.printJudgment(data);
+      else if (kind === 'html') await CaseExport.downloadJudgmentHtml(data);
+      else await CaseExport.downloadCaseArchive(data);
+    } catch (e: any) {
+      console.error("Export failed", e);
+      alert(e?.message || "导出失败");
+    }
+  };
+
   const handleDefaultJudgment = () => {
     update({ 
-      defenseStatement: "（被告缺席，放弃答辩）",
+      defenseStatement: DEFAULT_JUDGMENT_STATEMENT,
       defenseSummary: "被告未出庭应诉，视为放弃答辩权利。",
       status: CaseStatus.ADJUDICATING,
       disputePoints: [] 
@@ -833,74 +1736,14 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
 
   if (loading || !data) return <div className="min-h-screen flex items-center justify-center"><Loader2 className="animate-spin text-rose-600" /></div>;
 
-  const isPlaintiff = user === data.plaintiffId;
-  const isDefendant = user === data.defendantId;
-  const role = isPlaintiff ? UserRole.PLAINTIFF : isDefendant ? UserRole.DEFENDANT : UserRole.SPECTATOR;
-
-  // Handle stepping back through the workflow based on status
+  // Handle stepping back through the workflow based on status (allowed moves come from the case state machine)
   const handleStepBack = () => {
-    if (!data) {
+    const back = data ? getStepBack(data, role) : null;
+    if (!back) {
       onBack();
       return;
     }
-
-    // Phase 1: Drafting -> Can go back to Dashboard
-    if (data.status === CaseStatus.DRAFTING) {
-        onBack();
-        return;
-    }
-
-    // Phase 2: Plaintiff Evidence -> Can go back to Drafting (Un-submit description?)
-    if (isPlaintiff && data.status === CaseStatus.PLAINTIFF_EVIDENCE) {
-      update({ status: CaseStatus.DRAFTING });
-      return;
-    }
-
-    // Phase 3: Defense Pending -> Plaintiff can go back to Evidence
-    // Allows Plaintiff to modify evidence if they clicked submit too early or want to change something while waiting.
-    if (data.status === CaseStatus.DEFENSE_PENDING) {
-        if (isPlaintiff) {
-            update({ status: CaseStatus.PLAINTIFF_EVIDENCE });
-            return;
-        }
-        onBack();
-        return;
-    }
-
-    // Phase 4: Cross Examination -> Go back to Defense Pending
-    if (data.status === CaseStatus.CROSS_EXAMINATION) {
-        update({ status: CaseStatus.DEFENSE_PENDING });
-        return;
-    }
-
-    // Phase 5: Debate -> Go back to Cross Examination
-    if (data.status === CaseStatus.DEBATE) {
-        update({ status: CaseStatus.CROSS_EXAMINATION });
-        return;
-    }
-
-    // Phase: ADJUDICATING -> Go back to previous step
-    if (data.status === CaseStatus.ADJUDICATING) {
-        // 1. If Default Judgment (detected by specific text), go back to Defense Pending and reset
-        if (data.defenseStatement === "（被告缺席，放弃答辩）") {
-             update({ 
-                 status: CaseStatus.DEFENSE_PENDING,
-                 defenseStatement: "", 
-                 defenseSummary: undefined 
-             });
-             return;
-        }
-
-        // 2. Otherwise, go back to Debate
-        // Explicitly resend disputePoints to ensure they are sync'd and not overwritten by stale data
-        update({ 
-            status: CaseStatus.DEBATE,
-            disputePoints: data.disputePoints 
-        });
-        return;
-    }
-
-    onBack();
+    update({ ...back.patch, status: back.to });
   };
 
   // Render Logic based on Status & Role
@@ -972,11 +1815,15 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
     case CaseStatus.CROSS_EXAMINATION: // REBUTTAL_PENDING replaced by CROSS_EXAMINATION
       title = "质证环节";
       // Shared view for both parties
-      content = <VerdictSection data={data} onSubmit={update} role={role} />;
+      content = <VerdictSection data={data} onSubmit={update} role={role} onSeal={seal} onReveal={reveal} />;
       break;
     case CaseStatus.DEBATE: // New Debate Phase
       title = "争议焦点辩论";
-      content = <DisputeDebateStep data={data} onSubmit={update} userRole={role} />;
+      content = <DisputeDebateStep data={data} onSubmit={update} userRole={role} onSeal={seal} onReveal={reveal} />;
+      break;
+    case CaseStatus.MEDIATION:
+      title = "庭前调解";
+      content = <MediationStep data={data} role={role} onSubmit={update} />;
       break;
     case CaseStatus.ADJUDICATING:
       title = "AI 审理中";
@@ -984,30 +1831,71 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
       // but in the code `VerdictSection` sets status to ADJUDICATING, 
       // and here we show the Persona selector.
       // To simplify "Any party can enter judgment", we allow either to see this screen.
-      content = (isPlaintiff || isDefendant) ? <AdjudicationStep data={data} onSubmit={update} /> : <Waiting msg="法官正在审理..." />;
+      content = (isPlaintiff || isDefendant) ? <AdjudicationStep data={data} userId={user} onSubmit={update} /> : <Waiting msg="法官正在审理..." />;
       break;
     case CaseStatus.CLOSED:
       title = "最终判决";
+      if (showAppealForm && (isPlaintiff || isDefendant)) {
+        title = "提起上诉";
+        content = <AppealFilingForm 
+          data={data} 
+          remaining={getRemainingAppeals(data)} 
+          onSubmit={async (grounds) => {
+            await update({ status: CaseStatus.APPEAL, appeal: newAppeal({ userId: user, role }, grounds) });
+          }} 
+          onCancel={() => setShowAppealForm(false)} 
+        />;
+        break;
+      }
       content = <VerdictView 
-        verdict={data.verdict!} 
+        verdict={normalizeVerdict(data.verdict)} 
         persona={data.judgePersona} 
+        demands={getCaseDemands(data)}
+        counterclaims={getCounterclaims(data)}
+        history={getVerdictHistory(data)}
+        appealsLeft={isPlaintiff || isDefendant ? getRemainingAppeals(data) : 0}
+        tasks={getCaseTasks(data)}
+        viewerRole={role}
+        caseId={data.id}
+        jury={getJuryResult(data)}
+        onTaskAction={async (taskId, action, details) => {
+          const updated = await MockDb.updateTask(data.id, taskId, { userId: user, role }, action, details);
+          setData(updated);
+        }}
+        onReset={() => onBack()} 
+        onAppeal={() => setShowAppealForm(true)} 
+        onExport={handleExport}
+      />;
+      break;
+    case CaseStatus.SETTLED:
+      title = "和解协议";
+      content = <SettlementView 
+        data={data} 
+        viewerRole={role} 
+        onTaskAction={async (taskId, action, details) => {
+          const updated = await MockDb.updateTask(data.id, taskId, { userId: user, role }, action, details);
+          setData(updated);
+        }}
         onReset={() => onBack()} 
-        onAppeal={() => {
-            // Updated behavior: Return to Debate phase to allow editing/preserving records
-            // Explicitly push disputePoints to ensure they are saved on the server for the new status
-            update({ 
-                status: CaseStatus.ADJUDICATING,
-                disputePoints: data.disputePoints
-            });
-        }} 
       />;
       break;
+    case CaseStatus.APPEAL:
+      title = "上诉审理";
+      content = (isPlaintiff || isDefendant) && data.appeal
+        ? <AppealStep data={data} role={role} onSubmit={update} />
+        : <Waiting msg="案件上诉中..." />;
+      break;
     case CaseStatus.CANCELLED:
       title = "已撤诉";
       content = <div className="text-center p-8 text-slate-500">案件已撤销</div>;
       break;
   }
 
+  // Spectators of a public hearing follow the case read-only until it is decided
+  if (role === UserRole.SPECTATOR && !DECIDED_STATUSES.includes(data.status)) {
+    content = <SpectatorView data={data} user={user} onVote={castJuryVote} />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
        <ConfirmDialog 
@@ -1028,12 +1916,21 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
         onCancel={() => setShowDefaultJudgmentConfirm(false)}
       />
 
+      <CaseTimeline 
+        isOpen={showTimeline}
+        data={data}
+        onClose={() => setShowTimeline(false)}
+      />
+
       <header className="bg-rose-600 text-white p-4 sticky top-0 z-50 shadow-md flex justify-between items-center">
         <div className="flex items-center gap-2">
           <button onClick={handleStepBack}><ChevronLeft /></button>
           <span className="font-bold font-cute">{title}</span>
         </div>
         <div className="flex items-center gap-3">
+           <button onClick={() => setShowTimeline(true)} className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 transition-all" title="案件进程">
+              <History size={20} />
+           </button>
            <button onClick={onBack} className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 transition-all" title="返回首页">
               <Home size={20} />
            </button>
@@ -1042,7 +1939,7 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
                 <Trash2 size={20} />
               </button>
            )}
-           {data.status !== CaseStatus.CLOSED && data.status !== CaseStatus.CANCELLED && (
+           {data.shareCode && data.status !== CaseStatus.CLOSED && data.status !== CaseStatus.SETTLED && data.status !== CaseStatus.CANCELLED && (
              <div className="bg-rose-700 px-2 py-1 rounded text-xs flex items-center gap-1 cursor-pointer" onClick={() => {navigator.clipboard.writeText(data.shareCode); alert("已复制");}}>
                <Copy size={12}/> 码: {data.shareCode}
              </div>
@@ -1050,7 +1947,37 @@ const CaseManager = ({ caseId, user, onBack, onSwitchUser }: { caseId: string, u
            <button onClick={onSwitchUser} className="text-xs bg-white text-rose-600 px-2 py-1 rounded font-bold">切换账号</button>
         </div>
       </header>
-      <main className="flex-1 max-w-2xl mx-auto w-full p-4">{content}</main>
+      <main className="flex-1 max-w-2xl mx-auto w-full p-4">
+        {conflicts.length > 0 && (
+          <div className="mb-4 bg-amber-50 border border-amber-300 p-4 rounded-xl text-sm text-amber-900 shadow-sm animate-fade-in">
+            <div className="flex items-start gap-2">
+              <AlertOctagon className="shrink-0 mt-0.5 text-amber-600" size={18}/>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold mb-1">以下内容与对方同时修改，已保留云端版本：</p>
+                <ul className="space-y-2">
+                  {conflicts.map((c, i) => (
+                    <li key={i}>
+                      <span className="font-medium">{c.label}</span>
+                      {c.localValue && (
+                        <p className="text-xs text-amber-700 bg-white/70 p-2 mt-1 rounded break-words line-clamp-3">你的版本：{c.localValue}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button onClick={() => setConflicts([])} className="text-xs font-bold text-amber-700 shrink-0">知道了</button>
+            </div>
+          </div>
+        )}
+        {(isPlaintiff || isDefendant) && !!data.defendantId && PRECEDENT_PHASES.includes(data.status) && (
+          <PrecedentConsent data={data} user={user} role={role} onChange={update} />
+        )}
+        {(isPlaintiff || isDefendant) && !!data.defendantId && data.status !== CaseStatus.CANCELLED && (
+          <PublicHearingPanel data={data} role={role} onChange={update} />
+        )}
+        <DeadlineBanner data={data} role={role} />
+        {content}
+      </main>
     </div>
   );
 };
@@ -1059,6 +1986,7 @@ const App = () => {
   const [session, setSession] = useState<any>(null);
   const [currentCaseId, setCurrentCaseId] = useState<string | null>(null);
   const [offlineUser, setOfflineUser] = useState<string | null>(null);
+  const [showInsights, setShowInsights] = useState(false);
 
   // Load offline user on mount
   useEffect(() => {
@@ -1066,11 +1994,19 @@ const App = () => {
     if (cached) setOfflineUser(cached);
   }, []);
 
+  // Cases cached before party ids were auth user ids are moved over before anything lists them
+  const applySession = (next: any) => {
+    if (next?.user) {
+      MockDb.adoptLegacyCases(next.user.id, [next.user.user_metadata?.username, next.user.email]);
+    }
+    setSession(next);
+  };
+
   useEffect(() => {
     // Wrap getSession in a catch to prevent crash if Supabase URL is invalid
     supabase.auth.getSession()
       .then(({ data: { session } }) => {
-         setSession(session);
+         applySession(session);
       })
       .catch(err => {
          console.warn("Supabase auth failed (likely offline/demo mode):", err);
@@ -1080,7 +2016,7 @@ const App = () => {
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
+      applySession(session);
       // Reset case view on logout
       if (!session) {
           setCurrentCaseId(null);
@@ -1102,6 +2038,7 @@ const App = () => {
     setOfflineUser(null);
     setSession(null);
     setCurrentCaseId(null);
+    setShowInsights(false);
   };
 
   const handleOfflineLogin = (username: string) => {
@@ -1109,8 +2046,12 @@ const App = () => {
       setOfflineUser(username);
   };
 
-  // Determine user identifier (Supabase or Offline)
-  const activeUser = session?.user?.user_metadata?.username || session?.user?.email || offlineUser;
+  // Determine user identifier: the auth user id (what cases and the access rules use), or the offline name
+  const activeUser = session?.user?.id || offlineUser;
+  const userName = session?.user?.user_metadata?.username || session?.user?.email || offlineUser;
+
+  // Cases are handed out redacted for whoever uses this device (see caseSealing)
+  MockDb.setViewer(activeUser || null);
 
   if (!activeUser) {
     return <Auth onLoginFallback={handleOfflineLogin} />;
@@ -1127,10 +2068,16 @@ const App = () => {
     );
   }
 
+  if (showInsights) {
+    return <InsightsView user={activeUser} onBack={() => setShowInsights(false)} />;
+  }
+
   return (
     <Dashboard
       user={activeUser}
+      userName={userName}
       onSelectCase={setCurrentCaseId}
+      onOpenInsights={() => setShowInsights(true)}
       onLogout={handleLogout}
     />
   );
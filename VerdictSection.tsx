@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Scale, 
   User, 
@@ -9,31 +9,45 @@ import {
   BookOpen,
   Info,
   PenTool,
-  RefreshCw
+  RefreshCw,
+  Handshake,
+  Lock
 } from 'lucide-react';
 import { 
   CaseData, 
   CaseStatus, 
+  EvidenceItem,
+  SealedContent,
+  SealedPhase,
   UserRole 
 } from './types';
 import * as GeminiService from './services/geminiService';
+import { MockDb } from './services/mockDb';
+import { findPrecedents, hasPrecedentConsent } from './services/casePrecedents';
+import { buildCounterclaimResponse, getCounterclaims, STANCE_LABELS } from './services/caseDemands';
 import { VoiceTextarea, EvidenceList, ThreeQualitiesInfo } from './components/Shared';
+import { ClaimResponse } from './components/ClaimResponse';
+import { startMediation } from './services/caseMediation';
+import { useModerationGate } from './components/ModerationGate';
+import { SealStatus } from './components/SealStatus';
+import { getSeal, isRevealed } from './services/caseSealing';
+import { isDeadlinePassed } from './services/caseDeadlines';
+import { canTransition, checkTransition } from './services/caseWorkflow';
 
 interface VerdictSectionProps {
   data: CaseData;
   onSubmit: (patch: Partial<CaseData>) => void;
   role: UserRole;
+  onSeal: (content: SealedContent) => Promise<boolean>;
+  onReveal: (phase: SealedPhase) => Promise<void> | void;
 }
 
-export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit, role }) => {
-  // Local state for edits
-  const [plRebuttal, setPlRebuttal] = useState(data.plaintiffRebuttal);
-  const [defRebuttal, setDefRebuttal] = useState(data.defendantRebuttal || "");
-  
+export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit, role, onSeal, onReveal }) => {
   // Loading state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [errorMsg, setErrorMsg] = useState("");
+  const [stageMsg, setStageMsg] = useState("");
 
   // Handlers for "Save Draft / Update State"
   const handleUpdate = (patch: Partial<CaseData>) => {
@@ -43,6 +57,33 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
   const isPlaintiff = role === UserRole.PLAINTIFF;
   const isDefendant = role === UserRole.DEFENDANT;
   const isSpectator = role === UserRole.SPECTATOR;
+  const counterclaims = getCounterclaims(data);
+  const counterclaimEvidence = data.counterclaimEvidence || [];
+
+  // The rebuttal is a private draft until sealed; both rebuttals are revealed together.
+  // Its tone is checked before sealing, since the other party reads it as it was sealed.
+  const gate = useModerationGate(data, role, onSubmit);
+  const phase = CaseStatus.CROSS_EXAMINATION;
+  const userId = isPlaintiff ? data.plaintiffId : data.defendantId;
+  const mySeal = getSeal(data, phase, role);
+  const revealed = isRevealed(data, phase);
+  const sentRebuttal = isPlaintiff ? data.plaintiffRebuttal : (data.defendantRebuttal || "");
+  const canWriteRebuttal = (isPlaintiff || isDefendant) && !mySeal && !revealed;
+  const [draft, setDraft] = useState(() => (userId && MockDb.getDraft<string>(data.id, userId, 'rebuttal')) ?? sentRebuttal);
+  const [isSealing, setIsSealing] = useState(false);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (userId) MockDb.saveDraft(data.id, userId, 'rebuttal', value);
+  };
+
+  const handleSealRebuttal = async () => {
+    setIsSealing(true);
+    const reviewed = await gate.review('rebuttal', [draft]);
+    const sealed = !!reviewed && await onSeal({ rebuttal: reviewed[0] });
+    setIsSealing(false);
+    if (sealed && userId) MockDb.discardDraft(data.id, userId, 'rebuttal');
+  };
 
   // Toggle contest logic
   const togglePlaintiffEvidenceContest = (id: string) => {
@@ -55,6 +96,11 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
     handleUpdate({ defendantEvidence: updated });
   };
 
+  const toggleCounterclaimEvidenceContest = (id: string) => {
+    const updated = counterclaimEvidence.map(e => e.id === id ? { ...e, isContested: !e.isContested } : e);
+    handleUpdate({ counterclaimEvidence: updated });
+  };
+
   // Helper: Generate a "fingerprint" of the current case content that affects the AI analysis
   const computeContentHash = () => {
     // We combine all fields that the AI reads to generate dispute points.
@@ -67,12 +113,54 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
         // For evidence, we track ID, description and contested status.
         // We assume IDs are unique and description changes capture edits.
         ev: data.evidence.map(e => `${e.id}-${e.description}-${e.isContested}`).join('|'),
-        defEv: data.defendantEvidence.map(e => `${e.id}-${e.description}-${e.isContested}`).join('|')
+        defEv: data.defendantEvidence.map(e => `${e.id}-${e.description}-${e.isContested}`).join('|'),
+        // Counterclaims together with the plaintiff's answers
+        cc: counterclaims.map(d => `${d.id}-${d.content}-${d.plaintiffStance}-${d.plaintiffComment || ''}`).join('|'),
+        ccEv: counterclaimEvidence.map(e => `${e.id}-${e.description}-${e.isContested}`).join('|'),
+        // Giving or withdrawing consent changes what the AI sees
+        precedents: hasPrecedentConsent(data)
     };
     return JSON.stringify(relevantContent);
   };
 
+  // Fingerprint of everything a credibility analysis depends on, so unchanged items are not re-analyzed
+  const computeEvidenceHash = (e: EvidenceItem) => JSON.stringify({
+    desc: e.description,
+    content: e.media?.ref || e.content,
+    plReb: data.plaintiffRebuttal,
+    defReb: data.defendantRebuttal || ""
+  });
+
+  // Run credibility analysis for every contested item whose inputs changed since the last run.
+  // Failures are logged and skipped: a missing analysis should not block the debate phase.
+  const analyzeContestedEvidence = async (items: EvidenceItem[]): Promise<EvidenceItem[]> => {
+    const result: EvidenceItem[] = [];
+    for (const item of items) {
+      const hash = computeEvidenceHash(item);
+      if (!item.isContested || (item.aiAnalysis && item.aiAnalysisHash === hash)) {
+        result.push(item);
+        continue;
+      }
+      try {
+        const analysis = await GeminiService.analyzeEvidenceCredibility(
+          item,
+          data.plaintiffRebuttal,
+          data.defendantRebuttal || ""
+        );
+        result.push({ ...item, aiAnalysis: analysis, aiAnalysisHash: hash });
+      } catch (e) {
+        console.warn("Credibility analysis skipped for evidence", item.id, e);
+        result.push(item);
+      }
+    }
+    return result;
+  };
+
   const handleFinishCrossExam = async () => {
+    // Unanswered counterclaims and an unrevealed round block the debate, unless the deadline passed
+    const blocked = checkTransition(data, CaseStatus.DEBATE, role);
+    if (blocked) return alert(blocked);
+
     const currentHash = computeContentHash();
     const hasDisputePoints = data.disputePoints && data.disputePoints.length > 0;
     
@@ -98,13 +186,28 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
     }, 100);
 
     try {
+        // 1. Credibility analysis of contested evidence (persisted so both parties can see it)
+        setStageMsg("正在审核被质疑的证据...");
+        const evidence = await analyzeContestedEvidence(data.evidence);
+        const defendantEvidence = await analyzeContestedEvidence(data.defendantEvidence);
+        const analyzedCounterclaimEvidence = await analyzeContestedEvidence(counterclaimEvidence);
+        onSubmit({ evidence, defendantEvidence, counterclaimEvidence: analyzedCounterclaimEvidence });
+
+        // 2. Dispute focus, informed by the analyses above (and earlier cases, if both parties agreed)
+        setStageMsg("正在总结案件争议焦点...");
+        const viewer = isPlaintiff ? data.plaintiffId : data.defendantId;
+        const precedents = viewer ? findPrecedents(data, await MockDb.getCasesForUser(viewer)) : null;
         const points = await GeminiService.analyzeDisputeFocus(
             data.category,
             data.description,
             data.defenseStatement,
             data.plaintiffRebuttal,
             data.defendantRebuttal || "",
-            data.evidence 
+            evidence,
+            defendantEvidence,
+            counterclaims,
+            analyzedCounterclaimEvidence,
+            precedents
         );
         
         clearInterval(timer);
@@ -113,6 +216,9 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
         setTimeout(() => {
             onSubmit({ 
                 status: CaseStatus.DEBATE,
+                evidence,
+                defendantEvidence,
+                counterclaimEvidence: analyzedCounterclaimEvidence,
                 disputePoints: points,
                 lastAnalyzedHash: currentHash // Save the new fingerprint
             });
@@ -125,8 +231,50 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
     }
   };
 
+  // Once the deadline passed (and CaseManager applied its consequences) the debate starts by itself
+  const autoFinished = useRef(false);
+  useEffect(() => {
+    if (isSpectator || autoFinished.current || !isDeadlinePassed(data)) return;
+    if (!canTransition(data, CaseStatus.DEBATE, role)) return;
+    autoFinished.current = true;
+    handleFinishCrossExam();
+  }, [data]);
+
   // --- Render Helpers (Moved inline or checks to avoid nesting components) ---
 
+  // Editable draft with its seal button, or the sealed/revealed text once this round is sealed
+  const renderRebuttalInput = (placeholder: string, color: string) => canWriteRebuttal ? (
+    <>
+      <VoiceTextarea 
+        label="质证说明" 
+        placeholder={placeholder} 
+        value={draft} 
+        onChange={handleDraftChange} 
+      />
+      <button onClick={handleSealRebuttal} disabled={isSealing} className={`m-2 ml-auto text-xs font-bold px-3 py-1.5 rounded-lg ${color} text-white flex items-center gap-1 disabled:opacity-70`}>
+        {isSealing ? <Loader2 size={12} className="animate-spin" /> : <Lock size={12} />} 密封提交
+      </button>
+    </>
+  ) : (
+    <div className="p-3">
+      <p className="text-sm font-bold text-slate-700 mb-1">质证说明{revealed ? '' : '（已密封）'}</p>
+      <p className="text-sm text-slate-700 whitespace-pre-wrap">{(revealed ? sentRebuttal : mySeal?.rebuttal) || "（无补充质证意见）"}</p>
+    </div>
+  );
+
+  // Both rebuttals become readable at the same time
+  const renderRevealedRebuttals = () => revealed && (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+      <h4 className="font-bold text-slate-800 font-cute">双方质证说明（已揭晓）</h4>
+      {!isPlaintiff && (
+        <p className="text-sm text-slate-700"><span className="font-bold text-rose-700">原告：</span>{data.plaintiffRebuttal || "（无补充质证意见）"}</p>
+      )}
+      {!isDefendant && (
+        <p className="text-sm text-slate-700"><span className="font-bold text-indigo-700">被告：</span>{data.defendantRebuttal || "（无补充质证意见）"}</p>
+      )}
+    </div>
+  );
+
   const renderOpposingStatement = () => {
     if (isPlaintiff) {
         return (
@@ -171,14 +319,41 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
                       onToggleContest={toggleDefendantEvidenceContest}
                     />
                 </div>
+                {/* Answer the Defendant's Counterclaims */}
+                {counterclaims.length > 0 && (
+                  <div className="bg-white p-4 rounded-xl border border-indigo-100 shadow-sm">
+                    <h4 className="font-bold text-slate-800 mb-1">逐项回应被告的反诉</h4>
+                    <p className="text-xs text-slate-400 mb-3">回应全部反诉后才能进入辩论，法官会参考你对每一项的态度</p>
+                    <div className="space-y-3">
+                      {counterclaims.map((d, i) => (
+                        <React.Fragment key={d.id}>
+                          <ClaimResponse
+                            index={i}
+                            content={d.content}
+                            stance={d.plaintiffStance}
+                            comment={d.plaintiffComment}
+                            accent="rose"
+                            onRespond={response => handleUpdate(buildCounterclaimResponse(data, d.id, response))}
+                          />
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    {counterclaimEvidence.length > 0 && (
+                      <div className="mt-4">
+                        <EvidenceList 
+                          items={counterclaimEvidence} 
+                          title="【点击】反诉证据 (如认为虚假/无效请点击)" 
+                          canContest={true} 
+                          contestedIds={new Set(counterclaimEvidence.filter(e => e.isContested).map(e => e.id))}
+                          onToggleContest={toggleCounterclaimEvidenceContest}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
                 {/* Input Rebuttal */}
                 <div className="bg-white p-1 rounded-xl shadow-sm">
-                  <VoiceTextarea 
-                    label="质证说明" 
-                    placeholder="针对被告的说法或证据，你有什么反驳？(例如：证据是伪造的...)" 
-                    value={plRebuttal} 
-                    onChange={(val) => { setPlRebuttal(val); handleUpdate({ plaintiffRebuttal: val }); }} 
-                  />
+                  {renderRebuttalInput("针对被告的说法或证据，你有什么反驳？(例如：证据是伪造的...)", 'bg-rose-600')}
                 </div>
             </div>
           </div>
@@ -202,14 +377,25 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
                       onToggleContest={togglePlaintiffEvidenceContest}
                     />
                 </div>
+                {/* Plaintiff's Answers to the Counterclaims */}
+                {counterclaims.length > 0 && (
+                  <div className="bg-white p-4 rounded-xl border border-rose-100 shadow-sm">
+                    <h4 className="font-bold text-slate-800 mb-3">原告对反诉的回应</h4>
+                    <ul className="space-y-2 text-sm">
+                      {counterclaims.map((d, i) => (
+                        <li key={d.id}>
+                          <span className="text-slate-700">{i + 1}. {d.content}</span>
+                          <span className={`ml-2 text-xs ${d.plaintiffStance ? 'text-slate-500' : 'text-slate-300'}`}>
+                            {d.plaintiffStance ? `${STANCE_LABELS[d.plaintiffStance]}${d.plaintiffComment ? `，${d.plaintiffComment}` : ''}` : '待回应'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {/* Input Rebuttal */}
                 <div className="bg-white p-1 rounded-xl shadow-sm">
-                  <VoiceTextarea 
-                    label="质证说明" 
-                    placeholder="针对原告的说法或证据，你有什么反驳？(例如：这并不属实...)" 
-                    value={defRebuttal} 
-                    onChange={(val) => { setDefRebuttal(val); handleUpdate({ defendantRebuttal: val }); }} 
-                  />
+                  {renderRebuttalInput("针对原告的说法或证据，你有什么反驳？(例如：这并不属实...)", 'bg-indigo-600')}
                 </div>
             </div>
           </div>
@@ -244,7 +430,7 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
             </div>
 
             <h3 className="text-2xl font-bold text-slate-800 font-cute mb-3 animate-pulse">
-                {errorMsg ? "分析中断" : "法官正在努力总结案件争议焦点中..."}
+                {errorMsg ? "分析中断" : (stageMsg || "法官正在努力总结案件争议焦点中...")}
             </h3>
             
             <p className="text-slate-500 text-sm mb-6 max-w-xs mx-auto">
@@ -295,6 +481,8 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
       {/* 1. Review Phase: Context */}
       <div className="space-y-4">
          {renderOpposingStatement()}
+         <SealStatus data={data} phase={phase} onReveal={onReveal} />
+         {renderRevealedRebuttals()}
       </div>
 
       {/* 2. Action Phase: Input */}
@@ -321,6 +509,12 @@ export const VerdictSection: React.FC<VerdictSectionProps> = ({ data, onSubmit,
       <button onClick={handleFinishCrossExam} disabled={isAnalyzing} className="w-full bg-slate-900 text-white font-bold py-4 rounded-xl hover:bg-black shadow-lg flex items-center justify-center gap-2 hover:scale-[1.01] transition-transform">
         <Swords size={20}/> 结束质证，进入争议焦点辩论
       </button>
+      {!isSpectator && (
+        <button onClick={() => onSubmit({ ...startMediation(data, role), status: CaseStatus.MEDIATION })} disabled={isAnalyzing} className="w-full bg-white text-teal-700 border border-teal-200 font-bold py-3 rounded-xl flex items-center justify-center gap-2">
+          <Handshake size={18}/> 先不判了，申请调解
+        </button>
+      )}
+      {gate.dialog}
     </div>
   );
 };
@@ -126,18 +126,15 @@ const Auth = ({ onLoginFallback }: { onLoginFallback?: (username: string) => voi
             let foundEmail = getEmailByUsername(trimmedLoginId);
             
             if (!foundEmail) {
-                 // 2. Fallback to Supabase Lookup if not found locally
+                 // 2. Fallback to Supabase Lookup if not found locally.
+                 // Profiles are not readable before login, so this goes through a function (case insensitive)
                  try {
-                     const { data, error } = await supabase
-                        .from('profiles')
-                        .select('email')
-                        .ilike('username', trimmedLoginId) // Case insensitive lookup
-                        .maybeSingle();
+                     const { data: email } = await supabase.rpc('get_login_email', { p_username: trimmedLoginId });
                      
-                     if (data?.email) {
-                         foundEmail = data.email;
+                     if (email) {
+                         foundEmail = email;
                          // Update local cache
-                         saveUserMapping(trimmedLoginId, data.email);
+                         saveUserMapping(trimmedLoginId, email);
                      }
                  } catch (err) {
                      // Ignore lookup error, will throw below
@@ -0,0 +1,73 @@
+import React from 'react';
+import { History, X as XIcon, ArrowRight } from 'lucide-react';
+import { CaseData, UserRole } from '../types';
+import { getStatusLabel } from '../services/caseWorkflow';
+import { useUserNames } from './Shared';
+
+const roleLabel = (role: UserRole) => {
+  switch (role) {
+    case UserRole.PLAINTIFF: return "原告";
+    case UserRole.DEFENDANT: return "被告";
+    default: return "旁听";
+  }
+};
+
+// --- Case Timeline (status transition audit trail) ---
+export const CaseTimeline = ({
+  isOpen,
+  data,
+  onClose
+}: {
+  isOpen: boolean;
+  data: CaseData;
+  onClose: () => void;
+}) => {
+  const history = data.statusHistory || [];
+  const nameOf = useUserNames(history.map(t => t.by));
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white p-6 rounded-2xl shadow-2xl max-w-sm w-full relative max-h-[80vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors"
+        >
+          <XIcon size={20} />
+        </button>
+
+        <h3 className="font-bold text-lg text-slate-800 mb-5 flex items-center gap-2 border-b border-slate-100 pb-3">
+          <History className="text-rose-500" size={24} /> 案件进程
+        </h3>
+
+        <div className="text-xs text-slate-400 mb-4">
+          立案时间：{new Date(data.createdDate).toLocaleString()}
+        </div>
+
+        {history.length === 0 && <p className="text-sm text-slate-400 italic">暂无状态变更记录</p>}
+
+        <ol className="relative border-l-2 border-rose-100 ml-2 space-y-5">
+          {history.map((t, i) => (
+            <li key={i} className="ml-4">
+              <span className="absolute -left-[7px] w-3 h-3 rounded-full bg-rose-400 ring-4 ring-white"></span>
+              <div className="flex items-center gap-1 text-sm font-bold text-slate-700">
+                {getStatusLabel(t.from)} <ArrowRight size={12} className="text-slate-400" /> {getStatusLabel(t.to)}
+              </div>
+              <p className="text-sm text-slate-600 mt-0.5">{t.reason}</p>
+              <p className="text-xs text-slate-400 mt-0.5">
+                {roleLabel(t.role)}{t.by && ` · ${nameOf(t.by)}`} · {new Date(t.at).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { DemandStance } from '../types';
+import { STANCE_LABELS } from '../services/caseDemands';
+
+const STANCE_STYLES: Record<DemandStance, string> = {
+  ACCEPT: 'border-green-500 bg-green-50 text-green-700',
+  PARTIAL: 'border-orange-400 bg-orange-50 text-orange-700',
+  REJECT: 'border-rose-500 bg-rose-50 text-rose-700'
+};
+
+const FOCUS_STYLES = {
+  indigo: 'focus:ring-indigo-200',
+  rose: 'focus:ring-rose-200'
+};
+
+// --- Claim Response ---
+// One demand (or counterclaim) of the other party with the three stance buttons and, unless
+// accepted, a comment that is saved when the input loses focus.
+export const ClaimResponse = ({
+  index,
+  content,
+  stance,
+  comment,
+  accent = 'indigo',
+  onRespond
+}: {
+  index: number;
+  content: string;
+  stance?: DemandStance;
+  comment?: string;
+  accent?: keyof typeof FOCUS_STYLES;
+  onRespond: (response: { stance?: DemandStance; comment?: string }) => void;
+}) => (
+  <div className="border border-slate-100 rounded-lg p-3 space-y-2">
+    <p className="text-sm font-bold text-slate-800">{index + 1}. {content}</p>
+    <div className="grid grid-cols-3 gap-2">
+      {(Object.keys(STANCE_LABELS) as DemandStance[]).map(s => (
+        <button
+          key={s}
+          onClick={() => onRespond({ stance: s })}
+          className={`py-1.5 rounded-lg text-xs font-bold border-2 ${stance === s ? STANCE_STYLES[s] : 'border-slate-100 text-slate-500'}`}
+        >
+          {STANCE_LABELS[s]}
+        </button>
+      ))}
+    </div>
+    {stance && stance !== 'ACCEPT' && (
+      <input
+        defaultValue={comment || ''}
+        onBlur={e => e.target.value !== (comment || '') && onRespond({ comment: e.target.value })}
+        placeholder={stance === 'PARTIAL' ? "你愿意接受到什么程度？" : "为什么不同意？（选填）"}
+        className={`w-full p-2 rounded-lg border border-slate-200 text-xs outline-none focus:ring-2 ${FOCUS_STYLES[accent]}`}
+      />
+    )}
+  </div>
+);
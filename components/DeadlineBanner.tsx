@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { AlarmClock } from 'lucide-react';
+import { CaseData, UserRole } from '../types';
+import {
+  DEADLINE_PHASE_LABELS,
+  getDeadline,
+  getDeadlineConsequenceLabel,
+  getDeadlineReminder,
+  isDeadlinePhase
+} from '../services/caseDeadlines';
+
+export const formatTimeLeft = (ms: number) => {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days} 天 ${hours} 小时`;
+  if (hours > 0) return `${hours} 小时 ${minutes % 60} 分`;
+  return `${minutes} 分钟`;
+};
+
+// --- Deadline Banner ---
+// Countdown to the deadline of the current phase and what happens when it passes. Turns into a
+// reminder for a party who still owes an answer once the deadline is near.
+export const DeadlineBanner = ({ data, role }: { data: CaseData; role: UserRole }) => {
+  const [now, setNow] = useState(Date.now());
+  const deadline = getDeadline(data);
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (!deadline || !isDeadlinePhase(data.status)) return null;
+  const reminder = getDeadlineReminder(data, role, now);
+
+  return (
+    <div className={`mb-4 border p-3 rounded-xl text-sm flex gap-2 items-start shadow-sm ${reminder ? 'bg-red-50 border-red-200 text-red-800' : 'bg-white border-slate-200 text-slate-600'}`}>
+      <AlarmClock className={`shrink-0 mt-0.5 ${reminder ? 'text-red-500' : 'text-slate-400'}`} size={18} />
+      <div className="flex-1 min-w-0">
+        <p className="font-bold">
+          {now >= deadline
+            ? `${DEADLINE_PHASE_LABELS[data.status]}期限已过，正在处理...`
+            : `${DEADLINE_PHASE_LABELS[data.status]}期限还剩 ${formatTimeLeft(deadline - now)}`}
+          {reminder && now < deadline && '，你还没有提交'}
+        </p>
+        <p className="text-xs opacity-80 mt-0.5">
+          截止 {new Date(deadline).toLocaleString()} • {getDeadlineConsequenceLabel(data)}
+        </p>
+      </div>
+    </div>
+  );
+};
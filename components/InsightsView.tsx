@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, TrendingUp, TrendingDown, Minus, PieChart, Repeat, Timer, Scale, Tags, Loader2 } from 'lucide-react';
+import { CaseData } from '../types';
+import { MockDb } from '../services/mockDb';
+import { computeInsights, CountEntry, getPartners, RulingTally } from '../services/caseInsights';
+import { useUserNames } from './Shared';
+
+const formatDuration = (ms: number) => {
+  const hours = ms / 3600000;
+  if (hours >= 24) return `${(hours / 24).toFixed(1)} 天`;
+  if (hours >= 1) return `${hours.toFixed(1)} 小时`;
+  return `${Math.max(1, Math.round(ms / 60000))} 分钟`;
+};
+
+const formatDate = (at: number) => new Date(at).toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' });
+
+const Card = ({ icon, title, children }: { icon: React.ReactNode, title: string, children: React.ReactNode }) => (
+  <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2">{icon} {title}</h3>
+    {children}
+  </div>
+);
+
+const CountBars = ({ entries, unit }: { entries: CountEntry[], unit: string }) => {
+  const max = Math.max(1, ...entries.map(e => e.count));
+  return (
+    <div className="space-y-2">
+      {entries.slice(0, 6).map(e => (
+        <div key={e.label} className="text-sm">
+          <div className="flex justify-between text-slate-600 mb-1">
+            <span>{e.label}</span>
+            <span className="text-xs text-slate-400">{e.count} {unit}</span>
+          </div>
+          <div className="bg-slate-100 h-2 rounded-full overflow-hidden">
+            <div className="bg-rose-400 h-full rounded-full" style={{ width: `${(e.count / max) * 100}%` }}></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RulingBar = ({ label, tally }: { label: string, tally: RulingTally }) => {
+  const total = tally.won + tally.partial + tally.lost;
+  if (total === 0) return null;
+  return (
+    <div className="text-sm">
+      <div className="flex justify-between text-slate-600 mb-1">
+        <span>{label}</span>
+        <span className="text-xs text-slate-400">胜 {tally.won} · 部分 {tally.partial} · 负 {tally.lost}</span>
+      </div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-slate-100">
+        <div className="bg-green-500" style={{ width: `${(tally.won / total) * 100}%` }}></div>
+        <div className="bg-orange-400" style={{ width: `${(tally.partial / total) * 100}%` }}></div>
+        <div className="bg-rose-500" style={{ width: `${(tally.lost / total) * 100}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+// --- Relationship Insights (patterns across all closed cases with one partner) ---
+export const InsightsView = ({ user, onBack }: { user: string, onBack: () => void }) => {
+  const [cases, setCases] = useState<CaseData[] | null>(null);
+  const [partnerId, setPartnerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    MockDb.getCasesForUser(user).then(setCases);
+  }, [user]);
+
+  const partners = cases ? getPartners(cases, user) : [];
+  const selected = partnerId || partners[0]?.partnerId;
+  const insights = cases && selected ? computeInsights(cases, user, selected) : null;
+  const nameOf = useUserNames(partners.map(p => p.partnerId));
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 pb-16">
+      <header className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="text-slate-500"><ArrowLeft size={20} /></button>
+        <h1 className="text-xl font-bold text-slate-800 font-cute">关系洞察</h1>
+      </header>
+
+      <div className="space-y-4 max-w-md mx-auto">
+        {!cases && <div className="flex justify-center py-12"><Loader2 className="animate-spin text-slate-400" /></div>}
+
+        {cases && !insights && (
+          <p className="text-center text-slate-400 py-12 text-sm">还没有已结案的案件，结案后这里会展示你们的相处模式</p>
+        )}
+
+        {partners.length > 1 && (
+          <div className="flex gap-2 overflow-x-auto">
+            {partners.map(p => (
+              <button
+                key={p.partnerId}
+                onClick={() => setPartnerId(p.partnerId)}
+                className={`px-3 py-1.5 rounded-full text-sm font-bold whitespace-nowrap ${p.partnerId === selected ? 'bg-rose-600 text-white' : 'bg-white text-slate-600 border border-slate-200'}`}
+              >
+                {nameOf(p.partnerId)}（{p.caseCount}）
+              </button>
+            ))}
+          </div>
+        )}
+
+        {insights && (
+          <>
+            <p className="text-sm text-slate-500 text-center">与 <span className="font-bold text-slate-700">{nameOf(insights.partnerId)}</span> 的 {insights.caseCount} 起已结案件</p>
+
+            <Card icon={<Scale size={18} className="text-rose-500" />} title="责任比例走势">
+              <div className="space-y-2">
+                {insights.splitTrend.map(p => (
+                  <div key={p.caseId} className="text-xs">
+                    <div className="flex justify-between text-slate-500 mb-0.5">
+                      <span className="line-clamp-1">{formatDate(p.closedAt)} · {p.title}</span>
+                      <span className="shrink-0 ml-2">我 {p.myShare}%</span>
+                    </div>
+                    <div className="flex h-2 rounded-full overflow-hidden">
+                      <div className="bg-rose-500" style={{ width: `${p.myShare}%` }}></div>
+                      <div className="bg-slate-700" style={{ width: `${p.partnerShare}%` }}></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {insights.splitTrend.length > 1 && (
+                <p className="text-sm text-slate-600 mt-4 flex items-center gap-2">
+                  {insights.trendDelta > 0 ? <TrendingUp size={16} className="text-rose-500" /> : insights.trendDelta < 0 ? <TrendingDown size={16} className="text-green-600" /> : <Minus size={16} className="text-slate-400" />}
+                  {insights.trendDelta === 0
+                    ? '近期你的责任比例与早先持平'
+                    : `近期你的平均责任比例${insights.trendDelta > 0 ? '上升' : '下降'}了 ${Math.abs(insights.trendDelta)} 个百分点`}
+                </p>
+              )}
+            </Card>
+
+            {insights.recurring.length > 0 && (
+              <Card icon={<Repeat size={18} className="text-amber-500" />} title="反复出现的问题">
+                <div className="space-y-2">
+                  {insights.recurring.map(r => (
+                    <div key={`${r.kind}-${r.label}`} className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-sm">
+                      <p className="font-bold text-amber-800">{r.label} <span className="text-xs font-normal">（{r.kind === 'category' ? '纠纷类型' : '争议主题'}）</span></p>
+                      <p className="text-xs text-amber-700">{formatDate(r.firstAt)} 至 {formatDate(r.lastAt)} 间出现在 {r.caseIds.length} 起案件中</p>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
+            <Card icon={<PieChart size={18} className="text-indigo-500" />} title="常见纠纷类型">
+              <CountBars entries={insights.categories} unit="起" />
+            </Card>
+
+            <Card icon={<Tags size={18} className="text-purple-500" />} title="争议主题">
+              {insights.themes.length > 0
+                ? <CountBars entries={insights.themes} unit="个争议点" />
+                : <p className="text-sm text-slate-400">暂无争议焦点记录</p>}
+            </Card>
+
+            <Card icon={<Scale size={18} className="text-slate-700" />} title="诉请裁决胜负">
+              <div className="space-y-3">
+                <RulingBar label="我作为原告" tally={insights.rulings.asPlaintiff} />
+                <RulingBar label="我作为被告" tally={insights.rulings.asDefendant} />
+              </div>
+              <p className="text-xs text-slate-400 mt-3">按判决中每一条诉请的裁决统计，【修正支持】计为部分胜诉</p>
+            </Card>
+
+            {insights.phases.length > 0 && (
+              <Card icon={<Timer size={18} className="text-teal-600" />} title="各阶段平均用时">
+                <div className="divide-y divide-slate-100 text-sm">
+                  {insights.phases.map(p => (
+                    <div key={p.status} className="flex justify-between py-2">
+                      <span className="text-slate-600">{p.label}</span>
+                      <span className="font-bold text-slate-800">{formatDuration(p.averageMs)}</span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
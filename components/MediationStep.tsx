@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { Handshake, Loader2, Sparkles, CheckCircle2, Clock, XCircle, Gavel, Plus, Trash2, ChevronLeft, Heart } from 'lucide-react';
+import { CaseData, CaseStatus, EvidenceItem, PenaltyTask, ProposalResponse, SettlementProposal, SettlementTerm, TrackedTask, UserRole } from '../types';
+import * as GeminiService from '../services/geminiService';
+import { getCaseDemands, getCounterclaims } from '../services/caseDemands';
+import {
+  buildProposal,
+  buildProposalResponse,
+  buildSettlement,
+  checkNewProposal,
+  getLatestProposal,
+  getProposalResponse,
+  getProposals,
+  isProposalAccepted,
+  isProposalRejected,
+  MAX_PROPOSALS,
+  PROPOSER_LABELS
+} from '../services/caseMediation';
+import { getStatusLabel } from '../services/caseWorkflow';
+import { getCaseTasks, TaskAction } from '../services/penaltyTasks';
+import { PenaltyTaskList } from './PenaltyTaskList';
+
+type Submit = (patch: Partial<CaseData>) => Promise<void> | void;
+
+const RESPONSE_BADGES: Record<ProposalResponse, { label: string; style: string; Icon: typeof CheckCircle2 }> = {
+  ACCEPT: { label: '已接受', style: 'text-green-700', Icon: CheckCircle2 },
+  REJECT: { label: '已拒绝', style: 'text-rose-600', Icon: XCircle }
+};
+
+// Demands and counterclaims in one list, so terms can show what they settle
+const getClaims = (data: CaseData) => [
+  ...getCaseDemands(data).map(d => ({ id: d.id, content: d.content, counterclaim: false })),
+  ...getCounterclaims(data).map(c => ({ id: c.id, content: c.content, counterclaim: true }))
+];
+
+const ResponseBadge = ({ party, response }: { party: string; response?: ProposalResponse }) => {
+  const badge = response ? RESPONSE_BADGES[response] : { label: '未回应', style: 'text-slate-400', Icon: Clock };
+  return (
+    <span className={`flex items-center gap-1 ${badge.style}`}>
+      <badge.Icon size={12} /> {party}{badge.label}
+    </span>
+  );
+};
+
+const TermList = ({ data, terms }: { data: CaseData; terms: SettlementTerm[] }) => {
+  const claims = getClaims(data);
+  return (
+    <ol className="space-y-2">
+      {terms.map((t, i) => {
+        const claim = claims.find(c => c.id === t.demandId);
+        return (
+          <li key={t.demandId || i} className="text-sm">
+            <p className="text-xs text-slate-400">
+              {claim ? `${claim.counterclaim ? '被告反诉' : '原告诉请'}：${claim.content}` : '其他条款'}
+            </p>
+            <p className="text-slate-800">{t.resolution}</p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const TaskLines = ({ tasks }: { tasks: PenaltyTask[] }) => (
+  <ul className="space-y-1 text-sm text-slate-700">
+    {tasks.map((t, i) => (
+      <li key={i} className="flex gap-2">
+        <span className={`text-xs font-bold shrink-0 mt-0.5 ${t.assignee === 'PLAINTIFF' ? 'text-rose-600' : 'text-indigo-600'}`}>
+          {t.assignee === 'PLAINTIFF' ? '原告' : '被告'}
+        </span>
+        {t.content}
+      </li>
+    ))}
+  </ul>
+);
+
+const ProposalCard = ({ data, proposal, index, muted }: { data: CaseData; proposal: SettlementProposal; index: number; muted?: boolean }) => (
+  <div className={`p-4 rounded-xl border space-y-3 ${muted ? 'bg-slate-50 border-slate-200 opacity-80' : 'bg-white border-teal-200 shadow-sm'}`}>
+    <div className="flex items-center justify-between text-xs">
+      <span className="font-bold text-teal-800">方案 {index + 1} · {PROPOSER_LABELS[proposal.proposedBy]}提出</span>
+      <span className="text-slate-400">{new Date(proposal.createdAt).toLocaleString()}</span>
+    </div>
+    {proposal.note && <p className="text-sm text-slate-600 bg-teal-50 p-3 rounded-lg">{proposal.note}</p>}
+    {proposal.terms.length > 0 && <TermList data={data} terms={proposal.terms} />}
+    {proposal.tasks.length > 0 && (
+      <div>
+        <p className="text-xs font-bold text-slate-500 mb-1">和好任务</p>
+        <TaskLines tasks={proposal.tasks} />
+      </div>
+    )}
+    <div className="flex gap-4 text-xs pt-1 border-t border-slate-100">
+      <ResponseBadge party="原告" response={proposal.plaintiffResponse} />
+      <ResponseBadge party="被告" response={proposal.defendantResponse} />
+    </div>
+  </div>
+);
+
+// --- Counter-proposal form ---
+// Starts from the latest proposal (or empty terms for every claim) so a party only edits what they disagree with
+const CounterProposalForm = ({ data, onSubmit, onCancel }: { data: CaseData; onSubmit: (draft: { terms: SettlementTerm[]; tasks: PenaltyTask[]; note: string }) => Promise<void>; onCancel: () => void }) => {
+  const claims = getClaims(data);
+  const latest = getLatestProposal(data);
+  const [terms, setTerms] = useState<Record<string, string>>(() =>
+    Object.fromEntries(claims.map(c => [c.id, latest?.terms.find(t => t.demandId === c.id)?.resolution || '']))
+  );
+  const [tasks, setTasks] = useState<PenaltyTask[]>(() => latest?.tasks.map(t => ({ ...t })) || []);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    await onSubmit({ terms: claims.map(c => ({ demandId: c.id, resolution: terms[c.id] || '' })), tasks, note });
+    setBusy(false);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <h3 className="font-bold text-slate-800 font-cute">提出我的方案</h3>
+      {claims.map((c, i) => (
+        <div key={c.id} className="space-y-1">
+          <p className="text-xs text-slate-500">{i + 1}. {c.counterclaim ? '被告反诉' : '原告诉请'}：{c.content}</p>
+          <input
+            value={terms[c.id] || ''}
+            onChange={e => setTerms({ ...terms, [c.id]: e.target.value })}
+            placeholder="你能接受的处理方式（留空表示不涉及）"
+            className="w-full p-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-teal-200"
+          />
+        </div>
+      ))}
+      <div className="space-y-2">
+        <p className="text-xs font-bold text-slate-500">和好任务</p>
+        {tasks.map((t, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <button
+              onClick={() => setTasks(tasks.map((x, j) => j === i ? { ...x, assignee: x.assignee === 'PLAINTIFF' ? 'DEFENDANT' : 'PLAINTIFF' } : x))}
+              className={`shrink-0 text-xs font-bold px-2 py-1 rounded ${t.assignee === 'PLAINTIFF' ? 'bg-rose-50 text-rose-600' : 'bg-indigo-50 text-indigo-600'}`}
+              title="切换执行人"
+            >
+              {t.assignee === 'PLAINTIFF' ? '原告' : '被告'}
+            </button>
+            <input
+              value={t.content}
+              onChange={e => setTasks(tasks.map((x, j) => j === i ? { ...x, content: e.target.value } : x))}
+              className="flex-1 p-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-teal-200"
+            />
+            <button onClick={() => setTasks(tasks.filter((_, j) => j !== i))} className="text-slate-400 hover:text-rose-500"><Trash2 size={16} /></button>
+          </div>
+        ))}
+        <button onClick={() => setTasks([...tasks, { assignee: 'DEFENDANT', content: '' }])} className="text-xs font-bold text-teal-700 flex items-center gap-1">
+          <Plus size={14} /> 添加任务
+        </button>
+      </div>
+      <textarea
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        placeholder="想对对方说的话（选填）"
+        className="w-full p-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-teal-200 h-20"
+      />
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 py-2 rounded-xl border border-slate-200 text-slate-600 font-bold text-sm">取消</button>
+        <button onClick={submit} disabled={busy} className="flex-1 py-2 rounded-xl bg-teal-600 text-white font-bold text-sm disabled:opacity-70 flex items-center justify-center">
+          {busy ? <Loader2 className="animate-spin" size={18} /> : '发送给对方'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Mediation Step ---
+// The AI mediator proposes, each party accepts, rejects or counter-proposes. A proposal accepted
+// by both settles the case; either party can give up and let the judge decide.
+export const MediationStep = ({ data, role, onSubmit }: { data: CaseData; role: UserRole; onSubmit: Submit }) => {
+  const [isProposing, setIsProposing] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const isParty = role === UserRole.PLAINTIFF || role === UserRole.DEFENDANT;
+  const proposals = getProposals(data);
+  const latest = getLatestProposal(data);
+  const mine = latest && getProposalResponse(latest, role);
+  const canPropose = isParty && !checkNewProposal(data);
+  const from = data.mediation?.from;
+
+  const submit = async (build: () => Partial<CaseData>) => {
+    try {
+      await onSubmit(build());
+    } catch (e: any) {
+      alert(e.message || "操作失败，请重试");
+    }
+  };
+
+  const requestAiProposal = async () => {
+    setIsProposing(true);
+    try {
+      const draft = await GeminiService.proposeSettlement(
+        data.category,
+        data.description,
+        data.defenseStatement,
+        getCaseDemands(data),
+        getCounterclaims(data),
+        data.disputePoints || [],
+        proposals
+      );
+      await submit(() => buildProposal(data, 'MEDIATOR', draft));
+    } catch (e: any) {
+      alert(e.message || "AI 调解员暂时不在，请稍后重试");
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const respond = (response: ProposalResponse) => submit(() => {
+    const patch = buildProposalResponse(data, latest!.id, role, response);
+    return patch.settlement ? { ...patch, status: CaseStatus.SETTLED } : patch;
+  });
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-teal-50 border border-teal-200 p-6 rounded-xl text-center">
+        <div className="inline-flex p-3 bg-white rounded-full mb-3 shadow-sm">
+          <Handshake className="text-teal-600" size={32} />
+        </div>
+        <h2 className="text-xl font-bold text-teal-900 mb-2 font-cute">庭前调解</h2>
+        <p className="text-teal-700 text-sm">
+          {data.mediation?.requestedBy === UserRole.PLAINTIFF ? '原告' : '被告'}申请了调解。双方接受同一个方案即可和解结案，无需判决。每次调解最多 {MAX_PROPOSALS} 个方案。
+        </p>
+      </div>
+
+      {!latest && (
+        <p className="text-center text-sm text-slate-500 bg-slate-100 p-4 rounded-xl">还没有调解方案，请 AI 调解员先提出一个吧。</p>
+      )}
+
+      {latest && <ProposalCard data={data} proposal={latest} index={proposals.length - 1} />}
+
+      {latest && isParty && (
+        isProposalAccepted(latest) ? (
+          // Both accepted, but the case was not moved on (e.g. the two answers crossed while syncing)
+          <button
+            onClick={() => submit(() => ({ ...buildSettlement(latest), status: CaseStatus.SETTLED }))}
+            className="w-full bg-teal-600 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2"
+          >
+            <Handshake size={18} /> 确认和解并结案
+          </button>
+        ) : isProposalRejected(latest) ? (
+          <p className="text-center text-sm text-slate-500">该方案未被接受，可以请 AI 重新调解或提出你的方案。</p>
+        ) : mine ? (
+          <p className="text-center text-sm text-slate-500 bg-slate-100 p-4 rounded-xl">已接受，等待对方回应...</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={() => respond('REJECT')} className="py-3 rounded-xl border-2 border-rose-200 text-rose-600 font-bold">不接受</button>
+            <button onClick={() => respond('ACCEPT')} className="py-3 rounded-xl bg-teal-600 text-white font-bold shadow-lg">接受方案</button>
+          </div>
+        )
+      )}
+
+      {canPropose && (showForm ? (
+        <CounterProposalForm
+          data={data}
+          onCancel={() => setShowForm(false)}
+          onSubmit={async (draft) => {
+            await submit(() => buildProposal(data, role === UserRole.PLAINTIFF ? 'PLAINTIFF' : 'DEFENDANT', draft));
+            setShowForm(false);
+          }}
+        />
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={requestAiProposal} disabled={isProposing} className="py-3 rounded-xl bg-white border border-teal-200 text-teal-700 font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-70">
+            {isProposing ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />} {latest ? 'AI 重新调解' : '请 AI 提出方案'}
+          </button>
+          <button onClick={() => setShowForm(true)} className="py-3 rounded-xl bg-white border border-slate-200 text-slate-700 font-bold text-sm">
+            {latest ? '提出反方案' : '提出我的方案'}
+          </button>
+        </div>
+      ))}
+
+      {proposals.length > 1 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-slate-500 font-bold">之前的方案（{proposals.length - 1}）</summary>
+          <div className="space-y-3 mt-3">
+            {proposals.slice(0, -1).reverse().map(p => (
+              <React.Fragment key={p.id}>
+                <ProposalCard data={data} proposal={p} index={proposals.indexOf(p)} muted />
+              </React.Fragment>
+            ))}
+          </div>
+        </details>
+      )}
+
+      {isParty && (
+        <div className="space-y-2 pt-2">
+          <button onClick={() => submit(() => ({ status: CaseStatus.ADJUDICATING }))} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl shadow-lg flex items-center justify-center gap-2">
+            <Gavel size={18} /> 调解不成，转入判决
+          </button>
+          {from && (
+            <button onClick={() => submit(() => ({ status: from }))} className="w-full bg-white text-slate-600 border border-slate-200 font-bold py-3 rounded-xl flex items-center justify-center gap-1">
+              <ChevronLeft size={16} /> 退出调解，返回{getStatusLabel(from)}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Settlement View ---
+// What a SETTLED case shows instead of a verdict: the agreed terms and the task tracking
+export const SettlementView = ({
+  data,
+  viewerRole,
+  onTaskAction,
+  onReset
+}: {
+  data: CaseData;
+  viewerRole?: UserRole;
+  onTaskAction?: (taskId: string, action: TaskAction, details?: { proof?: EvidenceItem; reason?: string }) => Promise<void>;
+  onReset?: () => void;
+}) => {
+  const settlement = data.settlement;
+  if (!settlement) return <div className="text-center p-8 text-slate-500">和解协议缺失</div>;
+  const tasks: TrackedTask[] = getCaseTasks(data);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="text-center space-y-1 py-2">
+        <Handshake size={40} className="text-teal-600 mx-auto" />
+        <h2 className="text-xl font-bold text-slate-800 font-cute">和解协议</h2>
+        <p className="text-xs text-slate-400">{new Date(settlement.settledAt).toLocaleString()} 双方达成和解</p>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl border border-teal-200 shadow-sm space-y-4">
+        {settlement.note && <p className="text-sm text-slate-600 bg-teal-50 p-3 rounded-lg">{settlement.note}</p>}
+        {settlement.terms.length > 0 ? <TermList data={data} terms={settlement.terms} /> : <p className="text-sm text-slate-500">无具体条款</p>}
+      </div>
+
+      {tasks.length > 0 && (
+        <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 font-cute"><Heart size={18} className="text-rose-500" /> 和好任务</h3>
+          <PenaltyTaskList tasks={tasks} viewerRole={viewerRole} caseId={data.id} onAction={onTaskAction} />
+        </div>
+      )}
+
+      {onReset && (
+        <button onClick={onReset} className="w-full bg-white text-slate-600 border border-slate-200 font-bold py-3 rounded-xl">返回首页</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Coffee, Loader2, Sparkles, PenTool, Clock } from 'lucide-react';
+import { CaseData, EvidenceItem, EvidenceType, ModeratedField, ModerationOutcome, ModerationRecord, UserRole } from '../types';
+import * as GeminiService from '../services/geminiService';
+import {
+  buildModerationUpdate,
+  checkModerationOutcome,
+  createModerationRecord,
+  getCoolingOffUntil,
+  isFlagged,
+  MODERATED_FIELD_LABELS
+} from '../services/caseModeration';
+
+type Submit = (patch: Partial<CaseData>) => Promise<void> | void;
+
+interface PendingReview {
+  record: ModerationRecord;
+  texts: string[];
+  suggestion: string[] | null; // null while the rewrite is being written
+  resolve: (texts: string[] | null) => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ModerationDialog = ({ pending, coolingOffUntil, onDecide }: { pending: PendingReview; coolingOffUntil: number | null; onDecide: (outcome: ModerationOutcome) => void }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!coolingOffUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [coolingOffUntil]);
+
+  const coolingOff = !!coolingOffUntil && coolingOffUntil > now;
+  const { record, texts, suggestion } = pending;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 border border-slate-100 max-h-[90vh] overflow-y-auto">
+        <div className="flex flex-col items-center text-center mb-4">
+          <div className="w-14 h-14 bg-amber-50 rounded-full flex items-center justify-center mb-3 ring-8 ring-amber-50/50">
+            <Coffee className="text-amber-600" size={28} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900 mb-1 font-cute">先冷静一下？</h3>
+          <p className="text-sm text-slate-500">
+            这段{MODERATED_FIELD_LABELS[record.field]}可能会伤到对方{record.reason ? `：${record.reason}` : '。'}
+          </p>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="text-xs font-bold text-slate-400 mb-1">你的原话</p>
+            <div className="bg-slate-50 p-3 rounded-lg text-slate-600 space-y-1 max-h-32 overflow-y-auto">
+              {texts.filter(t => t.trim()).map((t, i) => <p key={i}>{t}</p>)}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-teal-600 mb-1 flex items-center gap-1"><Sparkles size={12} /> 换个说法</p>
+            <div className="bg-teal-50 p-3 rounded-lg text-slate-800 space-y-1 max-h-40 overflow-y-auto">
+              {suggestion
+                ? suggestion.filter(t => t.trim()).map((t, i) => <p key={i}>{t}</p>)
+                : <p className="flex items-center gap-2 text-teal-600"><Loader2 className="animate-spin" size={14} /> 正在换个说法...</p>}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2 mt-5">
+          <button
+            onClick={() => onDecide('REWRITTEN')}
+            disabled={!suggestion}
+            className="w-full py-3 rounded-xl bg-teal-600 text-white font-bold shadow-lg disabled:opacity-60"
+          >
+            用这个说法发送
+          </button>
+          <button
+            onClick={() => onDecide('REVISED')}
+            className="w-full py-3 rounded-xl bg-slate-100 text-slate-700 font-bold flex items-center justify-center gap-2"
+          >
+            <PenTool size={16} /> 我自己改改
+          </button>
+          <button
+            onClick={() => onDecide('SENT')}
+            disabled={coolingOff}
+            className="w-full py-2 text-xs text-slate-400 hover:text-slate-600 disabled:hover:text-slate-400 flex items-center justify-center gap-1"
+          >
+            {coolingOff
+              ? <><Clock size={12} /> 冷静期 {formatCountdown(coolingOffUntil! - now)} 后才能按原话发送</>
+              : '仍然按原话发送（法官会看到）'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Moderation Gate ---
+// Checks a party's text before it is shared. `review` resolves with the texts to send (the
+// originals or the suggested rewrite) or null when the author went back to edit; the component
+// using the gate must render `dialog`.
+export const useModerationGate = (data: CaseData, role: UserRole, onSubmit: Submit) => {
+  const [pending, setPending] = useState<PendingReview | null>(null);
+  // Patches are written after awaiting the author, so always build them on the latest case
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  const review = async (field: ModeratedField, texts: string[]): Promise<string[] | null> => {
+    const text = texts.filter(t => t.trim()).join('\n');
+    if (!text || (role !== UserRole.PLAINTIFF && role !== UserRole.DEFENDANT)) return texts;
+
+    const result = await GeminiService.analyzeSentiment(text);
+    if (!isFlagged(result)) return texts;
+
+    // Logged right away so a cooling-off period survives a reload
+    const record = createModerationRecord(dataRef.current, role, field, result);
+    await onSubmit(buildModerationUpdate(dataRef.current, record));
+
+    return new Promise(resolve => {
+      setPending({ record, texts, suggestion: null, resolve });
+      Promise.all(texts.map(t => t.trim() ? GeminiService.polishText(t) : Promise.resolve(t)))
+        .then(suggestion => setPending(p => p && p.record.id === record.id ? { ...p, suggestion } : p));
+    });
+  };
+
+  // Text evidence is checked like any other text; photos and recordings are passed through
+  const reviewEvidence = async (item: EvidenceItem): Promise<EvidenceItem | null> => {
+    if (item.type !== EvidenceType.TEXT) return item;
+    const reviewed = await review('evidence', [item.content]);
+    return reviewed ? { ...item, content: reviewed[0] } : null;
+  };
+
+  const withRecord = (record: ModerationRecord) => ({ ...dataRef.current, ...buildModerationUpdate(dataRef.current, record) });
+
+  const decide = async (outcome: ModerationOutcome) => {
+    if (!pending) return;
+    const error = checkModerationOutcome(withRecord(pending.record), role, outcome);
+    if (error) return alert(error);
+    await onSubmit(buildModerationUpdate(dataRef.current, { ...pending.record, outcome }));
+    setPending(null);
+    pending.resolve(outcome === 'SENT' ? pending.texts : outcome === 'REWRITTEN' ? pending.suggestion : null);
+  };
+
+  const dialog = pending && (
+    <ModerationDialog
+      pending={pending}
+      coolingOffUntil={getCoolingOffUntil(withRecord(pending.record), role)}
+      onDecide={decide}
+    />
+  );
+
+  return { review, reviewEvidence, dialog };
+};
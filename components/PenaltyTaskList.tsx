@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { User, Gift, CheckCircle2, Clock, AlertTriangle, Loader2, ThumbsUp, ThumbsDown, Heart, Gamepad2 } from 'lucide-react';
+import { EvidenceItem, TrackedTask, UserRole } from '../types';
+import { checkTaskAction, isTaskConfirmed, isTaskOverdue, TaskAction } from '../services/penaltyTasks';
+import { EvidenceStore } from '../services/evidenceStore';
+import { EvidenceCreator, EvidenceList } from './Shared';
+
+type TaskActionHandler = (taskId: string, action: TaskAction, details?: { proof?: EvidenceItem; reason?: string }) => Promise<void>;
+
+const formatDue = (at: number) =>
+  new Date(at).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const StatusBadge = ({ task }: { task: TrackedTask }) => {
+  if (isTaskConfirmed(task)) {
+    return <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-green-100 text-green-700 flex items-center gap-1 shrink-0"><CheckCircle2 size={12} /> 已确认</span>;
+  }
+  if (task.status === 'done') {
+    return <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-sky-100 text-sky-700 shrink-0">待对方确认</span>;
+  }
+  if (task.status === 'disputed') {
+    return <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 shrink-0">对方有异议</span>;
+  }
+  return <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 shrink-0">待完成</span>;
+};
+
+// --- One task with the actions open to the viewer ---
+const TaskRow = ({ task, viewerRole, canAct, caseId, onAction }: { task: TrackedTask, viewerRole?: UserRole, canAct: boolean, caseId?: string, onAction?: TaskActionHandler }) => {
+  const [mode, setMode] = useState<'idle' | 'claim' | 'dispute'>('idle');
+  const [proof, setProof] = useState<EvidenceItem | null>(null);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allowed = (action: TaskAction) => canAct && !!viewerRole && !checkTaskAction(task, viewerRole, action);
+  const overdue = isTaskOverdue(task);
+
+  const run = async (action: TaskAction, details?: { proof?: EvidenceItem; reason?: string }) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onAction(task.id, action, details);
+      setMode('idle');
+      setProof(null);
+      setReason('');
+    } catch (e: any) {
+      setError(e.message || "操作失败，请重试");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelClaim = () => {
+    if (proof) EvidenceStore.discardMedia(proof.media);
+    setProof(null);
+    setMode('idle');
+  };
+
+  return (
+    <li className="bg-white/80 p-3 rounded-lg text-slate-700 shadow-sm text-sm font-sans border border-white space-y-2">
+      <div className="flex items-start gap-2">
+        <span className="text-slate-400 mt-0.5"><Gift size={14} /></span>
+        <span className={`flex-1 ${isTaskConfirmed(task) ? 'line-through text-slate-400' : ''}`}>{task.content}</span>
+        <StatusBadge task={task} />
+      </div>
+
+      {!isTaskConfirmed(task) && (
+        <p className={`text-xs flex items-center gap-1 ml-6 ${overdue ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+          {overdue ? <AlertTriangle size={12} /> : <Clock size={12} />}
+          {overdue ? '已逾期' : '截止'} {formatDue(task.dueAt)}
+        </p>
+      )}
+
+      {task.status === 'disputed' && task.disputeReason && (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-100 p-2 rounded ml-6">异议理由：{task.disputeReason}</p>
+      )}
+
+      {task.proof && (task.status === 'done' || isTaskConfirmed(task)) && (
+        <div className="ml-6">
+          <EvidenceList items={[task.proof]} title="完成凭证" />
+        </div>
+      )}
+
+      {mode === 'claim' && (
+        <div className="ml-6 space-y-2">
+          {proof
+            ? <EvidenceList items={[proof]} title="完成凭证" onDelete={() => { EvidenceStore.discardMedia(proof.media); setProof(null); }} />
+            : <EvidenceCreator onAdd={setProof} userRole={viewerRole} caseId={caseId} />}
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={cancelClaim} className="bg-white border border-slate-200 text-slate-600 text-xs font-bold py-2 rounded-lg">取消</button>
+            <button onClick={() => run('claim', { proof: proof || undefined })} disabled={busy} className="bg-slate-900 text-white text-xs font-bold py-2 rounded-lg flex items-center justify-center gap-1 disabled:opacity-50">
+              {busy && <Loader2 size={12} className="animate-spin" />} 提交完成{proof ? '' : '（不附凭证）'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'dispute' && (
+        <div className="ml-6 space-y-2">
+          <input value={reason} onChange={e => setReason(e.target.value)} placeholder="说说哪里还没做到（选填）" className="w-full p-2 rounded-lg border border-slate-200 text-xs outline-none focus:ring-2 focus:ring-amber-200" />
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => setMode('idle')} className="bg-white border border-slate-200 text-slate-600 text-xs font-bold py-2 rounded-lg">取消</button>
+            <button onClick={() => run('dispute', { reason })} disabled={busy} className="bg-amber-500 text-white text-xs font-bold py-2 rounded-lg flex items-center justify-center gap-1 disabled:opacity-50">
+              {busy && <Loader2 size={12} className="animate-spin" />} 提出异议
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'idle' && (
+        <div className="flex gap-2 ml-6">
+          {allowed('claim') && (
+            <button onClick={() => setMode('claim')} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-slate-900 text-white">
+              {task.status === 'disputed' ? '重新提交完成' : '我已完成'}
+            </button>
+          )}
+          {allowed('confirm') && (
+            <button onClick={() => run('confirm')} disabled={busy} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-green-600 text-white flex items-center gap-1 disabled:opacity-50">
+              <ThumbsUp size={12} /> 确认完成
+            </button>
+          )}
+          {allowed('dispute') && (
+            <button onClick={() => setMode('dispute')} className="text-xs font-bold px-3 py-1.5 rounded-lg bg-white border border-amber-300 text-amber-700 flex items-center gap-1">
+              <ThumbsDown size={12} /> 还没做到
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 ml-6">{error}</p>}
+    </li>
+  );
+};
+
+// --- Penalty Task List ---
+// The 爱的破冰大冒险 tasks of a closed case, grouped by assignee. The assignee claims a task,
+// the other party confirms or disputes it. Without `onAction` the list is read-only.
+export const PenaltyTaskList = ({
+  tasks,
+  viewerRole,
+  caseId,
+  onAction
+}: {
+  tasks: TrackedTask[];
+  viewerRole?: UserRole;
+  caseId?: string;
+  onAction?: TaskActionHandler;
+}) => {
+  const canAct = !!onAction && (viewerRole === UserRole.PLAINTIFF || viewerRole === UserRole.DEFENDANT);
+  const confirmed = tasks.filter(isTaskConfirmed).length;
+
+  const group = (assignee: TrackedTask['assignee']) => tasks.filter(t => t.assignee === assignee);
+  const groups = [
+    { assignee: 'PLAINTIFF' as const, label: '原告请执行：', box: 'bg-rose-50 border-rose-100', title: 'text-rose-800', Deco: Heart, deco: 'text-rose-100' },
+    { assignee: 'DEFENDANT' as const, label: '被告请执行：', box: 'bg-indigo-50 border-indigo-100', title: 'text-indigo-800', Deco: Gamepad2, deco: 'text-indigo-100' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-xs font-sans">
+        <div className="flex-1 bg-slate-100 h-2 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${tasks.length ? (confirmed / tasks.length) * 100 : 100}%` }}></div>
+        </div>
+        <span className={confirmed === tasks.length ? 'text-green-700 font-bold' : 'text-slate-500'}>
+          {confirmed === tasks.length ? '全部完成，本案圆满结案' : `已确认 ${confirmed}/${tasks.length}`}
+        </span>
+      </div>
+
+      {groups.map(({ assignee, label, box, title, Deco, deco }) => group(assignee).length > 0 && (
+        <div key={assignee} className={`${box} rounded-xl p-4 border relative overflow-hidden`}>
+          <div className={`absolute -right-2 -bottom-2 ${deco} opacity-50 transform rotate-12`}>
+            <Deco size={60} />
+          </div>
+          <h4 className={`font-bold ${title} mb-3 flex items-center gap-2 relative`}>
+            <User size={16} /> {label}
+            {viewerRole === (assignee as string) && <span className="text-xs font-sans font-normal">（我）</span>}
+          </h4>
+          <ul className="space-y-2 relative">
+            {group(assignee).map(t => (
+              <React.Fragment key={t.id}>
+                <TaskRow task={t} viewerRole={viewerRole} canAct={canAct} caseId={caseId} onAction={onAction} />
+              </React.Fragment>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { Dog, Cat, Bird, Rabbit, Squirrel, Turtle, Fish, Panda, Plus, Download, Trash2, X as XIcon, Loader2, Copy } from 'lucide-react';
+import { JudgePersonaDefinition, PersonaIcon } from '../types';
+import {
+  PersonaRegistry,
+  PersonaDraft,
+  PERSONA_ICONS,
+  STRICTNESS_LEVELS,
+  MAX_CUSTOM_PERSONAS,
+  checkPersonaDraft
+} from '../services/personaRegistry';
+
+const ICONS: Record<PersonaIcon, React.ComponentType<any>> = {
+  dog: Dog,
+  cat: Cat,
+  bird: Bird,
+  rabbit: Rabbit,
+  squirrel: Squirrel,
+  turtle: Turtle,
+  fish: Fish,
+  panda: Panda
+};
+
+// --- Persona Avatar ---
+export const PersonaAvatar = ({ persona, size = 32, className, strokeWidth }: { persona: JudgePersonaDefinition, size?: number, className?: string, strokeWidth?: number }) => {
+  const Icon = ICONS[persona.icon] || Dog;
+  const color = persona.palette === 'warm' ? 'text-rose-600' : 'text-slate-800';
+  return <Icon size={size} strokeWidth={strokeWidth} className={className ?? color} />;
+};
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: '',
+  icon: 'bird',
+  palette: 'cool',
+  description: '',
+  philosophy: '',
+  tone: '',
+  verdictPrefix: '',
+  strictness: 3,
+  penaltyStyle: ''
+};
+
+const inputClass = "w-full p-2.5 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-rose-200 outline-none";
+
+// --- Persona Editor (create a custom judge) ---
+export const PersonaEditor = ({
+  isOpen,
+  onSave,
+  onClose
+}: {
+  isOpen: boolean;
+  onSave: (draft: PersonaDraft) => Promise<void>;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const set = <K extends keyof PersonaDraft>(key: K, value: PersonaDraft[K]) => setDraft(d => ({ ...d, [key]: value }));
+
+  const handleSave = async () => {
+    const problem = checkPersonaDraft(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setDraft(EMPTY_DRAFT);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || "保存失败");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const strictness = STRICTNESS_LEVELS[draft.strictness];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="bg-white p-6 rounded-2xl shadow-2xl max-w-md w-full relative max-h-[85vh] overflow-y-auto space-y-4" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors">
+          <XIcon size={20} />
+        </button>
+        <h3 className="text-lg font-bold text-slate-900 font-cute">创建自定义法官</h3>
+
+        <div className="flex flex-wrap gap-2">
+          {PERSONA_ICONS.map(icon => {
+            const Icon = ICONS[icon];
+            return (
+              <button
+                key={icon}
+                onClick={() => set('icon', icon)}
+                className={`w-10 h-10 rounded-full flex items-center justify-center border-2 ${draft.icon === icon ? 'border-rose-500 bg-rose-50' : 'border-slate-100 bg-slate-50'}`}
+              >
+                <Icon size={20} className="text-slate-700" />
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder="法官名称，如：猫头鹰法官" value={draft.name} onChange={e => set('name', e.target.value)} />
+          <input className={inputClass} placeholder="判词开头，如：本鸮裁判：" value={draft.verdictPrefix} onChange={e => set('verdictPrefix', e.target.value)} />
+        </div>
+        <input className={inputClass} placeholder="一句话介绍（选填）" value={draft.description} onChange={e => set('description', e.target.value)} />
+        <textarea className={`${inputClass} h-24`} placeholder="断案理念：这位法官怎么看待感情纠纷、看重什么" value={draft.philosophy} onChange={e => set('philosophy', e.target.value)} />
+        <input className={inputClass} placeholder="判决风格，如：毒舌但公道" value={draft.tone} onChange={e => set('tone', e.target.value)} />
+        <input className={inputClass} placeholder="惩罚任务风格，如：文艺浪漫的小仪式（选填）" value={draft.penaltyStyle} onChange={e => set('penaltyStyle', e.target.value)} />
+
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-bold text-slate-700">严格程度</span>
+            <span className="text-slate-500">{strictness?.label}</span>
+          </div>
+          <input type="range" min={1} max={5} step={1} value={draft.strictness} onChange={e => set('strictness', Number(e.target.value))} className="w-full accent-rose-500" />
+          <p className="text-xs text-slate-400">{strictness?.instruction}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {(['cool', 'warm'] as const).map(palette => (
+            <button
+              key={palette}
+              onClick={() => set('palette', palette)}
+              className={`py-2 rounded-lg border-2 font-bold ${draft.palette === palette ? 'border-rose-500 bg-rose-50 text-rose-700' : 'border-slate-100 text-slate-500'}`}
+            >
+              {palette === 'cool' ? '理性冷色' : '温情暖色'}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button onClick={handleSave} disabled={saving} className="w-full bg-slate-900 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2 disabled:opacity-50">
+          {saving ? <Loader2 size={18} className="animate-spin" /> : <Plus size={18} />} 保存法官
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Persona Picker ---
+// Built-in and custom judges of the user, with creation, import by share code and removal.
+// `excluded` is the judge appealed against, who may not re-hear the case.
+export const PersonaPicker = ({
+  userId,
+  selected,
+  excluded,
+  onSelect
+}: {
+  userId: string;
+  selected: string;
+  excluded?: string | null;
+  onSelect: (id: string) => void;
+}) => {
+  const [personas, setPersonas] = useState(() => PersonaRegistry.listForUser(userId));
+  const [showEditor, setShowEditor] = useState(false);
+  const [importCode, setImportCode] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const refresh = () => setPersonas(PersonaRegistry.listForUser(userId));
+  const customCount = personas.filter(p => !p.builtIn).length;
+
+  const handleCreate = async (draft: PersonaDraft) => {
+    const persona = await PersonaRegistry.create(userId, draft);
+    refresh();
+    onSelect(persona.id);
+    setShowEditor(false);
+  };
+
+  const handleImport = async () => {
+    if (!importCode.trim()) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const persona = await PersonaRegistry.importByCode(userId, importCode);
+      refresh();
+      if (persona.id !== excluded) onSelect(persona.id);
+      setImportCode('');
+    } catch (e: any) {
+      setImportError(e.message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    PersonaRegistry.remove(userId, id);
+    refresh();
+    if (selected === id) onSelect(personas.find(p => p.builtIn && p.id !== excluded)!.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4">
+        {personas.map(p => (
+          <div key={p.id} className="relative">
+            <button
+              onClick={() => onSelect(p.id)}
+              disabled={p.id === excluded}
+              className={`w-full flex items-center p-4 rounded-xl border-2 transition-all text-left group disabled:opacity-50 disabled:cursor-not-allowed ${
+                selected === p.id
+                  ? 'border-rose-500 bg-rose-50 shadow-md scale-[1.02]'
+                  : 'border-slate-200 bg-white hover:border-rose-200'
+              }`}
+            >
+              <div className={`w-14 h-14 shrink-0 rounded-full flex items-center justify-center mr-4 transition-colors ${
+                selected === p.id ? 'bg-white' : 'bg-slate-100 group-hover:bg-slate-50'
+              }`}>
+                <PersonaAvatar persona={p} />
+              </div>
+              <div className="min-w-0 pr-8">
+                <h3 className={`font-bold text-lg font-cute ${selected === p.id ? 'text-rose-700' : 'text-slate-800'}`}>
+                  {p.name}
+                  {p.id === excluded && <span className="ml-2 text-xs font-sans bg-slate-200 text-slate-500 px-2 py-0.5 rounded-full align-middle">原审法官</span>}
+                </h3>
+                <p className={`text-xs ${selected === p.id ? 'text-rose-600' : 'text-slate-500'}`}>
+                  {p.description || `${STRICTNESS_LEVELS[p.strictness]?.label} · ${p.tone}`}
+                </p>
+                {p.shareCode && (
+                  <p className="text-xs text-slate-400 mt-1 flex items-center gap-1">
+                    <Copy size={10} /> 分享码 <span className="font-mono font-bold">{p.shareCode}</span>
+                    {p.ownerId !== userId && <span>（导入）</span>}
+                  </p>
+                )}
+              </div>
+            </button>
+            {!p.builtIn && (
+              <button onClick={() => handleRemove(p.id)} className="absolute top-3 right-3 p-1.5 text-slate-300 hover:text-red-500" title="移除">
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr] gap-2">
+        <button
+          onClick={() => setShowEditor(true)}
+          disabled={customCount >= MAX_CUSTOM_PERSONAS}
+          className="px-4 py-2 rounded-xl border-2 border-dashed border-slate-300 text-slate-600 text-sm font-bold flex items-center gap-1 hover:border-rose-300 disabled:opacity-50"
+        >
+          <Plus size={16} /> 创建法官
+        </button>
+        <div className="flex gap-2">
+          <input
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-slate-200 text-sm font-mono uppercase outline-none focus:border-rose-300"
+            placeholder="输入法官分享码"
+            value={importCode}
+            onChange={e => setImportCode(e.target.value)}
+          />
+          <button onClick={handleImport} disabled={importing || !importCode.trim()} className="px-3 py-2 rounded-xl bg-slate-100 text-slate-700 text-sm font-bold flex items-center gap-1 disabled:opacity-50">
+            {importing ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} 导入
+          </button>
+        </div>
+      </div>
+      {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+      <PersonaEditor isOpen={showEditor} onSave={handleCreate} onClose={() => setShowEditor(false)} />
+    </div>
+  );
+};
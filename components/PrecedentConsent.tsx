@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { History, CheckCircle2, Clock } from 'lucide-react';
+import { CaseData, UserRole } from '../types';
+import { MockDb } from '../services/mockDb';
+import { buildConsentUpdate, getPrecedentConsent, getPriorCases, hasPrecedentConsent } from '../services/casePrecedents';
+
+// --- Precedent Consent ---
+// Lets each party decide whether the judge may look at their earlier closed cases.
+// Hidden while the two have no earlier cases and nobody has opted in yet.
+export const PrecedentConsent = ({
+  data,
+  user,
+  role,
+  onChange
+}: {
+  data: CaseData;
+  user: string;
+  role: UserRole;
+  onChange: (patch: Partial<CaseData>) => Promise<void> | void;
+}) => {
+  const [priorCount, setPriorCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    MockDb.getCasesForUser(user).then(cases => setPriorCount(getPriorCases(data, cases).length));
+  }, [user, data.id, data.defendantId]);
+
+  const mine = getPrecedentConsent(data, role);
+  const theirs = getPrecedentConsent(data, role === UserRole.PLAINTIFF ? UserRole.DEFENDANT : UserRole.PLAINTIFF);
+  const active = hasPrecedentConsent(data);
+
+  if (!priorCount && !mine && !theirs) return null;
+
+  return (
+    <div className="mb-4 bg-white border border-slate-200 p-4 rounded-xl text-sm shadow-sm">
+      <div className="flex items-start gap-3">
+        <History className="shrink-0 mt-0.5 text-slate-500" size={18} />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-slate-800">参考既往案件</p>
+          <p className="text-xs text-slate-500 mt-1">
+            你们之前有 {priorCount ?? '…'} 起已结案件。双方都同意后，AI 法官会参考其中类似问题的判决和任务完成情况，例如指出“这是第三次因为同一件事吵架”。
+          </p>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs">
+            <span className={`flex items-center gap-1 ${mine ? 'text-green-700' : 'text-slate-400'}`}>
+              {mine ? <CheckCircle2 size={12} /> : <Clock size={12} />} 我{mine ? '已同意' : '未同意'}
+            </span>
+            <span className={`flex items-center gap-1 ${theirs ? 'text-green-700' : 'text-slate-400'}`}>
+              {theirs ? <CheckCircle2 size={12} /> : <Clock size={12} />} 对方{theirs ? '已同意' : '未同意'}
+            </span>
+          </div>
+          {active && <p className="text-xs text-green-700 font-bold mt-2">双方均已同意，本案将参考既往案件</p>}
+        </div>
+        <button
+          onClick={() => onChange(buildConsentUpdate(role, !mine))}
+          className={`shrink-0 text-xs font-bold px-3 py-1.5 rounded-lg ${mine ? 'bg-slate-100 text-slate-600' : 'bg-slate-900 text-white'}`}
+        >
+          {mine ? '撤回同意' : '同意参考'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect } from 'react';
+import { Eye, CheckCircle2, Clock, Copy, Users } from 'lucide-react';
+import { CaseData, UserRole, Verdict } from '../types';
+import { buildHearingConsentUpdate, generateSpectatorCode, getHearingConsent, hasHearingConsent, JuryResult } from '../services/caseHearing';
+
+// --- Public Hearing ---
+// Lets each party decide whether the case is heard in public. Once both agreed, the spectator code
+// can be handed out; spectators follow the case read-only and vote as a people's jury.
+export const PublicHearingPanel = ({
+  data,
+  role,
+  onChange
+}: {
+  data: CaseData;
+  role: UserRole;
+  onChange: (patch: Partial<CaseData>) => Promise<void> | void;
+}) => {
+  const mine = getHearingConsent(data, role);
+  const theirs = getHearingConsent(data, role === UserRole.PLAINTIFF ? UserRole.DEFENDANT : UserRole.PLAINTIFF);
+  const active = hasHearingConsent(data);
+  const spectators = data.spectatorIds?.length || 0;
+  const votes = data.juryVotes?.length || 0;
+
+  // Both approvals may have been given at the same time on two devices; the plaintiff then issues the code
+  useEffect(() => {
+    if (active && !data.spectatorCode && role === UserRole.PLAINTIFF) {
+      onChange({ spectatorCode: generateSpectatorCode() });
+    }
+  }, [active, data.spectatorCode, role]);
+
+  return (
+    <div className="mb-4 bg-white border border-slate-200 p-4 rounded-xl text-sm shadow-sm">
+      <div className="flex items-start gap-3">
+        <Eye className="shrink-0 mt-0.5 text-slate-500" size={18} />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-slate-800">公开审理</p>
+          <p className="text-xs text-slate-500 mt-1">
+            双方都同意后会生成旁听码。旁听者只能查看案件（看不到调解协商和文明发言记录），并可以作为“人民陪审团”对争议焦点和责任比例投票，结果会与 AI 判决并列展示。
+          </p>
+          <div className="flex flex-wrap gap-3 mt-2 text-xs">
+            <span className={`flex items-center gap-1 ${mine ? 'text-green-700' : 'text-slate-400'}`}>
+              {mine ? <CheckCircle2 size={12} /> : <Clock size={12} />} 我{mine ? '已同意' : '未同意'}
+            </span>
+            <span className={`flex items-center gap-1 ${theirs ? 'text-green-700' : 'text-slate-400'}`}>
+              {theirs ? <CheckCircle2 size={12} /> : <Clock size={12} />} 对方{theirs ? '已同意' : '未同意'}
+            </span>
+          </div>
+          {active && data.spectatorCode && (
+            <div className="flex flex-wrap items-center gap-3 mt-2 text-xs">
+              <button
+                onClick={() => { navigator.clipboard.writeText(data.spectatorCode!); alert("已复制"); }}
+                className="flex items-center gap-1 font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-1 rounded"
+              >
+                <Copy size={12} /> 旁听码: {data.spectatorCode}
+              </button>
+              <span className="flex items-center gap-1 text-slate-500"><Users size={12} /> {spectators} 人旁听 · {votes} 人已投票</span>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => onChange(buildHearingConsentUpdate(data, role, !mine))}
+          className={`shrink-0 text-xs font-bold px-3 py-1.5 rounded-lg ${mine ? 'bg-slate-100 text-slate-600' : 'bg-slate-900 text-white'}`}
+        >
+          {mine ? '撤回同意' : '同意公开'}
+        </button>
+      </div>
+      {mine && active && <p className="text-xs text-slate-400 mt-2 pl-8">撤回同意将关闭旁听，已加入的旁听者会被移出。</p>}
+    </div>
+  );
+};
+
+// The people's jury result, shown next to the AI verdict
+export const JuryResultCard = ({ jury, verdict }: { jury: JuryResult; verdict?: Verdict['responsibilitySplit'] }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border-2 border-indigo-100">
+    <h3 className="text-xl text-slate-800 mb-1 flex items-center gap-2">
+      <Users className="text-indigo-500" />
+      人民陪审团
+    </h3>
+    <p className="text-xs text-slate-400 mb-4 font-sans">{jury.voters} 位旁听者参与投票，结果仅供参考，不影响判决</p>
+    <div className="space-y-4 font-sans">
+      {jury.split && (
+        <div>
+          <div className="flex justify-between text-sm font-bold mb-1">
+            <span className="text-rose-500">原告 {jury.split.plaintiff}%</span>
+            <span className="text-xs text-slate-400 font-normal">
+              {jury.splitVotes} 票平均{verdict ? ` · AI 判决 ${verdict.plaintiff}% : ${verdict.defendant}%` : ''}
+            </span>
+            <span className="text-indigo-500">被告 {jury.split.defendant}%</span>
+          </div>
+          <div className="h-3 bg-slate-100 rounded-full overflow-hidden flex">
+            <div className="bg-rose-400 h-full" style={{ width: `${jury.split.plaintiff}%` }}></div>
+            <div className="bg-indigo-400 h-full" style={{ width: `${jury.split.defendant}%` }}></div>
+          </div>
+        </div>
+      )}
+      {jury.points.filter(p => p.plaintiff + p.defendant > 0).map(p => (
+        <div key={p.pointId} className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+          <p className="font-bold text-slate-700 text-sm mb-1" style={{ fontFamily: '"Noto Sans SC", sans-serif' }}>{p.title}</p>
+          <div className="flex justify-between text-xs">
+            <span className={p.plaintiff >= p.defendant ? 'text-rose-600 font-bold' : 'text-slate-400'}>支持原告 {p.plaintiff} 票</span>
+            <span className={p.defendant >= p.plaintiff ? 'text-indigo-600 font-bold' : 'text-slate-400'}>支持被告 {p.defendant} 票</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
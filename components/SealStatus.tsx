@@ -0,0 +1,59 @@
+import React, { useEffect } from 'react';
+import { Lock, LockOpen, CheckCircle2, Clock } from 'lucide-react';
+import { CaseData, SealedPhase, UserRole } from '../types';
+import { getRevealDeadline, getSeal, isRevealDue, isRevealed } from '../services/caseSealing';
+
+// --- Seal Status ---
+// Which party has sealed the current round of a phase and when it will be revealed.
+// Also reveals the round as soon as it is due: right away once both parties sealed (they may have
+// sealed at the same time on different devices), otherwise when the seal window runs out.
+export const SealStatus = ({
+  data,
+  phase,
+  onReveal
+}: {
+  data: CaseData;
+  phase: SealedPhase;
+  onReveal: (phase: SealedPhase) => Promise<void> | void;
+}) => {
+  const revealed = isRevealed(data, phase);
+  const deadline = getRevealDeadline(data, phase);
+
+  useEffect(() => {
+    if (revealed || !deadline) return;
+    if (isRevealDue(data, phase)) {
+      onReveal(phase);
+      return;
+    }
+    const timer = setTimeout(() => onReveal(phase), deadline - Date.now());
+    return () => clearTimeout(timer);
+  }, [data, phase]);
+
+  const renderParty = (role: UserRole, name: string) => {
+    const seal = getSeal(data, phase, role);
+    const sealed = !!seal && !seal.defaulted;
+    return (
+      <span className={`flex items-center gap-1 ${sealed ? 'text-green-700' : 'text-slate-400'}`}>
+        {sealed ? <CheckCircle2 size={12} /> : <Clock size={12} />} {name}{sealed ? '已密封' : seal ? '逾期未交' : revealed ? '未提交' : '撰写中'}
+      </span>
+    );
+  };
+
+  return (
+    <div className={`border p-4 rounded-xl text-sm flex gap-2 items-start shadow-sm ${revealed ? 'bg-green-50 border-green-200 text-green-800' : 'bg-slate-50 border-slate-200 text-slate-700'}`}>
+      {revealed ? <LockOpen className="shrink-0 mt-0.5" size={18} /> : <Lock className="shrink-0 mt-0.5" size={18} />}
+      <div className="flex-1 min-w-0">
+        <p>
+          {revealed
+            ? '本轮已揭晓，双方的内容同时公开。'
+            : '双方各自作答，草稿只保存在自己的设备上；密封提交后对方也看不到，双方都提交后同时揭晓。'}
+        </p>
+        <div className="flex flex-wrap gap-3 mt-2 text-xs">
+          {renderParty(UserRole.PLAINTIFF, '原告')}
+          {renderParty(UserRole.DEFENDANT, '被告')}
+          {!revealed && deadline && <span className="text-slate-500">对方未提交也将于 {new Date(deadline).toLocaleString()} 揭晓</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -12,15 +12,18 @@ import {
   FileAudio,
   Music,
   StopCircle,
-  Wand2
+  Wand2,
+  CloudOff
 } from 'lucide-react';
 import * as GeminiService from '../services/geminiService';
-import { EvidenceItem, EvidenceType, UserRole } from '../types';
+import { EvidenceStore } from '../services/evidenceStore';
+import { MockDb } from '../services/mockDb';
+import { EvidenceItem, EvidenceMedia, EvidenceType, UserRole } from '../types';
 
 // --- Helpers ---
 
-// Compress image to ensure it fits in storage/API limits
-const compressImage = (file: File): Promise<string> => {
+// Downscale an image to a JPEG blob (used for the stored copy and the list thumbnail)
+const resizeImage = (file: File, maxDimension: number, quality: number): Promise<Blob> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -29,20 +32,18 @@ const compressImage = (file: File): Promise<string> => {
       img.src = e.target?.result as string;
       img.onload = () => {
         const canvas = document.createElement('canvas');
-        // Limit max dimension to 1024px to balance quality and size
-        const MAX_DIMENSION = 1024; 
         let width = img.width;
         let height = img.height;
 
         if (width > height) {
-          if (width > MAX_DIMENSION) {
-            height *= MAX_DIMENSION / width;
-            width = MAX_DIMENSION;
+          if (width > maxDimension) {
+            height *= maxDimension / width;
+            width = maxDimension;
           }
         } else {
-          if (height > MAX_DIMENSION) {
-            width *= MAX_DIMENSION / height;
-            height = MAX_DIMENSION;
+          if (height > maxDimension) {
+            width *= maxDimension / height;
+            height = maxDimension;
           }
         }
 
@@ -50,13 +51,11 @@ const compressImage = (file: File): Promise<string> => {
         canvas.height = height;
         const ctx = canvas.getContext('2d');
         if (!ctx) {
-            resolve(e.target?.result as string);
+            resolve(file);
             return;
         }
         ctx.drawImage(img, 0, 0, width, height);
-        // Compress to JPEG with 0.7 quality
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-        resolve(dataUrl);
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("图片压缩失败")), 'image/jpeg', quality);
       };
       img.onerror = (err) => reject(err);
     };
@@ -64,23 +63,156 @@ const compressImage = (file: File): Promise<string> => {
   });
 };
 
-// Mock audio compression/processing helper
-const processAudioFile = (file: File): Promise<{ base64: string, compressed: boolean }> => {
+// Limit max dimension to 1024px to balance quality and size for the AI judge
+const compressImage = (file: File) => resizeImage(file, 1024, 0.7);
+const createThumbnail = (file: File) => resizeImage(file, 240, 0.6);
+
+// Read an audio file as raw base64 for transcription
+const readAudioBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
-    reader.onload = (e) => {
-      let result = e.target?.result as string;
-      const isTooBigForStorage = result.length > 3 * 1024 * 1024; // ~3MB limit for safety in localStorage
-      resolve({
-        base64: result,
-        compressed: !isTooBigForStorage // Flag to indicate if we can store the file content
-      });
-    };
+    reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
     reader.onerror = (err) => reject(err);
   });
 };
 
+// --- User Names ---
+
+// Display names for user ids (cases store auth user ids); an id shows as itself until resolved
+export const useUserNames = (ids: (string | undefined)[]) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const known = ids.filter((id): id is string => !!id);
+  const key = [...new Set(known)].sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    MockDb.getUserNames(key.split(',')).then(resolved => { if (!cancelled) setNames(resolved); });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return (id: string) => names[id] || id;
+};
+
+// --- Evidence Media (lazy loaded from the blob store) ---
+
+// Resolve a blob reference to an object URL once `enabled` becomes true
+const useMediaUrl = (ref: string | undefined, enabled: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!ref || !enabled || url) return;
+    let cancelled = false;
+    EvidenceStore.getObjectUrl(ref)
+      .then(u => {
+        if (cancelled) return;
+        if (u) setUrl(u);
+        else setFailed(true);
+      })
+      .catch(err => {
+        console.warn("Evidence media load failed", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [ref, enabled]);
+
+  return { url, failed };
+};
+
+// True once the element has scrolled into view
+const useInView = <T extends Element>() => {
+  const ref = useRef<T>(null);
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    if (inView || !ref.current) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) {
+        setInView(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [inView]);
+
+  return { ref, inView };
+};
+
+const MediaUnavailable = ({ media }: { media: EvidenceMedia }) => (
+  <div className="mt-2 text-xs text-slate-400 flex items-center gap-1">
+    <CloudOff size={12} />
+    {EvidenceStore.isLocalOnly(media.ref) ? '文件仅保存在提交方设备上' : '文件加载失败'}
+  </div>
+);
+
+// Thumbnail first; the full image is only fetched when the user opens it
+const EvidenceImage = ({ ev }: { ev: EvidenceItem }) => {
+  const { ref, inView } = useInView<HTMLDivElement>();
+  const [isOpen, setIsOpen] = useState(false);
+  const media = ev.media;
+  const thumb = useMediaUrl(media?.thumbnailRef || media?.ref, inView);
+  const full = useMediaUrl(media?.ref, isOpen);
+
+  // Legacy records embed the image as a data URL
+  if (!media) {
+    return ev.content.startsWith('data:')
+      ? <img src={ev.content} alt="Evidence" className="mt-2 rounded-md h-24 object-cover border border-slate-100" />
+      : null;
+  }
+
+  return (
+    <div ref={ref}>
+      {thumb.failed ? <MediaUnavailable media={media} /> : (
+        <button
+          type="button"
+          onClick={(e) => { e.stopPropagation(); setIsOpen(true); }}
+          className="mt-2 block"
+          title="查看原图"
+        >
+          {thumb.url
+            ? <img src={thumb.url} alt="Evidence" className="rounded-md h-24 object-cover border border-slate-100" />
+            : <div className="h-24 w-24 rounded-md bg-slate-100 border border-slate-100 flex items-center justify-center"><ImageIcon size={20} className="text-slate-300" /></div>}
+        </button>
+      )}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/80 animate-fade-in"
+          onClick={(e) => { e.stopPropagation(); setIsOpen(false); }}
+        >
+          {full.url
+            ? <img src={full.url} alt="Evidence" className="max-h-full max-w-full rounded-lg shadow-2xl" />
+            : full.failed ? <MediaUnavailable media={media} /> : <Loader2 className="animate-spin text-white" size={32} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Recordings are only downloaded when the user asks to play them
+const EvidenceAudio = ({ media }: { media: EvidenceMedia }) => {
+  const [requested, setRequested] = useState(false);
+  const { url, failed } = useMediaUrl(media.ref, requested);
+
+  if (failed) return <MediaUnavailable media={media} />;
+  if (url) return <audio src={url} controls autoPlay className="mt-2 w-full h-8" onClick={e => e.stopPropagation()} />;
+  return (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); setRequested(true); }}
+      className="mt-2 text-xs font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+    >
+      {requested ? <Loader2 size={12} className="animate-spin" /> : <FileAudio size={12} />} 播放原始录音
+    </button>
+  );
+};
+
 // --- Confirm Dialog ---
 export const ConfirmDialog = ({
   isOpen,
@@ -475,15 +607,14 @@ export const EvidenceList = ({
               <span className="bg-slate-100 text-slate-600 text-xs font-bold px-2 py-1 rounded h-fit">#{idx + 1}</span>
               <div className="flex-1 min-w-0">
                 <p className="text-sm text-slate-800 font-medium break-words">{ev.description}</p>
-                {ev.type === EvidenceType.IMAGE && (
-                  <img src={ev.content} alt="Evidence" className="mt-2 rounded-md h-24 object-cover border border-slate-100" />
-                )}
+                {ev.type === EvidenceType.IMAGE && <EvidenceImage ev={ev} />}
                 {ev.type === EvidenceType.AUDIO && (
                   <div className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-200">
                       <div className="flex items-center gap-2 text-indigo-600 font-bold text-xs mb-1">
                           <Music size={14} /> 录音转录内容
                       </div>
                       <p className="text-xs text-slate-600 italic line-clamp-3">"{ev.content}"</p>
+                      {ev.media && <EvidenceAudio media={ev.media} />}
                   </div>
                 )}
                 {ev.type === EvidenceType.TEXT && (
@@ -510,6 +641,15 @@ export const EvidenceList = ({
               </div>
             )}
             {canContest && !isContested && <p className="text-xs text-slate-400 mt-2 ml-10">点击提出异议</p>}
+            {ev.aiAnalysis && (
+              <div className="mt-2 ml-10 p-3 bg-violet-50 rounded-lg border border-violet-100">
+                <div className="flex items-center gap-1 text-violet-700 font-bold text-xs mb-1">
+                  <Sparkles size={12} /> AI 质证分析
+                </div>
+                {/* Analysis is Markdown; strip emphasis markers for plain rendering */}
+                <p className="text-xs text-slate-600 whitespace-pre-wrap leading-relaxed">{ev.aiAnalysis.replace(/\*\*/g, '')}</p>
+              </div>
+            )}
           </div>
         );
       })}
@@ -520,13 +660,16 @@ export const EvidenceList = ({
 // --- Evidence Creator ---
 export const EvidenceCreator = ({ 
   onAdd, 
-  userRole 
+  userRole,
+  caseId
 }: { 
-  onAdd: (e: EvidenceItem) => void,
-  userRole: UserRole
+  onAdd: (e: EvidenceItem) => boolean | void | Promise<boolean | void>, // false keeps the typed text (e.g. the author went back to edit it)
+  userRole: UserRole,
+  caseId?: string // Folder for uploaded media in the evidence store
 }) => {
   const [textInput, setTextInput] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
   const [isCompressing, setIsCompressing] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
   
@@ -653,9 +796,10 @@ export const EvidenceCreator = ({
     }
   };
 
-  const handleAddText = () => {
+  const handleAddText = async () => {
     if (!textInput.trim()) return;
-    onAdd({
+    setIsAdding(true);
+    const added = await onAdd({
       id: Date.now().toString(),
       type: EvidenceType.TEXT,
       content: textInput,
@@ -663,7 +807,8 @@ export const EvidenceCreator = ({
       isContested: false,
       submittedBy: userRole
     });
-    setTextInput("");
+    setIsAdding(false);
+    if (added !== false) setTextInput("");
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -678,11 +823,17 @@ export const EvidenceCreator = ({
     setIsCompressing(true);
 
     try {
-        const compressedDataUrl = await compressImage(file);
+        const [compressed, thumbnail] = await Promise.all([compressImage(file), createThumbnail(file)]);
+        const folder = caseId || 'unfiled';
+        const [ref, thumbnailRef] = await Promise.all([
+            EvidenceStore.put(compressed, folder),
+            EvidenceStore.put(thumbnail, folder)
+        ]);
         onAdd({
             id: Date.now().toString(),
             type: EvidenceType.IMAGE,
-            content: compressedDataUrl,
+            content: '',
+            media: { ref, mimeType: compressed.type || 'image/jpeg', size: compressed.size, thumbnailRef },
             description: textInput.trim() || file.name,
             isContested: false,
             submittedBy: userRole
@@ -711,21 +862,20 @@ export const EvidenceCreator = ({
     setIsCompressing(true); // Re-use compressing state for "Analysis & Compression"
 
     try {
-      const { base64, compressed } = await processAudioFile(file);
-      const rawBase64 = base64.split(',')[1];
+      const rawBase64 = await readAudioBase64(file);
       
-      // Transcribe first (Analyze)
+      // Transcribe (Analyze) and archive the original recording in parallel
       // Note: Passing huge base64 might hit API limits depending on the file, handled in service gracefully hopefully
-      const transcript = await GeminiService.transcribeAudio(rawBase64, file.type || 'audio/mp3');
+      const [transcript, ref] = await Promise.all([
+        GeminiService.transcribeAudio(rawBase64, file.type || 'audio/mp3'),
+        EvidenceStore.put(file, caseId || 'unfiled')
+      ]);
 
-      // Decide what to store. If we couldn't compress enough for localStorage, we store a placeholder + transcript.
-      // If we could, we would store the base64 (but we avoid that here to prevent crashing the demo app).
-      // For this demo, we prioritize the Transcript as the "Content" for the AI Judge.
-      
       onAdd({
         id: Date.now().toString(),
         type: EvidenceType.AUDIO,
-        content: transcript || "（语音转录失败，音频已存档）", // We store the transcript as the primary content for the AI to read
+        content: transcript || "（语音转录失败，音频已存档）", // The transcript is the primary content for the AI to read
+        media: { ref, mimeType: file.type || 'audio/mp3', size: file.size },
         description: `${textInput.trim() || file.name} (已上传录音)`,
         isContested: false,
         submittedBy: userRole
@@ -785,8 +935,8 @@ export const EvidenceCreator = ({
       />
 
       <div className="flex gap-2">
-        <button onClick={handleAddText} disabled={!textInput.trim() || isProcessing || isCompressing || isOptimizing} className="flex-1 bg-slate-800 text-white py-2 rounded-lg text-sm font-bold">
-           添加文字
+        <button onClick={handleAddText} disabled={!textInput.trim() || isProcessing || isCompressing || isOptimizing || isAdding} className="flex-1 bg-slate-800 text-white py-2 rounded-lg text-sm font-bold">
+           {isAdding ? <Loader2 size={16} className="animate-spin mx-auto" /> : "添加文字"}
         </button>
         
         <button onClick={() => audioInputRef.current?.click()} disabled={isCompressing} className="px-3 bg-slate-200 text-slate-700 py-2 rounded-lg text-sm font-bold flex items-center gap-1 hover:bg-slate-300 transition-colors disabled:opacity-50">
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Scale, Loader2, CheckCircle2 } from 'lucide-react';
+import { CaseData, JurySide } from '../types';
+import { EvidenceList } from './Shared';
+import { getJuryVote, isJuryVotingOpen, JURY_SIDE_LABELS } from '../services/caseHearing';
+import { getCaseDemands, getCounterclaims } from '../services/caseDemands';
+
+// --- Spectator View ---
+// Read-only view of a public hearing (the case arrives redacted, see caseHearing.redactForSpectator),
+// with the people's jury ballot while voting is open.
+export const SpectatorView = ({
+  data,
+  user,
+  onVote
+}: {
+  data: CaseData;
+  user: string;
+  onVote: (vote: { points: Record<string, JurySide>; plaintiffShare?: number }) => Promise<void>;
+}) => {
+  const myVote = getJuryVote(data, user);
+  const [points, setPoints] = useState<Record<string, JurySide>>(myVote?.points || {});
+  const [share, setShare] = useState<number | undefined>(myVote?.plaintiffShare);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Pick up the stored vote once it arrives (another device, or after submitting)
+  useEffect(() => {
+    setPoints(myVote?.points || {});
+    setShare(myVote?.plaintiffShare);
+  }, [myVote?.at]);
+
+  const demands = getCaseDemands(data);
+  const counterclaims = getCounterclaims(data);
+  const votingOpen = isJuryVotingOpen(data);
+
+  const handleVote = async () => {
+    setSubmitting(true);
+    try {
+      await onVote({ points, plaintiffShare: share });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-indigo-50 border border-indigo-100 p-3 rounded-xl text-xs text-indigo-800 flex items-center gap-2">
+        <Eye size={14} className="shrink-0" /> 您正在旁听本案，只能查看，不能修改案件内容。
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+        <h3 className="font-bold text-slate-800">{data.title || data.category}</h3>
+        <div>
+          <p className="text-xs font-bold text-rose-600 mb-1">原告陈述</p>
+          <p className="text-sm text-slate-600 whitespace-pre-wrap">{data.plaintiffSummary || data.description}</p>
+        </div>
+        {demands.length > 0 && (
+          <div>
+            <p className="text-xs font-bold text-rose-600 mb-1">诉请</p>
+            <ol className="text-sm text-slate-600 list-decimal pl-5 space-y-1">
+              {demands.map(d => <li key={d.id}>{d.content}</li>)}
+            </ol>
+          </div>
+        )}
+        {(data.defenseSummary || data.defenseStatement) && (
+          <div>
+            <p className="text-xs font-bold text-indigo-600 mb-1">被告答辩</p>
+            <p className="text-sm text-slate-600 whitespace-pre-wrap">{data.defenseSummary || data.defenseStatement}</p>
+          </div>
+        )}
+        {counterclaims.length > 0 && (
+          <div>
+            <p className="text-xs font-bold text-indigo-600 mb-1">反诉请求</p>
+            <ol className="text-sm text-slate-600 list-decimal pl-5 space-y-1">
+              {counterclaims.map(d => <li key={d.id}>{d.content}</li>)}
+            </ol>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-4">
+        <EvidenceList items={data.evidence} title="原告证据" />
+        <EvidenceList items={data.defendantEvidence} title="被告证据" />
+      </div>
+
+      {(data.plaintiffRebuttal || data.defendantRebuttal) && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+          <h3 className="text-sm font-bold text-slate-500 uppercase">质证意见</h3>
+          {data.plaintiffRebuttal && <p className="text-sm text-slate-600"><span className="font-bold text-rose-600">原告：</span>{data.plaintiffRebuttal}</p>}
+          {data.defendantRebuttal && <p className="text-sm text-slate-600"><span className="font-bold text-indigo-600">被告：</span>{data.defendantRebuttal}</p>}
+        </div>
+      )}
+
+      {data.disputePoints.length > 0 && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-4">
+          <h3 className="text-sm font-bold text-slate-500 uppercase flex items-center gap-2"><Scale size={14} /> 争议焦点</h3>
+          {data.disputePoints.map(p => (
+            <div key={p.id} className="p-3 rounded-lg bg-slate-50 border border-slate-100 space-y-2">
+              <p className="font-bold text-slate-800 text-sm">{p.title}</p>
+              <p className="text-xs text-slate-500">{p.description}</p>
+              {p.plaintiffArg && <p className="text-sm text-slate-600"><span className="font-bold text-rose-600">原告：</span>{p.plaintiffArg}</p>}
+              {p.defendantArg && <p className="text-sm text-slate-600"><span className="font-bold text-indigo-600">被告：</span>{p.defendantArg}</p>}
+              {votingOpen && (
+                <div className="flex gap-2 pt-1">
+                  {(['PLAINTIFF', 'DEFENDANT'] as JurySide[]).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setPoints(prev => ({ ...prev, [p.id]: side }))}
+                      className={`flex-1 text-xs font-bold py-1.5 rounded-lg border ${
+                        points[p.id] === side
+                          ? (side === 'PLAINTIFF' ? 'bg-rose-600 text-white border-rose-600' : 'bg-indigo-600 text-white border-indigo-600')
+                          : 'bg-white text-slate-600 border-slate-200'
+                      }`}
+                    >
+                      {JURY_SIDE_LABELS[side]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {votingOpen ? (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-indigo-100 space-y-3">
+          <h3 className="font-bold text-slate-800">人民陪审团 · 责任比例</h3>
+          <div className="flex justify-between text-sm font-bold">
+            <span className="text-rose-500">原告 {share ?? '-'}%</span>
+            <span className="text-indigo-500">被告 {share === undefined ? '-' : 100 - share}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={share ?? 50}
+            onChange={e => setShare(Number(e.target.value))}
+            className="w-full accent-indigo-600"
+          />
+          {myVote && <p className="text-xs text-green-700 flex items-center gap-1"><CheckCircle2 size={12} /> 已投票，可在判决前修改</p>}
+          <button
+            onClick={handleVote}
+            disabled={submitting || (Object.keys(points).length === 0 && share === undefined)}
+            className="w-full bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {submitting && <Loader2 className="animate-spin" size={16} />} {myVote ? '更新投票' : '提交投票'}
+          </button>
+        </div>
+      ) : (
+        <p className="text-center text-xs text-slate-400">{myVote ? '您已投票，' : ''}陪审团投票在辩论开始后开放，判决后结果将与 AI 判决一同展示。</p>
+      )}
+    </div>
+  );
+};
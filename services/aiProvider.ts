@@ -0,0 +1,100 @@
+// --- AI Provider Abstraction ---
+// Every call made by geminiService goes through the provider returned by getAiProvider().
+// The concrete backend is picked from VITE_AI_PROVIDER ('gemini' | 'openai' | 'fixture').
+// When nothing is configured we fall back to the offline fixture provider instead of
+// crashing at import time, so the app can always boot (demo / local development).
+
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiProvider } from './providers/openaiProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+
+// Logical model tiers. Each provider maps them onto its own model names.
+export type ModelTier = 'flash' | 'pro' | 'verdict';
+
+// What the request is for. Real providers ignore it; the fixture provider uses it
+// to decide which scripted response to return.
+export type AiTask =
+  | 'title'
+  | 'summary'
+  | 'polish'
+  | 'grammar'
+  | 'sentiment'
+  | 'facts'
+  | 'evidence'
+  | 'dispute'
+  | 'verdict'
+  | 'settlement';
+
+export interface InlineImage {
+  inlineData: { data: string; mimeType: string };
+}
+
+export interface AiRequest {
+  task: AiTask;
+  model: ModelTier;
+  systemInstruction?: string;
+  prompt: string;
+  temperature?: number;
+  jsonMode?: boolean;
+  images?: InlineImage[];
+}
+
+export interface AiProvider {
+  name: string;
+  generate: (req: AiRequest) => Promise<string>;
+  // Optional: yields the response text as it is produced. Callers fall back to generate() without it.
+  generateStream?: (req: AiRequest) => AsyncIterable<string>;
+  transcribe: (base64Audio: string, mimeType: string) => Promise<string>;
+}
+
+export type AiProviderName = 'gemini' | 'openai' | 'fixture';
+
+export const getEnv = (key: string): string | undefined => {
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env[key]) {
+      // @ts-ignore
+      return import.meta.env[key];
+    }
+  } catch (e) {
+    // Ignore
+  }
+  return undefined;
+};
+
+const resolveProviderName = (): AiProviderName => {
+  const configured = (getEnv('VITE_AI_PROVIDER') || '').toLowerCase();
+  if (configured === 'gemini' || configured === 'openai' || configured === 'fixture') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VITE_AI_PROVIDER "${configured}", falling back to auto-detect.`);
+  }
+  if (getEnv('VITE_GOOGLE_API_KEY')) return 'gemini';
+  if (getEnv('VITE_OPENAI_API_KEY')) return 'openai';
+  console.warn("No AI API key configured, using offline fixture provider.");
+  return 'fixture';
+};
+
+export const createAiProvider = (name: AiProviderName): AiProvider => {
+  switch (name) {
+    case 'gemini': return createGeminiProvider();
+    case 'openai': return createOpenAiProvider();
+    case 'fixture': return createFixtureProvider();
+  }
+};
+
+let activeProvider: AiProvider | null = null;
+
+// Lazily created so that a missing key only fails the AI call, not the whole app.
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) {
+    activeProvider = createAiProvider(resolveProviderName());
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime (e.g. for demos or a settings screen).
+export const setAiProvider = (provider: AiProvider | null) => {
+  activeProvider = provider;
+};
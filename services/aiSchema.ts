@@ -0,0 +1,392 @@
+// --- AI Response Schemas ---
+// Small runtime validator for the JSON returned by the AI judge.
+// Every schema checks one value, repairs it when the value is coercible
+// (e.g. "60%" -> 60, a single string -> [string]) and records a field-level
+// issue when it is not. Callers re-prompt the model with the issues on failure.
+
+import {
+  Verdict,
+  DisputePoint,
+  SentimentResult,
+  FactCheckResult,
+  PenaltyTask,
+  DisputeAnalysis,
+  JudgeOpinion,
+  DemandRuling,
+  RulingOutcome,
+  SettlementDraft,
+  SettlementTerm
+} from "../types";
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface SchemaContext {
+  issues: SchemaIssue[];
+  repairs: string[];
+}
+
+export type Schema<T> = (input: unknown, path: string, ctx: SchemaContext) => T;
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T;
+  issues: SchemaIssue[];
+  repairs: string[];
+}
+
+export class SchemaValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super("AI 返回格式错误: " + formatIssues(issues));
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssues = (issues: SchemaIssue[]) =>
+  issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('; ');
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+const fail = <T>(ctx: SchemaContext, path: string, message: string): T => {
+  ctx.issues.push({ path, message });
+  return undefined as unknown as T;
+};
+
+// --- Primitive Schemas ---
+
+export const string = (): Schema<string> => (input, path, ctx) => {
+  if (typeof input === 'string') return input;
+  if (typeof input === 'number' || typeof input === 'boolean') {
+    ctx.repairs.push(`${path}: ${typeof input} -> string`);
+    return String(input);
+  }
+  if (Array.isArray(input) && input.every(i => typeof i === 'string')) {
+    ctx.repairs.push(`${path}: string[] -> string`);
+    return input.join('\n');
+  }
+  return fail(ctx, path, `应为字符串，实际为 ${describe(input)}`);
+};
+
+export const number = (opts: { min?: number; max?: number } = {}): Schema<number> => (input, path, ctx) => {
+  let value: number;
+  if (typeof input === 'number' && Number.isFinite(input)) {
+    value = input;
+  } else if (typeof input === 'string' && /\d/.test(input)) {
+    value = parseFloat(input.replace(/[^0-9.\-]/g, ''));
+    if (!Number.isFinite(value)) return fail(ctx, path, `无法将 "${input}" 解析为数字`);
+    ctx.repairs.push(`${path}: "${input}" -> ${value}`);
+  } else {
+    return fail(ctx, path, `应为数字，实际为 ${describe(input)}`);
+  }
+  if (opts.min !== undefined && value < opts.min) {
+    ctx.repairs.push(`${path}: clamp ${value} -> ${opts.min}`);
+    value = opts.min;
+  }
+  if (opts.max !== undefined && value > opts.max) {
+    ctx.repairs.push(`${path}: clamp ${value} -> ${opts.max}`);
+    value = opts.max;
+  }
+  return value;
+};
+
+export const boolean = (): Schema<boolean> => (input, path, ctx) => {
+  if (typeof input === 'boolean') return input;
+  if (typeof input === 'string') {
+    const lower = input.trim().toLowerCase();
+    if (['true', 'yes', '是', '1'].includes(lower)) { ctx.repairs.push(`${path}: "${input}" -> true`); return true; }
+    if (['false', 'no', '否', '0'].includes(lower)) { ctx.repairs.push(`${path}: "${input}" -> false`); return false; }
+  }
+  if (input === 0 || input === 1) {
+    ctx.repairs.push(`${path}: ${input} -> ${input === 1}`);
+    return input === 1;
+  }
+  return fail(ctx, path, `应为布尔值，实际为 ${describe(input)}`);
+};
+
+// Case-insensitive match against the allowed values, also accepting values that contain one of them.
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (input, path, ctx) => {
+  if (typeof input === 'string') {
+    if ((values as readonly string[]).includes(input)) return input as T;
+    const upper = input.toUpperCase();
+    const match = values.find(v => upper === v.toUpperCase()) || values.find(v => upper.includes(v.toUpperCase()));
+    if (match) {
+      ctx.repairs.push(`${path}: "${input}" -> "${match}"`);
+      return match;
+    }
+  }
+  return fail(ctx, path, `应为 ${values.join(' | ')} 之一，实际为 ${JSON.stringify(input)}`);
+};
+
+// --- Composite Schemas ---
+
+// Strip "1." / "-" / "•" list markers when splitting a string into list items
+const splitListString = (text: string) =>
+  text.split(/\n+/).map(l => l.replace(/^\s*(\d+[.、)]|[-*•])\s*/, '').trim()).filter(Boolean);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (input, path, ctx) => {
+  let list: unknown[];
+  if (Array.isArray(input)) {
+    list = input;
+  } else if (typeof input === 'string') {
+    list = splitListString(input);
+    ctx.repairs.push(`${path}: string -> array(${list.length})`);
+  } else if (input && typeof input === 'object') {
+    list = [input];
+    ctx.repairs.push(`${path}: object -> [object]`);
+  } else {
+    return fail(ctx, path, `应为数组，实际为 ${describe(input)}`);
+  }
+  return list.map((v, i) => item(v, join(path, i), ctx));
+};
+
+type Shape = Record<string, Schema<any>>;
+type InferShape<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => (input, path, ctx) => {
+  let source = input;
+  if (typeof source === 'string') {
+    try {
+      source = JSON.parse(source);
+      ctx.repairs.push(`${path}: JSON string -> object`);
+    } catch (e) { /* handled below */ }
+  }
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    return fail(ctx, path, `应为对象，实际为 ${describe(input)}`);
+  }
+  const record = source as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(shape)) {
+    const value = shape[key](record[key], join(path, key), ctx);
+    if (value !== undefined) result[key] = value;
+  }
+  return result as InferShape<S>;
+};
+
+// Missing (undefined/null) values become `fallback` instead of an issue.
+export const withDefault = <T>(schema: Schema<T>, fallback: () => T): Schema<T> => (input, path, ctx) => {
+  if (input === undefined || input === null) {
+    ctx.repairs.push(`${path}: missing -> default`);
+    return fallback();
+  }
+  return schema(input, path, ctx);
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (input, path, ctx) => {
+  if (input === undefined || input === null) return undefined;
+  return schema(input, path, ctx);
+};
+
+// Post-process a successfully validated value (skipped when there are issues below it).
+export const refine = <T, U>(schema: Schema<T>, fn: (value: T) => U): Schema<U> => (input, path, ctx) => {
+  const before = ctx.issues.length;
+  const value = schema(input, path, ctx);
+  return ctx.issues.length > before ? (value as unknown as U) : fn(value);
+};
+
+export const validate = <T>(schema: Schema<T>, input: unknown): ValidationResult<T> => {
+  const ctx: SchemaContext = { issues: [], repairs: [] };
+  const value = schema(input, '', ctx);
+  if (ctx.issues.length > 0) return { ok: false, issues: ctx.issues, repairs: ctx.repairs };
+  return { ok: true, value, issues: [], repairs: ctx.repairs };
+};
+
+// --- Domain Schemas ---
+
+export const sentimentSchema: Schema<SentimentResult> = object({
+  isToxic: boolean(),
+  score: number({ min: 0, max: 10 }),
+  reason: withDefault(string(), () => '')
+});
+
+export const factCheckSchema: Schema<FactCheckResult> = object({
+  facts: array(string())
+});
+
+const disputePointDraftSchema = object({
+  id: optional(string()),
+  title: string(),
+  description: string()
+});
+
+// The model is asked for { points: [...] } but sometimes returns the bare array.
+export const disputePointsSchema: Schema<(Omit<DisputePoint, 'id'> & { id?: string })[]> = (input, path, ctx) => {
+  if (Array.isArray(input)) {
+    ctx.repairs.push(`${path}: array -> { points }`);
+    return array(disputePointDraftSchema)(input, join(path, 'points'), ctx);
+  }
+  const wrapped = object({ points: array(disputePointDraftSchema) })(input, path, ctx);
+  return wrapped?.points;
+};
+
+// Penalty tasks arrive as objects with odd keys or plain strings. Assignee may be left
+// undefined here and is resolved from the responsibility split by the verdict schema.
+type PenaltyTaskDraft = { assignee?: PenaltyTask['assignee']; content: string };
+
+const penaltyTaskSchema: Schema<PenaltyTaskDraft> = (input, path, ctx) => {
+  if (typeof input === 'string') {
+    ctx.repairs.push(`${path}: string -> task`);
+    return { content: input };
+  }
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    const t = input as Record<string, unknown>;
+    const content = t.content ?? t.description ?? t.task;
+    if (typeof content !== 'string' || !content.trim()) {
+      return fail(ctx, join(path, 'content'), `任务内容缺失`);
+    }
+    if (typeof t.assignee === 'string') {
+      return { assignee: t.assignee.toUpperCase().includes('PLAINTIFF') ? 'PLAINTIFF' : 'DEFENDANT', content };
+    }
+    // Guess assignee from content
+    ctx.repairs.push(`${path}.assignee: guessed from content`);
+    const isPlaintiff = content.includes('原告') && !content.includes('被告做');
+    return { assignee: isPlaintiff ? 'PLAINTIFF' : 'DEFENDANT', content };
+  }
+  return fail(ctx, path, `应为任务对象，实际为 ${describe(input)}`);
+};
+
+// Normalize to integers summing to 100; an empty split becomes 50/50.
+const responsibilitySplitSchema = refine(
+  object({
+    plaintiff: withDefault(number({ min: 0 }), () => 50),
+    defendant: withDefault(number({ min: 0 }), () => 50)
+  }),
+  ({ plaintiff: p, defendant: d }) => {
+    const total = p + d;
+    if (total > 0 && Math.abs(total - 100) > 1) {
+      p = Math.round((p / total) * 100);
+      d = 100 - p;
+    } else if (total === 0) {
+      p = 50; d = 50;
+    }
+    return { plaintiff: p, defendant: d };
+  }
+);
+
+const disputeAnalysisSchema: Schema<DisputeAnalysis> = object({
+  title: string(),
+  analysis: string()
+});
+
+// The model sometimes answers with the Chinese ruling words used in the judgment text
+const rulingOutcomeSchema: Schema<RulingOutcome> = (input, path, ctx) => {
+  if (typeof input === 'string' && /[支驳修]/.test(input)) {
+    const outcome: RulingOutcome = input.includes('修正') ? 'MODIFIED' : input.includes('驳回') ? 'REJECTED' : 'SUPPORTED';
+    ctx.repairs.push(`${path}: "${input}" -> "${outcome}"`);
+    return outcome;
+  }
+  return oneOf(['SUPPORTED', 'REJECTED', 'MODIFIED'] as const)(input, path, ctx);
+};
+
+const demandRulingSchema: Schema<DemandRuling> = object({
+  demandId: string(),
+  outcome: rulingOutcomeSchema,
+  modifiedRemedy: optional(string()),
+  reasoning: withDefault(string(), () => '')
+});
+
+const judgeOpinionSchema: Schema<JudgeOpinion> = object({
+  persona: string(),
+  position: withDefault(string(), () => ''),
+  responsibilitySplit: optional(responsibilitySplitSchema),
+  dissent: optional(string())
+});
+
+export const verdictSchema: Schema<Verdict> = refine(
+  object({
+    summary: string(),
+    facts: array(string()),
+    responsibilitySplit: withDefault(responsibilitySplitSchema, () => ({ plaintiff: 50, defendant: 50 })),
+    reasoning: withDefault(string(), () => ''),
+    finalJudgment: string(),
+    penaltyTasks: withDefault(array(penaltyTaskSchema), () => []),
+    tone: withDefault(string(), () => ''),
+    disputeAnalyses: optional(array(disputeAnalysisSchema)),
+    rulings: optional(array(demandRulingSchema)),
+    panel: optional(array(judgeOpinionSchema))
+  }),
+  (v) => {
+    // Heuristic: tasks without an assignee go to the loser of the case
+    const loser = v.responsibilitySplit.defendant > v.responsibilitySplit.plaintiff ? 'DEFENDANT' : 'PLAINTIFF';
+    return {
+      ...v,
+      penaltyTasks: v.penaltyTasks.map(t => ({ assignee: t.assignee || loser, content: t.content }))
+    };
+  }
+);
+
+const settlementTermSchema: Schema<SettlementTerm> = object({
+  demandId: string(),
+  resolution: string()
+});
+
+export const settlementDraftSchema: Schema<SettlementDraft> = refine(
+  object({
+    terms: withDefault(array(settlementTermSchema), () => []),
+    tasks: withDefault(array(penaltyTaskSchema), () => []),
+    note: withDefault(string(), () => '')
+  }),
+  (d) => ({
+    ...d,
+    // Reconciliation tasks are for both: ones given as plain strings are shared out alternately
+    tasks: d.tasks.map((t, i) => ({ assignee: t.assignee || (i % 2 === 0 ? 'DEFENDANT' : 'PLAINTIFF'), content: t.content }))
+  })
+);
+
+/**
+ * Best-effort normalization of a stored verdict for rendering.
+ * Older or hand-edited records may not match the schema; never throw at render time.
+ */
+export const normalizeVerdict = (raw: unknown): Verdict => {
+  const result = validate(verdictSchema, raw);
+  if (result.ok) return result.value;
+
+  const v = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+  const asText = (x: unknown) => typeof x === 'string' ? x : (x == null ? '' : String(x));
+  const asList = (x: unknown) => Array.isArray(x) ? x.map(asText) : (typeof x === 'string' ? splitListString(x) : []);
+  const split = validate(responsibilitySplitSchema, v.responsibilitySplit ?? {});
+  return {
+    summary: asText(v.summary),
+    facts: asList(v.facts),
+    responsibilitySplit: split.ok ? split.value : { plaintiff: 50, defendant: 50 },
+    reasoning: asText(v.reasoning),
+    finalJudgment: asText(v.finalJudgment),
+    penaltyTasks: Array.isArray(v.penaltyTasks)
+      ? v.penaltyTasks
+          .filter((t: any) => t && typeof t.content === 'string')
+          .map((t: any) => ({ assignee: t.assignee === 'PLAINTIFF' ? 'PLAINTIFF' : 'DEFENDANT', content: t.content }))
+      : [],
+    tone: asText(v.tone),
+    disputeAnalyses: Array.isArray(v.disputeAnalyses)
+      ? v.disputeAnalyses.map((d: any) => ({ title: asText(d?.title), analysis: asText(d?.analysis) }))
+      : undefined,
+    rulings: Array.isArray(v.rulings)
+      ? v.rulings.flatMap((r: any) => {
+          const ruling = validate(demandRulingSchema, r);
+          return ruling.ok ? [ruling.value] : [];
+        })
+      : undefined,
+    panel: Array.isArray(v.panel)
+      ? v.panel.filter((o: any) => o && o.persona).map((o: any) => {
+          const opinionSplit = validate(responsibilitySplitSchema, o.responsibilitySplit);
+          return {
+            persona: o.persona,
+            position: asText(o.position),
+            responsibilitySplit: opinionSplit.ok ? opinionSplit.value : undefined,
+            dissent: o.dissent ? asText(o.dissent) : undefined
+          };
+        })
+      : undefined
+  };
+};
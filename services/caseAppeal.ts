@@ -0,0 +1,132 @@
+import { AppealFiling, CaseData, CaseStatus, Counterclaim, Demand, UserRole, Verdict, VerdictRecord } from "../types";
+import { getRulings, ResolvedRuling } from "./judgmentFormat";
+import { PersonaRegistry } from "./personaRegistry";
+import { createTasks } from "./penaltyTasks";
+
+// --- Appeals ---
+// After a verdict either party may appeal: the appellant files grounds (CLOSED -> APPEAL),
+// the other party responds (APPEAL -> ADJUDICATING) and a different judge re-hears the case
+// with the previous verdict and both filings in the prompt. Every verdict is kept in
+// `verdictHistory`; `verdict` stays the latest one so existing readers keep working.
+// The transitions themselves are guarded in caseWorkflow.ts.
+
+export const MAX_APPEALS = 2;
+
+const ROUND_NAMES = ['一审', '二审', '三审', '四审', '五审'];
+
+export const getRoundLabel = (round: number) => ROUND_NAMES[round] || `第${round + 1}审`;
+
+/**
+ * All delivered verdicts, oldest first.
+ * Cases closed before the history existed get their single verdict as the first instance.
+ */
+export const getVerdictHistory = (c: CaseData): VerdictRecord[] => {
+  if (c.verdictHistory && c.verdictHistory.length > 0) return c.verdictHistory;
+  if (!c.verdict) return [];
+  const closedAt = c.statusHistory?.filter(t => t.to === CaseStatus.CLOSED).pop()?.at || c.lastUpdateDate;
+  return [{ round: 0, verdict: c.verdict, judgePersona: c.judgePersona, deliveredAt: closedAt }];
+};
+
+// An appeal that has been filed and not withdrawn (status APPEAL, or ADJUDICATING for the re-hearing)
+export const isAppealActive = (c: CaseData) => !!c.appeal && !c.appeal.withdrawnAt;
+
+// Every filing counts, including withdrawn ones; heard appeals are also counted from the verdicts
+// for cases whose status history does not go back that far
+export const getAppealsUsed = (c: CaseData) => Math.max(
+  (c.statusHistory || []).filter(t => t.from === CaseStatus.CLOSED && t.to === CaseStatus.APPEAL).length,
+  getVerdictHistory(c).filter(r => r.appeal).length
+);
+
+export const getRemainingAppeals = (c: CaseData) => Math.max(0, MAX_APPEALS - getAppealsUsed(c));
+
+// The judge of the verdict under appeal; the re-hearing must be assigned to someone else
+export const getAppealedPersona = (c: CaseData): string | null => {
+  if (!isAppealActive(c)) return null;
+  const history = getVerdictHistory(c);
+  return history.length > 0 ? history[history.length - 1].judgePersona : null;
+};
+
+export const newAppeal = (actor: { userId: string; role: UserRole }, grounds: string): AppealFiling => ({
+  appellant: actor.role,
+  appellantId: actor.userId,
+  grounds: grounds.trim(),
+  filedAt: Date.now()
+});
+
+/**
+ * Fields to write when a verdict is delivered: the verdict itself plus its history entry.
+ * Clears the appeal it answered, which is kept on the history entry instead.
+ * Custom judges of the verdict (presiding and panel) are copied onto the case, and its penalty
+ * tasks replace those of any earlier verdict.
+ */
+export const buildVerdictDelivery = (
+  c: CaseData,
+  verdict: Verdict,
+  persona: string
+): Pick<CaseData, 'verdict' | 'judgePersona' | 'verdictHistory' | 'appeal' | 'judgeProfiles' | 'tasks'> => {
+  const history = getVerdictHistory(c);
+  const deliveredAt = Date.now();
+  const record: VerdictRecord = {
+    round: history.length,
+    verdict,
+    judgePersona: persona,
+    deliveredAt,
+    appeal: isAppealActive(c) ? c.appeal! : undefined
+  };
+  const judges = [persona, ...(verdict.panel || []).map(o => o.persona)];
+  const profiles = PersonaRegistry.profilesFor(judges, c.judgeProfiles);
+  return {
+    verdict,
+    judgePersona: persona,
+    verdictHistory: [...history, record],
+    appeal: null,
+    tasks: createTasks(verdict.penaltyTasks, deliveredAt),
+    // Left out for built-in judges so cases that never used a custom one don't write the column
+    ...(profiles.length > 0 ? { judgeProfiles: profiles } : {})
+  };
+};
+
+// --- Comparison ---
+
+export interface RulingChange {
+  demand?: string; // The demand's content, when both verdicts ruled on structured demands
+  counterclaim?: boolean; // The ruled item is one of the defendant's counterclaims
+  before?: ResolvedRuling;
+  after?: ResolvedRuling;
+  changed: boolean; // Outcome or granted remedy differs
+}
+
+export interface VerdictChange {
+  plaintiffDelta: number; // Change of the plaintiff's share in percentage points
+  rulings: RulingChange[]; // Rulings on the demands and counterclaims, matched by id (older verdicts: by position)
+}
+
+const isChanged = (before?: ResolvedRuling, after?: ResolvedRuling) =>
+  before?.kind !== after?.kind || (before?.remedy || '') !== (after?.remedy || '');
+
+export const compareVerdicts = (
+  previous: Verdict,
+  next: Verdict,
+  demands: Demand[] = [],
+  counterclaims: Counterclaim[] = []
+): VerdictChange => {
+  const before = getRulings(previous, demands, counterclaims);
+  const after = getRulings(next, demands, counterclaims);
+  const rulings: RulingChange[] = [];
+  if (before.every(r => r.demandId) && after.every(r => r.demandId) && before.length + after.length > 0) {
+    const ids = [...new Set([...before, ...after].map(r => r.demandId!))];
+    ids.forEach(id => {
+      const b = before.find(r => r.demandId === id);
+      const a = after.find(r => r.demandId === id);
+      rulings.push({ demand: (a || b)!.demand, counterclaim: (a || b)!.counterclaim, before: b, after: a, changed: isChanged(b, a) });
+    });
+  } else {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      rulings.push({ before: before[i], after: after[i], changed: isChanged(before[i], after[i]) });
+    }
+  }
+  return {
+    plaintiffDelta: next.responsibilitySplit.plaintiff - previous.responsibilitySplit.plaintiff,
+    rulings
+  };
+};
@@ -0,0 +1,65 @@
+import { supabase } from '../supabaseClient';
+
+// --- Case Change Feed ---
+// Push notifications for rows of the `cases` table. MockDb.subscribeToCase consumes a feed
+// and falls back to polling while the feed is not connected.
+// The Supabase implementation uses Realtime channels; the in-memory one lets offline demos
+// emit change events by hand.
+
+export type FeedStatus = 'CONNECTING' | 'SUBSCRIBED' | 'DISCONNECTED';
+
+export interface CaseChangeFeed {
+  subscribe: (
+    caseId: string,
+    onRow: (row: any) => void,
+    onStatus: (status: FeedStatus) => void
+  ) => () => void;
+}
+
+export const createSupabaseChangeFeed = (): CaseChangeFeed => ({
+  subscribe: (caseId, onRow, onStatus) => {
+    onStatus('CONNECTING');
+    const channel = supabase
+      .channel(`case-${caseId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'cases', filter: `id=eq.${caseId}` },
+        (payload: any) => {
+          if (payload.eventType !== 'DELETE' && payload.new) onRow(payload.new);
+        }
+      )
+      .subscribe((status) => {
+        // SUBSCRIBED | TIMED_OUT | CLOSED | CHANNEL_ERROR
+        onStatus(status === 'SUBSCRIBED' ? 'SUBSCRIBED' : 'DISCONNECTED');
+      });
+
+    return () => { supabase.removeChannel(channel); };
+  }
+});
+
+export interface MemoryChangeFeed extends CaseChangeFeed {
+  emit: (row: any) => void; // Deliver a row change to subscribers of row.id
+  setStatus: (status: FeedStatus) => void; // Simulate connection changes
+}
+
+export const createMemoryChangeFeed = (): MemoryChangeFeed => {
+  const subscribers = new Map<string, Set<{ onRow: (row: any) => void; onStatus: (s: FeedStatus) => void }>>();
+  let status: FeedStatus = 'SUBSCRIBED';
+
+  return {
+    subscribe: (caseId, onRow, onStatus) => {
+      const entry = { onRow, onStatus };
+      if (!subscribers.has(caseId)) subscribers.set(caseId, new Set());
+      subscribers.get(caseId)!.add(entry);
+      onStatus(status);
+      return () => { subscribers.get(caseId)?.delete(entry); };
+    },
+    emit: (row) => {
+      subscribers.get(row.id)?.forEach(s => s.onRow(row));
+    },
+    setStatus: (next) => {
+      status = next;
+      subscribers.forEach(set => set.forEach(s => s.onStatus(next)));
+    }
+  };
+};
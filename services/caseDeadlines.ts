@@ -0,0 +1,179 @@
+import { CaseData, CaseStatus, DeadlinePhase, MissedDeadline, MissedDeadlineKind, PhaseDeadlines, UserRole } from "../types";
+import { checkCounterclaimAnswers, getCounterclaims } from "./caseDemands";
+import { buildDeadlineReveal, getSeal, isRevealed } from "./caseSealing";
+import { DEFAULT_JUDGMENT_STATEMENT, getPhaseDeadline, getPhaseEnteredAt, hasSubmittedDefense } from "./caseWorkflow";
+
+// --- Phase Deadlines ---
+// The plaintiff picks, when filing, how many hours the defense, the cross-examination and the
+// debate may take (`phaseDeadlines`). The clock of a phase starts each time the case enters it.
+// Parties who still owe an answer are reminded as the deadline comes near; once it passed, the
+// first party device to notice applies the consequences (MockDb.applyDeadline):
+// - defense: default judgment; a case sent back after the defense was filed returns to the
+//   cross-examination with that defense instead
+// - cross-examination: missing rebuttals count as waived and the round is revealed; counterclaims
+//   the plaintiff left unanswered count as not contested. The phase then moves on to the debate
+//   (the dispute focus is written on the device that notices).
+// - debate: the round is revealed, unanswered dispute points count as conceded and the case goes
+//   to adjudication.
+// Every miss is recorded in `missedDeadlines` (merged item by item) and the judge is told about it.
+
+export const DEADLINE_PHASES: DeadlinePhase[] = [CaseStatus.DEFENSE_PENDING, CaseStatus.CROSS_EXAMINATION, CaseStatus.DEBATE];
+
+// Hours, set on new cases; the plaintiff can change them when filing
+export const DEFAULT_PHASE_DEADLINES: PhaseDeadlines = {
+  [CaseStatus.DEFENSE_PENDING]: 72,
+  [CaseStatus.CROSS_EXAMINATION]: 48,
+  [CaseStatus.DEBATE]: 48
+};
+
+// Choices offered when filing; 0 means no deadline
+export const DEADLINE_OPTIONS = [0, 24, 48, 72, 168];
+
+// Parties who still owe an answer are reminded this long before the deadline
+export const REMINDER_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+export const DEADLINE_PHASE_LABELS: Record<DeadlinePhase, string> = {
+  [CaseStatus.DEFENSE_PENDING]: '答辩',
+  [CaseStatus.CROSS_EXAMINATION]: '质证',
+  [CaseStatus.DEBATE]: '辩论'
+};
+
+// Defense phase of a case whose defense was filed before (see buildDeadlineConsequence)
+const DEFENSE_KEPT_CONSEQUENCE = '逾期未修改答辩将保留原答辩，返回质证环节';
+
+// What happens to a party who lets the deadline pass
+export const DEADLINE_CONSEQUENCES: Record<DeadlinePhase, string> = {
+  [CaseStatus.DEFENSE_PENDING]: '被告逾期未答辩将自动缺席判决',
+  [CaseStatus.CROSS_EXAMINATION]: '逾期未提交质证说明视为放弃质证，未回应的反诉视为不持异议，随后自动进入辩论',
+  [CaseStatus.DEBATE]: '逾期未回答的争议焦点视为认可对方观点，随后自动提交判决'
+};
+
+export const MISSED_DEADLINE_LABELS: Record<MissedDeadlineKind, string> = {
+  DEFENSE: '逾期未答辩',
+  REBUTTAL: '逾期未提交质证说明',
+  COUNTERCLAIMS: '逾期未回应反诉',
+  ARGUMENTS: '逾期未回答争议焦点'
+};
+
+type Party = MissedDeadline['role'];
+
+const asParty = (role: UserRole): Party | null =>
+  role === UserRole.PLAINTIFF ? 'PLAINTIFF' : role === UserRole.DEFENDANT ? 'DEFENDANT' : null;
+
+export const isDeadlinePhase = (status: CaseStatus): status is DeadlinePhase =>
+  (DEADLINE_PHASES as CaseStatus[]).includes(status);
+
+// Deadline of the current phase; null when it has none
+export const getDeadline = (c: CaseData): number | null => isDeadlinePhase(c.status) ? getPhaseDeadline(c) : null;
+
+// What passing the deadline of the current phase will do, for display
+export const getDeadlineConsequenceLabel = (c: CaseData): string | null => {
+  if (!isDeadlinePhase(c.status)) return null;
+  return c.status === CaseStatus.DEFENSE_PENDING && hasSubmittedDefense(c) ? DEFENSE_KEPT_CONSEQUENCE : DEADLINE_CONSEQUENCES[c.status];
+};
+
+export const isDeadlinePassed = (c: CaseData, now = Date.now()) => {
+  const deadline = getDeadline(c);
+  return deadline !== null && now >= deadline;
+};
+
+// Parties the current phase is still waiting for
+export const getPendingParties = (c: CaseData): Party[] => {
+  switch (c.status) {
+    case CaseStatus.DEFENSE_PENDING:
+      return ['DEFENDANT'];
+    case CaseStatus.CROSS_EXAMINATION:
+    case CaseStatus.DEBATE: {
+      const phase = c.status;
+      const unsealed = isRevealed(c, phase) ? [] : [UserRole.PLAINTIFF, UserRole.DEFENDANT].filter(r => !getSeal(c, phase, r));
+      const parties = unsealed.map(r => asParty(r)!);
+      if (phase === CaseStatus.CROSS_EXAMINATION && checkCounterclaimAnswers(c) && !parties.includes('PLAINTIFF')) parties.push('PLAINTIFF');
+      return parties;
+    }
+    default:
+      return [];
+  }
+};
+
+// Reminder for a party who still owes an answer and whose deadline is near (or passed); otherwise null
+export const getDeadlineReminder = (c: CaseData, role: UserRole, now = Date.now()) => {
+  const deadline = getDeadline(c);
+  const party = asParty(role);
+  if (deadline === null || !party || !getPendingParties(c).includes(party)) return null;
+  if (deadline - now > REMINDER_WINDOW_MS) return null;
+  return { deadline, overdue: now >= deadline };
+};
+
+export const getMissedDeadlines = (c: CaseData): MissedDeadline[] => c.missedDeadlines || [];
+
+export interface DeadlineConsequence {
+  patch: Partial<CaseData>;
+  advanceTo?: CaseStatus; // Status the case moves to, with `reason` recorded in the history
+  reason?: string;
+}
+
+/**
+ * What passing the deadline of the current phase does to the case, or null when there is nothing
+ * (left) to do: no deadline, not passed yet, or its consequences were applied already.
+ */
+export const buildDeadlineConsequence = (c: CaseData, now = Date.now()): DeadlineConsequence | null => {
+  if (!isDeadlinePassed(c, now)) return null;
+  const phase = c.status as DeadlinePhase;
+  const enteredAt = getPhaseEnteredAt(c)!;
+  const missed: MissedDeadline[] = [];
+  const miss = (kind: MissedDeadlineKind, role: Party, itemIds?: string[]) => {
+    const id = `missed_${kind}_${role}_${enteredAt}`;
+    if (!getMissedDeadlines(c).some(m => m.id === id)) {
+      missed.push({ id, kind, phase, role, enteredAt, at: now, ...(itemIds ? { itemIds } : {}) });
+    }
+  };
+  const withMissed = () => missed.length > 0 ? { missedDeadlines: [...getMissedDeadlines(c), ...missed] } : {};
+
+  if (phase === CaseStatus.DEFENSE_PENDING) {
+    // Sent back after the defense was filed: keep it and return to where the case came from
+    if (hasSubmittedDefense(c)) {
+      return { patch: {}, advanceTo: CaseStatus.CROSS_EXAMINATION, reason: "答辩期限已过，保留原答辩，返回质证环节" };
+    }
+    miss('DEFENSE', 'DEFENDANT');
+    return {
+      patch: {
+        defenseStatement: DEFAULT_JUDGMENT_STATEMENT,
+        defenseSummary: "被告逾期未答辩，视为放弃答辩权利。",
+        disputePoints: [],
+        ...withMissed()
+      },
+      advanceTo: CaseStatus.ADJUDICATING,
+      reason: "答辩期限已过，自动缺席判决"
+    };
+  }
+
+  // Parties who never sealed this round (a round revealed by the seal window counts too)
+  const unsealed = [UserRole.PLAINTIFF, UserRole.DEFENDANT].filter(r => {
+    const seal = getSeal(c, phase, r);
+    return !seal || seal.defaulted;
+  });
+  const reveal = buildDeadlineReveal(c, phase, now);
+  const revealed = { ...c, ...reveal };
+
+  if (phase === CaseStatus.CROSS_EXAMINATION) {
+    unsealed.forEach(r => miss('REBUTTAL', asParty(r)!));
+    const unanswered = getCounterclaims(c).filter(d => !d.plaintiffStance).map(d => d.id);
+    if (unanswered.length > 0) miss('COUNTERCLAIMS', 'PLAINTIFF', unanswered);
+    if (missed.length === 0 && Object.keys(reveal).length === 0) return null;
+    return { patch: { ...reveal, ...withMissed() } };
+  }
+
+  // Debate: every point a party left without an argument is conceded
+  for (const role of [UserRole.PLAINTIFF, UserRole.DEFENDANT]) {
+    const party = asParty(role)!;
+    const unanswered = revealed.disputePoints
+      .filter(p => !(party === 'PLAINTIFF' ? p.plaintiffArg : p.defendantArg)?.trim())
+      .map(p => p.id);
+    if (unanswered.length > 0) miss('ARGUMENTS', party, unanswered);
+  }
+  return {
+    patch: { ...reveal, ...withMissed() },
+    advanceTo: CaseStatus.ADJUDICATING,
+    reason: "辩论期限已过，自动提交判决"
+  };
+};
@@ -0,0 +1,105 @@
+import { CaseData, Counterclaim, Demand, DemandStance } from "../types";
+
+// --- Demands ---
+// The plaintiff files demands as a list (`demandItems`); the defendant answers each one with a
+// stance and an optional comment, and the verdict rules on each by id (`Verdict.rulings`).
+// `demands` keeps a numbered text version for the prompts of older code paths and the cloud
+// text column. `demandItems` is merged item by item (caseMerge.ts), so the plaintiff's edits
+// and the defendant's answers never overwrite each other.
+// Counterclaims work the same way with the roles swapped: the defendant files them with the
+// defence, the plaintiff answers them during cross-examination, and the verdict rules on them
+// in the same `rulings` list.
+
+export const STANCE_LABELS: Record<DemandStance, string> = {
+  ACCEPT: '同意',
+  PARTIAL: '部分同意',
+  REJECT: '不同意'
+};
+
+export const createDemand = (content = '', index = 0): Demand => ({
+  id: `demand_${Date.now()}_${index}`,
+  content
+});
+
+// Split a free-text demand ("1. 道歉 2. 请吃火锅") into its numbered parts
+const splitDemandText = (text: string): string[] =>
+  text
+    .replace(/(\s|^)(\d+[.、])/g, '$1\n$2')
+    .split('\n')
+    .map(line => line.replace(/^\d+[.、]\s*/, '').trim())
+    .filter(Boolean);
+
+/**
+ * The case's demands as a list.
+ * Cases filed before demands were structured get theirs split from the text, with stable ids.
+ */
+export const getCaseDemands = (c: CaseData): Demand[] => {
+  if (c.demandItems && c.demandItems.length > 0) return c.demandItems;
+  return splitDemandText(c.demands || '').map((content, i) => ({ id: `demand_legacy_${i}`, content }));
+};
+
+export const formatDemandsText = (items: Demand[]) =>
+  items.map((d, i) => `${i + 1}. ${d.content}`).join('\n');
+
+// Patch saving the plaintiff's list: drops empty rows and keeps the text version in step
+export const buildDemandsUpdate = (items: Demand[]): Partial<CaseData> => {
+  const demandItems = items
+    .map(d => ({ ...d, content: d.content.trim() }))
+    .filter(d => d.content);
+  if (demandItems.length === 0) throw new Error("请至少填写一项诉请");
+  return { demandItems, demands: formatDemandsText(demandItems) };
+};
+
+// Patch recording the defendant's answer to one demand
+export const buildDemandResponse = (
+  c: CaseData,
+  demandId: string,
+  response: { stance?: DemandStance; comment?: string }
+): Partial<CaseData> => {
+  const items = getCaseDemands(c);
+  if (!items.some(d => d.id === demandId)) throw new Error("诉请不存在");
+  return {
+    demandItems: items.map(d => d.id !== demandId ? d : {
+      ...d,
+      ...(response.stance !== undefined ? { defendantStance: response.stance } : {}),
+      ...(response.comment !== undefined ? { defendantComment: response.comment } : {})
+    })
+  };
+};
+
+// --- Counterclaims ---
+
+export const createCounterclaim = (content = '', index = 0): Counterclaim => ({
+  id: `counterclaim_${Date.now()}_${index}`,
+  content
+});
+
+export const getCounterclaims = (c: CaseData): Counterclaim[] => c.counterclaims || [];
+
+// Patch saving the defendant's list; unlike demands, a defence may have no counterclaims at all
+export const buildCounterclaimsUpdate = (items: Counterclaim[]): Partial<CaseData> => ({
+  counterclaims: items
+    .map(d => ({ ...d, content: d.content.trim() }))
+    .filter(d => d.content)
+});
+
+// Patch recording the plaintiff's answer to one counterclaim
+export const buildCounterclaimResponse = (
+  c: CaseData,
+  counterclaimId: string,
+  response: { stance?: DemandStance; comment?: string }
+): Partial<CaseData> => {
+  const items = getCounterclaims(c);
+  if (!items.some(d => d.id === counterclaimId)) throw new Error("反诉请求不存在");
+  return {
+    counterclaims: items.map(d => d.id !== counterclaimId ? d : {
+      ...d,
+      ...(response.stance !== undefined ? { plaintiffStance: response.stance } : {}),
+      ...(response.comment !== undefined ? { plaintiffComment: response.comment } : {})
+    })
+  };
+};
+
+// Error message while the plaintiff has not answered every counterclaim, otherwise null
+export const checkCounterclaimAnswers = (c: CaseData) =>
+  getCounterclaims(c).some(d => !d.plaintiffStance) ? "原告尚未逐项回应被告的反诉请求" : null;
@@ -0,0 +1,370 @@
+import { CaseData, CaseStatus, EvidenceItem, EvidenceType, JudgeOpinion, UserRole, VerdictRecord } from "../types";
+import { allEvidence, EvidenceStore, getMediaRefs, replaceMediaRefs } from "./evidenceStore";
+import { normalizeVerdict } from "./aiSchema";
+import { getRulings, parseJudgmentLines, RulingKind } from "./judgmentFormat";
+import { getCaseDemands, getCounterclaims, STANCE_LABELS } from "./caseDemands";
+import { getStatusLabel } from "./caseWorkflow";
+import { getRoundLabel, getVerdictHistory } from "./caseAppeal";
+import { courtTitleOf, PersonaRegistry } from "./personaRegistry";
+
+// --- Case Export ---
+// Two formats for a CLOSED case:
+//   - a self-contained judgment document (HTML with inline styles and thumbnails, printable to PDF)
+//   - a lossless JSON archive of CaseData plus the evidence media bytes, re-importable via MockDb.importCase
+
+export const CASE_ARCHIVE_FORMAT = 'court-of-love/case-archive';
+export const CASE_ARCHIVE_VERSION = 1;
+
+export interface ArchivedMedia {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface CaseArchive {
+  format: typeof CASE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  case: CaseData;
+  media: Record<string, ArchivedMedia>; // Keyed by the blob store reference used in the case
+}
+
+const loadMedia = async (ref: string, mimeType: string): Promise<ArchivedMedia | null> => {
+  try {
+    const data = await EvidenceStore.getBase64(ref);
+    return data ? { mimeType, data } : null;
+  } catch (e) {
+    console.warn("Export: evidence media unavailable:", ref, e);
+    return null;
+  }
+};
+
+const assertClosed = (c: CaseData) => {
+  if (c.status !== CaseStatus.CLOSED || !c.verdict) throw new Error("仅已结案的案件可以导出");
+};
+
+// --- JSON Archive ---
+
+export const buildCaseArchive = async (c: CaseData): Promise<CaseArchive> => {
+  assertClosed(c);
+  const media: Record<string, ArchivedMedia> = {};
+  for (const e of allEvidence(c)) {
+    if (!e.media) continue;
+    for (const ref of [e.media.ref, e.media.thumbnailRef]) {
+      if (!ref || media[ref]) continue;
+      const loaded = await loadMedia(ref, ref === e.media.ref ? e.media.mimeType : 'image/jpeg');
+      if (loaded) media[ref] = loaded;
+    }
+  }
+  return {
+    format: CASE_ARCHIVE_FORMAT,
+    version: CASE_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    case: c,
+    media
+  };
+};
+
+// Validate an archive file. Throws with a user-facing message when it is not a usable archive.
+export const parseCaseArchive = (text: string): CaseArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("文件不是有效的 JSON");
+  }
+  if (!raw || raw.format !== CASE_ARCHIVE_FORMAT) throw new Error("不是理清爱案件存档文件");
+  if (typeof raw.version !== 'number' || raw.version > CASE_ARCHIVE_VERSION) {
+    throw new Error("存档版本过新，请先升级应用");
+  }
+  const c = raw.case;
+  if (!c || typeof c.id !== 'string' || typeof c.plaintiffId !== 'string' || !Array.isArray(c.evidence)) {
+    throw new Error("存档内容不完整");
+  }
+  return { ...raw, media: raw.media || {} };
+};
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const bytes = atob(data);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new Blob([buffer], { type: mimeType });
+};
+
+/**
+ * Put the archived media back into the evidence store and point the case at the new references.
+ * References whose bytes were not archived are kept as they are.
+ */
+export const restoreArchiveMedia = async (archive: CaseArchive): Promise<CaseData> => {
+  const c = archive.case;
+  const newRefs = new Map<string, string>();
+  for (const ref of getMediaRefs(c)) {
+    const media = archive.media[ref];
+    if (!media || newRefs.has(ref)) continue;
+    newRefs.set(ref, await EvidenceStore.put(base64ToBlob(media.data, media.mimeType), c.id));
+  }
+
+  return { ...c, ...replaceMediaRefs(c, newRefs) };
+};
+
+// --- Judgment Document ---
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const paragraphs = (text?: string) =>
+  text?.trim()
+    ? text.split(/\n+/).map(p => `<p>${escapeHtml(p)}</p>`).join('')
+    : '<p class="muted">（无）</p>';
+
+const CHINESE_NUMERALS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+const RULING_CLASS: Record<RulingKind, string> = {
+  support: 'ruling-support',
+  reject: 'ruling-reject',
+  modify: 'ruling-modify',
+  other: ''
+};
+
+// Evidence is written by the other party too: only plain base64 images are inlined into the document
+const SAFE_IMAGE_URL = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]+$/;
+
+// Thumbnails are inlined as data URLs so the document works offline and without the blob store
+const loadThumbnails = async (c: CaseData): Promise<Map<string, string>> => {
+  const thumbs = new Map<string, string>();
+  for (const e of allEvidence(c)) {
+    if (e.type !== EvidenceType.IMAGE) continue;
+    if (e.media) {
+      const ref = e.media.thumbnailRef || e.media.ref;
+      const loaded = await loadMedia(ref, e.media.thumbnailRef ? 'image/jpeg' : e.media.mimeType);
+      if (loaded) thumbs.set(e.id, `data:${loaded.mimeType};base64,${loaded.data}`);
+    } else if (e.content.startsWith('data:')) {
+      thumbs.set(e.id, e.content); // Legacy inline image
+    }
+    if (thumbs.has(e.id) && !SAFE_IMAGE_URL.test(thumbs.get(e.id)!)) thumbs.delete(e.id);
+  }
+  return thumbs;
+};
+
+const renderEvidence = (title: string, items: EvidenceItem[], thumbs: Map<string, string>) => {
+  if (items.length === 0) return '';
+  const rows = items.map((e, i) => {
+    const thumb = thumbs.get(e.id);
+    const body = e.type === EvidenceType.IMAGE
+      ? (thumb ? `<img src="${escapeHtml(thumb)}" alt="">` : '<span class="muted">（图片未能导出）</span>')
+      : `<div class="quote">${escapeHtml(e.content)}</div>`;
+    return `<li>
+      <div><strong>${i + 1}. ${escapeHtml(e.description || '无描述')}</strong>${e.isContested ? ' <span class="tag">对方有异议</span>' : ''}</div>
+      ${body}
+      ${e.aiAnalysis ? `<div class="analysis"><strong>质证分析：</strong>${escapeHtml(e.aiAnalysis.replace(/\*\*/g, ''))}</div>` : ''}
+    </li>`;
+  }).join('');
+  return `<h3>${escapeHtml(title)}</h3><ul class="evidence">${rows}</ul>`;
+};
+
+const judgeName = (persona: string) => PersonaRegistry.get(persona).name;
+
+// Each panel judge's position and dissent; empty for a single-judge verdict
+const renderPanel = (panel: JudgeOpinion[] | undefined, presiding: string) => {
+  if (!panel?.length) return '';
+  return panel.map(o => `<div class="dispute">
+      <h4>${judgeName(o.persona)}${o.persona === presiding ? '（审判长）' : ''}</h4>
+      ${o.responsibilitySplit ? `<p class="muted">独立意见：原告 ${o.responsibilitySplit.plaintiff}% · 被告 ${o.responsibilitySplit.defendant}%</p>` : ''}
+      <p>${escapeHtml(o.position)}</p>
+      ${o.dissent ? `<p><strong>异议意见：</strong>${escapeHtml(o.dissent)}</p>` : ''}
+    </div>`).join('');
+};
+
+// Earlier hearings and the appeals that followed them; empty for a case judged only once
+const renderHearings = (history: VerdictRecord[]) => {
+  if (history.length < 2) return '';
+  return history.map(r => {
+    const split = normalizeVerdict(r.verdict).responsibilitySplit;
+    const judge = r.verdict.panel?.length ? `合议庭（审判长${judgeName(r.judgePersona)}）` : judgeName(r.judgePersona);
+    const appellant = r.appeal?.appellant === UserRole.PLAINTIFF ? '原告' : '被告';
+    return `<h3>${getRoundLabel(r.round)} · ${judge}（${new Date(r.deliveredAt).toLocaleDateString()}）</h3>
+      ${r.appeal ? `<p><strong>${appellant}上诉理由：</strong>${escapeHtml(r.appeal.grounds)}</p>` : ''}
+      ${r.appeal?.response ? `<p><strong>答辩意见：</strong>${escapeHtml(r.appeal.response)}</p>` : ''}
+      <p>责任划分：原告 ${split.plaintiff}% · 被告 ${split.defendant}%</p>`;
+  }).join('');
+};
+
+export const renderJudgmentHtml = async (c: CaseData): Promise<string> => {
+  assertClosed(c);
+  const verdict = normalizeVerdict(c.verdict);
+  const thumbs = await loadThumbnails(c);
+  PersonaRegistry.remember(c.judgeProfiles);
+  const court = verdict.panel?.length
+    ? `合议庭 · 审判长${judgeName(c.judgePersona)}`
+    : courtTitleOf(PersonaRegistry.get(c.judgePersona));
+  const closedAt = c.statusHistory?.filter(t => t.to === CaseStatus.CLOSED).pop()?.at || c.lastUpdateDate;
+  const title = c.title || c.category;
+
+  const demands = getCaseDemands(c);
+  const demandsHtml = demands.length > 0
+    ? `<ol>${demands.map(d => `<li>${escapeHtml(d.content)}${d.defendantStance
+        ? ` <span class="muted">（被告：${STANCE_LABELS[d.defendantStance]}${d.defendantComment ? `，${escapeHtml(d.defendantComment)}` : ''}）</span>`
+        : ''}</li>`).join('')}</ol>`
+    : paragraphs(c.demands);
+  const counterclaims = getCounterclaims(c);
+  const counterclaimsHtml = counterclaims.length > 0
+    ? `<ol>${counterclaims.map(d => `<li>${escapeHtml(d.content)}${d.plaintiffStance
+        ? ` <span class="muted">（原告：${STANCE_LABELS[d.plaintiffStance]}${d.plaintiffComment ? `，${escapeHtml(d.plaintiffComment)}` : ''}）</span>`
+        : ''}</li>`).join('')}</ol>`
+    : '';
+
+  // Structured rulings are listed per demand and counterclaim, followed by the judge's closing words;
+  // older verdicts carry the rulings inside the judgment text
+  const rulings = verdict.rulings?.length
+    ? getRulings(verdict, demands, counterclaims).map((r, i) => `<p><strong>${i + 1}.</strong> <strong class="${RULING_CLASS[r.kind]}">${escapeHtml(r.decision)}</strong>${r.demand ? `关于「${escapeHtml(r.demand)}」的${r.counterclaim ? '反诉请求' : '诉请'}，` : ''}${escapeHtml(r.text)}${r.remedy ? `<br><strong>调整为：</strong>${escapeHtml(r.remedy)}` : ''}</p>`).join('')
+    : '';
+  const judgment = rulings + parseJudgmentLines(verdict.finalJudgment).map(line => line.decision
+    ? `<p>${line.prefix ? `<strong>${escapeHtml(line.prefix)}</strong> ` : ''}<strong class="${RULING_CLASS[line.kind!]}">${escapeHtml(line.decision)}</strong>${escapeHtml(line.text)}</p>`
+    : `<p>${escapeHtml(line.text)}</p>`
+  ).join('');
+
+  const disputes = c.disputePoints.map(p => {
+    const analysis = verdict.disputeAnalyses?.find(a => a.title === p.title)?.analysis;
+    return `<div class="dispute">
+      <h4>${escapeHtml(p.title)}</h4>
+      ${p.description ? `<p class="muted">${escapeHtml(p.description)}</p>` : ''}
+      <p><strong>原告：</strong>${escapeHtml(p.plaintiffArg || '（未发表意见）')}</p>
+      <p><strong>被告：</strong>${escapeHtml(p.defendantArg || '（未发表意见）')}</p>
+      ${analysis ? `<p><strong>法庭意见：</strong>${escapeHtml(analysis)}</p>` : ''}
+    </div>`;
+  }).join('');
+
+  const tasks = (assignee: 'PLAINTIFF' | 'DEFENDANT') =>
+    verdict.penaltyTasks.filter(t => t.assignee === assignee).map(t => `<li>${escapeHtml(t.content)}</li>`).join('');
+  const plaintiffTasks = tasks('PLAINTIFF');
+  const defendantTasks = tasks('DEFENDANT');
+
+  const evidenceHtml = [
+    renderEvidence('原告证据', c.evidence, thumbs),
+    renderEvidence('被告证据', c.defendantEvidence, thumbs),
+    renderEvidence('被告反诉证据', c.counterclaimEvidence || [], thumbs),
+    renderEvidence('原告质证补充证据', c.plaintiffRebuttalEvidence, thumbs),
+    renderEvidence('被告质证补充证据', c.defendantRebuttalEvidence, thumbs)
+  ].join('');
+
+  // [heading, html]; empty sections are left out and the rest numbered in order
+  const sections: [string, string][] = [
+    ['当事人陈述', `
+      <h3>原告陈述</h3>${paragraphs(c.description)}
+      <h3>原告诉请</h3>${demandsHtml}
+      <h3>被告答辩</h3>${paragraphs(c.defenseStatement)}
+      ${counterclaimsHtml ? `<h3>被告反诉请求</h3>${counterclaimsHtml}` : ''}
+      ${c.plaintiffRebuttal ? `<h3>原告质证意见</h3>${paragraphs(c.plaintiffRebuttal)}` : ''}
+      ${c.defendantRebuttal ? `<h3>被告质证意见</h3>${paragraphs(c.defendantRebuttal)}` : ''}`],
+    ['证据', evidenceHtml || '<p class="muted">（双方均未提交证据）</p>'],
+    ['争议焦点', disputes],
+    ['审理经过', renderHearings(getVerdictHistory(c))],
+    ['本院查明', `<ul>${verdict.facts.map(f => `<li>${escapeHtml(f)}</li>`).join('')}</ul>`],
+    ['责任划分', `
+      <p>原告 ${verdict.responsibilitySplit.plaintiff}% · 被告 ${verdict.responsibilitySplit.defendant}%</p>
+      <div class="split"><div class="p" style="width:${verdict.responsibilitySplit.plaintiff}%"></div><div class="d" style="width:${verdict.responsibilitySplit.defendant}%"></div></div>`],
+    ['合议庭评议', renderPanel(verdict.panel, c.judgePersona)],
+    ['判决如下', judgment],
+    ['爱的破冰大冒险', plaintiffTasks || defendantTasks ? `
+      ${plaintiffTasks ? `<h3>原告请执行</h3><ul>${plaintiffTasks}</ul>` : ''}
+      ${defendantTasks ? `<h3>被告请执行</h3><ul>${defendantTasks}</ul>` : ''}` : '']
+  ];
+  const body = sections
+    .filter(([, html]) => html.trim())
+    .map(([heading, html], i) => `<h2>${CHINESE_NUMERALS[i]}、${heading}</h2>${html}`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>判决书 - ${escapeHtml(title)}</title>
+<style>
+  body { font-family: "Noto Sans SC", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; max-width: 760px; margin: 0 auto; padding: 40px 24px; line-height: 1.7; }
+  h1 { text-align: center; font-size: 32px; letter-spacing: 0.5em; margin: 0; }
+  .court { text-align: center; color: #64748b; margin-bottom: 24px; }
+  h2 { font-size: 20px; border-bottom: 2px solid #1e293b; padding-bottom: 4px; margin-top: 32px; }
+  h3 { font-size: 16px; margin: 20px 0 8px; }
+  h4 { margin: 0 0 4px; }
+  table.meta { width: 100%; border-collapse: collapse; }
+  table.meta td { padding: 4px 8px; border: 1px solid #e2e8f0; }
+  table.meta td:first-child { width: 120px; background: #f8fafc; font-weight: bold; }
+  .muted { color: #94a3b8; }
+  .quote { color: #475569; font-style: italic; white-space: pre-wrap; }
+  .tag { color: #dc2626; font-size: 12px; border: 1px solid #fecaca; padding: 0 4px; border-radius: 4px; }
+  .analysis { background: #f5f3ff; padding: 6px 10px; border-radius: 6px; font-size: 14px; margin-top: 4px; }
+  ul.evidence { list-style: none; padding-left: 0; }
+  ul.evidence li { margin-bottom: 12px; }
+  ul.evidence img { max-height: 120px; border-radius: 6px; border: 1px solid #e2e8f0; margin-top: 4px; }
+  .dispute { border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; margin-bottom: 12px; page-break-inside: avoid; }
+  .split { display: flex; height: 20px; border-radius: 10px; overflow: hidden; margin: 8px 0; }
+  .split .p { background: #f43f5e; } .split .d { background: #6366f1; }
+  .ruling-support { color: #16a34a; } .ruling-reject { color: #e11d48; } .ruling-modify { color: #ea580c; }
+  footer { margin-top: 48px; text-align: right; color: #64748b; }
+  @media print { body { padding: 0; } h2 { page-break-after: avoid; } }
+</style>
+</head>
+<body>
+  <h1>判决书</h1>
+  <div class="court">${court}</div>
+
+  <table class="meta">
+    <tr><td>案件</td><td>${escapeHtml(title)}</td></tr>
+    <tr><td>案由</td><td>${escapeHtml(c.category)}</td></tr>
+    <tr><td>原告</td><td>${escapeHtml(c.plaintiffId)}</td></tr>
+    <tr><td>被告</td><td>${escapeHtml(c.defendantId || '（缺席）')}</td></tr>
+    <tr><td>立案时间</td><td>${new Date(c.createdDate).toLocaleString()}</td></tr>
+    <tr><td>结案时间</td><td>${new Date(closedAt).toLocaleString()}</td></tr>
+    <tr><td>案件状态</td><td>${getStatusLabel(c.status)}</td></tr>
+  </table>
+
+  ${body}
+
+  <footer>${court}<br>${new Date(closedAt).toLocaleDateString()}</footer>
+</body>
+</html>`;
+};
+
+// --- Browser Helpers ---
+
+const fileSlug = (c: CaseData) => `${(c.title || c.category).replace(/[\\/:*?"<>|\s]+/g, '_')}_${c.id}`;
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJudgmentHtml = async (c: CaseData) => {
+  downloadFile(`判决书_${fileSlug(c)}.html`, await renderJudgmentHtml(c), 'text/html;charset=utf-8');
+};
+
+export const downloadCaseArchive = async (c: CaseData) => {
+  const archive = await buildCaseArchive(c);
+  downloadFile(`案件存档_${fileSlug(c)}.json`, JSON.stringify(archive), 'application/json');
+};
+
+// Open the document in a new window and show the print dialog ("Save as PDF")
+export const printJudgment = async (c: CaseData) => {
+  // Open synchronously inside the click handler so popup blockers allow it
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("浏览器阻止了弹出窗口，请允许后重试");
+  try {
+    const html = await renderJudgmentHtml(c);
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    // Let images decode before printing
+    setTimeout(() => win.print(), 300);
+  } catch (e) {
+    win.close();
+    throw e;
+  }
+};
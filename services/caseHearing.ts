@@ -0,0 +1,126 @@
+import { AppealFiling, CaseData, CaseStatus, JurySide, JuryVote, UserRole } from "../types";
+
+// --- Public Hearing ---
+// Once both parties approved (`plaintiffHearingConsent`, `defendantHearingConsent`) the case gets a
+// spectator code of its own. Whoever joins with it (MockDb.joinHearing, checked by join_hearing on
+// the server) is added to `spectatorIds` and may read the case, redacted, without changing it. The
+// server only hands spectators the redacted row (get_hearing); redactForSpectator applies the same
+// rules to copies held on the device.
+// From the debate until the verdict, spectators vote as a "people's jury" on each dispute point and
+// on the responsibility split (MockDb.castJuryVote, cast_jury_vote on the server); the result is
+// shown next to the AI verdict. Withdrawing an approval closes the hearing and removes the spectators.
+
+// Votes are taken once the dispute points are known and until the verdict is delivered
+export const JURY_VOTING_PHASES = [CaseStatus.DEBATE, CaseStatus.MEDIATION, CaseStatus.ADJUDICATING];
+
+export const JURY_SIDE_LABELS: Record<JurySide, string> = {
+  PLAINTIFF: '支持原告',
+  DEFENDANT: '支持被告'
+};
+
+export const hasHearingConsent = (c: CaseData) =>
+  !!c.defendantId && !!c.plaintiffHearingConsent && !!c.defendantHearingConsent;
+
+export const getHearingConsent = (c: CaseData, role: UserRole) =>
+  role === UserRole.PLAINTIFF ? !!c.plaintiffHearingConsent : role === UserRole.DEFENDANT ? !!c.defendantHearingConsent : false;
+
+// Always 6 characters: the server (check_case_hearing_update) rejects any other code
+export const generateSpectatorCode = () => Math.random().toString(36).substring(2, 8).toUpperCase().padEnd(6, '0');
+
+/**
+ * Patch approving or withdrawing a public hearing. The approval completing the pair generates the
+ * spectator code; a withdrawal closes the hearing again.
+ */
+export const buildHearingConsentUpdate = (c: CaseData, role: UserRole, consent: boolean): Partial<CaseData> => {
+  const patch: Partial<CaseData> = role === UserRole.PLAINTIFF ? { plaintiffHearingConsent: consent }
+    : role === UserRole.DEFENDANT ? { defendantHearingConsent: consent }
+      : {};
+  if (Object.keys(patch).length === 0) throw new Error("只有原告或被告可以决定是否公开审理");
+  if (!consent) return { ...patch, spectatorCode: null, spectatorIds: [] };
+  return hasHearingConsent({ ...c, ...patch }) && !c.spectatorCode ? { ...patch, spectatorCode: generateSpectatorCode() } : patch;
+};
+
+export const isSpectator = (c: CaseData, userId: string) => (c.spectatorIds || []).includes(userId);
+
+export const isJuryVotingOpen = (c: CaseData) =>
+  JURY_VOTING_PHASES.includes(c.status) && c.disputePoints.length > 0;
+
+export const getJuryVote = (c: CaseData, voterId: string) => (c.juryVotes || []).find(v => v.id === voterId);
+
+// Error message when the vote may not be cast, otherwise null (cast_jury_vote checks the same)
+export const checkJuryVote = (
+  c: CaseData,
+  voterId: string,
+  vote: Pick<JuryVote, 'points' | 'plaintiffShare'>
+): string | null => {
+  if (!isSpectator(c, voterId)) return "只有旁听者可以投票";
+  if (!isJuryVotingOpen(c)) return "当前环节不能投票";
+  const pointIds = new Set(c.disputePoints.map(p => p.id));
+  const entries = Object.entries(vote.points);
+  if (entries.some(([id, side]) => !pointIds.has(id) || (side !== 'PLAINTIFF' && side !== 'DEFENDANT'))) return "投票内容无效";
+  if (entries.length === 0 && vote.plaintiffShare === undefined) return "请至少对一个争议焦点或责任比例投票";
+  const share = vote.plaintiffShare;
+  if (share !== undefined && (!Number.isInteger(share) || share < 0 || share > 100)) return "责任比例需在 0 到 100 之间";
+  return null;
+};
+
+export interface JuryPointTally {
+  pointId: string;
+  title: string;
+  plaintiff: number;
+  defendant: number;
+}
+
+export interface JuryResult {
+  voters: number;
+  points: JuryPointTally[];
+  split: { plaintiff: number; defendant: number } | null; // Average of the splits given; null when nobody gave one
+  splitVotes: number;
+}
+
+// Tally of the jury's votes; null before anybody voted
+export const getJuryResult = (c: CaseData): JuryResult | null => {
+  const votes = c.juryVotes || [];
+  if (votes.length === 0) return null;
+  const points = c.disputePoints.map(p => ({
+    pointId: p.id,
+    title: p.title,
+    plaintiff: votes.filter(v => v.points[p.id] === 'PLAINTIFF').length,
+    defendant: votes.filter(v => v.points[p.id] === 'DEFENDANT').length
+  }));
+  const shares = votes.map(v => v.plaintiffShare).filter((s): s is number => typeof s === 'number');
+  const plaintiff = shares.length > 0 ? Math.round(shares.reduce((sum, s) => sum + s, 0) / shares.length) : null;
+  return {
+    voters: votes.length,
+    points,
+    split: plaintiff === null ? null : { plaintiff, defendant: 100 - plaintiff },
+    splitVotes: shares.length
+  };
+};
+
+const withoutAppellant = (appeal: AppealFiling): AppealFiling => {
+  const { appellantId, ...rest } = appeal;
+  return rest as AppealFiling;
+};
+
+/**
+ * The case as the spectator `viewer` sees it, the same as the server's hearing_row: placeholders
+ * instead of the parties' ids, no other spectators, anonymous votes except the viewer's own, no
+ * share code for joining as the defendant, no moderation log (texts their authors did not send),
+ * no settlement negotiation, no proofs of penalty tasks, and no user ids in the history or the
+ * appeals. Sealed content is redacted separately (caseSealing.redactSealed).
+ */
+export const redactForSpectator = (c: CaseData, viewer: string | null): CaseData => ({
+  ...c,
+  plaintiffId: 'plaintiff',
+  defendantId: c.defendantId ? 'defendant' : undefined,
+  spectatorIds: viewer ? [viewer] : [],
+  shareCode: '',
+  moderationLog: undefined,
+  settlementProposals: undefined,
+  tasks: c.tasks?.map(({ proof, ...task }) => task),
+  statusHistory: (c.statusHistory || []).map(t => ({ ...t, by: '' })),
+  appeal: c.appeal && withoutAppellant(c.appeal),
+  verdictHistory: c.verdictHistory?.map(v => v.appeal ? { ...v, appeal: withoutAppellant(v.appeal) } : v),
+  juryVotes: c.juryVotes?.map((v, i) => v.id === viewer ? v : { ...v, id: `juror_${i + 1}` })
+});
@@ -0,0 +1,205 @@
+import { CaseData, CaseStatus } from "../types";
+import { normalizeVerdict } from "./aiSchema";
+import { getRulings } from "./judgmentFormat";
+import { getCaseDemands, getCounterclaims } from "./caseDemands";
+import { getStatusLabel } from "./caseWorkflow";
+
+// --- Relationship Insights ---
+// Aggregates over all CLOSED cases between the same two users, seen from one of them ("me"):
+// how the responsibility split develops, what the couple argues about, how the demands were
+// ruled, which issues keep coming back and how long each phase of a case takes.
+// Uses each case's latest verdict (after any appeals).
+
+// Dispute points are grouped into themes by keyword; points matching none count as "其他"
+export const DISPUTE_THEMES: { label: string; keywords: string[] }[] = [
+  { label: '家务分工', keywords: ['家务', '做饭', '洗碗', '打扫', '收拾', '洗衣', '倒垃圾'] },
+  { label: '陪伴与关注', keywords: ['陪伴', '陪', '冷落', '忽视', '加班', '游戏', '手机', '回消息', '冷暴力'] },
+  { label: '沟通方式', keywords: ['沟通', '态度', '语气', '吵架', '说话', '情绪', '道歉', '发脾气'] },
+  { label: '金钱消费', keywords: ['钱', '消费', '花销', 'AA', '工资', '买', '账', '存款'] },
+  { label: '社交边界', keywords: ['前任', '异性', '朋友', '聚会', '暧昧', '社交'] },
+  { label: '家庭关系', keywords: ['父母', '婆婆', '岳母', '家人', '亲戚', '回家', '过年'] },
+  { label: '信任与承诺', keywords: ['承诺', '撒谎', '说谎', '信任', '隐瞒', '答应', '约定'] },
+  { label: '仪式感', keywords: ['礼物', '纪念日', '生日', '节日', '惊喜', '约会'] },
+  { label: '生活习惯', keywords: ['作息', '熬夜', '卫生', '习惯', '抽烟', '喝酒', '睡觉'] }
+];
+
+const OTHER_THEME = '其他';
+
+// An issue is "recurring" once it appears in this many different cases
+export const RECURRING_MIN_CASES = 2;
+
+export interface SplitPoint {
+  caseId: string;
+  title: string;
+  closedAt: number;
+  myShare: number; // My responsibility in percent
+  partnerShare: number;
+}
+
+export interface CountEntry {
+  label: string;
+  count: number; // Dispute points (themes) or cases (categories)
+  caseIds: string[];
+}
+
+export interface RulingTally {
+  won: number; // Rulings in my favour
+  partial: number; // 【修正支持】
+  lost: number;
+}
+
+export interface RecurringIssue {
+  kind: 'category' | 'theme';
+  label: string;
+  caseIds: string[];
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface PhaseDuration {
+  status: CaseStatus;
+  label: string;
+  averageMs: number;
+  samples: number; // Cases that went through this phase
+}
+
+export interface CoupleInsights {
+  partnerId: string;
+  caseCount: number;
+  splitTrend: SplitPoint[]; // Oldest first
+  // Change of my average share between the older and the newer half of the cases (percentage points)
+  trendDelta: number;
+  categories: CountEntry[];
+  themes: CountEntry[];
+  rulings: { asPlaintiff: RulingTally; asDefendant: RulingTally };
+  recurring: RecurringIssue[];
+  phases: PhaseDuration[];
+}
+
+const closedAtOf = (c: CaseData) =>
+  c.statusHistory?.filter(t => t.to === CaseStatus.CLOSED).pop()?.at || c.lastUpdateDate;
+
+const partnerOf = (c: CaseData, userId: string) => (c.plaintiffId === userId ? c.defendantId : c.plaintiffId);
+
+const isClosedWith = (c: CaseData, userId: string) =>
+  c.status === CaseStatus.CLOSED && !!c.verdict && (c.plaintiffId === userId || c.defendantId === userId) && !!partnerOf(c, userId);
+
+// Everyone the user has closed cases with, most cases first
+export const getPartners = (cases: CaseData[], userId: string): { partnerId: string; caseCount: number }[] => {
+  const counts = new Map<string, number>();
+  cases.filter(c => isClosedWith(c, userId)).forEach(c => {
+    const partner = partnerOf(c, userId)!;
+    counts.set(partner, (counts.get(partner) || 0) + 1);
+  });
+  return [...counts.entries()].map(([partnerId, caseCount]) => ({ partnerId, caseCount })).sort((a, b) => b.caseCount - a.caseCount);
+};
+
+export const themeOf = (text: string) =>
+  DISPUTE_THEMES.find(t => t.keywords.some(k => text.includes(k)))?.label || OTHER_THEME;
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const sortedCounts = (map: Map<string, CountEntry>) => [...map.values()].sort((a, b) => b.count - a.count);
+
+const addCount = (map: Map<string, CountEntry>, label: string, caseId: string) => {
+  const entry = map.get(label) || { label, count: 0, caseIds: [] };
+  entry.count++;
+  if (!entry.caseIds.includes(caseId)) entry.caseIds.push(caseId);
+  map.set(label, entry);
+};
+
+// Time spent in each status, from the case's status history
+const phaseDurations = (c: CaseData): Map<CaseStatus, number> => {
+  const durations = new Map<CaseStatus, number>();
+  const history = [...(c.statusHistory || [])].sort((a, b) => a.at - b.at);
+  if (history.length === 0) return durations;
+  let status = history[0].from;
+  let since = c.createdDate;
+  for (const t of history) {
+    durations.set(status, (durations.get(status) || 0) + Math.max(0, t.at - since));
+    status = t.to;
+    since = t.at;
+  }
+  return durations;
+};
+
+export const computeInsights = (cases: CaseData[], userId: string, partnerId: string): CoupleInsights => {
+  const closed = cases
+    .filter(c => isClosedWith(c, userId) && partnerOf(c, userId) === partnerId)
+    .sort((a, b) => closedAtOf(a) - closedAtOf(b));
+
+  const splitTrend: SplitPoint[] = [];
+  const categories = new Map<string, CountEntry>();
+  const themes = new Map<string, CountEntry>();
+  const rulings = {
+    asPlaintiff: { won: 0, partial: 0, lost: 0 },
+    asDefendant: { won: 0, partial: 0, lost: 0 }
+  };
+  const phaseTotals = new Map<CaseStatus, number[]>();
+
+  for (const c of closed) {
+    const verdict = normalizeVerdict(c.verdict);
+    const iAmPlaintiff = c.plaintiffId === userId;
+    const myShare = iAmPlaintiff ? verdict.responsibilitySplit.plaintiff : verdict.responsibilitySplit.defendant;
+    splitTrend.push({
+      caseId: c.id,
+      title: c.title || c.category,
+      closedAt: closedAtOf(c),
+      myShare,
+      partnerShare: 100 - myShare
+    });
+
+    addCount(categories, c.category, c.id);
+    c.disputePoints.forEach(p => addCount(themes, themeOf(`${p.title} ${p.description || ''}`), c.id));
+
+    // Supporting a demand is a win for the plaintiff, supporting a counterclaim one for the defendant
+    const tally = iAmPlaintiff ? rulings.asPlaintiff : rulings.asDefendant;
+    getRulings(verdict, getCaseDemands(c), getCounterclaims(c)).forEach(ruling => {
+      if (ruling.kind === 'modify') tally.partial++;
+      else if (ruling.kind === 'support' || ruling.kind === 'reject') {
+        const plaintiffWins = (ruling.kind === 'support') !== !!ruling.counterclaim;
+        if (plaintiffWins === iAmPlaintiff) tally.won++;
+        else tally.lost++;
+      }
+    });
+
+    phaseDurations(c).forEach((ms, status) => {
+      if (status === CaseStatus.CLOSED) return;
+      phaseTotals.set(status, [...(phaseTotals.get(status) || []), ms]);
+    });
+  }
+
+  const half = Math.floor(splitTrend.length / 2);
+  const trendDelta = half > 0
+    ? Math.round(average(splitTrend.slice(-half).map(p => p.myShare)) - average(splitTrend.slice(0, half).map(p => p.myShare)))
+    : 0;
+
+  const closedAtById = new Map(closed.map(c => [c.id, closedAtOf(c)]));
+  const toRecurring = (kind: RecurringIssue['kind'], entries: CountEntry[]): RecurringIssue[] => entries
+    .filter(e => e.caseIds.length >= RECURRING_MIN_CASES && e.label !== OTHER_THEME)
+    .map(e => {
+      const times = e.caseIds.map(id => closedAtById.get(id)!);
+      return { kind, label: e.label, caseIds: e.caseIds, firstAt: Math.min(...times), lastAt: Math.max(...times) };
+    });
+
+  const statusOrder = Object.values(CaseStatus);
+  const phases: PhaseDuration[] = [...phaseTotals.entries()]
+    .sort(([a], [b]) => statusOrder.indexOf(a) - statusOrder.indexOf(b))
+    .map(([status, samples]) => ({ status, label: getStatusLabel(status), averageMs: average(samples), samples: samples.length }));
+
+  const sortedCategories = sortedCounts(categories);
+  const sortedThemes = sortedCounts(themes);
+
+  return {
+    partnerId,
+    caseCount: closed.length,
+    splitTrend,
+    trendDelta,
+    categories: sortedCategories,
+    themes: sortedThemes,
+    rulings,
+    recurring: [...toRecurring('category', sortedCategories), ...toRecurring('theme', sortedThemes)]
+      .sort((a, b) => b.caseIds.length - a.caseIds.length),
+    phases
+  };
+};
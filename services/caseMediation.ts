@@ -0,0 +1,124 @@
+import { CaseData, CaseStatus, ProposalResponse, SettlementDraft, SettlementProposal, UserRole } from "../types";
+import { createTasks } from "./penaltyTasks";
+
+// --- Mediation ---
+// Instead of waiting for a verdict, either party can ask for mediation during cross-examination
+// or the debate. The AI mediator proposes a compromise for every demand and counterclaim plus a
+// few reconciliation tasks; each party accepts or rejects the latest proposal, or makes a
+// counter-proposal of their own. Once both accepted the same proposal it becomes the case's
+// `settlement` and the case moves to SETTLED. Without agreement either party can fall back to
+// adjudication. `settlementProposals` is merged item by item (caseMerge.ts), so both parties can
+// answer the same proposal at the same time.
+
+// Proposals per mediation attempt; after that only adjudication is left
+export const MAX_PROPOSALS = 4;
+
+export const PROPOSER_LABELS: Record<SettlementProposal['proposedBy'], string> = {
+  MEDIATOR: 'AI 调解员',
+  PLAINTIFF: '原告',
+  DEFENDANT: '被告'
+};
+
+// Patch recording the start of a mediation attempt (to be sent with the move to MEDIATION)
+export const startMediation = (c: CaseData, role: UserRole): Partial<CaseData> => ({
+  mediation: { requestedBy: role, startedAt: Date.now(), from: c.status }
+});
+
+// Proposals of the current mediation attempt, oldest first
+export const getProposals = (c: CaseData): SettlementProposal[] =>
+  c.mediation ? (c.settlementProposals || []).filter(p => p.createdAt >= c.mediation!.startedAt) : [];
+
+export const getLatestProposal = (c: CaseData): SettlementProposal | undefined => {
+  const proposals = getProposals(c);
+  return proposals[proposals.length - 1];
+};
+
+export const getProposalResponse = (p: SettlementProposal, role: UserRole) =>
+  role === UserRole.PLAINTIFF ? p.plaintiffResponse : role === UserRole.DEFENDANT ? p.defendantResponse : undefined;
+
+export const isProposalAccepted = (p: SettlementProposal) =>
+  p.plaintiffResponse === 'ACCEPT' && p.defendantResponse === 'ACCEPT';
+
+export const isProposalRejected = (p: SettlementProposal) =>
+  p.plaintiffResponse === 'REJECT' || p.defendantResponse === 'REJECT';
+
+// Error message when no further proposal may be made, otherwise null
+export const checkNewProposal = (c: CaseData): string | null => {
+  if (c.status !== CaseStatus.MEDIATION) return "案件不在调解中";
+  const proposals = getProposals(c);
+  if (proposals.length >= MAX_PROPOSALS) return `每次调解最多 ${MAX_PROPOSALS} 个方案，请转入判决`;
+  const latest = proposals[proposals.length - 1];
+  return latest && isProposalAccepted(latest) ? "双方已接受调解方案" : null;
+};
+
+/**
+ * Patch adding a proposal to the current mediation.
+ * A counter-proposal counts as accepted by the party who made it.
+ */
+export const buildProposal = (
+  c: CaseData,
+  proposedBy: SettlementProposal['proposedBy'],
+  draft: SettlementDraft
+): Partial<CaseData> => {
+  const error = checkNewProposal(c);
+  if (error) throw new Error(error);
+  const terms = draft.terms
+    .map(t => ({ ...t, resolution: t.resolution.trim() }))
+    .filter(t => t.resolution);
+  const tasks = draft.tasks
+    .map(t => ({ ...t, content: t.content.trim() }))
+    .filter(t => t.content);
+  if (terms.length === 0 && tasks.length === 0) throw new Error("调解方案不能为空");
+
+  const proposal: SettlementProposal = {
+    id: `proposal_${Date.now()}`,
+    proposedBy,
+    terms,
+    tasks,
+    note: draft.note?.trim() || undefined,
+    createdAt: Date.now(),
+    ...(proposedBy === 'PLAINTIFF' ? { plaintiffResponse: 'ACCEPT' as const } : {}),
+    ...(proposedBy === 'DEFENDANT' ? { defendantResponse: 'ACCEPT' as const } : {})
+  };
+  return { settlementProposals: [...(c.settlementProposals || []), proposal] };
+};
+
+// Fields written when a proposal becomes the settlement; its tasks are tracked like penalty tasks
+export const buildSettlement = (p: SettlementProposal, settledAt = Date.now()): Partial<CaseData> => ({
+  settlement: { proposalId: p.id, terms: p.terms, tasks: p.tasks, note: p.note, settledAt },
+  tasks: createTasks(p.tasks, settledAt)
+});
+
+/**
+ * Patch recording one party's answer to the latest proposal.
+ * When this makes the proposal accepted by both, the patch also carries the settlement and the
+ * caller moves the case to SETTLED with it.
+ */
+export const buildProposalResponse = (
+  c: CaseData,
+  proposalId: string,
+  role: UserRole,
+  response: ProposalResponse
+): Partial<CaseData> => {
+  if (c.status !== CaseStatus.MEDIATION) throw new Error("案件不在调解中");
+  if (role !== UserRole.PLAINTIFF && role !== UserRole.DEFENDANT) throw new Error("只有原告或被告可以回应调解方案");
+  const latest = getLatestProposal(c);
+  if (!latest || latest.id !== proposalId) throw new Error("只能回应最新的调解方案");
+  if (isProposalAccepted(latest)) throw new Error("双方已接受调解方案");
+  if (isProposalRejected(latest)) throw new Error("该方案已被拒绝，请提出新的方案");
+
+  const answered: SettlementProposal = role === UserRole.PLAINTIFF
+    ? { ...latest, plaintiffResponse: response }
+    : { ...latest, defendantResponse: response };
+  const patch: Partial<CaseData> = {
+    settlementProposals: (c.settlementProposals || []).map(p => p.id === proposalId ? answered : p)
+  };
+  return isProposalAccepted(answered) ? { ...patch, ...buildSettlement(answered) } : patch;
+};
+
+// Guard for MEDIATION -> SETTLED: the settlement must be the latest proposal, accepted by both
+export const checkSettlement = (c: CaseData): string | null => {
+  const latest = getLatestProposal(c);
+  if (!latest || !isProposalAccepted(latest)) return "双方尚未接受同一调解方案";
+  return c.settlement?.proposalId === latest.id ? null : "和解协议与调解方案不一致";
+};
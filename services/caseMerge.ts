@@ -0,0 +1,319 @@
+import { CaseData, MissedDeadlineKind, ModeratedField, StatusTransition } from "../types";
+import { PROPOSER_LABELS } from "./caseMediation";
+import { MODERATED_FIELD_LABELS } from "./caseModeration";
+import { MISSED_DEADLINE_LABELS } from "./caseDeadlines";
+
+// --- Three-way Case Merge ---
+// Used when both parties edited the same case concurrently.
+// `base` is the last version both sides agreed on (last synced cloud row),
+// `local` holds this device's unsynced edits, `remote` is the current cloud row.
+// Fields changed on one side only are taken from that side; arrays of demands, counterclaims,
+// evidence, dispute points, settlement proposals, moderation records, sealed submissions, missed deadlines and penalty tasks are merged item by item (and field by field inside an item).
+// Jury votes are not listed: only the server writes them (cast_jury_vote), so the remote copy is kept.
+// When both sides changed the same value differently the remote value wins and a
+// conflict is reported so the user can re-apply their version. The same goes for the status:
+// transitions are never interleaved (see mergeHistory).
+
+export interface MergeConflict {
+  field: keyof CaseData;
+  itemId?: string;
+  label: string; // Human readable location, e.g. "争议焦点「沟通方式」· 原告观点"
+  localValue?: string; // The discarded local value, shown so the user can copy it back
+}
+
+export interface MergeResult {
+  merged: CaseData;
+  conflicts: MergeConflict[];
+}
+
+// Fields that are synced to the cloud and take part in merges/diffs
+export const SYNCED_FIELDS: (keyof CaseData)[] = [
+  'defendantId',
+  'title',
+  'category',
+  'description',
+  'plaintiffSummary',
+  'demands',
+  'demandItems',
+  'evidence',
+  'defenseStatement',
+  'defenseSummary',
+  'defendantEvidence',
+  'counterclaims',
+  'counterclaimEvidence',
+  'plaintiffRebuttal',
+  'plaintiffRebuttalEvidence',
+  'defendantRebuttal',
+  'defendantRebuttalEvidence',
+  'disputePoints',
+  'lastAnalyzedHash',
+  'judgePersona',
+  'judgeProfiles',
+  'status',
+  'statusHistory',
+  'verdict',
+  'verdictHistory',
+  'appeal',
+  'tasks',
+  'mediation',
+  'settlementProposals',
+  'settlement',
+  'coolingOff',
+  'moderationLog',
+  'sealedSubmissions',
+  'phaseDeadlines',
+  'missedDeadlines',
+  'plaintiffPrecedentConsent',
+  'defendantPrecedentConsent',
+  'plaintiffHearingConsent',
+  'defendantHearingConsent',
+  'spectatorCode',
+  'spectatorIds',
+];
+
+const FIELD_LABELS: Partial<Record<keyof CaseData, string>> = {
+  title: '案件标题',
+  description: '事实陈述',
+  plaintiffSummary: '原告陈述摘要',
+  demands: '诉请',
+  demandItems: '诉请',
+  evidence: '原告证据',
+  defenseStatement: '答辩理由',
+  defenseSummary: '答辩摘要',
+  defendantEvidence: '被告证据',
+  counterclaims: '反诉请求',
+  counterclaimEvidence: '反诉证据',
+  plaintiffRebuttal: '原告质证说明',
+  defendantRebuttal: '被告质证说明',
+  disputePoints: '争议焦点',
+  judgePersona: '主审法官',
+  judgeProfiles: '法官资料',
+  statusHistory: '案件进度',
+  verdict: '判决',
+  verdictHistory: '判决记录',
+  appeal: '上诉',
+  tasks: '爱的破冰大冒险',
+  mediation: '调解',
+  settlementProposals: '调解方案',
+  settlement: '和解协议',
+  coolingOff: '冷静期',
+  moderationLog: '文明发言记录',
+  sealedSubmissions: '密封提交',
+  phaseDeadlines: '各环节期限',
+  missedDeadlines: '逾期记录',
+  plaintiffPrecedentConsent: '原告同意参考既往案件',
+  defendantPrecedentConsent: '被告同意参考既往案件',
+  plaintiffHearingConsent: '原告同意公开审理',
+  defendantHearingConsent: '被告同意公开审理',
+  spectatorCode: '旁听码',
+  spectatorIds: '旁听者',
+};
+
+const ITEM_FIELD_LABELS: Record<string, string> = {
+  plaintiffArg: '原告观点',
+  defendantArg: '被告观点',
+  description: '描述',
+  isContested: '异议状态',
+  aiAnalysis: 'AI 质证分析',
+  content: '内容',
+  defendantStance: '被告态度',
+  defendantComment: '被告说明',
+  plaintiffStance: '原告态度',
+  plaintiffComment: '原告说明',
+  plaintiffResponse: '原告回应',
+  defendantResponse: '被告回应',
+  status: '完成状态',
+  proof: '完成凭证',
+  confirmedAt: '确认完成',
+  disputeReason: '异议理由',
+  outcome: '处理方式',
+  rebuttal: '质证说明',
+  arguments: '辩论观点',
+  revealedAt: '揭晓时间',
+};
+
+const KEYED_ARRAY_FIELDS: (keyof CaseData)[] = [
+  'demandItems',
+  'evidence',
+  'defendantEvidence',
+  'counterclaims',
+  'counterclaimEvidence',
+  'plaintiffRebuttalEvidence',
+  'defendantRebuttalEvidence',
+  'disputePoints',
+  'settlementProposals',
+  'moderationLog',
+  'sealedSubmissions',
+  'missedDeadlines',
+  'tasks',
+];
+
+// Keys with an undefined value count as absent (as in JSON)
+const definedKeys = (o: object) => Object.keys(o).filter(k => (o as Record<string, unknown>)[k] !== undefined);
+
+// Deep equality that ignores key order: the cloud (jsonb) returns object keys in its own order
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  const aKeys = definedKeys(a);
+  const bRecord = b as Record<string, unknown>;
+  return aKeys.length === definedKeys(b).length
+    && aKeys.every(k => bRecord[k] !== undefined && isEqual((a as Record<string, unknown>)[k], bRecord[k]));
+};
+
+const preview = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Classic three-way rule for a single value
+const mergeValue = <T>(base: T, local: T, remote: T): { value: T; conflict: boolean } => {
+  if (isEqual(local, base)) return { value: remote, conflict: false };
+  if (isEqual(remote, base) || isEqual(local, remote)) return { value: local, conflict: false };
+  return { value: remote, conflict: true };
+};
+
+type Keyed = { id: string } & Record<string, any>;
+
+const itemName = (field: keyof CaseData, item: Keyed) => {
+  if (field === 'disputePoints') return `「${item.title}」`;
+  if (field === 'tasks' || field === 'demandItems' || field === 'counterclaims') return `「${item.content}」`;
+  if (field === 'settlementProposals') return `（${PROPOSER_LABELS[item.proposedBy]}提出）`;
+  if (field === 'moderationLog') return `（${MODERATED_FIELD_LABELS[item.field as ModeratedField]}）`;
+  if (field === 'sealedSubmissions') return `（${item.role === 'PLAINTIFF' ? '原告' : '被告'}）`;
+  if (field === 'missedDeadlines') return `（${MISSED_DEADLINE_LABELS[item.kind as MissedDeadlineKind]}）`;
+  return `「${item.description || item.id}」`;
+};
+
+const mergeKeyedArray = (
+  field: keyof CaseData,
+  base: Keyed[] = [],
+  local: Keyed[] = [],
+  remote: Keyed[] = [],
+  conflicts: MergeConflict[]
+): Keyed[] => {
+  const baseMap = new Map(base.map(i => [i.id, i]));
+  const localMap = new Map(local.map(i => [i.id, i]));
+  const remoteMap = new Map(remote.map(i => [i.id, i]));
+  const fieldLabel = FIELD_LABELS[field] || String(field);
+
+  // Remote order first, then items only this device added
+  const ids = [...remote.map(i => i.id), ...local.filter(i => !remoteMap.has(i.id)).map(i => i.id)];
+  const result: Keyed[] = [];
+
+  for (const id of ids) {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+
+    if (!b) {
+      // Added on one or both sides
+      if (l && r && !isEqual(l, r)) {
+        conflicts.push({ field, itemId: id, label: `${fieldLabel}${itemName(field, l)}`, localValue: preview(l) });
+      }
+      result.push((r || l)!);
+      continue;
+    }
+
+    if (!l || !r) {
+      // Deleted on one side: honour the deletion unless the other side edited the item meanwhile
+      const survivor = (l || r)!;
+      if (isEqual(survivor, b)) continue;
+      conflicts.push({ field, itemId: id, label: `${fieldLabel}${itemName(field, survivor)} 已被删除但又被修改，已保留` });
+      result.push(survivor);
+      continue;
+    }
+
+    // Present on both sides: merge field by field
+    const merged: Keyed = { id };
+    const keys = new Set([...Object.keys(b), ...Object.keys(l), ...Object.keys(r)]);
+    for (const key of keys) {
+      if (key === 'id') continue;
+      const { value, conflict } = mergeValue(b[key], l[key], r[key]);
+      if (conflict) {
+        conflicts.push({
+          field,
+          itemId: id,
+          label: `${fieldLabel}${itemName(field, r)} · ${ITEM_FIELD_LABELS[key] || key}`,
+          localValue: preview(l[key])
+        });
+      }
+      if (value !== undefined) merged[key] = value;
+    }
+    result.push(merged);
+  }
+
+  return result;
+};
+
+const isPrefixOf = (prefix: StatusTransition[], history: StatusTransition[]) =>
+  prefix.length <= history.length && prefix.every((t, i) => isEqual(t, history[i]));
+
+// The history is a chain: each transition starts where the previous one ended. The longer chain
+// wins when one extends the other; when both sides appended different transitions, the remote
+// chain is kept and the local transitions are reported as a conflict (they did not happen).
+const mergeHistory = (
+  base: StatusTransition[] = [],
+  local: StatusTransition[] = [],
+  remote: StatusTransition[] = [],
+  conflicts: MergeConflict[]
+) => {
+  if (isPrefixOf(remote, local)) return local;
+  if (isPrefixOf(local, remote)) return remote;
+  const dropped = isPrefixOf(base, local) ? local.slice(base.length) : local;
+  conflicts.push({
+    field: 'statusHistory',
+    label: `${FIELD_LABELS.statusHistory}（对方已先推进了案件，本机的操作未生效）`,
+    localValue: dropped.map(t => t.reason).join('；')
+  });
+  return remote;
+};
+
+export const mergeCases = (base: CaseData, local: CaseData, remote: CaseData): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const merged: CaseData = { ...remote };
+  const target = merged as unknown as Record<string, unknown>;
+
+  for (const field of SYNCED_FIELDS) {
+    if (field === 'status' || field === 'statusHistory') continue;
+
+    if (KEYED_ARRAY_FIELDS.includes(field)) {
+      target[field] = mergeKeyedArray(
+        field,
+        base[field] as Keyed[],
+        local[field] as Keyed[],
+        remote[field] as Keyed[],
+        conflicts
+      );
+      continue;
+    }
+
+    const { value, conflict } = mergeValue(base[field], local[field], remote[field]);
+    if (conflict) {
+      conflicts.push({ field, label: FIELD_LABELS[field] || String(field), localValue: preview(local[field]) });
+    }
+    target[field] = value;
+  }
+
+  const history = mergeHistory(base.statusHistory, local.statusHistory, remote.statusHistory, conflicts);
+  merged.statusHistory = history;
+  merged.status = history.length > 0
+    ? history[history.length - 1].to
+    : mergeValue(base.status, local.status, remote.status).value;
+
+  return { merged, conflicts };
+};
+
+// Synced fields whose value differs between two versions
+export const diffCase = (from: CaseData, to: CaseData): Partial<CaseData> => {
+  const changes: Partial<CaseData> = {};
+  for (const field of SYNCED_FIELDS) {
+    if (!isEqual(from[field], to[field])) {
+      (changes as Record<string, unknown>)[field] = to[field];
+    }
+  }
+  return changes;
+};
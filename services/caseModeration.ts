@@ -0,0 +1,121 @@
+import { CaseData, ModeratedField, ModerationOutcome, ModerationRecord, SentimentResult, UserRole } from "../types";
+
+// --- Moderation ---
+// Every text a party writes for the other one (statement, demands, defense, counterclaims,
+// rebuttals, debate arguments, text evidence) is scored with analyzeSentiment before it is shared.
+// A flagged text is held back: the author sees the reason and a polished rewrite and decides to
+// send the rewrite, edit it themselves or send it anyway. With the case's cooling-off option on, a
+// very heated text cannot be sent as it is for a while. Flagged texts are logged on the case
+// (`moderationLog`, merged item by item) and summed up per party for the judge.
+
+// analyzeSentiment scores 0 (calm) to 10 (abusive)
+export const FLAG_SCORE = 6;
+export const COOLING_OFF_SCORE = 8;
+export const COOLING_OFF_MS = 5 * 60 * 1000;
+
+export const MODERATED_FIELD_LABELS: Record<ModeratedField, string> = {
+  description: '事实陈述',
+  demands: '诉请',
+  defenseStatement: '答辩理由',
+  counterclaims: '反诉请求',
+  rebuttal: '质证说明',
+  disputeArgument: '辩论观点',
+  evidence: '文字证据'
+};
+
+export const isFlagged = (result: SentimentResult) => result.isToxic || result.score >= FLAG_SCORE;
+
+type Party = ModerationRecord['role'];
+
+const asParty = (role: UserRole): Party | null =>
+  role === UserRole.PLAINTIFF ? 'PLAINTIFF' : role === UserRole.DEFENDANT ? 'DEFENDANT' : null;
+
+const getLog = (c: CaseData) => c.moderationLog || [];
+
+// Latest end of a cooling-off period of this party that has not passed yet, otherwise null
+export const getCoolingOffUntil = (c: CaseData, role: UserRole, now = Date.now()): number | null => {
+  const until = Math.max(0, ...getLog(c)
+    .filter(r => r.role === asParty(role) && r.coolingOffUntil)
+    .map(r => r.coolingOffUntil!));
+  return until > now ? until : null;
+};
+
+// Record of a flagged text; a cooling-off period starts for very heated ones if the case uses it
+export const createModerationRecord = (
+  c: CaseData,
+  role: UserRole,
+  field: ModeratedField,
+  result: SentimentResult,
+  at = Date.now()
+): ModerationRecord => {
+  const party = asParty(role);
+  if (!party) throw new Error("只有原告或被告的发言需要检查");
+  return {
+    id: `moderation_${party}_${at}`,
+    role: party,
+    field,
+    score: result.score,
+    reason: result.reason,
+    at,
+    ...(c.coolingOff && result.score >= COOLING_OFF_SCORE ? { coolingOffUntil: at + COOLING_OFF_MS } : {}),
+    outcome: 'PENDING'
+  };
+};
+
+// Patch adding a record, or replacing it once the author decided
+export const buildModerationUpdate = (c: CaseData, record: ModerationRecord): Partial<CaseData> => ({
+  moderationLog: [...getLog(c).filter(r => r.id !== record.id), record]
+});
+
+// Error message when the original text may not be sent (yet), otherwise null
+export const checkModerationOutcome = (
+  c: CaseData,
+  role: UserRole,
+  outcome: ModerationOutcome,
+  now = Date.now()
+): string | null => {
+  if (outcome !== 'SENT') return null;
+  const until = getCoolingOffUntil(c, role, now);
+  return until ? `冷静期还剩 ${Math.ceil((until - now) / 60000)} 分钟，可以先用建议的说法` : null;
+};
+
+// --- Civility ---
+
+export interface CivilityScore {
+  flagged: number; // Texts held back by the check
+  rewritten: number; // ... of which the author rewrote or edited
+  sentAnyway: number; // ... of which the author sent unchanged
+  score: number; // 0-100, 100 = never flagged
+}
+
+export interface CivilityReport {
+  plaintiff: CivilityScore;
+  defendant: CivilityScore;
+  // Reasons of the texts that were sent unchanged, for the judge to read
+  incidents: { role: Party; field: ModeratedField; reason: string }[];
+}
+
+// Every flag costs a little, sending the text unchanged costs more
+const FLAG_PENALTY = 3;
+const SENT_PENALTY = 10;
+
+const scoreParty = (records: ModerationRecord[]): CivilityScore => {
+  const sentAnyway = records.filter(r => r.outcome === 'SENT').length;
+  const rewritten = records.filter(r => r.outcome === 'REWRITTEN' || r.outcome === 'REVISED').length;
+  const penalty = (records.length - sentAnyway) * FLAG_PENALTY + sentAnyway * SENT_PENALTY;
+  return { flagged: records.length, rewritten, sentAnyway, score: Math.max(0, 100 - penalty) };
+};
+
+export const getCivility = (c: CaseData, role: UserRole): CivilityScore =>
+  scoreParty(getLog(c).filter(r => r.role === asParty(role)));
+
+// What the judge is told about how the two talked to each other; null while nothing was flagged
+export const getCivilityReport = (c: CaseData): CivilityReport | null => {
+  const log = getLog(c);
+  if (log.length === 0) return null;
+  return {
+    plaintiff: getCivility(c, UserRole.PLAINTIFF),
+    defendant: getCivility(c, UserRole.DEFENDANT),
+    incidents: log.filter(r => r.outcome === 'SENT').map(({ role, field, reason }) => ({ role, field, reason }))
+  };
+};
@@ -0,0 +1,128 @@
+import { CaseData, CaseStatus, UserRole } from "../types";
+import { normalizeVerdict } from "./aiSchema";
+import { getRulings } from "./judgmentFormat";
+import { DISPUTE_THEMES } from "./caseInsights";
+import { getCaseTasks, isTaskConfirmed, isTaskOverdue } from "./penaltyTasks";
+
+// --- Case Precedents ---
+// Opt-in memory of earlier disputes: once both parties agreed (`plaintiffPrecedentConsent` and
+// `defendantPrecedentConsent`), the dispute focus analysis and the verdict get a summary of their
+// earlier closed cases about similar issues, so the judge can point out that an issue keeps
+// coming back and weigh whether earlier penalty tasks were carried out.
+// Similarity is keyword based, using the themes of the relationship insights.
+
+// At most this many earlier cases are summarized for the AI, most similar first
+export const MAX_PRECEDENTS = 5;
+
+export interface Precedent {
+  caseId: string;
+  title: string;
+  closedAt: number;
+  themes: string[]; // Themes shared with the current case
+  sameRoles: boolean; // The current plaintiff was the plaintiff back then too
+  // Responsibility split mapped onto the parties of the current case
+  responsibilitySplit: { plaintiff: number; defendant: number };
+  summary: string;
+  rulings: { support: number; modify: number; reject: number };
+  tasks: { total: number; confirmed: number; overdue: number };
+}
+
+export interface PrecedentContext {
+  precedents: Precedent[];
+  // How often each shared theme has come up, counting the current case
+  recurrence: { theme: string; count: number }[];
+}
+
+export const hasPrecedentConsent = (c: CaseData) =>
+  !!c.defendantId && !!c.plaintiffPrecedentConsent && !!c.defendantPrecedentConsent;
+
+export const getPrecedentConsent = (c: CaseData, role: UserRole) =>
+  role === UserRole.PLAINTIFF ? !!c.plaintiffPrecedentConsent : role === UserRole.DEFENDANT ? !!c.defendantPrecedentConsent : false;
+
+// Patch recording one party's decision; each party only ever writes its own field
+export const buildConsentUpdate = (role: UserRole, consent: boolean): Partial<CaseData> => {
+  if (role === UserRole.PLAINTIFF) return { plaintiffPrecedentConsent: consent };
+  if (role === UserRole.DEFENDANT) return { defendantPrecedentConsent: consent };
+  throw new Error("只有原告或被告可以决定是否参考既往案件");
+};
+
+const themesIn = (text: string) =>
+  DISPUTE_THEMES.filter(t => t.keywords.some(k => text.includes(k))).map(t => t.label);
+
+// Themes of a case: its dispute points, or the statements while there are none yet
+const caseThemes = (c: CaseData) => new Set(themesIn([
+  ...c.disputePoints.map(p => `${p.title} ${p.description || ''}`),
+  c.disputePoints.length > 0 ? '' : `${c.description} ${c.demands} ${c.defenseStatement}`
+].join('\n')));
+
+const closedAtOf = (c: CaseData) =>
+  c.statusHistory?.filter(t => t.to === CaseStatus.CLOSED).pop()?.at || c.lastUpdateDate;
+
+// Closed cases between the same two people (in either role), other than `current`
+export const getPriorCases = (current: CaseData, cases: CaseData[]): CaseData[] => {
+  if (!current.defendantId) return [];
+  const pair = [current.plaintiffId, current.defendantId].sort().join('\n');
+  return cases.filter(c =>
+    c.id !== current.id &&
+    c.status === CaseStatus.CLOSED &&
+    !!c.verdict &&
+    !!c.defendantId &&
+    [c.plaintiffId, c.defendantId].sort().join('\n') === pair
+  );
+};
+
+const toPrecedent = (current: CaseData, c: CaseData, themes: string[]): Precedent => {
+  const verdict = normalizeVerdict(c.verdict);
+  const sameRoles = c.plaintiffId === current.plaintiffId;
+  const rulings = getRulings(verdict);
+  const tasks = getCaseTasks(c);
+  return {
+    caseId: c.id,
+    title: c.title || c.category,
+    closedAt: closedAtOf(c),
+    themes,
+    sameRoles,
+    responsibilitySplit: sameRoles
+      ? verdict.responsibilitySplit
+      : { plaintiff: verdict.responsibilitySplit.defendant, defendant: verdict.responsibilitySplit.plaintiff },
+    summary: verdict.summary,
+    rulings: {
+      support: rulings.filter(r => r.kind === 'support').length,
+      modify: rulings.filter(r => r.kind === 'modify').length,
+      reject: rulings.filter(r => r.kind === 'reject').length
+    },
+    tasks: {
+      total: tasks.length,
+      confirmed: tasks.filter(isTaskConfirmed).length,
+      overdue: tasks.filter(t => isTaskOverdue(t)).length
+    }
+  };
+};
+
+/**
+ * Earlier cases of the two parties that are similar to `current`, for the AI prompts.
+ * Returns null without the consent of both parties or when there is nothing similar.
+ */
+export const findPrecedents = (current: CaseData, cases: CaseData[]): PrecedentContext | null => {
+  if (!hasPrecedentConsent(current)) return null;
+  const themes = caseThemes(current);
+  if (themes.size === 0) return null;
+
+  const similar = getPriorCases(current, cases)
+    .map(c => toPrecedent(current, c, [...caseThemes(c)].filter(t => themes.has(t))))
+    .filter(p => p.themes.length > 0);
+  if (similar.length === 0) return null;
+
+  // Recurrence counts every similar case, even those beyond MAX_PRECEDENTS
+  const recurrence = [...themes]
+    .map(theme => ({ theme, count: 1 + similar.filter(p => p.themes.includes(theme)).length }))
+    .filter(r => r.count > 1)
+    .sort((a, b) => b.count - a.count);
+
+  const precedents = similar
+    .sort((a, b) => b.themes.length - a.themes.length || b.closedAt - a.closedAt)
+    .slice(0, MAX_PRECEDENTS)
+    .sort((a, b) => a.closedAt - b.closedAt);
+
+  return { precedents, recurrence };
+};
@@ -0,0 +1,207 @@
+import { CaseData, CaseStatus, SealedContent, SealedPhase, SealedSubmission, UserRole } from "../types";
+
+// --- Sealed Submissions ---
+// During cross-examination and the debate both parties answer at the same time. Each party writes
+// a private draft (kept on their own device, see MockDb.saveDraft) and seals it when done. Sealing
+// and revealing happen on the server (supabase/migrations, seal_submission / reveal_submissions),
+// which keeps the content where only its author can read it; the case carries the envelopes, and
+// the author's device keeps its own content (withLocalContent).
+// Once both parties sealed, or SEAL_WINDOW_MS after the first seal of the round, or when the phase
+// deadline passes (caseDeadlines.ts), the round is revealed: the sealed content is copied into the
+// rebuttal fields or the dispute points for both to read. Rebuttals and debate arguments can only
+// be written that way, and the phase cannot be left for the next step before its round was revealed.
+// The functions below mirror the server's checks so the app can explain them without a round trip.
+
+export const SEALED_PHASES: SealedPhase[] = [CaseStatus.CROSS_EXAMINATION, CaseStatus.DEBATE];
+
+// How long the first party to seal waits for the other one before the round is revealed anyway
+export const SEAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type Party = SealedSubmission['role'];
+
+const PARTIES: Party[] = ['PLAINTIFF', 'DEFENDANT'];
+
+const asParty = (role: UserRole): Party | null =>
+  role === UserRole.PLAINTIFF ? 'PLAINTIFF' : role === UserRole.DEFENDANT ? 'DEFENDANT' : null;
+
+export const isSealedPhase = (status: CaseStatus): status is SealedPhase =>
+  (SEALED_PHASES as CaseStatus[]).includes(status);
+
+// Rounds count the times the phase was entered; coming back from mediation continues the same round
+export const getSealRound = (c: CaseData, phase: SealedPhase) =>
+  (c.statusHistory || []).filter(t => t.to === phase && t.from !== CaseStatus.MEDIATION).length;
+
+const sealId = (phase: SealedPhase, round: number, party: Party) => `${phase}_${round}_${party}`;
+
+// Submissions of the current round of a phase
+export const getSeals = (c: CaseData, phase: SealedPhase): SealedSubmission[] => {
+  const round = getSealRound(c, phase);
+  return (c.sealedSubmissions || []).filter(s => s.phase === phase && s.round === round);
+};
+
+export const getSeal = (c: CaseData, phase: SealedPhase, role: UserRole): SealedSubmission | undefined =>
+  getSeals(c, phase).find(s => s.role === asParty(role));
+
+export const isRevealed = (c: CaseData, phase: SealedPhase) => {
+  const seals = getSeals(c, phase);
+  return seals.length > 0 && seals.every(s => s.revealedAt);
+};
+
+// When the round is revealed even if only one party sealed; null before anybody sealed
+export const getRevealDeadline = (c: CaseData, phase: SealedPhase): number | null => {
+  const seals = getSeals(c, phase);
+  return seals.length > 0 ? Math.min(...seals.map(s => s.sealedAt)) + SEAL_WINDOW_MS : null;
+};
+
+// Error message when the round may not be revealed (yet), otherwise null
+export const checkReveal = (c: CaseData, phase: SealedPhase, now = Date.now()): string | null => {
+  if (isRevealed(c, phase)) return "本轮已经揭晓";
+  const seals = getSeals(c, phase);
+  if (seals.length === 0) return "双方都还没有密封提交";
+  if (seals.length === 2) return null;
+  return getRevealDeadline(c, phase)! <= now ? null : "需等待对方密封提交，或等到截止时间后揭晓";
+};
+
+export const isRevealDue = (c: CaseData, phase: SealedPhase, now = Date.now()) => checkReveal(c, phase, now) === null;
+
+// Guard for leaving a sealed phase forward: both answers have to be out in the open first
+export const checkRevealed = (c: CaseData, phase: SealedPhase): string | null => {
+  if (isRevealed(c, phase)) return null;
+  return phase === CaseStatus.CROSS_EXAMINATION ? "双方的质证说明尚未揭晓" : "双方的辩论观点尚未揭晓";
+};
+
+/**
+ * Patch revealing the current round: marks every submission as revealed and copies the sealed
+ * content to where the case keeps it. A party who did not seal keeps what they had before.
+ */
+export const buildReveal = (c: CaseData, phase: SealedPhase, now = Date.now()): Partial<CaseData> => {
+  const error = checkReveal(c, phase, now);
+  if (error) throw new Error(error);
+  const seals = getSeals(c, phase);
+  const revealed = new Set(seals.map(s => s.id));
+  const patch: Partial<CaseData> = {
+    sealedSubmissions: (c.sealedSubmissions || []).map(s => revealed.has(s.id) ? { ...s, revealedAt: now } : s)
+  };
+
+  const plaintiff = seals.find(s => s.role === 'PLAINTIFF' && !s.defaulted);
+  const defendant = seals.find(s => s.role === 'DEFENDANT' && !s.defaulted);
+  if (phase === CaseStatus.CROSS_EXAMINATION) {
+    if (plaintiff) patch.plaintiffRebuttal = plaintiff.rebuttal || '';
+    if (defendant) patch.defendantRebuttal = defendant.rebuttal || '';
+  } else {
+    patch.disputePoints = c.disputePoints.map(p => ({
+      ...p,
+      ...(plaintiff?.arguments?.[p.id] !== undefined ? { plaintiffArg: plaintiff.arguments[p.id] } : {}),
+      ...(defendant?.arguments?.[p.id] !== undefined ? { defendantArg: defendant.arguments[p.id] } : {})
+    }));
+  }
+  return patch;
+};
+
+/**
+ * Patch sealing a party's answer for the current round of the phase the case is in.
+ * When the other party already sealed, the patch also reveals the round.
+ */
+export const buildSeal = (
+  c: CaseData,
+  role: UserRole,
+  content: SealedContent,
+  now = Date.now()
+): Partial<CaseData> => {
+  const party = asParty(role);
+  if (!party) throw new Error("只有原告或被告可以密封提交");
+  if (!isSealedPhase(c.status)) throw new Error("当前环节无需密封提交");
+  const phase = c.status;
+  if (isRevealed(c, phase)) throw new Error("本轮已经揭晓，无法再提交");
+  if (getSeal(c, phase, role)) throw new Error("你已经密封提交过了");
+
+  const round = getSealRound(c, phase);
+  const seal: SealedSubmission = {
+    id: sealId(phase, round, party),
+    role: party,
+    phase,
+    round,
+    sealedAt: now,
+    ...(phase === CaseStatus.CROSS_EXAMINATION
+      ? { rebuttal: (content.rebuttal || '').trim() }
+      : { arguments: Object.fromEntries(Object.entries(content.arguments || {}).map(([id, arg]) => [id, arg.trim()])) })
+  };
+  const sealed = { ...c, sealedSubmissions: [...(c.sealedSubmissions || []), seal] };
+  return getSeals(sealed, phase).length === 2
+    ? { sealedSubmissions: sealed.sealedSubmissions, ...buildReveal(sealed, phase, now) }
+    : { sealedSubmissions: sealed.sealedSubmissions };
+};
+
+/**
+ * Patch closing the current round when the phase deadline passed: a party who has not sealed gets
+ * an empty placeholder (`defaulted`) and the round is revealed. Empty when it was revealed already.
+ */
+export const buildDeadlineReveal = (c: CaseData, phase: SealedPhase, now = Date.now()): Partial<CaseData> => {
+  if (isRevealed(c, phase)) return {};
+  const round = getSealRound(c, phase);
+  const placeholders: SealedSubmission[] = PARTIES
+    .filter(party => !getSeals(c, phase).some(s => s.role === party))
+    .map(party => ({ id: sealId(phase, round, party), role: party, phase, round, sealedAt: now, defaulted: true }));
+  return buildReveal({ ...c, sealedSubmissions: [...(c.sealedSubmissions || []), ...placeholders] }, phase, now);
+};
+
+// Direct writes may not touch what only a reveal writes; a party may still clear their own text
+export const checkSealedWrite = (c: CaseData, patch: Partial<CaseData>, role: UserRole): string | null => {
+  if (patch.sealedSubmissions !== undefined) return "密封提交只能通过密封或揭晓写入";
+  const party = asParty(role);
+  const changed = (next: string | undefined, current: string | undefined) => !!next && next !== (current || '');
+  const clearedByOther = (next: string | undefined, current: string | undefined, owner: Party) =>
+    next !== undefined && !next && !!current && party !== owner;
+  if (changed(patch.plaintiffRebuttal, c.plaintiffRebuttal) || changed(patch.defendantRebuttal, c.defendantRebuttal)) {
+    return "质证说明需要密封提交，双方都提交后才会揭晓";
+  }
+  if (clearedByOther(patch.plaintiffRebuttal, c.plaintiffRebuttal, 'PLAINTIFF')
+    || clearedByOther(patch.defendantRebuttal, c.defendantRebuttal, 'DEFENDANT')) {
+    return "只能清空自己的质证说明";
+  }
+  if (patch.disputePoints) {
+    const current = new Map(c.disputePoints.map(p => [p.id, p]));
+    const tampered = patch.disputePoints.some(p =>
+      changed(p.plaintiffArg, current.get(p.id)?.plaintiffArg) || changed(p.defendantArg, current.get(p.id)?.defendantArg));
+    if (tampered) return "辩论观点需要密封提交，双方都提交后才会揭晓";
+    const cleared = patch.disputePoints.some(p => current.has(p.id) && (
+      clearedByOther(p.plaintiffArg || '', current.get(p.id)!.plaintiffArg, 'PLAINTIFF')
+      || clearedByOther(p.defendantArg || '', current.get(p.id)!.defendantArg, 'DEFENDANT')));
+    if (cleared) return "只能清空自己的辩论观点";
+  }
+  return null;
+};
+
+/**
+ * The envelopes from the server hold the content only once revealed; put back the content of the
+ * submissions this device sealed itself.
+ */
+export const withLocalContent = (remote: SealedSubmission[], local: SealedSubmission[] = []): SealedSubmission[] => {
+  const own = new Map(local.filter(s => s.rebuttal !== undefined || s.arguments !== undefined).map(s => [s.id, s]));
+  return remote.map(s => {
+    const mine = own.get(s.id);
+    if (!mine || s.rebuttal !== undefined || s.arguments !== undefined) return s;
+    return {
+      ...s,
+      ...(mine.rebuttal !== undefined ? { rebuttal: mine.rebuttal } : {}),
+      ...(mine.arguments !== undefined ? { arguments: mine.arguments } : {})
+    };
+  });
+};
+
+/**
+ * The case as the given role may see it: the content of the other party's unrevealed submissions
+ * is removed (spectators see no unrevealed content at all). That a party has sealed stays visible.
+ */
+export const redactSealed = (c: CaseData, role: UserRole): CaseData => {
+  if (!c.sealedSubmissions?.some(s => !s.revealedAt)) return c;
+  const party = asParty(role);
+  return {
+    ...c,
+    sealedSubmissions: c.sealedSubmissions.map(s => {
+      if (s.revealedAt || s.role === party) return s;
+      const { rebuttal, arguments: args, ...envelope } = s;
+      return envelope;
+    })
+  };
+};
@@ -0,0 +1,219 @@
+import { CaseData } from "../types";
+
+// --- Local Case Store ---
+// Storage adapter behind MockDb's local cache.
+// IndexedDB keeps one record per case (indexed by party and update time) so reads and writes
+// no longer re-serialize every case; the localStorage adapter keeps the original single-key
+// layout and is the fallback where IndexedDB is unavailable.
+// Each case's sync base (the last cloud version seen, see MockDb) is kept next to it, one record
+// per case as well.
+
+export interface CaseStore {
+  name: string;
+  get: (id: string) => Promise<CaseData | null>;
+  put: (c: CaseData) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  // Cases where the user is plaintiff or defendant, most recently updated first
+  listForUser: (userId: string) => Promise<CaseData[]>;
+  getSyncBase: (id: string) => Promise<CaseData | null>;
+  // `null` forgets the base
+  putSyncBase: (id: string, base: CaseData | null) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// Original storage keys, also the source of the one-time IndexedDB migration
+export const LEGACY_DB_KEY = 'court_of_love_db_v1';
+export const LEGACY_SYNC_BASE_KEY = 'court_of_love_sync_base_v1';
+
+const byLastUpdateDesc = (a: CaseData, b: CaseData) => b.lastUpdateDate - a.lastUpdateDate;
+
+const isQuotaError = (e: any) =>
+  e?.name === 'QuotaExceededError' || e?.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e?.code === 22;
+
+const QUOTA_MESSAGE = "本地存储空间不足，请删除部分旧案件后重试";
+
+// --- localStorage ---
+
+export const createLocalStorageCaseStore = (key = LEGACY_DB_KEY, baseKey = LEGACY_SYNC_BASE_KEY): CaseStore => {
+  const read = (storageKey = key): Record<string, CaseData> => {
+    const str = localStorage.getItem(storageKey);
+    return str ? JSON.parse(str) : {};
+  };
+
+  const write = (db: Record<string, CaseData>, storageKey = key) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(db));
+    } catch (e) {
+      if (isQuotaError(e)) throw new Error(QUOTA_MESSAGE);
+      throw e;
+    }
+  };
+
+  return {
+    name: 'localStorage',
+    get: async (id) => read()[id] || null,
+    put: async (c) => {
+      const db = read();
+      db[c.id] = c;
+      write(db);
+    },
+    delete: async (id) => {
+      const db = read();
+      if (!db[id]) return;
+      delete db[id];
+      write(db);
+    },
+    listForUser: async (userId) =>
+      Object.values(read()).filter(c => c.plaintiffId === userId || c.defendantId === userId).sort(byLastUpdateDesc),
+    getSyncBase: async (id) => read(baseKey)[id] || null,
+    putSyncBase: async (id, base) => {
+      const bases = read(baseKey);
+      if (base) bases[id] = base;
+      else if (!bases[id]) return;
+      else delete bases[id];
+      write(bases, baseKey);
+    },
+    clear: async () => {
+      localStorage.removeItem(key);
+      localStorage.removeItem(baseKey);
+    }
+  };
+};
+
+// --- IndexedDB ---
+
+const IDB_NAME = 'court_of_love_cases';
+const IDB_VERSION = 2;
+const CASES = 'cases';
+const SYNC_BASES = 'sync_bases'; // Keyed by case id
+
+const promisify = <T>(request: IDBRequest): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const readLegacy = (key: string): Record<string, CaseData> | null => {
+  const str = localStorage.getItem(key);
+  if (!str) return null;
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    console.error(`[CaseStore] Legacy data (${key}) is unreadable, migration skipped:`, e);
+    return null;
+  }
+};
+
+// Copy the legacy sync bases into IndexedDB once; bases already there are newer
+const migrateSyncBases = async (db: IDBDatabase) => {
+  const legacy = readLegacy(LEGACY_SYNC_BASE_KEY);
+  if (!legacy) return;
+
+  const tx = db.transaction(SYNC_BASES, 'readwrite');
+  const store = tx.objectStore(SYNC_BASES);
+  const existing = new Set(await promisify<IDBValidKey[]>(store.getAllKeys()));
+  Object.entries(legacy).forEach(([id, base]) => { if (!existing.has(id)) store.put(base, id); });
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_SYNC_BASE_KEY);
+};
+
+// Copy the legacy localStorage blob into IndexedDB once, then drop it to free the quota
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  await migrateSyncBases(db);
+  const str = localStorage.getItem(LEGACY_DB_KEY);
+  if (!str) return;
+
+  let legacy: Record<string, CaseData>;
+  try {
+    legacy = JSON.parse(str);
+  } catch (e) {
+    console.error("[CaseStore] Legacy data is unreadable, migration skipped:", e);
+    return;
+  }
+
+  const tx = db.transaction(CASES, 'readwrite');
+  const store = tx.objectStore(CASES);
+  // Never overwrite a record that is already in IndexedDB (e.g. migrated by another tab)
+  const existing = new Set(await promisify<IDBValidKey[]>(store.getAllKeys()));
+  Object.values(legacy).forEach(c => { if (!existing.has(c.id)) store.put(c); });
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_DB_KEY);
+};
+
+export const createIndexedDbCaseStore = (): CaseStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CASES)) {
+            const store = db.createObjectStore(CASES, { keyPath: 'id' });
+            store.createIndex('plaintiffId', 'plaintiffId');
+            store.createIndex('defendantId', 'defendantId');
+            store.createIndex('lastUpdateDate', 'lastUpdateDate');
+          }
+          // Version 2: sync bases moved out of localStorage
+          if (!db.objectStoreNames.contains(SYNC_BASES)) db.createObjectStore(SYNC_BASES);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).then(async db => {
+        await migrateFromLocalStorage(db);
+        return db;
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest, storeName = CASES): Promise<T> => {
+    const db = await open();
+    const tx = db.transaction(storeName, mode);
+    try {
+      const [result] = await Promise.all([promisify<T>(fn(tx.objectStore(storeName))), transactionDone(tx)]);
+      return result;
+    } catch (e) {
+      if (isQuotaError(e)) throw new Error(QUOTA_MESSAGE);
+      throw e;
+    }
+  };
+
+  return {
+    name: 'indexedDB',
+    get: async (id) => (await run<CaseData | undefined>('readonly', s => s.get(id))) || null,
+    put: async (c) => { await run('readwrite', s => s.put(c)); },
+    delete: async (id) => { await run('readwrite', s => s.delete(id)); },
+    listForUser: async (userId) => {
+      const [asPlaintiff, asDefendant] = await Promise.all([
+        run<CaseData[]>('readonly', s => s.index('plaintiffId').getAll(userId)),
+        run<CaseData[]>('readonly', s => s.index('defendantId').getAll(userId))
+      ]);
+      const byId = new Map<string, CaseData>();
+      [...asPlaintiff, ...asDefendant].forEach(c => byId.set(c.id, c));
+      return [...byId.values()].sort(byLastUpdateDesc);
+    },
+    getSyncBase: async (id) => (await run<CaseData | undefined>('readonly', s => s.get(id), SYNC_BASES)) || null,
+    putSyncBase: async (id, base) => {
+      await run('readwrite', s => base ? s.put(base, id) : s.delete(id), SYNC_BASES);
+    },
+    clear: async () => {
+      await run('readwrite', s => s.clear());
+      await run('readwrite', s => s.clear(), SYNC_BASES);
+    }
+  };
+};
+
+export const createDefaultCaseStore = (): CaseStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbCaseStore() : createLocalStorageCaseStore();
@@ -0,0 +1,292 @@
+import { CaseData, CaseStatus, DeadlinePhase, MissedDeadlineKind, StatusTransition, UserRole } from "../types";
+import { MAX_APPEALS, getAppealsUsed, getVerdictHistory, isAppealActive } from "./caseAppeal";
+import { checkCounterclaimAnswers } from "./caseDemands";
+import { checkSettlement } from "./caseMediation";
+import { checkRevealed } from "./caseSealing";
+
+// --- Case State Machine ---
+// Single source of truth for how a case moves between statuses:
+// which transitions exist, which role may trigger each one and what must be true first.
+// MockDb.transitionCase is the only writer of `status`; every move is appended to `statusHistory`.
+
+export interface CaseActor {
+  userId: string;
+  role: UserRole;
+}
+
+interface TransitionRule {
+  from: CaseStatus;
+  to: CaseStatus;
+  roles: UserRole[];
+  label: string; // Default reason recorded in the history
+  // Returns an error message if the (already patched) case may not make this move; `current` is the
+  // case before the patch
+  guard?: (next: CaseData, role: UserRole, current: CaseData) => string | null;
+}
+
+// Marker written to defenseStatement when the plaintiff requests a default judgment
+export const DEFAULT_JUDGMENT_STATEMENT = "（被告缺席，放弃答辩）";
+
+export const isDefaultJudgment = (c: CaseData) => c.defenseStatement === DEFAULT_JUDGMENT_STATEMENT;
+
+const PARTIES = [UserRole.PLAINTIFF, UserRole.DEFENDANT];
+
+const requireDescription = (c: CaseData) => c.description?.trim() ? null : "请填写陈述";
+const requireDefense = (c: CaseData) => c.defenseStatement?.trim() ? null : "请填写答辩理由";
+const requireDefendant = (c: CaseData) => c.defendantId ? null : "被告尚未加入案件";
+const requireVerdict = (c: CaseData) => c.verdict ? null : "判决尚未生成";
+
+// When the case entered its current status; null for records without history
+export const getPhaseEnteredAt = (c: CaseData): number | null =>
+  (c.statusHistory || []).filter(t => t.to === c.status).pop()?.at ?? null;
+
+// Deadline of the current visit of the current status, or null when it has none (see caseDeadlines)
+export const getPhaseDeadline = (c: CaseData): number | null => {
+  const hours = c.phaseDeadlines?.[c.status as DeadlinePhase];
+  const enteredAt = getPhaseEnteredAt(c);
+  return hours && enteredAt !== null ? enteredAt + hours * 60 * 60 * 1000 : null;
+};
+
+const isPhaseOverdue = (c: CaseData) => {
+  const deadline = getPhaseDeadline(c);
+  return deadline !== null && Date.now() >= deadline;
+};
+
+// Has the defendant ever filed a defense? The case may have been sent back to the defense phase since
+export const hasSubmittedDefense = (c: CaseData) =>
+  (!!c.defenseStatement?.trim() && !isDefaultJudgment(c))
+  || (c.statusHistory || []).some(t => t.from === CaseStatus.DEFENSE_PENDING && t.to === CaseStatus.CROSS_EXAMINATION);
+
+// Did a party let the deadline of the current visit of this phase pass (see caseDeadlines)?
+export const hasMissedDeadline = (c: CaseData, kind: MissedDeadlineKind) => {
+  const enteredAt = getPhaseEnteredAt(c);
+  return enteredAt !== null && (c.missedDeadlines || []).some(m => m.kind === kind && m.enteredAt === enteredAt);
+};
+
+// Counterclaims are answered before the debate, unless the plaintiff let the deadline pass
+const checkCounterclaims = (c: CaseData) => hasMissedDeadline(c, 'COUNTERCLAIMS') ? null : checkCounterclaimAnswers(c);
+
+// --- Appeal Guards ---
+
+const checkAppealFiling = (c: CaseData, role: UserRole) => {
+  if (!c.verdict) return "判决尚未生成";
+  if (getAppealsUsed(c) >= MAX_APPEALS) return `每个案件最多上诉 ${MAX_APPEALS} 次`;
+  if (!isAppealActive(c) || !c.appeal!.grounds?.trim()) return "请填写上诉理由";
+  return c.appeal!.appellant === role ? null : "上诉人身份不符";
+};
+
+// The other party answers first; a case without a defendant (default judgment) goes straight to re-hearing
+const checkAppealResponse = (c: CaseData, role: UserRole) => {
+  if (!isAppealActive(c)) return "上诉已撤回";
+  if (!c.defendantId) return c.appeal!.appellant === role ? null : "上诉人身份不符";
+  if (c.appeal!.appellant === role) return "需等待对方答辩后进入重审";
+  return c.appeal!.response?.trim() ? null : "请填写上诉答辩意见";
+};
+
+const checkAppealWithdrawal = (c: CaseData, role: UserRole) =>
+  c.appeal?.withdrawnAt && c.appeal.appellant === role ? null : "只有上诉人可以撤回上诉";
+
+// Delivering a re-hearing verdict: it must come from a different judge than the one appealed against
+const checkVerdictDelivery = (c: CaseData) => {
+  const missing = requireVerdict(c);
+  if (missing) return missing;
+  const history = getVerdictHistory(c);
+  const latest = history[history.length - 1];
+  const appealed = history[history.length - 2];
+  if (latest?.appeal && appealed && appealed.judgePersona === latest.judgePersona) return "上诉案件须由不同的法官重审";
+  return null;
+};
+
+const TRANSITIONS: TransitionRule[] = [
+  { from: CaseStatus.DRAFTING, to: CaseStatus.PLAINTIFF_EVIDENCE, roles: [UserRole.PLAINTIFF], label: "原告提交起诉状", guard: requireDescription },
+  { from: CaseStatus.PLAINTIFF_EVIDENCE, to: CaseStatus.DRAFTING, roles: [UserRole.PLAINTIFF], label: "原告返回修改起诉状" },
+  { from: CaseStatus.PLAINTIFF_EVIDENCE, to: CaseStatus.DEFENSE_PENDING, roles: [UserRole.PLAINTIFF], label: "原告提交证据，等待被告应诉" },
+  { from: CaseStatus.DEFENSE_PENDING, to: CaseStatus.PLAINTIFF_EVIDENCE, roles: [UserRole.PLAINTIFF], label: "原告返回补充证据" },
+  {
+    // Either device may also return a case whose defense was filed earlier once the deadline passed
+    from: CaseStatus.DEFENSE_PENDING, to: CaseStatus.CROSS_EXAMINATION, roles: PARTIES, label: "被告提交答辩",
+    guard: (c, role) => requireDefendant(c) || requireDefense(c)
+      || (role === UserRole.DEFENDANT || (hasSubmittedDefense(c) && isPhaseOverdue(c)) ? null : "只有被告可以提交答辩")
+  },
+  {
+    // Requested by the plaintiff, or made by either device once the defense deadline has passed
+    from: CaseStatus.DEFENSE_PENDING, to: CaseStatus.ADJUDICATING, roles: PARTIES, label: "原告申请缺席判决",
+    guard: (c, role) => !isDefaultJudgment(c) ? "仅缺席判决可跳过答辩"
+      : role === UserRole.PLAINTIFF || hasMissedDeadline(c, 'DEFENSE') ? null : "只有原告可以申请缺席判决"
+  },
+  { from: CaseStatus.CROSS_EXAMINATION, to: CaseStatus.DEFENSE_PENDING, roles: PARTIES, label: "返回答辩环节" },
+  {
+    from: CaseStatus.CROSS_EXAMINATION, to: CaseStatus.DEBATE, roles: PARTIES, label: "质证结束，进入争议焦点辩论",
+    guard: (c) => requireDefendant(c) || checkCounterclaims(c) || checkRevealed(c, CaseStatus.CROSS_EXAMINATION)
+  },
+  { from: CaseStatus.DEBATE, to: CaseStatus.CROSS_EXAMINATION, roles: PARTIES, label: "返回质证环节" },
+  {
+    from: CaseStatus.DEBATE, to: CaseStatus.ADJUDICATING, roles: PARTIES, label: "辩论结束，申请判决",
+    guard: (c) => checkRevealed(c, CaseStatus.DEBATE)
+  },
+  // Mediation can be requested before the verdict and returns to the phase it was requested from
+  ...[CaseStatus.CROSS_EXAMINATION, CaseStatus.DEBATE].flatMap((phase): TransitionRule[] => [
+    {
+      from: phase, to: CaseStatus.MEDIATION, roles: PARTIES, label: "申请调解",
+      guard: (c) => requireDefendant(c) || (c.mediation?.from === phase ? null : "调解记录缺失")
+    },
+    {
+      from: CaseStatus.MEDIATION, to: phase, roles: PARTIES, label: "退出调解",
+      guard: (c) => c.mediation?.from === phase ? null : "调解不是从该环节发起的"
+    }
+  ]),
+  { from: CaseStatus.MEDIATION, to: CaseStatus.SETTLED, roles: PARTIES, label: "双方接受调解方案，达成和解", guard: checkSettlement },
+  { from: CaseStatus.MEDIATION, to: CaseStatus.ADJUDICATING, roles: PARTIES, label: "调解不成，转入判决" },
+  {
+    from: CaseStatus.ADJUDICATING, to: CaseStatus.DEBATE, roles: PARTIES, label: "返回辩论环节",
+    guard: (c) => isDefaultJudgment(c) ? "缺席判决案件无辩论环节" : isAppealActive(c) ? "上诉重审中，无法返回辩论环节" : null
+  },
+  {
+    // Withdrawing resets the placeholder defense, so whether it was a default judgment is checked before the patch
+    from: CaseStatus.ADJUDICATING, to: CaseStatus.DEFENSE_PENDING, roles: [UserRole.PLAINTIFF], label: "撤回缺席判决申请",
+    guard: (c, _role, current) => !isDefaultJudgment(current) ? "仅缺席判决可撤回"
+      : isAppealActive(c) ? "上诉重审中，无法撤回缺席判决申请" : null
+  },
+  { from: CaseStatus.ADJUDICATING, to: CaseStatus.CLOSED, roles: PARTIES, label: "AI 法官作出判决", guard: checkVerdictDelivery },
+  { from: CaseStatus.CLOSED, to: CaseStatus.APPEAL, roles: PARTIES, label: "不服判决，提起上诉", guard: checkAppealFiling },
+  { from: CaseStatus.APPEAL, to: CaseStatus.ADJUDICATING, roles: PARTIES, label: "上诉答辩完毕，换法官重审", guard: checkAppealResponse },
+  { from: CaseStatus.APPEAL, to: CaseStatus.CLOSED, roles: PARTIES, label: "上诉人撤回上诉", guard: checkAppealWithdrawal },
+  // The plaintiff may withdraw the case at any point before the verdict
+  ...[
+    CaseStatus.DRAFTING,
+    CaseStatus.PLAINTIFF_EVIDENCE,
+    CaseStatus.DEFENSE_PENDING,
+    CaseStatus.CROSS_EXAMINATION,
+    CaseStatus.DEBATE,
+    CaseStatus.MEDIATION,
+    CaseStatus.ADJUDICATING
+  ].map(from => ({
+    from, to: CaseStatus.CANCELLED, roles: [UserRole.PLAINTIFF], label: "原告撤诉",
+    // A re-hearing cannot be used to wipe out a verdict that was already delivered
+    guard: (c: CaseData) => getVerdictHistory(c).length > 0 ? "案件已作出判决，无法撤诉" : null
+  })),
+];
+
+const findRule = (from: CaseStatus, to: CaseStatus) => TRANSITIONS.find(t => t.from === from && t.to === to);
+
+// Returns an error message when the move is not allowed, null otherwise.
+export const checkTransition = (
+  current: CaseData,
+  to: CaseStatus,
+  role: UserRole,
+  patch: Partial<CaseData> = {}
+): string | null => {
+  const rule = findRule(current.status, to);
+  if (!rule) return `无法从「${getStatusLabel(current.status)}」进入「${getStatusLabel(to)}」`;
+  if (!rule.roles.includes(role)) return "当前身份无权执行此操作";
+  return rule.guard ? rule.guard({ ...current, ...patch }, role, current) : null;
+};
+
+export const canTransition = (current: CaseData, to: CaseStatus, role: UserRole, patch: Partial<CaseData> = {}) =>
+  checkTransition(current, to, role, patch) === null;
+
+/**
+ * Validate a transition and build the fields to write (status + appended history entry).
+ * Throws with a user-facing message if the move is illegal.
+ */
+export const buildTransition = (
+  current: CaseData,
+  to: CaseStatus,
+  actor: CaseActor,
+  patch: Partial<CaseData> = {},
+  reason?: string
+): Pick<CaseData, 'status' | 'statusHistory'> => {
+  const error = checkTransition(current, to, actor.role, patch);
+  if (error) throw new Error(error);
+
+  const entry: StatusTransition = {
+    from: current.status,
+    to,
+    by: actor.userId,
+    role: actor.role,
+    at: Date.now(),
+    reason: reason || findRule(current.status, to)!.label
+  };
+  return { status: to, statusHistory: [...(current.statusHistory || []), entry] };
+};
+
+/**
+ * Where the header "back" button leads for this role, or null to simply leave the case view.
+ */
+export const getStepBack = (c: CaseData, role: UserRole): { to: CaseStatus; patch?: Partial<CaseData> } | null => {
+  let target: { to: CaseStatus; patch?: Partial<CaseData> } | null = null;
+
+  switch (c.status) {
+    case CaseStatus.PLAINTIFF_EVIDENCE: target = { to: CaseStatus.DRAFTING }; break;
+    case CaseStatus.DEFENSE_PENDING: target = { to: CaseStatus.PLAINTIFF_EVIDENCE }; break;
+    case CaseStatus.CROSS_EXAMINATION: target = { to: CaseStatus.DEFENSE_PENDING }; break;
+    case CaseStatus.DEBATE: target = { to: CaseStatus.CROSS_EXAMINATION }; break;
+    case CaseStatus.MEDIATION: target = c.mediation ? { to: c.mediation.from } : null; break;
+    case CaseStatus.ADJUDICATING:
+      target = isDefaultJudgment(c)
+        // Undo the default judgment and reset the placeholder defense
+        ? { to: CaseStatus.DEFENSE_PENDING, patch: { defenseStatement: "", defenseSummary: undefined } }
+        // Explicitly resend disputePoints to ensure they are sync'd and not overwritten by stale data
+        : { to: CaseStatus.DEBATE, patch: { disputePoints: c.disputePoints } };
+      break;
+  }
+
+  return target && canTransition(c, target.to, role, target.patch) ? target : null;
+};
+
+// --- Sync Helpers ---
+
+const lastTransitionAt = (history?: StatusTransition[]) =>
+  history && history.length > 0 ? history[history.length - 1].at : 0;
+
+// Forward order of the main flow, only used for records created before statusHistory existed
+const STATUS_RANK: Record<CaseStatus, number> = {
+  [CaseStatus.DRAFTING]: 0,
+  [CaseStatus.PLAINTIFF_EVIDENCE]: 1,
+  [CaseStatus.DEFENSE_PENDING]: 2,
+  [CaseStatus.CROSS_EXAMINATION]: 3,
+  [CaseStatus.DEBATE]: 4,
+  [CaseStatus.MEDIATION]: 5,
+  [CaseStatus.ADJUDICATING]: 6,
+  [CaseStatus.CLOSED]: 7,
+  [CaseStatus.SETTLED]: 7,
+  [CaseStatus.APPEAL]: 8,
+  [CaseStatus.CANCELLED]: 99
+};
+
+/**
+ * During cloud sync: is the local status the result of a transition the remote has not seen yet?
+ * Compares the timestamp of the latest recorded transition on each side, so backward moves
+ * (step back, appeal) are protected exactly like forward ones.
+ */
+export const isLocalStatusNewer = (
+  local: CaseData,
+  remoteStatus: CaseStatus,
+  remoteHistory?: StatusTransition[]
+): boolean => {
+  if (local.status === remoteStatus) return false;
+
+  const localAt = lastTransitionAt(local.statusHistory);
+  const remoteAt = lastTransitionAt(remoteHistory);
+  if (localAt || remoteAt) return localAt > remoteAt;
+
+  // Legacy records without history: only protect forward progress
+  return STATUS_RANK[local.status] > STATUS_RANK[remoteStatus];
+};
+
+export const getStatusLabel = (status: CaseStatus) => {
+  switch (status) {
+    case CaseStatus.DRAFTING: return "起草中";
+    case CaseStatus.PLAINTIFF_EVIDENCE: return "原告举证";
+    case CaseStatus.DEFENSE_PENDING: return "等待应诉";
+    case CaseStatus.CROSS_EXAMINATION: return "质证环节";
+    case CaseStatus.DEBATE: return "争议辩论";
+    case CaseStatus.MEDIATION: return "调解中";
+    case CaseStatus.ADJUDICATING: return "AI审理中";
+    case CaseStatus.CLOSED: return "已结案";
+    case CaseStatus.APPEAL: return "上诉中";
+    case CaseStatus.SETTLED: return "已和解";
+    case CaseStatus.CANCELLED: return "已撤诉";
+    default: return status;
+  }
+};
@@ -0,0 +1,264 @@
+import { supabase } from '../supabaseClient';
+import { getEnv } from './aiProvider';
+import { CaseData, EvidenceItem, EvidenceMedia } from '../types';
+
+// --- Evidence Blob Store ---
+// Images and recordings are kept out of the case record (localStorage / `cases` JSONB columns).
+// A case only stores a reference string whose scheme names the backend that holds the bytes:
+//   supabase://<bucket>/<path>  Supabase Storage, visible to both parties
+//   idb://<key>                 IndexedDB on this device (offline fallback)
+// Downloads from Supabase are cached in IndexedDB so media is fetched at most once per device.
+// idb:// blobs are uploaded later through the sync queue (see MockDb), under the same key.
+
+export interface EvidenceBlobStore {
+  scheme: string;
+  put: (key: string, blob: Blob) => Promise<string>; // Returns the reference
+  get: (ref: string) => Promise<Blob | null>;
+  remove: (ref: string) => Promise<void>;
+}
+
+const SUPABASE_SCHEME = 'supabase';
+const IDB_SCHEME = 'idb';
+
+const parseRef = (ref: string) => {
+  const match = ref.match(/^(\w+):\/\/(.+)$/);
+  return match ? { scheme: match[1], path: match[2] } : null;
+};
+
+// Keys are unique per upload, so an existing object is an earlier attempt whose answer got lost
+const isDuplicate = (e: any) => e?.statusCode === '409' || e?.status === 409;
+
+export const createSupabaseBlobStore = (bucket: string): EvidenceBlobStore => ({
+  scheme: SUPABASE_SCHEME,
+  put: async (key, blob) => {
+    const { error } = await supabase.storage.from(bucket).upload(key, blob, {
+      contentType: blob.type || 'application/octet-stream',
+      upsert: false
+    });
+    if (error && !isDuplicate(error)) throw error;
+    return `${SUPABASE_SCHEME}://${bucket}/${key}`;
+  },
+  get: async (ref) => {
+    const parsed = parseRef(ref);
+    if (!parsed) return null;
+    const [refBucket, ...rest] = parsed.path.split('/');
+    const { data, error } = await supabase.storage.from(refBucket).download(rest.join('/'));
+    if (error) throw error;
+    return data;
+  },
+  remove: async (ref) => {
+    const parsed = parseRef(ref);
+    if (!parsed) return;
+    const [refBucket, ...rest] = parsed.path.split('/');
+    const { error } = await supabase.storage.from(refBucket).remove([rest.join('/')]);
+    if (error) throw error;
+  }
+});
+
+// --- IndexedDB ---
+
+const IDB_NAME = 'court_of_love_blobs';
+const IDB_STORE = 'blobs';
+
+let idbPromise: Promise<IDBDatabase> | null = null;
+
+const openBlobDb = (): Promise<IDBDatabase> => {
+  if (!idbPromise) {
+    idbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        idbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return idbPromise;
+};
+
+const idbRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openBlobDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Also used as the download cache, keyed by the full reference of the remote blob
+const idbCache = {
+  get: (key: string) => idbRequest<Blob | undefined>('readonly', s => s.get(key)).then(b => b || null),
+  set: (key: string, blob: Blob) => idbRequest<IDBValidKey>('readwrite', s => s.put(blob, key)),
+  delete: (key: string) => idbRequest<undefined>('readwrite', s => s.delete(key))
+};
+
+export const createIndexedDbBlobStore = (): EvidenceBlobStore => ({
+  scheme: IDB_SCHEME,
+  put: async (key, blob) => {
+    await idbCache.set(key, blob);
+    return `${IDB_SCHEME}://${key}`;
+  },
+  get: async (ref) => {
+    const parsed = parseRef(ref);
+    return parsed ? idbCache.get(parsed.path) : null;
+  },
+  remove: async (ref) => {
+    const parsed = parseRef(ref);
+    if (parsed) await idbCache.delete(parsed.path);
+  }
+});
+
+// --- Case References ---
+
+// Every evidence item of a case, including the proofs attached to penalty tasks
+export const allEvidence = (c: CaseData): EvidenceItem[] => [
+  ...c.evidence,
+  ...c.defendantEvidence,
+  ...(c.counterclaimEvidence || []),
+  ...c.plaintiffRebuttalEvidence,
+  ...c.defendantRebuttalEvidence,
+  ...(c.tasks || []).flatMap(t => (t.proof ? [t.proof] : []))
+];
+
+export const getMediaRefs = (c: CaseData): string[] =>
+  allEvidence(c)
+    .flatMap(e => (e.media ? [e.media.ref, e.media.thumbnailRef] : []))
+    .filter((ref): ref is string => !!ref);
+
+// The evidence fields of `c` with the references in `newRefs` replaced; others are kept
+export const replaceMediaRefs = (c: CaseData, newRefs: Map<string, string>): Partial<CaseData> => {
+  const remap = (items: EvidenceItem[]) => items.map(e => e.media ? {
+    ...e,
+    media: {
+      ...e.media,
+      ref: newRefs.get(e.media.ref) || e.media.ref,
+      thumbnailRef: e.media.thumbnailRef && (newRefs.get(e.media.thumbnailRef) || e.media.thumbnailRef)
+    }
+  } : e);
+
+  return {
+    evidence: remap(c.evidence),
+    defendantEvidence: remap(c.defendantEvidence),
+    counterclaimEvidence: c.counterclaimEvidence && remap(c.counterclaimEvidence),
+    plaintiffRebuttalEvidence: remap(c.plaintiffRebuttalEvidence),
+    defendantRebuttalEvidence: remap(c.defendantRebuttalEvidence),
+    tasks: c.tasks?.map(t => (t.proof ? { ...t, proof: remap([t.proof])[0] } : t))
+  };
+};
+
+// --- Facade ---
+
+let remoteStore: EvidenceBlobStore = createSupabaseBlobStore(getEnv('VITE_SUPABASE_EVIDENCE_BUCKET') || 'evidence');
+let localStore: EvidenceBlobStore = createIndexedDbBlobStore();
+
+// Object URLs handed out this session, so each blob is only turned into a URL once
+const objectUrls = new Map<string, string>();
+
+const storeFor = (ref: string) => {
+  const parsed = parseRef(ref);
+  if (!parsed) return null;
+  if (parsed.scheme === remoteStore.scheme) return remoteStore;
+  if (parsed.scheme === localStore.scheme) return localStore;
+  return null;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const EvidenceStore = {
+  /**
+   * Upload evidence media. Goes to Supabase Storage so the other party can see it;
+   * if that fails (offline, bucket missing) the blob is kept on this device instead.
+   */
+  put: async (blob: Blob, folder = 'misc'): Promise<string> => {
+    const key = `${folder}/${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    try {
+      const ref = await remoteStore.put(key, blob);
+      // Seed the cache so the uploader never downloads its own file
+      idbCache.set(ref, blob).catch(() => {});
+      return ref;
+    } catch (e) {
+      console.warn("Evidence upload failed, storing on this device only:", e);
+      return localStore.put(key, blob);
+    }
+  },
+
+  getBlob: async (ref: string): Promise<Blob | null> => {
+    const store = storeFor(ref);
+    if (!store) return null;
+    if (store === localStore) return store.get(ref);
+
+    const cached = await idbCache.get(ref).catch(() => null);
+    if (cached) return cached;
+    const blob = await store.get(ref);
+    if (blob) idbCache.set(ref, blob).catch(() => {});
+    return blob;
+  },
+
+  // URL usable in <img>/<audio>; null when the blob is not available (e.g. stored on the other device)
+  getObjectUrl: async (ref: string): Promise<string | null> => {
+    const existing = objectUrls.get(ref);
+    if (existing) return existing;
+    const blob = await EvidenceStore.getBlob(ref);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    objectUrls.set(ref, url);
+    return url;
+  },
+
+  // Raw base64 (no data: prefix) for AI requests
+  getBase64: async (ref: string): Promise<string | null> => {
+    const blob = await EvidenceStore.getBlob(ref);
+    return blob ? blobToBase64(blob) : null;
+  },
+
+  remove: async (ref: string) => {
+    const store = storeFor(ref);
+    if (!store) return;
+    const url = objectUrls.get(ref);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(ref);
+    }
+    await store.remove(ref);
+    if (store !== localStore) idbCache.delete(ref).catch(() => {});
+  },
+
+  // Best-effort cleanup when an evidence item is deleted
+  discardMedia: (media?: EvidenceMedia) => {
+    if (!media) return;
+    [media.ref, media.thumbnailRef].filter(Boolean).forEach(ref => {
+      EvidenceStore.remove(ref!).catch(e => console.warn("Evidence media cleanup failed:", e));
+    });
+  },
+
+  // Is this blob only on this device (upload fell back to IndexedDB)?
+  isLocalOnly: (ref: string) => parseRef(ref)?.scheme === localStore.scheme,
+
+  /**
+   * Upload a blob that fell back to this device. Returns its new reference, or null when the
+   * blob is not on this device (the other party's upload). The local copy is kept until
+   * `remove` is called, once the case points at the new reference.
+   */
+  upload: async (ref: string): Promise<string | null> => {
+    const parsed = parseRef(ref);
+    if (!parsed || parsed.scheme !== localStore.scheme) return null;
+    const blob = await localStore.get(ref);
+    if (!blob) return null;
+    const remoteRef = await remoteStore.put(parsed.path, blob);
+    idbCache.set(remoteRef, blob).catch(() => {});
+    return remoteRef;
+  },
+
+  // Replace the backends (e.g. to keep everything on this device)
+  setStores: (stores: { remote?: EvidenceBlobStore; local?: EvidenceBlobStore }) => {
+    if (stores.remote) remoteStore = stores.remote;
+    if (stores.local) localStore = stores.local;
+  }
+};
@@ -1,24 +1,33 @@
+import { JudgePersonaDefinition, Verdict, EvidenceItem, AppealFiling, UserRole, SentimentResult, FactCheckResult, DisputePoint, EvidenceType, Demand, Counterclaim, SettlementDraft, SettlementProposal, MissedDeadline } from "../types";
+import { getAiProvider, AiRequest, InlineImage } from "./aiProvider";
+import { EvidenceStore } from "./evidenceStore";
+import { createJsonSectionParser } from "./jsonStream";
+import {
+  Schema,
+  SchemaIssue,
+  SchemaValidationError,
+  validate,
+  formatIssues,
+  verdictSchema,
+  disputePointsSchema,
+  settlementDraftSchema,
+  sentimentSchema,
+  factCheckSchema
+} from "./aiSchema";
+import { PersonaRegistry, STRICTNESS_LEVELS } from "./personaRegistry";
+import { PrecedentContext } from "./casePrecedents";
+import { CivilityReport, MODERATED_FIELD_LABELS } from "./caseModeration";
+import { STANCE_LABELS } from "./caseDemands";
+import { getRulings } from "./judgmentFormat";
+import { PROPOSER_LABELS } from "./caseMediation";
+import { MISSED_DEADLINE_LABELS } from "./caseDeadlines";
 
-import { GoogleGenAI } from "@google/genai";
-import { JudgePersona, Verdict, EvidenceItem, SentimentResult, FactCheckResult, DisputePoint, EvidenceType } from "../types";
-
-// --- Initialize Client ---
-// --- Initialize Client ---
-// ✅ 修正：使用 import.meta.env.VITE_... 读取变量
-const apiKey = import.meta.env.VITE_GOOGLE_API_KEY;
-
-if (!apiKey) {
-  throw new Error("❌ 缺少 API Key！请检查 Zeabur 环境变量是否为 VITE_GOOGLE_API_KEY");
-}
-
-const ai = new GoogleGenAI({ apiKey: apiKey });
-
-// --- Model Constants ---
-// Upgraded to Gemini 3 series as per latest guidelines and to potentially alleviate 2.0 flash quota issues
-const GEMINI_MODEL_FLASH = 'gemini-3-flash-preview'; 
-const GEMINI_MODEL_PRO = 'gemini-3-pro-preview'; 
-// Verdict generation specifically uses Gemini 3 Flash for better creative instruction following
-const GEMINI_MODEL_VERDICT = 'gemini-3-flash-preview';
+// --- Model Tiers ---
+// Concrete model names live in each provider (see services/providers/*).
+const GEMINI_MODEL_FLASH = 'flash';
+const GEMINI_MODEL_PRO = 'pro';
+// Verdict generation specifically uses a tier tuned for creative instruction following
+const GEMINI_MODEL_VERDICT = 'verdict';
 
 // --- Helper: Retry Logic & Timeout ---
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -97,87 +106,152 @@ async function retryWithBackoff<T>(operation: () => Promise<T>, retries = 5, ini
   throw lastError;
 }
 
+// Map provider failures onto messages shown to the user
+const toFriendlyError = (error: any): Error => {
+  const message = error?.message || '';
+  if (message.includes('429') || error?.status === 429 || message.includes('Resource exhausted')) {
+     return new Error("调用次数超限，AI 法官需要休息一下，请稍后再试");
+  }
+  if (message.includes('timed out')) {
+     return new Error("网络请求超时，请检查网络后重试");
+  }
+  return new Error("AI 法官正在休庭，请稍后重试");
+};
+
 /**
- * Core Gemini Generation Function
+ * Core Generation Function (routed through the configured AI provider)
  */
-async function callGemini(params: {
-  model: string;
-  systemInstruction?: string;
-  prompt: string;
-  temperature?: number;
-  jsonMode?: boolean;
-  images?: { inlineData: { data: string, mimeType: string } }[];
-}): Promise<string> {
+async function callGemini(params: AiRequest): Promise<string> {
   // Add a 120s timeout to prevent hanging UI (Increased from 45s)
   const TIMEOUT_MS = 120000;
 
   try {
     return await retryWithBackoff(async () => {
-      const config: any = {
-        systemInstruction: params.systemInstruction,
+      const apiPromise = getAiProvider().generate({
+        ...params,
         temperature: params.temperature ?? 0.7, // Default to 0.7 as requested
-      };
-
-      if (params.jsonMode) {
-        config.responseMimeType = "application/json";
-      }
-
-      let contentsInput: any;
-      if (params.images && params.images.length > 0) {
-        contentsInput = {
-          parts: [
-            { text: params.prompt },
-            ...params.images
-          ]
-        };
-      } else {
-        contentsInput = params.prompt;
-      }
-
-      const apiPromise = ai.models.generateContent({
-        model: params.model,
-        contents: contentsInput,
-        config: config
       });
 
-      const timeoutPromise = new Promise((_, reject) => 
+      const timeoutPromise = new Promise<never>((_, reject) => 
         setTimeout(() => reject(new Error("Request timed out")), TIMEOUT_MS)
       );
 
-      const response: any = await Promise.race([apiPromise, timeoutPromise]);
-
-      return response.text || "";
+      return await Promise.race([apiPromise, timeoutPromise]);
     });
   } catch (error: any) {
     console.error("Gemini API Error:", error);
-    const message = error?.message || '';
-    if (message.includes('429') || error.status === 429 || message.includes('Resource exhausted')) {
-       throw new Error("调用次数超限，AI 法官需要休息一下，请稍后再试");
+    throw toFriendlyError(error);
+  }
+}
+
+/**
+ * JSON generation with schema validation.
+ * Coercible values are repaired in place; if the response still does not match,
+ * the model is re-prompted with the field-level issues (up to `maxRepairs` times).
+ */
+async function callGeminiJson<T>(params: AiRequest, schema: Schema<T>, maxRepairs = 1): Promise<T> {
+  let prompt = params.prompt;
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const raw = await callGemini({ ...params, prompt, jsonMode: true });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanJson(raw));
+    } catch (e) {
+      issues = [{ path: '', message: '不是合法的 JSON' }];
+      parsed = undefined;
     }
-    if (message.includes('timed out')) {
-       throw new Error("网络请求超时，请检查网络后重试");
+
+    if (parsed !== undefined) {
+      const result = validate(schema, parsed);
+      if (result.ok) {
+        if (result.repairs.length > 0) console.warn(`[AI ${params.task}] repaired:`, result.repairs);
+        return result.value;
+      }
+      issues = result.issues;
     }
-    throw new Error("AI 法官正在休庭，请稍后重试");
+
+    console.warn(`[AI ${params.task}] invalid response (attempt ${attempt + 1}):`, formatIssues(issues));
+    prompt = `${params.prompt}
+
+【格式校验失败】你上一次的输出不符合要求，存在以下问题：
+${issues.map(i => `- ${i.path || '(根节点)'}: ${i.message}`).join('\n')}
+请修正以上问题，只返回符合要求的 JSON，不要包含任何其他文字。`;
   }
+
+  throw new SchemaValidationError(issues);
 }
 
+// Streams are not bounded by a total deadline, only by silence between chunks
+const STREAM_IDLE_TIMEOUT_MS = 45000;
+
+/**
+ * Streaming generation. Each text chunk is handed to `onText` as it arrives.
+ * Not retried: a broken stream has already delivered output the caller wants to keep.
+ */
+async function streamGemini(params: AiRequest, onText: (chunk: string) => void): Promise<void> {
+  const iterator = getAiProvider().generateStream!({
+    ...params,
+    temperature: params.temperature ?? 0.7,
+  })[Symbol.asyncIterator]();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    while (true) {
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("Request timed out")), STREAM_IDLE_TIMEOUT_MS);
+      });
+      const { value, done } = await Promise.race([iterator.next(), idle]);
+      clearTimeout(timer);
+      if (done) return;
+      onText(value);
+    }
+  } catch (error: any) {
+    clearTimeout(timer);
+    iterator.return?.()?.catch(() => {});
+    console.error("Gemini Stream Error:", error);
+    throw toFriendlyError(error);
+  }
+}
+
+// One-line evidence description for prompts, including contest status and credibility analysis if any
+const formatEvidenceLine = (e: EvidenceItem) => {
+  let line = `[${e.type}] ${e.description || '无描述'}`;
+  if (e.isContested) line += '（对方有异议）';
+  if (e.aiAnalysis) line += ` 【质证分析】${e.aiAnalysis.replace(/\s+/g, ' ')}`;
+  return line;
+};
+
+// Fetch image bytes from the evidence store only when a request needs them.
+// Images that cannot be loaded are skipped; the text description still reaches the judge.
+const loadEvidenceImages = async (items: EvidenceItem[]): Promise<InlineImage[]> => {
+  const images: InlineImage[] = [];
+  for (const item of items) {
+    if (item.type !== EvidenceType.IMAGE) continue;
+    if (item.media) {
+      try {
+        const data = await EvidenceStore.getBase64(item.media.ref);
+        if (data) images.push({ inlineData: { data, mimeType: item.media.mimeType } });
+      } catch (e) {
+        console.warn("Evidence image unavailable, skipped:", item.id, e);
+      }
+    } else if (item.content.startsWith('data:')) {
+      // Legacy records embed the image as a data URL
+      const [meta, data] = item.content.split(',');
+      const mimeType = meta.match(/:(.*?);/)?.[1] || 'image/jpeg';
+      images.push({ inlineData: { data, mimeType } });
+    }
+  }
+  return images;
+};
+
 // --- Public Services ---
 
 export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL_FLASH,
-      config: {
-        systemInstruction: `You are an expert transcriber. Filter out fillers. Add punctuation.`
-      },
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Audio } },
-          { text: "Transcribe this audio." },
-        ],
-      },
-    });
-    return response.text?.trim() || "";
+    return await getAiProvider().transcribe(base64Audio, mimeType);
   } catch (error) {
     console.error("Transcription Error", error);
     return "（语音转录失败，请重试）";
@@ -188,6 +262,7 @@ export const summarizeStatement = async (text: string, role: string): Promise<st
   if (!text) return "";
   try {
     return await callGemini({
+      task: 'summary',
       model: GEMINI_MODEL_FLASH,
       systemInstruction: `Summarize the ${role}'s statement into 50-100 Chinese characters. Retain facts and emotion.`,
       prompt: `Statement: "${text}"`
@@ -200,6 +275,7 @@ export const summarizeStatement = async (text: string, role: string): Promise<st
 export const generateCaseTitle = async (description: string): Promise<string> => {
   try {
     const res = await callGemini({
+      task: 'title',
       model: GEMINI_MODEL_FLASH,
       systemInstruction: `你是一个法院书记员。请根据用户的案件描述，提炼一个简短的中文案件标题。
       要求：
@@ -218,6 +294,7 @@ export const generateCaseTitle = async (description: string): Promise<string> =>
 export const polishText = async (text: string): Promise<string> => {
   try {
     return await callGemini({
+      task: 'polish',
       model: GEMINI_MODEL_FLASH,
       systemInstruction: `Remove profanity. Normalize judgments. Keep facts. Output only clean text.`,
       prompt: `Text: "${text}"`
@@ -230,6 +307,7 @@ export const polishText = async (text: string): Promise<string> => {
 export const fixGrammar = async (text: string): Promise<string> => {
   try {
     return await callGemini({
+      task: 'grammar',
       model: GEMINI_MODEL_FLASH,
       systemInstruction: `Add punctuation. Remove fillers (uh, um). Fix fragments. Keep tone.`,
       prompt: `Text: "${text}"`
@@ -241,13 +319,15 @@ export const fixGrammar = async (text: string): Promise<string> => {
 
 export const analyzeSentiment = async (text: string): Promise<SentimentResult> => {
   try {
-    const res = await callGemini({
+    return await callGeminiJson({
+      task: 'sentiment',
       model: GEMINI_MODEL_FLASH,
-      jsonMode: true,
-      systemInstruction: `Analyze for toxicity. Return JSON: {isToxic, score, reason}.`,
+      systemInstruction: `Analyze for toxicity: insults, contempt, threats, name-calling. Heated but respectful complaints are fine.
+      score: 0 (calm) to 10 (abusive). isToxic: true if the author should rephrase before the partner reads it.
+      reason: one short sentence in Simplified Chinese, addressed to the author, naming what sounds hurtful (empty if not toxic).
+      Return JSON: {isToxic, score, reason}.`,
       prompt: `Text: "${text}"`
-    });
-    return JSON.parse(cleanJson(res));
+    }, sentimentSchema);
   } catch (e) {
     return { isToxic: false, score: 0, reason: "" };
   }
@@ -255,13 +335,12 @@ export const analyzeSentiment = async (text: string): Promise<SentimentResult> =
 
 export const extractFactPoints = async (narrative: string): Promise<FactCheckResult> => {
   try {
-    const res = await callGemini({
+    return await callGeminiJson({
+      task: 'facts',
       model: GEMINI_MODEL_FLASH,
-      jsonMode: true,
       systemInstruction: `Extract objective facts. Return JSON: {facts: string[]}.`,
       prompt: `Narrative: "${narrative}"`
-    });
-    return JSON.parse(cleanJson(res));
+    }, factCheckSchema);
   } catch (e) {
     return { facts: [] };
   }
@@ -269,7 +348,7 @@ export const extractFactPoints = async (narrative: string): Promise<FactCheckRes
 
 /**
  * Cross-Examination Analysis for a single evidence item.
- * Uses GEMINI_MODEL_PRO for better reasoning.
+ * Uses GEMINI_MODEL_PRO for better reasoning. Throws on failure.
  */
 export const analyzeEvidenceCredibility = async (
   evidence: EvidenceItem,
@@ -301,15 +380,11 @@ export const analyzeEvidenceCredibility = async (
   `;
 
   // Prepare Images if applicable
-  const images = [];
-  if (evidence.type === EvidenceType.IMAGE && evidence.content.startsWith('data:')) {
-      const [meta, data] = evidence.content.split(',');
-      const mimeType = meta.match(/:(.*?);/)?.[1] || 'image/jpeg';
-      images.push({ inlineData: { data, mimeType } });
-  }
+  const images = await loadEvidenceImages([evidence]);
 
   try {
     const result = await callGemini({
+      task: 'evidence',
       model: GEMINI_MODEL_PRO, // Use PRO for better logic/vision analysis
       systemInstruction: SYSTEM_PROMPT,
       prompt: promptText,
@@ -319,10 +394,22 @@ export const analyzeEvidenceCredibility = async (
     return result.trim();
   } catch (error) {
     console.error("Evidence Analysis Failed:", error);
-    return "AI 暂时无法分析此证据，请稍后重试。";
+    // Callers persist the result on the evidence item, so never return a placeholder as if it were an analysis
+    throw new Error("AI 暂时无法分析此证据，请稍后重试。");
   }
 };
 
+// Earlier cases of the same two parties (only passed when both consented, see casePrecedents.ts)
+const formatPrecedents = ({ precedents, recurrence }: PrecedentContext) => `
+  PRECEDENTS (earlier closed cases between the same two parties; roles mapped onto this case):
+  ${precedents.map((p, i) => `${i + 1}. ${new Date(p.closedAt).toLocaleDateString('zh-CN')} ${p.title} [${p.themes.join(', ')}]${p.sameRoles ? '' : ' (roles were reversed)'}
+    Split: P ${p.responsibilitySplit.plaintiff}% / D ${p.responsibilitySplit.defendant}%
+    Summary: ${p.summary}
+    Rulings on the demands: ${p.rulings.support} supported, ${p.rulings.modify} modified, ${p.rulings.reject} rejected
+    Penalty tasks: ${p.tasks.confirmed}/${p.tasks.total} completed and confirmed${p.tasks.overdue ? `, ${p.tasks.overdue} overdue` : ''}`).join('\n  ')}
+  Recurring issues (times raised, including this case): ${recurrence.length ? recurrence.map(r => `${r.theme} x${r.count}`).join(', ') : '(none)'}
+  `;
+
 /**
  * Identifies core dispute points.
  */
@@ -332,14 +419,26 @@ export const analyzeDisputeFocus = async (
   defenseDesc: string,
   plaintiffRebuttal: string,
   defendantRebuttal: string,
-  plaintiffEvidence: EvidenceItem[] 
+  plaintiffEvidence: EvidenceItem[],
+  defendantEvidence: EvidenceItem[] = [],
+  counterclaims: Counterclaim[] = [],
+  counterclaimEvidence: EvidenceItem[] = [],
+  precedents: PrecedentContext | null = null
 ): Promise<DisputePoint[]> => {
   
   // Format evidence for prompt
   const evidenceText = plaintiffEvidence.length > 0 
-    ? plaintiffEvidence.map((e, i) => `${i+1}. [${e.type}] ${e.description || '无描述'}`).join('\n') 
+    ? plaintiffEvidence.map((e, i) => `${i+1}. ${formatEvidenceLine(e)}`).join('\n') 
     : "（未提交主要证据）";
 
+  const defendantEvidenceText = defendantEvidence.length > 0
+    ? defendantEvidence.map((e, i) => `${i+1}. ${formatEvidenceLine(e)}`).join('\n')
+    : "（无）";
+
+  const counterclaimEvidenceText = counterclaimEvidence.length > 0
+    ? counterclaimEvidence.map((e, i) => `${i+1}. ${formatEvidenceLine(e)}`).join('\n')
+    : "（无）";
+
   // New System Instruction as requested by user
   // Emphasis on plain language (通俗易懂), concise (简明扼要), and Yes/No question format (是或否的疑问句结尾).
   const JUDGE_SYSTEM_PROMPT = `你是一个经验丰富的 AI 法官，擅长挖掘情感纠纷背后的深层逻辑。
@@ -350,6 +449,9 @@ export const analyzeDisputeFocus = async (
   1. **通俗易懂**：使用大白话概括背景，避免晦涩的法律术语，让普通人一眼就能看懂。
   2. **简明扼要**：直击痛点，不要废话。
   3. **明确提问**：每个焦点的描述(description)必须以具体的【是/否疑问句】结尾（例如“...是否合理？”“...是否应当...？”），方便双方直接回答“是”或“否”并展开辩论。
+  4. **参考质证分析**：证据后附有【质证分析】的，说明该证据已被对方质疑并经过审核，请优先围绕其中双方解读对立的证据提炼焦点。${counterclaims.length > 0 ? `
+  5. **反诉**：被告提出了反诉请求，原告已逐项回应。原告不同意的反诉同样是争议所在，可以单独提炼为焦点，或与本诉的焦点合并。` : ''}${precedents ? `
+  ${counterclaims.length > 0 ? 6 : 5}. **既往案件**：双方已同意参考过往案件（附在最后）。如果本案争议在过往案件中反复出现，可在焦点描述中点明（例如“这是双方第三次因家务分工产生纠纷”），并追问上次的判决或任务为何没有解决问题；不得用过往案件替代本案事实。` : ''}
   
   输出 JSON 格式：
   {
@@ -362,9 +464,9 @@ export const analyzeDisputeFocus = async (
   }`;
 
   try {
-    const result = await callGemini({
+    const points = await callGeminiJson({
+      task: 'dispute',
       model: GEMINI_MODEL_FLASH, // Use FLASH to avoid Quota Limits (429)
-      jsonMode: true,
       temperature: 0.4, // Lower temperature for more deterministic JSON
       systemInstruction: JUDGE_SYSTEM_PROMPT,
       prompt: `请分析本案争议焦点：
@@ -379,21 +481,27 @@ export const analyzeDisputeFocus = async (
 
       【被告答辩】：
       ${defenseDesc || "（被告缺席或未详细答辩）"}
+
+      【被告证据】：
+      ${defendantEvidenceText}${counterclaims.length > 0 ? `
+
+      【被告反诉请求】（括号内为原告的回应）：
+      ${formatCounterclaims(counterclaims)}
+
+      【反诉证据】：
+      ${counterclaimEvidenceText}` : ''}
       
       【原告质证】：
       ${plaintiffRebuttal || "（无）"}
       
       【被告质证】：
-      ${defendantRebuttal || "（无）"}`
-    });
+      ${defendantRebuttal || "（无）"}${precedents ? `
 
-    const parsed = JSON.parse(cleanJson(result));
-    
-    if (!parsed.points || !Array.isArray(parsed.points)) {
-        throw new Error("AI 返回格式错误");
-    }
+      【既往案件】：
+      ${formatPrecedents(precedents)}` : ''}`
+    }, disputePointsSchema);
 
-    return parsed.points.map((p: any, index: number) => ({
+    return points.map((p, index) => ({
       ...p,
       id: p.id ? String(p.id) : `focus-${index}-${Date.now()}`
     }));
@@ -406,13 +514,241 @@ export const analyzeDisputeFocus = async (
   }
 };
 
+// How the judges are referred to inside prompts (case file, panel opinions)
+const personaLabel = (id: string) => PersonaRegistry.get(id).name;
+
+// The judge's part of the verdict system prompt, composed from the persona definition
+const personaInstruction = (p: JudgePersonaDefinition) => {
+  const strictness = STRICTNESS_LEVELS[p.strictness] || STRICTNESS_LEVELS[3];
+  return `【当前法官：${p.name}】
+         - **核心思维**：${p.philosophy}
+         - **判决风格**：${p.tone || '客观、中立。'}
+         - **裁量尺度**：${strictness.label}。${strictness.instruction}`;
+};
+
+// Rulings of an earlier verdict (appeal, panel opinions), one per line
+const formatRulings = (v: Verdict) => {
+  const rulings = getRulings(v);
+  if (rulings.length === 0) return '(see judgment)';
+  return rulings.map(r => `${r.demandId ? `[${r.demandId}] ` : ''}${r.decision}${r.remedy ? ` -> ${r.remedy}` : ''} ${r.text}`).join('\n    ');
+};
+
+// The demands with their ids and the defendant's answers, for the verdict prompt
+const formatDemands = (demands: Demand[]) => demands.length === 0
+  ? '（原告未提出具体诉请）'
+  : demands.map(d => `[${d.id}] ${d.content}${d.defendantStance ? `（被告：${STANCE_LABELS[d.defendantStance]}${d.defendantComment ? `，${d.defendantComment}` : ''}）` : ''}`).join('\n     ');
+
+// The defendant's counterclaims with their ids and the plaintiff's answers
+const formatCounterclaims = (counterclaims: Counterclaim[]) =>
+  counterclaims.map(d => `[${d.id}] ${d.content}${d.plaintiffStance ? `（原告：${STANCE_LABELS[d.plaintiffStance]}${d.plaintiffComment ? `，${d.plaintiffComment}` : ''}）` : ''}`).join('\n     ');
+
+// Appeal section appended to the case file of a re-hearing
+const formatAppeal = ({ previous, previousPersona, filing }: NonNullable<VerdictOptions['appeal']>) => {
+  const appellant = filing.appellant === UserRole.PLAINTIFF ? 'Plaintiff' : 'Defendant';
+  return `
+  APPEAL:
+  Original judge: ${personaLabel(previousPersona)}
+  Original responsibility split: P ${previous.responsibilitySplit.plaintiff}% / D ${previous.responsibilitySplit.defendant}%
+  Original reasoning: ${previous.reasoning}
+  Original rulings: ${formatRulings(previous)}
+  Original judgment: ${previous.finalJudgment}
+  Appellant: ${appellant}
+  Grounds for appeal: ${filing.grounds}
+  Response of the other party: ${filing.response || '(none)'}
+  `;
+};
+
+const formatCivility = ({ plaintiff, defendant, incidents }: CivilityReport) => `
+  CIVILITY:
+  Plaintiff: score ${plaintiff.score}/100, flagged ${plaintiff.flagged}, rewritten ${plaintiff.rewritten}, sent unchanged ${plaintiff.sentAnyway}
+  Defendant: score ${defendant.score}/100, flagged ${defendant.flagged}, rewritten ${defendant.rewritten}, sent unchanged ${defendant.sentAnyway}${incidents.length > 0 ? `
+  Sent unchanged despite the warning:
+  ${incidents.map(i => `- ${i.role === 'PLAINTIFF' ? 'P' : 'D'} (${MODERATED_FIELD_LABELS[i.field]}): ${i.reason}`).join('\n  ')}` : ''}
+  `;
+
+// Deadlines a party let pass, with the dispute points or counterclaims left unanswered
+const formatMissedDeadlines = (missed: MissedDeadline[], disputePoints: DisputePoint[], counterclaims: Counterclaim[]) => {
+  const titleOf = (id: string) =>
+    disputePoints.find(p => p.id === id)?.title || counterclaims.find(d => d.id === id)?.content || id;
+  return `
+  MISSED DEADLINES:
+  ${missed.map(m => `- ${m.role === 'PLAINTIFF' ? 'P' : 'D'}: ${MISSED_DEADLINE_LABELS[m.kind]}${m.itemIds?.length ? `: ${m.itemIds.map(titleOf).join('; ')}` : ''}`).join('\n  ')}
+  `;
+};
+
+// --- Verdict Streaming ---
+
+// Top-level verdict fields in the order the prompt lists them; progress is measured against these
+export const VERDICT_SECTIONS: (keyof Verdict)[] = [
+  'summary', 'facts', 'responsibilitySplit', 'disputeAnalyses', 'reasoning', 'rulings', 'finalJudgment', 'penaltyTasks', 'tone'
+];
+
+export interface VerdictProgress {
+  partial: Partial<Verdict>; // Sections received so far, as returned by the model (not yet validated)
+  completed: (keyof Verdict)[];
+  progress: number; // 0-1: share of completed sections (in panel mode, of opinions + sections)
+  // Panel mode: which judges have delivered their independent opinion
+  deliberation?: { persona: string; done: boolean }[];
+  opinions?: PanelOpinions;
+}
+
+// Independent verdict of each panel judge, before the presiding judge reconciles them
+export type PanelOpinions = Record<string, Verdict>;
+
+export interface VerdictOptions {
+  onProgress?: (progress: VerdictProgress) => void;
+  // Sections from an interrupted run; only the missing ones are requested again
+  resumeFrom?: Partial<Verdict>;
+  // Re-hearing after an appeal: the verdict appealed against and the filings of both parties
+  appeal?: {
+    previous: Verdict;
+    previousPersona: string;
+    filing: AppealFiling;
+  };
+  // Panel mode: these judges rule independently first, then the presiding judge (the `persona`
+  // argument) writes the majority opinion. Needs at least two judges.
+  panel?: string[];
+  // Opinions already delivered in an interrupted panel run; those judges are not asked again
+  panelOpinions?: PanelOpinions;
+  // Similar earlier cases of the two parties; only set when both consented
+  precedents?: PrecedentContext | null;
+  // The defendant's counterclaims, ruled on together with the demands
+  counterclaims?: Counterclaim[];
+  counterclaimEvidence?: EvidenceItem[];
+  // How often each party's texts were flagged by the moderation check; null while nothing was
+  civility?: CivilityReport | null;
+  // Deadlines a party let pass (see caseDeadlines)
+  missedDeadlines?: MissedDeadline[];
+}
+
+/**
+ * The verdict stream broke or ended incomplete.
+ * `partial` holds the usable sections so the UI can keep showing them and resume.
+ */
+export class VerdictStreamError extends Error {
+  partial: Partial<Verdict>;
+  opinions?: PanelOpinions; // Panel mode: opinions delivered before the failure
+
+  constructor(message: string, partial: Partial<Verdict>, opinions?: PanelOpinions) {
+    super(message);
+    this.name = 'VerdictStreamError';
+    this.partial = partial;
+    this.opinions = opinions;
+  }
+}
+
+const toProgress = (partial: Partial<Verdict>, sections = VERDICT_SECTIONS): VerdictProgress => {
+  const completed = sections.filter(key => key in partial);
+  return { partial: { ...partial }, completed, progress: completed.length / sections.length };
+};
+
+/**
+ * Generate one verdict JSON with the given request.
+ * Streams when the provider supports it, calling `report` each time sections arrive.
+ */
+const runVerdictRequest = async (
+  request: AiRequest,
+  sections: (keyof Verdict)[],
+  resumeFrom: Partial<Verdict> | undefined,
+  report: (partial: Partial<Verdict>) => void
+): Promise<Verdict> => {
+  if (!getAiProvider().generateStream) {
+    try {
+      // Schema validation also normalizes responsibilitySplit and penaltyTasks
+      const verdict = await callGeminiJson(request, verdictSchema);
+      report(verdict);
+      return verdict;
+    } catch (error) {
+      console.error("Verdict Generation Failed:", error);
+      throw new Error("AI 法官正在休庭，请稍后重试");
+    }
+  }
+
+  // Sections kept from an interrupted run are never regenerated
+  const partial: Partial<Verdict> = {};
+  sections.forEach(key => {
+    if (resumeFrom && key in resumeFrom) (partial as any)[key] = resumeFrom[key];
+  });
+  const kept = Object.keys(partial);
+  const missing = sections.filter(key => !(key in partial));
+  if (kept.length > 0) report(partial);
+
+  if (missing.length > 0) {
+    const prompt = kept.length === 0 ? request.prompt : `${request.prompt}
+
+  【续写】上一次生成在中途中断，以下字段已经生成，请与之保持一致，不要重复输出：
+  ${JSON.stringify(partial)}
+  请只返回包含剩余字段 (${missing.join(', ')}) 的 JSON 对象。`;
+
+    const parser = createJsonSectionParser();
+    try {
+      await streamGemini({ ...request, prompt, jsonMode: true }, chunk => {
+        const arrived = parser.push(chunk).filter(([key]) => missing.includes(key as keyof Verdict));
+        if (arrived.length === 0) return;
+        arrived.forEach(([key, value]) => { (partial as any)[key] = value; });
+        report(partial);
+      });
+    } catch (error: any) {
+      throw new VerdictStreamError(error.message, partial);
+    }
+  }
+
+  // Schema validation also normalizes responsibilitySplit and penaltyTasks
+  const result = validate(verdictSchema, partial);
+  if (result.ok) {
+    if (result.repairs.length > 0) console.warn(`[AI verdict] repaired:`, result.repairs);
+    return result.value;
+  }
+
+  // Drop the malformed sections so that resuming asks for them again
+  console.warn(`[AI verdict] invalid response:`, formatIssues(result.issues));
+  const invalid = new Set(result.issues.map(i => i.path.split(/[.[]/)[0]));
+  const usable: Partial<Verdict> = {};
+  Object.keys(partial).forEach(key => {
+    if (!invalid.has(key)) (usable as any)[key] = (partial as any)[key];
+  });
+  throw new VerdictStreamError("判决书部分内容不完整，请继续生成", usable);
+};
+
+// --- Judge Panel ---
+
+// A panel judge whose split is this far (percentage points) from the panel's is recorded as dissenting
+const DISSENT_THRESHOLD = 20;
+
+// The panel's split is the average of the judges' splits
+const averageSplit = (opinions: Verdict[]): Verdict['responsibilitySplit'] => {
+  const plaintiff = Math.round(opinions.reduce((sum, v) => sum + v.responsibilitySplit.plaintiff, 0) / opinions.length);
+  return { plaintiff, defendant: 100 - plaintiff };
+};
+
+const firstSentence = (text: string) => (text.match(/^[^。！？!?\n]+[。！？!?]?/)?.[0] || text).trim();
+
+const formatPanelOpinions = (panel: string[], opinions: PanelOpinions) => `
+  PANEL OPINIONS:
+  ${panel.map(judge => {
+    const v = opinions[judge]!;
+    return `- ${judge} (${personaLabel(judge)}): split P ${v.responsibilitySplit.plaintiff}% / D ${v.responsibilitySplit.defendant}%
+    Reasoning: ${v.reasoning}
+    Rulings: ${formatRulings(v)}`;
+  }).join('\n  ')}
+  `;
+
+const panelInstruction = (panel: string[], split: Verdict['responsibilitySplit']) => `
+
+  【合议庭评议】:
+  - 本案由合议庭审理，你是审判长。各位法官的独立意见附在案卷末尾 (PANEL OPINIONS)。
+  - 综合各位法官的意见形成多数意见作为最终判决：事实认定与每一项诉请的裁决 (rulings) 以多数法官的意见为准，意见各半时择其说理更充分者，并在判决理由 (reasoning) 中说明合议情况。
+  - 责任划分 (responsibilitySplit) 已由合议庭评议确定为 原告 ${split.plaintiff}% / 被告 ${split.defendant}%，必须原样使用。
+  - 在 JSON 末尾额外输出字段 "panel": [{"persona": "法官代号", "position": "该法官的核心立场(一两句话，中文)", "dissent": "仅当该法官与多数意见有实质分歧时填写其异议(中文)，否则省略"}]，法官代号依次为 ${panel.join(', ')}。`;
+
 /**
  * Generates the final verdict.
+ * Streams when the provider supports it, reporting each section through `onProgress` as it arrives.
  */
 export const generateVerdict = async (
   category: string,
   plaintiffDesc: string,
-  plaintiffDemands: string,
+  demands: Demand[],
   defenseDesc: string,
   plaintiffEvidence: EvidenceItem[],
   defendantEvidence: EvidenceItem[],
@@ -421,53 +757,70 @@ export const generateVerdict = async (
   defendantRebuttal: string,
   defendantRebuttalEvidence: EvidenceItem[],
   disputePoints: DisputePoint[],
-  persona: JudgePersona
+  persona: string,
+  options: VerdictOptions = {}
 ): Promise<Verdict> => {
 
-  const formatEv = (items: EvidenceItem[]) => items.map(e => `[${e.type}] ${e.description}`).join('; ');
+  const formatEv = (items: EvidenceItem[]) => items.map(formatEvidenceLine).join('; ');
+  const counterclaims = options.counterclaims || [];
+  const counterclaimEvidence = options.counterclaimEvidence || [];
   
-  const collectImages = (items: EvidenceItem[]) => {
-    return items
-      .filter(i => i.type === EvidenceType.IMAGE && i.content.startsWith('data:'))
-      .map(i => {
-        const [meta, data] = i.content.split(',');
-        const mimeType = meta.match(/:(.*?);/)?.[1] || 'image/jpeg';
-        return { inlineData: { data, mimeType } };
-      });
-  };
+  const allImages = await loadEvidenceImages([
+    ...plaintiffEvidence,
+    ...defendantEvidence,
+    ...counterclaimEvidence,
+    ...plaintiffRebuttalEvidence,
+    ...defendantRebuttalEvidence
+  ]);
 
-  const allImages = [
-    ...collectImages(plaintiffEvidence),
-    ...collectImages(defendantEvidence),
-    ...collectImages(plaintiffRebuttalEvidence),
-    ...collectImages(defendantRebuttalEvidence)
-  ];
+  const appealInstruction = options.appeal ? `
 
-  const judgePrefix = persona === JudgePersona.BORDER_COLLIE ? '本汪裁判：' : '本喵裁判：';
-  
-  // Dynamic Persona Description based on new requirements
-  const personaInstruction = persona === JudgePersona.BORDER_COLLIE
-    ? `【当前法官：边牧法官 (The Rational Dog Judge)】
-       - **核心思维**：法理思维 (Legalistic Mindset)。你将亲密关系视为一种特殊的“社会契约”。
-       - **判决风格**：客观、中立、理性、严肃。
-       - **关注点**：权利与义务的对等、承诺的履行、逻辑的一致性、客观证据的效力。
-       - **忌讳**：不被情绪绑架，不和稀泥。如果一方有错，必须根据逻辑和事实严厉指出，类似于法庭上的判决。`
-    : `【当前法官：猫猫法官 (The Empathetic Cat Judge)】
-       - **核心思维**：情绪事实 (Emotional Facts)。你认为在亲密关系中，“感受”也是一种事实。
-       - **判决风格**：兼顾客观事实与情绪浓度、治愈、温和但中立。
-       - **关注点**：双方的情绪需求、沟通中的心理动因、未被看见的委屈。
-       - **目标**：在认定事实对错的基础上，提供情绪价值，用高情商化解对立，追求“案结事了人和”。`;
-
-  // Combine user's requested persona with existing functional requirements
-  const systemPrompt = `你是一个经验丰富的 AI 法官，精通《民法典》婚姻家庭编精神与心理学。
-
-  ${personaInstruction}
+  【上诉重审】:
+  - 本案为上诉案件，你是重新审理的法官，原判决由另一位法官作出。原判决、上诉理由与对方答辩附在案卷末尾。
+  - 独立审查全案事实与证据，不受原判决约束：上诉理由成立的部分应当改判，不成立的部分维持原判。
+  - 在判决理由 (reasoning) 中逐条回应上诉理由与对方答辩，并说明哪些维持、哪些改判及原因。` : '';
+
+  const precedentInstruction = options.precedents ? `
+
+  【既往案件】:
+  - 双方同意本庭参考他们之前的案件，摘要附在案卷末尾 (PRECEDENTS)，其中的责任比例已换算为本案的原告/被告。
+  - 本案事实只能依据本案陈述与证据认定，既往案件只用于判断问题是否反复出现。
+  - 同一问题反复出现时，在判决理由 (reasoning) 中明确指出（例如“这已经是双方第三次因家务分工对簿公堂”）。
+  - 若一方在过往案件中被判主要责任却仍重犯，或没有完成当时的惩罚任务，可适当加重其责任或任务；若过往任务都已认真完成、问题有所改善，应予以肯定，并据此调整本次任务。` : '';
+
+  const civilityInstruction = options.civility ? `
+
+  【沟通文明度】:
+  - 双方的发言在提交前经过语气检查，被拦下的次数、改写情况与文明度得分附在案卷末尾 (CIVILITY)。
+  - 主动改写的一方应予肯定；明知过激仍坚持原话发送的，可在判决理由中指出，并在任务中加入“好好说话”类的内容。
+  - 文明度只影响语气与任务设计，不得仅凭文明度改变对事实的认定；对责任比例的影响不超过 10%。` : '';
+
+  const missedDeadlines = options.missedDeadlines || [];
+  const deadlineInstruction = missedDeadlines.length > 0 ? `
+
+  【逾期未答】:
+  - 有一方错过了环节期限，记录附在案卷末尾 (MISSED DEADLINES)。
+  - 逾期未回答的争议焦点，视为该方认可对方在该焦点上的观点；逾期未回应的反诉请求，视为原告对其不持异议；逾期未提交质证说明的，视为放弃质证；逾期未答辩的，按缺席判决处理。
+  - 在判决理由 (reasoning) 中明确写出哪一方在哪个环节逾期、未回应了哪些内容，以及这对认定的影响。
+  - 逾期本身不是过错，不得仅因逾期加重责任比例或惩罚任务。` : '';
+
+  const systemPromptFor = (judge: string, extraInstruction = '') => {
+    const definition = PersonaRegistry.get(judge);
+    const judgePrefix = definition.verdictPrefix;
+
+    // Combine user's requested persona with existing functional requirements
+    return `你是一个经验丰富的 AI 法官，精通《民法典》婚姻家庭编精神与心理学。
+
+  ${personaInstruction(definition)}
 
   任务: 对这起亲密关系纠纷做出最终判决。
   
   【全局语言要求】:
   **所有输出内容（包括但不限于事实认定、争议分析、判决结果、任务内容）必须严格使用简体中文。** Do not use English.
 
+  【证据采信】:
+  - 证据后附有【质证分析】的，表示该证据被对方质疑并已由法官助理审核，认定事实时必须参考该分析结论，不得采信已被认定无效的证据。
+
   【关键输出要求】:
 
   1. **事实认定 (facts)**:
@@ -478,21 +831,27 @@ export const generateVerdict = async (
      - 针对每个争议点进行深入分析。
      - **必须使用简体中文**。
 
-  3. **法官寄语 (finalJudgment)**:
-     - **必须以 "${judgePrefix}" 开头** (这是第一行)。
-     - **从第二行开始，必须逐一回应原告的诉请**: "${plaintiffDemands}"。
-     - **每一条回应必须严格遵循以下列表格式**:
-       "数字. 【结论词】 关于[原告具体诉请内容]的诉请，[法官的详细理由与判决]..."
-     - **【结论词】限定为**:
-       - 【支持】 (完全支持原告)
-       - 【驳回】 (不支持原告)
-       - 【修正支持】 (部分支持或调整了方式/金额)
+  3. **诉请裁决 (rulings)**:
+     - **必须逐一裁决原告的每一项诉请**，每项一条，demandId 原样使用方括号中的编号：
+     ${formatDemands(demands)}
+     - 括号中是被告对该诉请的回应，裁决时予以考虑：被告已同意的诉请一般应予支持。${counterclaims.length > 0 ? `
+     - **被告提出了反诉，每一项反诉请求同样单独裁决**，与诉请放在同一个 rulings 数组中：
+     ${formatCounterclaims(counterclaims)}
+     - 反诉的括号中是原告的回应；裁决反诉时 outcome 以被告为视角 (SUPPORTED 即支持被告的反诉请求)。` : ''}
+     - **outcome 限定为**:
+       - "SUPPORTED" (完全支持原告)
+       - "REJECTED" (不支持原告)
+       - "MODIFIED" (部分支持或调整了方式/金额，此时必须在 modifiedRemedy 中写明调整后的内容)
+     - reasoning 写明裁决理由(中文)。
      - **示例**:
-       1. 【支持】 关于要求被告道歉的诉请，鉴于被告确实存在过错，本庭予以支持。
-       2. 【修正支持】 关于要求被告赔偿精神损失费1000元的诉请，本庭认为金额过高，建议调整为请吃一顿火锅。
-       3. 【驳回】 关于要求分手的诉请，鉴于双方感情基础尚在...
+       {"demandId": "demand_1", "outcome": "SUPPORTED", "reasoning": "鉴于被告确实存在过错，本庭予以支持。"}
+       {"demandId": "demand_2", "outcome": "MODIFIED", "modifiedRemedy": "请原告吃一顿火锅", "reasoning": "精神损失费1000元过高，改为更有温度的补偿。"}
+
+  4. **法官寄语 (finalJudgment)**:
+     - **必须以 "${judgePrefix}" 开头** (这是第一行)。
+     - 之后用两三句话对双方说说心里话，不要再逐条重复诉请裁决。
 
-  4. **“爱的破冰大冒险”任务 (penaltyTasks)**:
+  5. **“爱的破冰大冒险”任务 (penaltyTasks)**:
      - **设计理念**: 拒绝冷冰冰的惩罚！这是**促进和好**的趣味互动环节 (类似“真心话大冒险”)。
      - **核心逻辑**: **必须针对【争议焦点】进行“对症下药”的趣味化解**。
      - **关键约束 (CRITICAL)**:
@@ -508,20 +867,23 @@ export const generateVerdict = async (
           - 例子: "【彩虹屁挑战】看着对方眼睛，连续夸赞3分钟不重样，笑了就重来。"
           - 例子: "【无声的告白】双方对视一分钟，谁先说话谁就输，输了要亲对方一下。"
           - 例子: "【女王/国王体验卡】输家为赢家提供一次‘五星级’捏肩服务，必须边捏边问候。"
-     - **分配原则**: 根据【责任划分 (responsibilitySplit)】决定。输家（责任大的一方）做 2-3 个，赢家做 1 个（作为给对方的台阶/奖励）。
+     - **分配原则**: 根据【责任划分 (responsibilitySplit)】决定。输家（责任大的一方）做 2-3 个，赢家做 1 个（作为给对方的台阶/奖励）。${definition.penaltyStyle ? `
+     - **本庭任务风格**: ${definition.penaltyStyle}（在满足以上约束的前提下体现）` : ''}
      - **JSON 格式**: 返回对象数组 [{ assignee: 'PLAINTIFF' | 'DEFENDANT', content: '...' }]。
   
-  5. Output JSON Structure: 
+  6. Output JSON Structure: 
   { 
     "summary": "案件摘要(中文)", 
     "facts": ["事实1(中文)", "事实2(中文)"], 
     "responsibilitySplit": {"plaintiff": number, "defendant": number}, 
     "disputeAnalyses": [{"title": "争议点标题(中文)", "analysis": "分析内容(中文)"}], 
     "reasoning": "判决理由(中文)", 
+    "rulings": [{"demandId": "诉请编号", "outcome": "SUPPORTED" | "REJECTED" | "MODIFIED", "modifiedRemedy": "仅 MODIFIED 时填写(中文)", "reasoning": "裁决理由(中文)"}], 
     "finalJudgment": "法官寄语(中文)", 
     "penaltyTasks": [{"assignee": "PLAINTIFF" | "DEFENDANT", "content": "任务内容(中文)"}], 
     "tone": "string" 
-  }.`;
+  }.${appealInstruction}${precedentInstruction}${civilityInstruction}${deadlineInstruction}${extraInstruction}`;
+  };
 
   const casePrompt = `CASE FILE:
   Category: ${category}
@@ -529,91 +891,151 @@ export const generateVerdict = async (
   Defense: ${defenseDesc}
   
   Evidence (P): ${formatEv(plaintiffEvidence)}
-  Evidence (D): ${formatEv(defendantEvidence)}
+  Evidence (D): ${formatEv(defendantEvidence)}${counterclaimEvidence.length > 0 ? `
+  Counterclaim evidence (D): ${formatEv(counterclaimEvidence)}` : ''}
   
   Debate Points:
   ${disputePoints.map(p => `- Q: ${p.title}? P: ${p.plaintiffArg} vs D: ${p.defendantArg}`).join('\n')}
-  `;
+  ${options.appeal ? formatAppeal(options.appeal) : ''}${options.precedents ? formatPrecedents(options.precedents) : ''}${options.civility ? formatCivility(options.civility) : ''}${missedDeadlines.length > 0 ? formatMissedDeadlines(missedDeadlines, disputePoints, counterclaims) : ''}`;
+
+  const requestFor = (judge: string, extraInstruction = '', prompt = casePrompt): AiRequest => ({
+    task: 'verdict',
+    model: GEMINI_MODEL_VERDICT, // Updated to Gemini 3 Flash Preview as requested
+    temperature: 0.7,
+    systemInstruction: systemPromptFor(judge, extraInstruction),
+    prompt,
+    images: allImages
+  });
+
+  const panel = options.panel && options.panel.length > 1 ? options.panel : null;
+  if (!panel) {
+    return runVerdictRequest(requestFor(persona), VERDICT_SECTIONS, options.resumeFrom, partial => options.onProgress?.(toProgress(partial)));
+  }
+
+  // Panel mode, step 1: every judge rules independently (in parallel)
+  const opinions: PanelOpinions = { ...options.panelOpinions };
+  const units = panel.length + 1; // One per opinion, one for the majority opinion
+  const delivered = () => panel.filter(judge => opinions[judge]).length;
+  const deliberation = () => panel.map(judge => ({ persona: judge, done: !!opinions[judge] }));
+  const reportDeliberation = () => options.onProgress?.({
+    partial: {}, completed: [], progress: delivered() / units, deliberation: deliberation(), opinions: { ...opinions }
+  });
+  reportDeliberation();
+
+  const pendingJudges = panel.filter(judge => !opinions[judge]);
+  const results = await Promise.allSettled(pendingJudges.map(async judge => {
+    opinions[judge] = await callGeminiJson(requestFor(judge), verdictSchema);
+    reportDeliberation();
+  }));
+  const failed = results.find(r => r.status === 'rejected') as PromiseRejectedResult | undefined;
+  if (failed) {
+    console.error("Panel opinion failed:", failed.reason);
+    throw new VerdictStreamError(failed.reason?.message || "AI 法官正在休庭，请稍后重试", {}, { ...opinions });
+  }
 
+  // Step 2: the presiding judge writes the majority opinion with the averaged split
+  const split = averageSplit(panel.map(judge => opinions[judge]!));
+  const sections: (keyof Verdict)[] = [...VERDICT_SECTIONS, 'panel'];
+  let majority: Verdict;
   try {
-    const result = await callGemini({
-      model: GEMINI_MODEL_VERDICT, // Updated to Gemini 3 Flash Preview as requested
-      jsonMode: true,
-      temperature: 0.7,
-      systemInstruction: systemPrompt,
-      prompt: casePrompt,
-      images: allImages
-    });
+    majority = await runVerdictRequest(
+      requestFor(persona, panelInstruction(panel, split), casePrompt + formatPanelOpinions(panel, opinions)),
+      sections,
+      options.resumeFrom,
+      partial => {
+        const progress = toProgress(partial, sections);
+        options.onProgress?.({
+          ...progress,
+          progress: (panel.length + progress.progress) / units,
+          deliberation: deliberation(),
+          opinions: { ...opinions }
+        });
+      }
+    );
+  } catch (error: any) {
+    if (error instanceof VerdictStreamError) error.opinions = { ...opinions };
+    throw error;
+  }
 
-    const parsed = JSON.parse(cleanJson(result));
-    
-    // Sanitize responsibilitySplit first to use for task distribution fallback if needed
-    if (parsed.responsibilitySplit) {
-      let p = parsed.responsibilitySplit.plaintiff;
-      let d = parsed.responsibilitySplit.defendant;
-
-      const clean = (val: any) => {
-        if (typeof val === 'number') return val;
-        if (typeof val === 'string') return parseFloat(val.replace(/[^0-9.]/g, ''));
-        return 0;
+  return {
+    ...majority,
+    responsibilitySplit: split,
+    panel: panel.map(judge => {
+      const own = opinions[judge]!;
+      const note = majority.panel?.find(o => o.persona === judge);
+      const deviation = Math.abs(own.responsibilitySplit.plaintiff - split.plaintiff);
+      return {
+        persona: judge,
+        position: note?.position || firstSentence(own.reasoning),
+        responsibilitySplit: own.responsibilitySplit,
+        dissent: note?.dissent || (deviation >= DISSENT_THRESHOLD ? own.reasoning : undefined)
       };
-      p = clean(p);
-      d = clean(d);
+    })
+  };
+};
 
-      if (isNaN(p)) p = 50;
-      if (isNaN(d)) d = 50;
-      
-      const total = p + d;
-      if (total > 0 && Math.abs(total - 100) > 1) {
-         p = Math.round((p / total) * 100);
-         d = 100 - p;
-      } else if (total === 0) {
-         p = 50; d = 50;
-      }
-      parsed.responsibilitySplit.plaintiff = p;
-      parsed.responsibilitySplit.defendant = d;
-    } else {
-        parsed.responsibilitySplit = { plaintiff: 50, defendant: 50 };
-    }
+// --- Mediation ---
 
-    // Sanitize penaltyTasks to ensure structure: { assignee: 'PLAINTIFF' | 'DEFENDANT', content: string }
-    if (parsed.penaltyTasks) {
-       parsed.penaltyTasks = parsed.penaltyTasks.map((t: any) => {
-         // Case 1: Already structured correctly
-         if (typeof t === 'object' && t.assignee && t.content) {
-            return {
-                assignee: t.assignee.toUpperCase().includes('PLAINTIFF') ? 'PLAINTIFF' : 'DEFENDANT',
-                content: t.content
-            };
-         }
-         
-         // Case 2: Object but weird keys
-         if (typeof t === 'object') {
-             const content = t.description || t.task || t.content || JSON.stringify(t);
-             // Guess assignee from content
-             const isPlaintiff = content.includes('原告') && !content.includes('被告做');
-             return {
-                 assignee: isPlaintiff ? 'PLAINTIFF' : 'DEFENDANT',
-                 content: content
-             };
-         }
-
-         // Case 3: String (Legacy fallback)
-         const str = String(t);
-         // Heuristic: If prompt failed to structurize, default to the loser of the case
-         const loser = parsed.responsibilitySplit.defendant > parsed.responsibilitySplit.plaintiff ? 'DEFENDANT' : 'PLAINTIFF';
-         return {
-             assignee: loser,
-             content: str
-         };
-       });
-    } else {
-        parsed.penaltyTasks = [];
-    }
+const RESPONSE_LABELS = { ACCEPT: '接受', REJECT: '拒绝' };
 
-    return parsed;
-  } catch (error) {
-    console.error("Verdict Generation Failed:", error);
-    throw new Error("AI 法官正在休庭，请稍后重试");
-  }
+// Earlier proposals of this mediation with each party's answer, so the next one can move towards agreement
+const formatProposals = (proposals: SettlementProposal[]) => proposals.map((p, i) => `${i + 1}. ${PROPOSER_LABELS[p.proposedBy]}提出：
+     ${p.terms.map(t => `[${t.demandId}] ${t.resolution}`).join('\n     ')}
+     任务：${p.tasks.map(t => `(${t.assignee}) ${t.content}`).join('；') || '（无）'}${p.note ? `
+     说明：${p.note}` : ''}
+     原告：${p.plaintiffResponse ? RESPONSE_LABELS[p.plaintiffResponse] : '未回应'}；被告：${p.defendantResponse ? RESPONSE_LABELS[p.defendantResponse] : '未回应'}`).join('\n  ');
+
+/**
+ * Drafts a settlement proposal as a neutral mediator: a compromise for every demand and
+ * counterclaim plus reconciliation tasks. Throws on failure.
+ */
+export const proposeSettlement = async (
+  category: string,
+  plaintiffDesc: string,
+  defenseDesc: string,
+  demands: Demand[],
+  counterclaims: Counterclaim[],
+  disputePoints: DisputePoint[],
+  previous: SettlementProposal[] = []
+): Promise<SettlementDraft> => {
+  const systemInstruction = `你是一位温和、中立的 AI 调解员，帮助一对伴侣在判决之前自行达成和解。
+
+  【调解原则】：
+  1. 调解不是判决：不认定谁对谁错，不划分责任比例，只寻找双方都能接受的折中方案。
+  2. **逐项提出折中方案 (terms)**：原告的每一项诉请与被告的每一项反诉都要有一条，demandId 原样使用方括号中的编号：
+     ${formatDemands(demands)}${counterclaims.length > 0 ? `
+     ${formatCounterclaims(counterclaims)}` : ''}
+     括号中是对方的回应：对方已同意的按原样保留，部分同意的取双方都能接受的中间方案，不同意的换成更温和、更容易做到的替代方式。
+  3. **和好任务 (tasks)**：设计 2-3 个双方共同参与、当下就能完成的趣味互动任务（如拥抱、互相夸奖、一起做饭），双方都要有任务，不得带有惩罚意味。
+  4. **调解说明 (note)**：用两三句大白话说明方案的思路，语气温暖，鼓励双方各退一步。${previous.length > 0 ? `
+  5. **参考之前的方案**：之前的方案和双方的回应附在最后。被拒绝的条款需要换一种思路，已被双方接受的条款尽量保留；一方提出的反方案体现了他/她的底线，请向双方都能接受的方向靠拢。` : ''}
+
+  所有内容必须使用简体中文。输出 JSON 格式：
+  {
+    "terms": [{"demandId": "诉请编号", "resolution": "折中方案"}],
+    "tasks": [{"assignee": "PLAINTIFF" | "DEFENDANT", "content": "任务内容"}],
+    "note": "调解说明"
+  }`;
+
+  return callGeminiJson({
+    task: 'settlement',
+    model: GEMINI_MODEL_FLASH,
+    temperature: 0.6,
+    systemInstruction,
+    prompt: `请为本案提出调解方案：
+
+      【案件类型】：${category}
+
+      【原告陈述】：
+      ${plaintiffDesc || "（空）"}
+
+      【被告答辩】：
+      ${defenseDesc || "（无）"}
+
+      【争议焦点】：
+      ${disputePoints.length > 0 ? disputePoints.map(p => `- ${p.title}：原告 ${p.plaintiffArg || '（未发言）'}；被告 ${p.defendantArg || '（未发言）'}`).join('\n      ') : '（尚未总结）'}${previous.length > 0 ? `
+
+      【之前的调解方案】：
+      ${formatProposals(previous)}` : ''}`
+  }, settlementDraftSchema);
 };
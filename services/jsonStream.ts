@@ -0,0 +1,86 @@
+// --- Incremental JSON Sections ---
+// Reads a streamed JSON object and reports each top-level member as soon as its value is
+// complete, so large responses (the verdict) can be rendered section by section.
+// Anything before the opening brace (```json fences, chatter) and after the closing brace
+// is ignored. Members that fail to parse are skipped; the caller validates the final result.
+
+export interface JsonSectionParser {
+  // Feed the next chunk; returns the members completed by it, in order
+  push: (chunk: string) => [string, unknown][];
+  // Every member completed so far
+  sections: () => Record<string, unknown>;
+  // The closing brace of the object has been seen
+  isComplete: () => boolean;
+  // Raw text received so far
+  text: () => string;
+}
+
+export const createJsonSectionParser = (): JsonSectionParser => {
+  let text = '';
+  let pos = 0; // Next character to scan
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let memberStart = -1; // Start of the current top-level member
+  let complete = false;
+  const parsed: Record<string, unknown> = {};
+
+  const closeMember = (end: number, out: [string, unknown][]) => {
+    const member = text.slice(memberStart, end).trim();
+    if (!member) return;
+    try {
+      const entry = Object.entries(JSON.parse(`{${member}}`))[0];
+      if (entry) {
+        parsed[entry[0]] = entry[1];
+        out.push(entry);
+      }
+    } catch (e) {
+      console.warn("[JsonStream] Skipped unparseable member:", member.slice(0, 80));
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      const out: [string, unknown][] = [];
+      if (complete) return out;
+      text += chunk;
+
+      for (; pos < text.length && !complete; pos++) {
+        const ch = text[pos];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (depth === 0) {
+          // Still looking for the opening brace of the object
+          if (ch === '{') {
+            depth = 1;
+            memberStart = pos + 1;
+          }
+          continue;
+        }
+
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') depth++;
+        else if (ch === '}' || ch === ']') {
+          if (depth === 1) {
+            closeMember(pos, out);
+            complete = true;
+          }
+          depth--;
+        } else if (ch === ',' && depth === 1) {
+          closeMember(pos, out);
+          memberStart = pos + 1;
+        }
+      }
+      return out;
+    },
+    sections: () => ({ ...parsed }),
+    isComplete: () => complete,
+    text: () => text
+  };
+};
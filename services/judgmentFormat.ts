@@ -0,0 +1,103 @@
+import { Counterclaim, Demand, RulingOutcome, Verdict } from "../types";
+
+// --- Final Judgment Text ---
+// Older verdicts answer each demand inside the free text of `finalJudgment`, one line each, e.g.
+// "1. 【支持】关于要求..."; newer ones return structured `rulings` and keep `finalJudgment` for the
+// judge's closing words. Shared by the on-screen VerdictView and the exported document.
+
+export type RulingKind = 'support' | 'reject' | 'modify' | 'other';
+
+export interface JudgmentLine {
+  prefix?: string; // List number such as "1."
+  decision?: string; // Bracketed ruling such as "【支持】"
+  kind?: RulingKind;
+  text: string;
+}
+
+const rulingKind = (decision: string): RulingKind => {
+  if (decision.includes('支持') && !decision.includes('修正')) return 'support'; // Pure support
+  if (decision.includes('驳回')) return 'reject';
+  if (decision.includes('修正') || decision.includes('建议')) return 'modify';
+  return 'other';
+};
+
+export const parseJudgmentLines = (text: string): JudgmentLine[] => {
+  // 1. Normalize line breaks
+  let normalized = text.replace(/\\n/g, '\n');
+
+  // 2. If it looks like a list "1. ... 2. ...", insert newlines if missing
+  // Match "digit." or "digit、" preceded by space or start of line
+  normalized = normalized.replace(/(\s|^)(\d+[.、])/g, '$1\n$2');
+
+  // 3. Remove excessive newlines
+  normalized = normalized.replace(/\n{2,}/g, '\n');
+
+  return normalized
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(trimmed => {
+      // Check for the specific pattern: "1. 【Decision】Content"
+      const match = trimmed.match(/^(\d+[.、])?\s*(【.*?】)(.*)/);
+      if (!match) return { text: trimmed };
+      const [, prefix, decision, content] = match;
+      return { prefix, decision, kind: rulingKind(decision), text: content };
+    });
+};
+
+// --- Rulings ---
+
+export const RULING_LABELS: Record<RulingOutcome, string> = {
+  SUPPORTED: '支持',
+  REJECTED: '驳回',
+  MODIFIED: '修正支持'
+};
+
+const OUTCOME_KINDS: Record<RulingOutcome, RulingKind> = {
+  SUPPORTED: 'support',
+  REJECTED: 'reject',
+  MODIFIED: 'modify'
+};
+
+// One ruling on a demand, whichever form the verdict stored it in
+export interface ResolvedRuling {
+  demandId?: string; // Only for structured rulings
+  demand?: string; // The demand's content, when known
+  counterclaim?: boolean; // Rules on one of the defendant's counterclaims (support favours the defendant)
+  decision: string; // Bracketed ruling such as "【支持】"
+  kind: RulingKind;
+  remedy?: string; // What the court grants instead (modified rulings)
+  text: string; // Reasoning
+}
+
+/**
+ * The rulings of a verdict, in the order of the demands, then the counterclaims.
+ * Older verdicts without `rulings` fall back to the bracketed lines of `finalJudgment`.
+ */
+export const getRulings = (
+  verdict: Pick<Verdict, 'rulings' | 'finalJudgment'>,
+  demands: Demand[] = [],
+  counterclaims: Counterclaim[] = []
+): ResolvedRuling[] => {
+  if (verdict.rulings && verdict.rulings.length > 0) {
+    const claims: (Demand | Counterclaim)[] = [...demands, ...counterclaims];
+    const order = (id: string) => {
+      const index = claims.findIndex(d => d.id === id);
+      return index < 0 ? claims.length : index;
+    };
+    return [...verdict.rulings]
+      .sort((a, b) => order(a.demandId) - order(b.demandId))
+      .map(r => ({
+        demandId: r.demandId,
+        demand: claims.find(d => d.id === r.demandId)?.content,
+        counterclaim: counterclaims.some(d => d.id === r.demandId),
+        decision: `【${RULING_LABELS[r.outcome]}】`,
+        kind: OUTCOME_KINDS[r.outcome],
+        remedy: r.modifiedRemedy,
+        text: r.reasoning
+      }));
+  }
+  return parseJudgmentLines(verdict.finalJudgment || '')
+    .filter(line => line.decision)
+    .map(line => ({ decision: line.decision!, kind: line.kind!, text: line.text.trim() }));
+};
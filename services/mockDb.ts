@@ -1,27 +1,556 @@
 
-import { CaseData, CaseStatus, JudgePersona } from "../types";
+import { CaseData, CaseStatus, EvidenceItem, JudgePersona, JuryVote, SealedContent, SealedPhase, UserRole } from "../types";
 import { supabase } from '../supabaseClient';
+import { buildTransition, isLocalStatusNewer, CaseActor } from './caseWorkflow';
+import { mergeCases, diffCase, MergeConflict, SYNCED_FIELDS } from './caseMerge';
+import { CaseChangeFeed, FeedStatus, createSupabaseChangeFeed } from './caseChangeFeed';
+import { SyncQueue, PendingWrite } from './syncQueue';
+import { CaseStore, createDefaultCaseStore } from './caseStore';
+import { CaseArchive, restoreArchiveMedia } from './caseExport';
+import { EvidenceStore, getMediaRefs, replaceMediaRefs } from './evidenceStore';
+import { buildTaskUpdate, TaskAction } from './penaltyTasks';
+import { buildReveal, buildSeal, checkSealedWrite, isRevealed, isSealedPhase, redactSealed, withLocalContent } from './caseSealing';
+import { buildDeadlineConsequence, DEFAULT_PHASE_DEADLINES, isDeadlinePassed } from './caseDeadlines';
+import { checkJuryVote, isSpectator, redactForSpectator } from './caseHearing';
 
-const DB_KEY = 'court_of_love_db_v1';
+// Private drafts of sealed answers; kept on this device only and never synced
+const DRAFTS_KEY = 'court_of_love_drafts_v1';
+// Cases each user follows as a spectator (the case store only indexes the parties)
+const HEARINGS_KEY = 'court_of_love_hearings_v1';
+// How many times a write is re-merged and retried when another device keeps winning the race
+const MAX_MERGE_ATTEMPTS = 3;
 
 // Helper to generate a random 6-character code
 const generateCode = () => {
   return Math.random().toString(36).substring(2, 8).toUpperCase();
 };
 
-const getDb = (): Record<string, CaseData> => {
-  const str = localStorage.getItem(DB_KEY);
-  return str ? JSON.parse(str) : {};
+// Local cache of cases (IndexedDB in the browser, localStorage where it is unavailable)
+let caseStore: CaseStore = createDefaultCaseStore();
+
+// The store is async, so read-modify-write sequences on one case are queued to keep them from interleaving
+const caseLocks = new Map<string, Promise<unknown>>();
+
+const withCaseLock = <T>(id: string, fn: () => Promise<T>): Promise<T> => {
+  const previous = caseLocks.get(id) || Promise.resolve();
+  const next = previous.then(fn, fn);
+  caseLocks.set(id, next.catch(() => {}));
+  return next;
+};
+
+// Last cloud version of each case this device has seen: the common ancestor for three-way merges.
+// Kept per case in the case store, next to the case itself.
+const getSyncBase = (id: string): Promise<CaseData | null> => caseStore.getSyncBase(id);
+
+const setSyncBase = (id: string, base: CaseData | null): Promise<void> => caseStore.putSyncBase(id, base);
+
+// --- Viewer ---
+// The user this device acts for. Cases leave MockDb redacted for them: the content of the other
+// party's sealed answers stays in storage until the round is revealed (see caseSealing).
+let viewerId: string | null = null;
+
+// The signed-in Supabase user, or null in offline mode
+const getSessionUserId = async (): Promise<string | null> => {
+  try {
+    const { data } = await supabase.auth.getSession();
+    if (data.session) return data.session.user.id;
+  } catch (e) {
+    console.warn("Session lookup failed, acting as the offline user:", errorMessage(e));
+  }
+  return null;
+};
+
+// Party ids are Supabase auth user ids, which the row-level security policies compare with
+// auth.uid() (supabase/migrations). Offline mode has no session and acts as the viewer instead.
+const getAuthUserId = async (): Promise<string | null> => (await getSessionUserId()) ?? viewerId;
+
+// Local case lists wait until cases cached under a display name have been moved to the user's id
+let adoption: Promise<void> = Promise.resolve();
+
+// Display names by user id, filled from `profiles` on demand
+const userNames = new Map<string, string>();
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const viewerRole = (c: CaseData) =>
+  viewerId && viewerId === c.plaintiffId ? UserRole.PLAINTIFF
+    : viewerId && viewerId === c.defendantId ? UserRole.DEFENDANT
+      : UserRole.SPECTATOR;
+
+const present = (c: CaseData) => {
+  const role = viewerRole(c);
+  const redacted = redactSealed(c, role);
+  return role === UserRole.SPECTATOR ? redactForSpectator(redacted, viewerId) : redacted;
+};
+
+const presentOrNull = (c: CaseData | null) => c && present(c);
+
+const readDrafts = (): Record<string, Record<string, unknown>> => {
+  const str = localStorage.getItem(DRAFTS_KEY);
+  if (!str) return {};
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    console.error("[MockDb] Drafts are unreadable, starting empty:", e);
+    return {};
+  }
+};
+
+const draftOwner = (caseId: string, userId: string) => `${caseId}/${userId}`;
+
+const readHearings = (): Record<string, string[]> => {
+  const str = localStorage.getItem(HEARINGS_KEY);
+  if (!str) return {};
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    console.error("[MockDb] Followed hearings are unreadable, starting empty:", e);
+    return {};
+  }
+};
+
+const addHearing = (userId: string, caseId: string) => {
+  const hearings = readHearings();
+  hearings[userId] = [...new Set([caseId, ...(hearings[userId] || [])])];
+  localStorage.setItem(HEARINGS_KEY, JSON.stringify(hearings));
+};
+
+// Spectators cannot read the table (nor receive its realtime events); they fetch the redacted row
+const isFollowedHearing = (caseId: string) => !!viewerId && (readHearings()[viewerId] || []).includes(caseId);
+
+const fetchCaseRow = (caseId: string) => isFollowedHearing(caseId)
+  ? supabase.rpc('get_hearing', { p_case_id: caseId }).single()
+  : supabase.from('cases').select('*').eq('id', caseId).single();
+
+// Listeners notified when a concurrent edit could not be merged automatically
+type ConflictListener = (caseId: string, conflicts: MergeConflict[]) => void;
+const conflictListeners = new Set<ConflictListener>();
+
+const notifyConflicts = (caseId: string, conflicts: MergeConflict[]) => {
+  if (conflicts.length === 0) return;
+  console.warn(`[Sync] ${conflicts.length} conflict(s) on case ${caseId}`, conflicts);
+  conflictListeners.forEach(cb => cb(caseId, conflicts));
+};
+
+// Older databases may not have the `revision` column yet; fall back to blind updates there
+const isMissingRevisionColumn = (error: { code?: string; message?: string }) =>
+  error.code === '42703' || error.code === 'PGRST204' || (error.message || '').includes('revision');
+
+// Errors that will not go away by retrying (bad data, constraint or permission violations).
+// Everything else (offline, timeouts, 5xx) is treated as transient and replayed with backoff.
+const isPermanentError = (error: any) => /^(22|23|42)/.test(error?.code || '');
+
+const errorMessage = (error: any) => error?.message || String(error);
+
+// Map a snake_case `cases` row to the camelCase app model.
+// `local` supplies fallbacks for columns that may be missing or not yet synced.
+const mapRemoteCase = (remoteCase: any, local?: CaseData): CaseData => ({
+  id: remoteCase.id,
+  shareCode: remoteCase.share_code,
+  createdDate: new Date(remoteCase.created_at).getTime(),
+  lastUpdateDate: Date.now(), // Force update timestamp
+  plaintiffId: remoteCase.plaintiff_id,
+  defendantId: remoteCase.defendant_id,
+  category: remoteCase.category,
+  description: remoteCase.description || '',
+  title: remoteCase.title,
+  plaintiffSummary: remoteCase.plaintiff_summary,
+  demands: remoteCase.demands || '',
+  demandItems: remoteCase.demand_items || (local && local.demandItems),
+  evidence: remoteCase.evidence || [],
+  defenseStatement: remoteCase.defense_statement || '',
+  defenseSummary: remoteCase.defense_summary,
+  defendantEvidence: remoteCase.defendant_evidence || [],
+  counterclaims: remoteCase.counterclaims || (local && local.counterclaims),
+  counterclaimEvidence: remoteCase.counterclaim_evidence || (local && local.counterclaimEvidence),
+  mediation: remoteCase.mediation !== undefined ? remoteCase.mediation : (local && local.mediation),
+  settlementProposals: remoteCase.settlement_proposals || (local && local.settlementProposals),
+  settlement: remoteCase.settlement !== undefined ? remoteCase.settlement : (local && local.settlement),
+  coolingOff: remoteCase.cooling_off ?? (local && local.coolingOff),
+  moderationLog: remoteCase.moderation_log || (local && local.moderationLog),
+  // Envelopes only; the content of this device's own unrevealed submissions is kept from the local copy
+  sealedSubmissions: remoteCase.sealed_submissions
+    ? withLocalContent(remoteCase.sealed_submissions, local?.sealedSubmissions)
+    : (local && local.sealedSubmissions),
+  phaseDeadlines: remoteCase.phase_deadlines || (local && local.phaseDeadlines),
+  missedDeadlines: remoteCase.missed_deadlines || (local && local.missedDeadlines),
+  plaintiffHearingConsent: remoteCase.plaintiff_hearing_consent ?? (local && local.plaintiffHearingConsent),
+  defendantHearingConsent: remoteCase.defendant_hearing_consent ?? (local && local.defendantHearingConsent),
+  // `null` is a closed hearing, so only a missing column falls back to the local copy
+  spectatorCode: remoteCase.spectator_code !== undefined ? remoteCase.spectator_code : (local && local.spectatorCode),
+  spectatorIds: remoteCase.spectator_ids || (local && local.spectatorIds),
+  juryVotes: remoteCase.jury_votes || (local && local.juryVotes),
+  plaintiffRebuttal: remoteCase.plaintiff_rebuttal || '',
+  // Handle potentially missing columns gracefully with defaults
+  plaintiffRebuttalEvidence: remoteCase.plaintiff_rebuttal_evidence || [], 
+  defendantRebuttal: remoteCase.defendant_rebuttal || '',
+  defendantRebuttalEvidence: remoteCase.defendant_rebuttal_evidence || [],
+
+  // FIX: Map dispute_points with fallback to local to prevent data loss if column missing/sync fail
+  disputePoints: remoteCase.dispute_points || (local && local.disputePoints) || [],
+
+  // FIX: Map last_analyzed_hash with fallback to local to ensure 'Skip Analysis' logic works
+  lastAnalyzedHash: remoteCase.last_analyzed_hash || (local && local.lastAnalyzedHash), 
+
+  judgePersona: remoteCase.judge_persona || JudgePersona.BORDER_COLLIE,
+  judgeProfiles: remoteCase.judge_profiles || (local && local.judgeProfiles),
+  status: remoteCase.status as CaseStatus,
+  statusHistory: remoteCase.status_history || (local && local.statusHistory) || [],
+  verdict: remoteCase.verdict,
+  verdictHistory: remoteCase.verdict_history || (local && local.verdictHistory) || [],
+  // `null` means no appeal; only a missing column falls back to the local copy
+  appeal: remoteCase.appeal !== undefined ? remoteCase.appeal : (local && local.appeal),
+  tasks: remoteCase.tasks || (local && local.tasks),
+  // `false` is a withdrawn consent, so only a missing column falls back to the local copy
+  plaintiffPrecedentConsent: remoteCase.plaintiff_precedent_consent ?? (local && local.plaintiffPrecedentConsent),
+  defendantPrecedentConsent: remoteCase.defendant_precedent_consent ?? (local && local.defendantPrecedentConsent),
+  revision: remoteCase.revision ?? undefined
+});
+
+// Map a camelCase patch to `cases` columns (only the fields present in the patch)
+const toRemotePayload = (updates: Partial<CaseData>) => {
+  const payload: any = {};
+
+  if (updates.category !== undefined) payload.category = updates.category;
+  if (updates.description !== undefined) payload.description = updates.description;
+  if (updates.demands !== undefined) payload.demands = updates.demands;
+  if (updates.demandItems !== undefined) payload.demand_items = updates.demandItems;
+  if (updates.status !== undefined) payload.status = updates.status;
+  if (updates.statusHistory !== undefined) payload.status_history = updates.statusHistory;
+  if (updates.title !== undefined) payload.title = updates.title;
+  if (updates.plaintiffSummary !== undefined) payload.plaintiff_summary = updates.plaintiffSummary;
+  if (updates.defenseStatement !== undefined) payload.defense_statement = updates.defenseStatement;
+  if (updates.defenseSummary !== undefined) payload.defense_summary = updates.defenseSummary;
+  if (updates.plaintiffRebuttal !== undefined) payload.plaintiff_rebuttal = updates.plaintiffRebuttal;
+  if (updates.defendantRebuttal !== undefined) payload.defendant_rebuttal = updates.defendantRebuttal;
+  
+  // Handle complex objects if column exists and is jsonb
+  if (updates.evidence !== undefined) payload.evidence = updates.evidence;
+  if (updates.defendantEvidence !== undefined) payload.defendant_evidence = updates.defendantEvidence;
+  if (updates.counterclaims !== undefined) payload.counterclaims = updates.counterclaims;
+  if (updates.counterclaimEvidence !== undefined) payload.counterclaim_evidence = updates.counterclaimEvidence;
+  if (updates.mediation !== undefined) payload.mediation = updates.mediation;
+  if (updates.settlementProposals !== undefined) payload.settlement_proposals = updates.settlementProposals;
+  if (updates.settlement !== undefined) payload.settlement = updates.settlement;
+  if (updates.coolingOff !== undefined) payload.cooling_off = updates.coolingOff;
+  if (updates.moderationLog !== undefined) payload.moderation_log = updates.moderationLog;
+  // sealed_submissions is only written by seal_submission / reveal_submissions
+  if (updates.phaseDeadlines !== undefined) payload.phase_deadlines = updates.phaseDeadlines;
+  if (updates.missedDeadlines !== undefined) payload.missed_deadlines = updates.missedDeadlines;
+  if (updates.plaintiffHearingConsent !== undefined) payload.plaintiff_hearing_consent = updates.plaintiffHearingConsent;
+  if (updates.defendantHearingConsent !== undefined) payload.defendant_hearing_consent = updates.defendantHearingConsent;
+  if (updates.spectatorCode !== undefined) payload.spectator_code = updates.spectatorCode;
+  // Parties can only clear the spectators (closing the hearing); votes are only written by cast_jury_vote
+  if (updates.spectatorIds !== undefined) payload.spectator_ids = updates.spectatorIds;
+  if (updates.plaintiffRebuttalEvidence !== undefined) payload.plaintiff_rebuttal_evidence = updates.plaintiffRebuttalEvidence;
+  if (updates.defendantRebuttalEvidence !== undefined) payload.defendant_rebuttal_evidence = updates.defendantRebuttalEvidence;
+  if (updates.disputePoints !== undefined) payload.dispute_points = updates.disputePoints;
+  // FIX: Map lastAnalyzedHash for persistence
+  if (updates.lastAnalyzedHash !== undefined) payload.last_analyzed_hash = updates.lastAnalyzedHash;
+
+  if (updates.verdict !== undefined) payload.verdict = updates.verdict;
+  if (updates.verdictHistory !== undefined) payload.verdict_history = updates.verdictHistory;
+  if (updates.appeal !== undefined) payload.appeal = updates.appeal;
+  if (updates.tasks !== undefined) payload.tasks = updates.tasks;
+  if (updates.plaintiffPrecedentConsent !== undefined) payload.plaintiff_precedent_consent = updates.plaintiffPrecedentConsent;
+  if (updates.defendantPrecedentConsent !== undefined) payload.defendant_precedent_consent = updates.defendantPrecedentConsent;
+  if (updates.judgePersona !== undefined) payload.judge_persona = updates.judgePersona;
+  if (updates.judgeProfiles !== undefined) payload.judge_profiles = updates.judgeProfiles;
+  if (updates.defendantId !== undefined) payload.defendant_id = updates.defendantId;
+
+  return payload;
+};
+
+// Save a case into the local cache without touching the cloud
+const saveLocal = (c: CaseData) => caseStore.put(c);
+
+/**
+ * Push this device's pending edits (local vs. last synced base) with an optimistic
+ * concurrency check on `revision`. If another device wrote first, fetch its version,
+ * three-way merge, report unresolvable conflicts and try again.
+ */
+const pushToCloud = async (id: string, updates: Partial<CaseData>) => {
+  for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+    const base = await getSyncBase(id);
+    const local = await caseStore.get(id);
+    if (!local) return;
+
+    // No common ancestor (legacy record): plain update of the given fields as before
+    if (!base) {
+      const payload = toRemotePayload(updates);
+      if (Object.keys(payload).length === 0) return;
+      const { error } = await supabase.from('cases').update(payload).eq('id', id);
+      if (error) throw error;
+      return;
+    }
+
+    const payload = toRemotePayload(diffCase(base, local));
+    if (Object.keys(payload).length === 0) return;
+
+    const expected = base.revision || 0;
+    const { data: rows, error } = await supabase
+      .from('cases')
+      .update({ ...payload, revision: expected + 1 })
+      .eq('id', id)
+      .eq('revision', expected)
+      .select();
+
+    if (error) {
+      if (isMissingRevisionColumn(error)) {
+        const { error: blindError } = await supabase.from('cases').update(payload).eq('id', id);
+        if (blindError) throw blindError;
+        await setSyncBase(id, { ...local });
+        return;
+      }
+      throw error;
+    }
+
+    if (rows && rows.length > 0) {
+      // Accepted: the written row becomes the new common ancestor
+      await withCaseLock(id, async () => {
+        const fresh = await caseStore.get(id);
+        const remote = mapRemoteCase(rows[0], fresh);
+        await setSyncBase(id, remote);
+        if (!fresh) return;
+        // The server stamps its own time on the transitions it accepted; later local ones follow them
+        const statusHistory = [...remote.statusHistory, ...(fresh.statusHistory || []).slice(remote.statusHistory.length)];
+        await saveLocal({ ...fresh, revision: rows[0].revision, statusHistory });
+      });
+      return;
+    }
+
+    // Revision mismatch: someone else wrote first. Merge their version with ours and retry.
+    const { data: remoteRow, error: fetchError } = await supabase.from('cases').select('*').eq('id', id).single();
+    if (fetchError || !remoteRow) throw fetchError || new Error("Case not found in cloud");
+    // Nobody else wrote: the row-level security policies filtered the update out. Retrying cannot
+    // help, so the write is parked as failed (42501, see isPermanentError).
+    if ((remoteRow.revision || 0) === expected) {
+      throw Object.assign(new Error("云端拒绝了这次修改：你没有权限修改这个案件"), { code: '42501' });
+    }
+    const stillExists = await withCaseLock(id, async () => {
+      const freshLocal = await caseStore.get(id);
+      if (!freshLocal) return false;
+      const remote = mapRemoteCase(remoteRow, freshLocal);
+      const { merged, conflicts } = mergeCases(base, freshLocal, remote);
+      await saveLocal({ ...merged, id, lastUpdateDate: Date.now() });
+      await setSyncBase(id, remote);
+      notifyConflicts(id, conflicts);
+      return true;
+    });
+    if (!stillExists) return;
+  }
+  throw new Error(`Gave up pushing case ${id} after ${MAX_MERGE_ATTEMPTS} merge attempts`);
+};
+
+const pickSynced = (c: CaseData): Partial<CaseData> => {
+  const picked: Partial<CaseData> = {};
+  SYNCED_FIELDS.forEach(field => { (picked as Record<string, unknown>)[field] = c[field]; });
+  return picked;
+};
+
+// Full `cases` row for a case that has never reached the cloud
+const toInsertRow = (c: CaseData) => ({
+  ...toRemotePayload(pickSynced(c)),
+  id: c.id,
+  plaintiff_id: c.plaintiffId, // Correctly mapped from user_id/plaintiffId to plaintiff_id
+  share_code: c.shareCode,
+  revision: 0,
+  created_at: new Date(c.createdDate).toISOString(),
+});
+
+// Sealed answers are revealed by reveal_submissions: only the server can read both of them
+const revealOnServer = async (caseId: string, phase: SealedPhase): Promise<CaseData> => {
+  const { data: remoteCase, error } = await supabase.rpc('reveal_submissions', { p_case_id: caseId, p_phase: phase });
+  if (error) throw new Error(/^(P0|42)/.test(error.code || '') ? error.message : "揭晓失败，请检查网络后重试");
+  return applyRemoteRow(caseId, remoteCase);
+};
+
+// --- Offline Write Replay ---
+// Failed cloud writes are recorded in SyncQueue and replayed with exponential backoff,
+// immediately when the browser reports it is back online, or when the user retries.
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+
+const scheduleFlush = () => {
+  if (flushTimer) { clearTimeout(flushTimer); flushTimer = null; }
+  const next = SyncQueue.nextDueAt();
+  if (next === null) return;
+  flushTimer = setTimeout(() => { flushOutbox(); }, Math.max(0, next - Date.now()));
+};
+
+// Upload the media of a case that fell back to this device, then point the case at the uploads
+const uploadLocalMedia = async (local: CaseData) => {
+  const newRefs = new Map<string, string>();
+  for (const ref of new Set(getMediaRefs(local).filter(EvidenceStore.isLocalOnly))) {
+    const uploaded = await EvidenceStore.upload(ref);
+    if (uploaded) newRefs.set(ref, uploaded);
+  }
+  if (newRefs.size === 0) return;
+
+  const current = (await caseStore.get(local.id)) || local;
+  await writeCase(local.id, replaceMediaRefs(current, newRefs));
+  for (const ref of newRefs.keys()) {
+    EvidenceStore.remove(ref).catch(e => console.warn("Evidence media cleanup failed:", e));
+  }
+};
+
+const replayWrite = async (entry: PendingWrite) => {
+  const local = await caseStore.get(entry.caseId);
+  if (!local) return; // Deleted locally meanwhile: nothing left to push
+
+  if (entry.kind === 'upload') {
+    await uploadLocalMedia(local);
+    return;
+  }
+
+  if (entry.kind === 'insert') {
+    const { error } = await supabase.from('cases').insert(toInsertRow(local));
+    if (error) throw error;
+    // Everything local has been written: the pushed copy becomes the common ancestor
+    await setSyncBase(local.id, { ...local, revision: 0 });
+    return;
+  }
+
+  // The base-vs-local diff covers every queued edit; legacy records push all synced fields
+  await pushToCloud(entry.caseId, pickSynced(local));
+};
+
+const flushOutbox = async (force = false) => {
+  if (isFlushing) return;
+  isFlushing = true;
+  try {
+    for (const entry of SyncQueue.due(Date.now(), force)) {
+      // An update cannot land before its insert did
+      if (entry.kind === 'update' && SyncQueue.forCase(entry.caseId).some(e => e.kind === 'insert')) continue;
+      try {
+        await replayWrite(entry);
+        SyncQueue.remove(entry.id);
+        emitStoredCase(entry.caseId);
+      } catch (e) {
+        console.warn(`[Sync] Replay of ${entry.kind} for case ${entry.caseId} failed:`, errorMessage(e));
+        SyncQueue.markAttemptFailed(entry.id, errorMessage(e), isPermanentError(e));
+      }
+    }
+  } finally {
+    isFlushing = false;
+    scheduleFlush();
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { flushOutbox(true); });
+  // Pick up writes queued in a previous session
+  scheduleFlush();
+}
+
+// Local write + async cloud sync. Callers are responsible for validating status changes.
+const writeCase = async (id: string, updates: Partial<CaseData>): Promise<CaseData> => {
+  // 1. Optimistic Local Update
+  const updatedCase = await withCaseLock(id, async () => {
+    const current = await caseStore.get(id);
+    if (!current) throw new Error("Case not found");
+    const next = { ...current, ...updates, lastUpdateDate: Date.now() };
+    await saveLocal(next);
+    // Media that could not be uploaded when it was attached is uploaded with the next replay
+    const known = new Set(getMediaRefs(current));
+    if (getMediaRefs(next).some(ref => !known.has(ref) && EvidenceStore.isLocalOnly(ref))) {
+      SyncQueue.enqueue(id, 'upload');
+    }
+    return next;
+  });
+
+  // 2. Supabase Sync (Async). Failed writes are queued and replayed later.
+  const pending = SyncQueue.forCase(id).filter(e => e.kind !== 'upload');
+  if (pending.some(e => e.kind === 'insert' || e.failed)) {
+      // The row is not in the cloud yet, or earlier writes need the user's attention first
+      SyncQueue.enqueue(id, 'update');
+  } else {
+      try {
+          await pushToCloud(id, updates);
+          // The push carried every unsynced edit, including any queued ones
+          if (pending.length > 0) SyncQueue.removeForCase(id, 'update');
+      } catch (e) {
+          console.warn("Supabase update failed, queued for retry:", errorMessage(e));
+          SyncQueue.enqueue(id, 'update', errorMessage(e));
+      }
+      scheduleFlush();
+  }
+
+  // Return the latest local version (may include changes merged in from the other party)
+  const latest = (await caseStore.get(id)) || updatedCase;
+  emitCase(latest);
+  return present(latest);
 };
 
-const saveDb = (db: Record<string, CaseData>) => {
-  localStorage.setItem(DB_KEY, JSON.stringify(db));
+// --- Case Subscriptions ---
+
+type CaseListener = (c: CaseData) => void;
+const caseListeners = new Map<string, Set<CaseListener>>();
+
+// Fallback polling interval while the realtime feed is not connected
+const POLL_INTERVAL_MS = 3000;
+
+let changeFeed: CaseChangeFeed = createSupabaseChangeFeed();
+
+const emitCase = (c: CaseData) => {
+  caseListeners.get(c.id)?.forEach(cb => cb(present(c)));
 };
 
+// Notify listeners with the stored copy (after writes that did not produce the case themselves)
+const emitStoredCase = async (id: string) => {
+  if (!caseListeners.get(id)?.size) return;
+  const c = await caseStore.get(id);
+  if (c) emitCase(c);
+};
+
+/**
+ * Apply a cloud row to the local cache (from a fetch or a realtime event).
+ * Reads the local DB *now*, after any async gap, to avoid race condition overwrites.
+ */
+const applyRemoteRow = (caseId: string, remoteCase: any): Promise<CaseData> => withCaseLock(caseId, async () => {
+  const local = await caseStore.get(caseId);
+
+  // Map snake_case to camelCase
+  const remote = mapRemoteCase(remoteCase, local);
+  const base = await getSyncBase(caseId);
+
+  // --- CONFLICT RESOLUTION LOGIC ---
+  if (local && base) {
+      // Nothing new in the cloud since our last sync: keep local (it may hold unsynced edits)
+      if (remote.revision !== undefined && remote.revision === base.revision) {
+          return local;
+      }
+      // Three-way merge so edits made on this device while the other party also wrote survive
+      const { merged, conflicts } = mergeCases(base, local, remote);
+      const localCase = { ...merged, lastUpdateDate: Date.now() };
+      await saveLocal(localCase);
+      await setSyncBase(caseId, remote);
+      notifyConflicts(caseId, conflicts);
+      emitCase(localCase);
+      return localCase;
+  }
+
+  // Legacy records without a sync base: keep the local copy if it holds a status
+  // transition the cloud has not received yet (see caseWorkflow)
+  if (local && isLocalStatusNewer(local, remote.status, remote.statusHistory)) {
+      console.log(`[Sync] Ignoring stale remote data. Local: ${local.status}, Remote: ${remote.status}`);
+      return local;
+  }
+  // ---------------------------------
+
+  // Update Local Cache
+  await saveLocal(remote);
+  await setSyncBase(remote.id, remote);
+  emitCase(remote);
+
+  return remote;
+});
+
 export const MockDb = {
   // Create a new case
-  createCase: async (plaintiffId: string): Promise<CaseData> => {
-    const db = getDb();
+  createCase: async (): Promise<CaseData> => {
+    const plaintiffId = await getAuthUserId();
+    if (!plaintiffId) throw new Error("请先登录");
     const id = Date.now().toString();
     const newCase: CaseData = {
       id,
@@ -43,124 +572,69 @@ export const MockDb = {
       defendantRebuttal: '',
       defendantRebuttalEvidence: [],
       disputePoints: [], // Initialize empty dispute points
+      coolingOff: true, // The plaintiff can turn it off when filing
+      phaseDeadlines: { ...DEFAULT_PHASE_DEADLINES }, // The plaintiff can change them when filing
       judgePersona: JudgePersona.BORDER_COLLIE, // Default to Border Collie
-      status: CaseStatus.DRAFTING
+      status: CaseStatus.DRAFTING,
+      statusHistory: [],
+      revision: 0
     };
 
-    // Sync to Supabase (Add real DB insert)
-    try {
-      // NOTE: Using 'plaintiff_id' as per database structure requirement
-      const { error } = await supabase.from('cases').insert({
-        id: newCase.id,
-        plaintiff_id: plaintiffId, // Correctly mapped from user_id/plaintiffId to plaintiff_id
-        share_code: newCase.shareCode,
-        category: newCase.category,
-        description: newCase.description,
-        status: newCase.status,
-        created_at: new Date(newCase.createdDate).toISOString(),
-        // Store initial empty structure if needed by your DB constraints, 
-        // or rely on DB defaults.
-      });
+    // Always save to local mock DB for instant UI feedback/offline capability
+    await saveLocal(newCase);
 
-      if (error) {
-        console.warn("Supabase insert failed (falling back to local):", error.message);
-      }
+    // Sync to Supabase (Add real DB insert). If that fails the insert is queued for replay.
+    try {
+      const { error } = await supabase.from('cases').insert(toInsertRow(newCase));
+      if (error) throw error;
+      await setSyncBase(id, newCase);
     } catch (e) {
-      console.warn("Supabase connection error:", e);
+      console.warn("Supabase insert failed (queued for retry):", errorMessage(e));
+      SyncQueue.enqueue(id, 'insert', errorMessage(e));
+      scheduleFlush();
     }
 
-    // Always save to local mock DB for instant UI feedback/offline capability
-    db[id] = newCase;
-    saveDb(db);
     return newCase;
   },
 
   // Get a case by ID
-  getCase: (id: string): CaseData | null => {
-    const db = getDb();
-    return db[id] || null;
-  },
+  getCase: async (id: string): Promise<CaseData | null> => presentOrNull(await caseStore.get(id)),
 
-  // Get all cases relevant to a user
-  getCasesForUser: (userId: string): CaseData[] => {
-    const db = getDb();
-    return Object.values(db).filter(c => c.plaintiffId === userId || c.defendantId === userId).sort((a, b) => b.lastUpdateDate - a.lastUpdateDate);
+  // Get all cases relevant to a user, most recently updated first
+  getCasesForUser: async (userId: string): Promise<CaseData[]> => {
+    await adoption;
+    return (await caseStore.listForUser(userId)).map(present);
   },
 
-  // Join a case via code
-  joinCase: async (code: string, defendantId: string): Promise<{ success: boolean, caseId?: string, error?: string }> => {
-    const db = getDb();
+  /**
+   * Join a case as the defendant via its share code. The code and the identity rules are checked
+   * on the server (join_case, see supabase/migrations), which also records the signed-in user.
+   */
+  joinCase: async (code: string): Promise<{ success: boolean, caseId?: string, error?: string }> => {
     const cleanCode = code.trim().toUpperCase();
 
     try {
-      // 1. Query Cloud (Supabase) first
-      const { data: remoteCase, error } = await supabase
-        .from('cases')
-        .select('*')
-        .eq('share_code', cleanCode)
-        .single();
-
-      if (error || !remoteCase) {
-        return { success: false, error: "无效的案件代码" };
-      }
+      // 1. Validate and join on the server
+      const { data: remoteCase, error } = await supabase.rpc('join_case', { p_share_code: cleanCode });
 
-      // 2. Validate Identity
-      if (remoteCase.plaintiff_id === defendantId) {
-        return { success: false, error: "您是原告，无法作为被告加入" };
-      }
-
-      if (remoteCase.defendant_id && remoteCase.defendant_id !== defendantId) {
-        return { success: false, error: "该案件已有被告" };
+      if (error) {
+        // Messages raised by join_case are meant for the user
+        if (/^(P0|28)/.test(error.code || '')) return { success: false, error: error.message };
+        console.error("Join failed:", error);
+        return { success: false, error: "加入失败: 云端同步错误" };
       }
-
-      // 3. Update Cloud (if not already set)
-      if (!remoteCase.defendant_id) {
-        const { error: updateError } = await supabase
-          .from('cases')
-          .update({ defendant_id: defendantId })
-          .eq('id', remoteCase.id);
-        
-        if (updateError) {
-          console.error("Join update failed:", updateError);
-          return { success: false, error: "加入失败: 云端同步错误" };
-        }
-        // Optimistically update local reference
-        remoteCase.defendant_id = defendantId;
+      if (!remoteCase) {
+        return { success: false, error: "无效的案件代码" };
       }
 
-      // 4. Sync to Local Cache (Map snake_case DB to camelCase App)
+      // 2. Sync to Local Cache (Map snake_case DB to camelCase App)
       // This ensures the user has the case data locally immediately
-      const localCase: CaseData = {
-        id: remoteCase.id,
-        shareCode: remoteCase.share_code,
-        createdDate: new Date(remoteCase.created_at).getTime(),
-        lastUpdateDate: Date.now(),
-        plaintiffId: remoteCase.plaintiff_id,
-        defendantId: remoteCase.defendant_id,
-        category: remoteCase.category,
-        description: remoteCase.description || '',
-        title: remoteCase.title,
-        plaintiffSummary: remoteCase.plaintiff_summary,
-        demands: remoteCase.demands || '',
-        evidence: remoteCase.evidence || [],
-        defenseStatement: remoteCase.defense_statement || '',
-        defenseSummary: remoteCase.defense_summary,
-        defendantEvidence: remoteCase.defendant_evidence || [],
-        plaintiffRebuttal: remoteCase.plaintiff_rebuttal || '',
-        // Handle potentially missing columns gracefully with defaults
-        plaintiffRebuttalEvidence: remoteCase.plaintiff_rebuttal_evidence || [], 
-        defendantRebuttal: remoteCase.defendant_rebuttal || '',
-        defendantRebuttalEvidence: remoteCase.defendant_rebuttal_evidence || [],
-        disputePoints: remoteCase.dispute_points || [],
-        // FIX: Map last_analyzed_hash
-        lastAnalyzedHash: remoteCase.last_analyzed_hash, 
-        judgePersona: remoteCase.judge_persona || JudgePersona.BORDER_COLLIE,
-        status: remoteCase.status as CaseStatus,
-        verdict: remoteCase.verdict
-      };
-
-      db[localCase.id] = localCase;
-      saveDb(db);
+      const localCase = await withCaseLock(remoteCase.id, async () => {
+        const mapped = mapRemoteCase(remoteCase, (await caseStore.get(remoteCase.id)) || undefined);
+        await saveLocal(mapped);
+        return mapped;
+      });
+      await setSyncBase(localCase.id, localCase);
 
       return { success: true, caseId: localCase.id };
 
@@ -170,184 +644,391 @@ export const MockDb = {
     }
   },
 
+  // --- Public Hearing ---
+
+  /**
+   * Follow a public hearing via its spectator code. The server (join_hearing) checks the code and
+   * that both parties approved, and adds the signed-in user to the spectators.
+   */
+  joinHearing: async (code: string): Promise<{ success: boolean, caseId?: string, error?: string }> => {
+    try {
+      const userId = await getAuthUserId();
+      const { data: remoteCase, error } = await supabase.rpc('join_hearing', { p_code: code.trim().toUpperCase() });
+      if (error) {
+        if (/^(P0|28)/.test(error.code || '')) return { success: false, error: error.message };
+        console.error("Join hearing failed:", error);
+        return { success: false, error: "加入失败: 云端同步错误" };
+      }
+      if (!remoteCase || !userId) return { success: false, error: "无效的旁听码" };
+
+      const localCase = await applyRemoteRow(remoteCase.id, remoteCase);
+      addHearing(userId, localCase.id);
+      return { success: true, caseId: localCase.id };
+    } catch (e) {
+      console.error("Join hearing error:", e);
+      return { success: false, error: "网络连接失败，请稍后重试" };
+    }
+  },
+
+  // Cases the user follows as a spectator, most recently updated first
+  getHearingsForUser: async (userId: string): Promise<CaseData[]> => {
+    const cases = await Promise.all((readHearings()[userId] || []).map(id => caseStore.get(id)));
+    return cases
+      .filter((c): c is CaseData => !!c && isSpectator(c, userId))
+      .sort((a, b) => b.lastUpdateDate - a.lastUpdateDate)
+      .map(present);
+  },
+
+  // Cast or replace the signed-in spectator's jury vote (validated again by cast_jury_vote)
+  castJuryVote: async (caseId: string, vote: Pick<JuryVote, 'points' | 'plaintiffShare'>): Promise<CaseData> => {
+    const current = await caseStore.get(caseId);
+    if (!current) throw new Error("Case not found");
+    const voterId = await getAuthUserId();
+    const error = voterId ? checkJuryVote(current, voterId, vote) : "请先登录";
+    if (error) throw new Error(error);
+
+    const { data: remoteCase, error: rpcError } = await supabase.rpc('cast_jury_vote', {
+      p_case_id: caseId,
+      p_points: vote.points,
+      p_plaintiff_share: vote.plaintiffShare ?? null
+    });
+    if (rpcError) throw new Error(/^(P0|42)/.test(rpcError.code || '') ? rpcError.message : "投票失败，请检查网络后重试");
+    return present(await applyRemoteRow(caseId, remoteCase));
+  },
+
   // Sync a specific case from Cloud to Local (Fix for Plaintiff waiting screen)
   syncCaseFromCloud: async (caseId: string): Promise<CaseData | null> => {
     // NOTE: We do NOT read db here initially. We read it after the async call 
     // to ensure we capture any local updates that happened while waiting for the network.
     
     try {
-      const { data: remoteCase, error } = await supabase
-        .from('cases')
-        .select('*')
-        .eq('id', caseId)
-        .single();
-
-      // Read fresh local DB *after* the async gap to avoid race condition overwrites
-      const freshDb = getDb();
-      const local = freshDb[caseId];
+      const { data: remoteCase, error } = await fetchCaseRow(caseId);
 
       if (error || !remoteCase) {
         // If fetch fails, return local version if exists, or null
-        return local || null;
+        return presentOrNull(await caseStore.get(caseId));
       }
 
-      // --- CONFLICT RESOLUTION LOGIC ---
-      // Check if the local status is "ahead" of the remote status. 
-      if (local && local.status) {
-          const statusOrder = {
-            [CaseStatus.DRAFTING]: 0,
-            [CaseStatus.PLAINTIFF_EVIDENCE]: 1,
-            [CaseStatus.DEFENSE_PENDING]: 2,
-            [CaseStatus.CROSS_EXAMINATION]: 3,
-            [CaseStatus.DEBATE]: 4,
-            [CaseStatus.ADJUDICATING]: 5,
-            [CaseStatus.CLOSED]: 6,
-            [CaseStatus.CANCELLED]: 99
-          };
-          
-          const localS = local.status as CaseStatus;
-          const remoteS = remoteCase.status as CaseStatus;
-          const localLevel = statusOrder[localS] || 0;
-          const remoteLevel = statusOrder[remoteS] || 0;
-
-          // Stability Logic: Prevent regression for critical states
-          
-          // 1. Default Judgment Protection:
-          if (localS === CaseStatus.ADJUDICATING && remoteLevel < 5) {
-             console.log(`[Sync] Ignoring stale remote data (Lagging Default Judgment). Local: ADJUDICATING > Remote: ${remoteS}`);
-             return local;
-          }
-
-          // 2. Verdict Protection:
-          if (localS === CaseStatus.CLOSED && remoteLevel < 6) {
-              console.log(`[Sync] Ignoring stale remote data (Lagging Verdict). Local: CLOSED > Remote: ${remoteS}`);
-              return local;
-          }
-
-          // 3. General Forward Progress (Debate Phase):
-          if (localS === CaseStatus.DEBATE && remoteLevel < 4) {
-              console.log(`[Sync] Ignoring stale remote data (Lagging Debate). Local: DEBATE > Remote: ${remoteS}`);
-              return local;
-          }
-
-          // 4. Appeal Protection (Appeal from Closed -> Adjudicating/Debate)
-          // If we locally moved BACKWARDS (e.g., from Closed to Debate), and remote is still Closed (ahead),
-          // we should trust Local (user intent) over Remote (stale state).
-          if ((localS === CaseStatus.ADJUDICATING || localS === CaseStatus.DEBATE) && remoteLevel === 6) {
-               console.log(`[Sync] Ignoring remote data (Appeal/Back Action). Local: ${localS} < Remote: CLOSED`);
-               return local;
-          }
-          
-          if (localS === CaseStatus.DEBATE && remoteLevel === 5) {
-               console.log(`[Sync] Ignoring remote data (Back from Judge Select). Local: DEBATE < Remote: ADJUDICATING`);
-               return local;
-          }
-      }
-      // ---------------------------------
-
-      // Map snake_case to camelCase
-      const localCase: CaseData = {
-        id: remoteCase.id,
-        shareCode: remoteCase.share_code,
-        createdDate: new Date(remoteCase.created_at).getTime(),
-        lastUpdateDate: Date.now(), // Force update timestamp
-        plaintiffId: remoteCase.plaintiff_id,
-        defendantId: remoteCase.defendant_id,
-        category: remoteCase.category,
-        description: remoteCase.description || '',
-        title: remoteCase.title,
-        plaintiffSummary: remoteCase.plaintiff_summary,
-        demands: remoteCase.demands || '',
-        evidence: remoteCase.evidence || [],
-        defenseStatement: remoteCase.defense_statement || '',
-        defenseSummary: remoteCase.defense_summary,
-        defendantEvidence: remoteCase.defendant_evidence || [],
-        plaintiffRebuttal: remoteCase.plaintiff_rebuttal || '',
-        plaintiffRebuttalEvidence: remoteCase.plaintiff_rebuttal_evidence || [], 
-        defendantRebuttal: remoteCase.defendant_rebuttal || '',
-        defendantRebuttalEvidence: remoteCase.defendant_rebuttal_evidence || [],
-        
-        // FIX: Map dispute_points with fallback to local to prevent data loss if column missing/sync fail
-        disputePoints: remoteCase.dispute_points || (local && local.disputePoints) || [],
-        
-        // FIX: Map last_analyzed_hash with fallback to local to ensure 'Skip Analysis' logic works
-        lastAnalyzedHash: remoteCase.last_analyzed_hash || (local && local.lastAnalyzedHash), 
-
-        judgePersona: remoteCase.judge_persona || JudgePersona.BORDER_COLLIE,
-        status: remoteCase.status as CaseStatus,
-        verdict: remoteCase.verdict
-      };
-
-      // Update Local Cache
-      freshDb[localCase.id] = localCase;
-      saveDb(freshDb);
-
-      return localCase;
+      return present(await applyRemoteRow(caseId, remoteCase));
 
     } catch (e) {
       console.warn("Sync failed, returning local data:", e);
-      return getDb()[caseId] || null;
+      return presentOrNull(await caseStore.get(caseId));
     }
   },
 
-  // Update a case
+  // Update a case (content only; status changes must go through transitionCase)
   updateCase: async (id: string, updates: Partial<CaseData>): Promise<CaseData> => {
-    const db = getDb();
-    if (!db[id]) throw new Error("Case not found");
-    
-    // 1. Optimistic Local Update
-    const updatedCase = { ...db[id], ...updates, lastUpdateDate: Date.now() };
-    db[id] = updatedCase;
-    saveDb(db);
+    const current = await caseStore.get(id);
+    if (!current) throw new Error("Case not found");
+    if (updates.status !== undefined && updates.status !== current.status) {
+      throw new Error("状态变更必须通过 transitionCase 进行");
+    }
+    const sealError = checkSealedWrite(current, updates, viewerRole(current));
+    if (sealError) throw new Error(sealError);
+    const { status, statusHistory, ...rest } = updates;
+    return writeCase(id, rest);
+  },
 
-    // 2. Supabase Sync (Async)
-    try {
-        const payload: any = {};
-        
-        // Map fields to DB columns (snake_case)
-        if (updates.description !== undefined) payload.description = updates.description;
-        if (updates.demands !== undefined) payload.demands = updates.demands;
-        if (updates.status !== undefined) payload.status = updates.status;
-        if (updates.title !== undefined) payload.title = updates.title;
-        if (updates.plaintiffSummary !== undefined) payload.plaintiff_summary = updates.plaintiffSummary;
-        if (updates.defenseStatement !== undefined) payload.defense_statement = updates.defenseStatement;
-        if (updates.defenseSummary !== undefined) payload.defense_summary = updates.defenseSummary;
-        if (updates.plaintiffRebuttal !== undefined) payload.plaintiff_rebuttal = updates.plaintiffRebuttal;
-        if (updates.defendantRebuttal !== undefined) payload.defendant_rebuttal = updates.defendantRebuttal;
-        
-        // Handle complex objects if column exists and is jsonb
-        if (updates.evidence !== undefined) payload.evidence = updates.evidence;
-        if (updates.defendantEvidence !== undefined) payload.defendant_evidence = updates.defendantEvidence;
-        if (updates.disputePoints !== undefined) payload.dispute_points = updates.disputePoints;
-        // FIX: Map lastAnalyzedHash for persistence
-        if (updates.lastAnalyzedHash !== undefined) payload.last_analyzed_hash = updates.lastAnalyzedHash;
-
-        if (updates.verdict !== undefined) payload.verdict = updates.verdict;
-        if (updates.judgePersona !== undefined) payload.judge_persona = updates.judgePersona;
-        if (updates.defendantId !== undefined) payload.defendant_id = updates.defendantId;
-
-        if (Object.keys(payload).length > 0) {
-            const { error } = await supabase.from('cases').update(payload).eq('id', id);
-            if (error) {
-                console.warn("Supabase update failed:", error.message);
-            }
-        }
-    } catch (e) {
-        console.warn("Supabase update exception:", e);
+  // Move a case to a new status (validated by the case state machine) together with an optional patch
+  transitionCase: async (
+    id: string,
+    to: CaseStatus,
+    actor: CaseActor,
+    patch: Partial<CaseData> = {},
+    reason?: string
+  ): Promise<CaseData> => {
+    const current = await caseStore.get(id);
+    if (!current) throw new Error("Case not found");
+    const sealError = checkSealedWrite(current, patch, actor.role);
+    if (sealError) throw new Error(sealError);
+    const { status, statusHistory, ...rest } = patch;
+    const transition = buildTransition(current, to, actor, rest, reason);
+    return writeCase(id, { ...rest, ...transition });
+  },
+
+  // Claim, confirm or dispute a penalty task of a closed or settled case (validated by penaltyTasks.checkTaskAction)
+  updateTask: async (
+    caseId: string,
+    taskId: string,
+    actor: CaseActor,
+    action: TaskAction,
+    details: { proof?: EvidenceItem; reason?: string } = {}
+  ): Promise<CaseData> => {
+    const current = await caseStore.get(caseId);
+    if (!current) throw new Error("Case not found");
+    return writeCase(caseId, { tasks: buildTaskUpdate(current, taskId, actor.role, action, details) });
+  },
+
+  // --- Sealed Submissions ---
+
+  // Seal a party's answer for the phase the case is in; the server reveals the round once both
+  // parties sealed. Needs a connection: the server is the only one to hold both answers. Offline
+  // mode has no server, and both parties' answers are on this device anyway, so it seals locally.
+  sealSubmission: async (caseId: string, actor: CaseActor, content: SealedContent): Promise<CaseData> => {
+    const current = await caseStore.get(caseId);
+    if (!current) throw new Error("Case not found");
+    const patch = buildSeal(current, actor.role, content); // Same checks as seal_submission, without the round trip
+    if (!(await getSessionUserId())) return writeCase(caseId, patch);
+
+    const { data: remoteCase, error } = await supabase.rpc('seal_submission', {
+      p_case_id: caseId,
+      p_rebuttal: content.rebuttal ?? null,
+      p_arguments: content.arguments ?? null
+    });
+    if (error) throw new Error(/^(P0|42)/.test(error.code || '') ? error.message : "密封提交失败，请检查网络后重试");
+    return present(await applyRemoteRow(caseId, remoteCase));
+  },
+
+  // Reveal the current round once both parties sealed or the seal window has passed
+  revealSubmissions: async (caseId: string, phase: SealedPhase): Promise<CaseData> => {
+    if (await getSessionUserId()) return present(await revealOnServer(caseId, phase));
+    const current = await caseStore.get(caseId);
+    if (!current) throw new Error("Case not found");
+    return writeCase(caseId, buildReveal(current, phase));
+  },
+
+  // --- Phase Deadlines ---
+
+  /**
+   * Apply the consequences of a passed phase deadline (see caseDeadlines.buildDeadlineConsequence).
+   * Resolves with null when there is nothing to do, e.g. because the other device did it first.
+   */
+  applyDeadline: async (caseId: string, actor: CaseActor): Promise<CaseData | null> => {
+    let current = await caseStore.get(caseId);
+    if (!current) throw new Error("Case not found");
+    // The server reveals the round first, with placeholders for whoever did not seal. Offline,
+    // the consequence below reveals it on this device.
+    const phase = current.status;
+    if (isSealedPhase(phase) && !isRevealed(current, phase) && isDeadlinePassed(current) && await getSessionUserId()) {
+      current = await revealOnServer(caseId, phase).catch(async e => {
+        // Another device may have revealed it first
+        await MockDb.syncCaseFromCloud(caseId);
+        const synced = await caseStore.get(caseId);
+        if (!synced || !isRevealed(synced, phase)) throw e;
+        return synced;
+      });
     }
+    const consequence = buildDeadlineConsequence(current);
+    if (!consequence) return null;
+    const { patch, advanceTo, reason } = consequence;
+    return writeCase(caseId, advanceTo
+      ? { ...patch, ...buildTransition(current, advanceTo, actor, patch, reason) }
+      : patch);
+  },
+
+  // Private drafts (this device only, one per user, case and key)
+  getDraft: <T>(caseId: string, userId: string, key: string): T | undefined =>
+    readDrafts()[draftOwner(caseId, userId)]?.[key] as T | undefined,
 
-    return updatedCase;
+  saveDraft: (caseId: string, userId: string, key: string, value: unknown) => {
+    const drafts = readDrafts();
+    drafts[draftOwner(caseId, userId)] = { ...drafts[draftOwner(caseId, userId)], [key]: value };
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  },
+
+  discardDraft: (caseId: string, userId: string, key: string) => {
+    const drafts = readDrafts();
+    const { [key]: _discarded, ...rest } = drafts[draftOwner(caseId, userId)] || {};
+    drafts[draftOwner(caseId, userId)] = rest;
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  },
+
+  // Who is using this device (their auth user id, or the offline name); cases are handed out redacted for them
+  setViewer: (userId: string | null) => {
+    viewerId = userId;
+  },
+
+  /**
+   * Cases cached on this device before party ids were auth user ids name the parties by display
+   * name or email. Move those of the signed-in user to their id (the cloud rows are migrated
+   * server-side). Case lists wait for this to finish.
+   */
+  adoptLegacyCases: (userId: string, names: string[]): Promise<void> => {
+    const rename = (c: CaseData, name: string): CaseData => ({
+      ...c,
+      plaintiffId: c.plaintiffId === name ? userId : c.plaintiffId,
+      defendantId: c.defendantId === name ? userId : c.defendantId,
+      statusHistory: c.statusHistory?.map(t => t.by === name ? { ...t, by: userId } : t)
+    });
+    adoption = adoption.then(async () => {
+      for (const name of new Set(names.filter(n => n && n !== userId))) {
+        for (const legacy of await caseStore.listForUser(name)) {
+          await withCaseLock(legacy.id, async () => {
+            const current = await caseStore.get(legacy.id);
+            if (!current) return;
+            await saveLocal(rename(current, name));
+            // The base is renamed too, so the new ids are not pushed as an edit
+            const base = await getSyncBase(legacy.id);
+            if (base) await setSyncBase(legacy.id, rename(base, name));
+          });
+        }
+      }
+    }).catch(e => console.warn("Adopting legacy cases failed:", errorMessage(e)));
+    return adoption;
+  },
+
+  // Display names for user ids; ids without a readable profile (e.g. offline names) map to themselves
+  getUserNames: async (ids: string[]): Promise<Record<string, string>> => {
+    const missing = [...new Set(ids)].filter(id => UUID_PATTERN.test(id) && !userNames.has(id));
+    if (missing.length > 0) {
+      try {
+        const { data, error } = await supabase.from('profiles').select('id, username').in('id', missing);
+        if (error) throw error;
+        (data || []).forEach(p => { if (p.username) userNames.set(p.id, p.username); });
+      } catch (e) {
+        console.warn("Profile lookup failed:", errorMessage(e));
+      }
+    }
+    return Object.fromEntries(ids.map(id => [id, userNames.get(id) || id]));
   },
 
   // Delete a case
-  deleteCase: (id: string) => {
-    const db = getDb();
-    if (db[id]) {
-      delete db[id];
-      saveDb(db);
+  deleteCase: async (id: string) => {
+    await withCaseLock(id, () => caseStore.delete(id));
+    await setSyncBase(id, null);
+    SyncQueue.removeForCase(id);
+  },
+
+  /**
+   * Restore a case from an exported archive (see caseExport) into the local cache,
+   * re-uploading its evidence media. Only parties of the case may import it,
+   * and a newer local copy is never overwritten.
+   */
+  importCase: async (archive: CaseArchive, userId: string): Promise<CaseData> => {
+    const archived = archive.case;
+    if (archived.plaintiffId !== userId && archived.defendantId !== userId) {
+      throw new Error("您不是该案件的当事人，无法导入");
+    }
+    return withCaseLock(archived.id, async () => {
+      const existing = await caseStore.get(archived.id);
+      if (existing && existing.lastUpdateDate > archived.lastUpdateDate) {
+        throw new Error("本地已有该案件的更新版本");
+      }
+      const restored = await restoreArchiveMedia(archive);
+      await saveLocal(restored);
+      return present(restored);
+    });
+  },
+
+  // --- Offline Write Queue ---
+
+  // 'pending' while writes wait for replay, 'failed' once they need the user to resolve them
+  getSyncState: (caseId: string) => SyncQueue.getState(caseId),
+
+  // Writes that gave up retrying (permission/validation errors, or too many attempts)
+  getFailedWrites: (): PendingWrite[] => SyncQueue.list().filter(e => e.failed),
+
+  // Try all pending writes now, ignoring backoff
+  flushPendingWrites: () => flushOutbox(true),
+
+  // Re-queue a failed write for an immediate attempt
+  retryWrite: async (entryId: string) => {
+    SyncQueue.reset(entryId);
+    await flushOutbox();
+  },
+
+  /**
+   * Give up on a failed write: drop this device's unsynced changes and reload the cloud copy.
+   * A case that never reached the cloud only exists locally and is removed.
+   */
+  discardWrite: async (entryId: string) => {
+    const entry = SyncQueue.list().find(e => e.id === entryId);
+    if (!entry) return;
+    // The files stay on this device, the case keeps pointing at them
+    if (entry.kind === 'upload') {
+      SyncQueue.remove(entry.id);
+      return;
     }
+    SyncQueue.removeForCase(entry.caseId);
+
+    if (entry.kind === 'insert') {
+      await MockDb.deleteCase(entry.caseId);
+      return;
+    }
+
+    // Prefer the current cloud row; fall back to the last synced copy when offline
+    let restored = await getSyncBase(entry.caseId);
+    try {
+      const { data: remoteRow } = await supabase.from('cases').select('*').eq('id', entry.caseId).single();
+      if (remoteRow) restored = mapRemoteCase(remoteRow, (await caseStore.get(entry.caseId)) || undefined);
+    } catch (e) {
+      console.warn("Discard: cloud fetch failed, restoring last synced copy:", e);
+    }
+    if (!restored) return;
+    const local = { ...restored, lastUpdateDate: Date.now() };
+    await withCaseLock(entry.caseId, () => saveLocal(local));
+    await setSyncBase(entry.caseId, restored);
+    emitCase(local);
+  },
+
+  // Subscribe to queue changes (pending/failed badges). Returns an unsubscribe function.
+  onSyncQueueChange: (cb: () => void) => SyncQueue.onChange(cb),
+
+  /**
+   * Live updates for one case: the callback receives the local copy immediately and then every
+   * change, whether written on this device or pushed by the other party through the change feed.
+   * While the feed is not connected the case is polled instead. Returns an unsubscribe function.
+   */
+  subscribeToCase: (caseId: string, cb: (c: CaseData) => void) => {
+    if (!caseListeners.has(caseId)) caseListeners.set(caseId, new Set());
+    caseListeners.get(caseId)!.add(cb);
+
+    let active = true;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    const poll = () => { MockDb.syncCaseFromCloud(caseId).then(c => active && c && cb(c)); };
+    const setPolling = (enabled: boolean) => {
+      if (enabled && !pollTimer) pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      if (!enabled && pollTimer) { clearInterval(pollTimer); pollTimer = null; }
+    };
+
+    // Local copy first, then catch up once in case something changed before the channel was established
+    caseStore.get(caseId).then(local => {
+      if (!active) return;
+      if (local) cb(present(local));
+      poll();
+    });
+
+    let unsubscribeFeed = () => {};
+    if (isFollowedHearing(caseId)) {
+      setPolling(true);
+    } else {
+      unsubscribeFeed = changeFeed.subscribe(
+        caseId,
+        (row) => applyRemoteRow(caseId, row),
+        (status: FeedStatus) => setPolling(status !== 'SUBSCRIBED')
+      );
+    }
+
+    return () => {
+      active = false;
+      unsubscribeFeed();
+      setPolling(false);
+      caseListeners.get(caseId)?.delete(cb);
+    };
+  },
+
+  // Replace the local storage adapter (e.g. createLocalStorageCaseStore)
+  setCaseStore: (store: CaseStore) => {
+    caseStore = store;
+  },
+
+  // Replace the realtime source (e.g. createMemoryChangeFeed for offline demos)
+  setChangeFeed: (feed: CaseChangeFeed) => {
+    changeFeed = feed;
+  },
+
+  // Subscribe to merge conflicts that could not be resolved automatically. Returns an unsubscribe function.
+  onConflict: (listener: ConflictListener) => {
+    conflictListeners.add(listener);
+    return () => { conflictListeners.delete(listener); };
   },
 
   // For debugging/demo: Clear DB
-  clear: () => localStorage.removeItem(DB_KEY)
+  clear: async () => {
+    await caseStore.clear();
+    localStorage.removeItem(DRAFTS_KEY);
+    localStorage.removeItem(HEARINGS_KEY);
+    SyncQueue.clear();
+  }
 };
@@ -0,0 +1,99 @@
+import { CaseData, CaseStatus, EvidenceItem, PenaltyTask, TrackedTask, UserRole } from "../types";
+
+// --- Penalty Tasks ---
+// The 爱的破冰大冒险 tasks of a verdict are tracked on the case (`tasks`) once it is delivered.
+// The assignee claims a task as done, optionally with proof; the other party then confirms it
+// or disputes the claim, after which the assignee can claim it again. A closed case is fully
+// resolved only when every task has been confirmed. A settled case tracks the reconciliation
+// tasks of its settlement the same way. `tasks` is merged item by item (caseMerge.ts), so both
+// parties can work on different tasks at the same time.
+
+export const TASK_DUE_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Statuses in which the tasks are in force
+const TASK_PHASES = [CaseStatus.CLOSED, CaseStatus.SETTLED];
+
+export type TaskAction = 'claim' | 'confirm' | 'dispute';
+
+// Ids include the delivery time so the tasks of an appealed verdict never merge with the new ones
+export const createTasks = (tasks: PenaltyTask[], deliveredAt: number, idPrefix = `task_${deliveredAt}`): TrackedTask[] =>
+  tasks.map((t, i) => ({
+    id: `${idPrefix}_${i}`,
+    assignee: t.assignee,
+    content: t.content,
+    status: 'pending',
+    dueAt: deliveredAt + TASK_DUE_MS
+  }));
+
+/**
+ * Tasks of the current verdict.
+ * Cases closed before tasks were tracked get theirs derived from the verdict, due from the closing date.
+ */
+export const getCaseTasks = (c: CaseData): TrackedTask[] => {
+  if (c.tasks) return c.tasks;
+  if (!c.verdict) return [];
+  const closedAt = c.statusHistory?.filter(t => t.to === CaseStatus.CLOSED).pop()?.at || c.lastUpdateDate;
+  return createTasks(c.verdict.penaltyTasks || [], closedAt, 'task_legacy');
+};
+
+export const isTaskConfirmed = (t: TrackedTask) => !!t.confirmedAt;
+
+export const isTaskOverdue = (t: TrackedTask, now = Date.now()) => !isTaskConfirmed(t) && t.status !== 'done' && now > t.dueAt;
+
+// Tasks not yet confirmed; empty while the case is neither closed nor settled
+export const getOutstandingTasks = (c: CaseData): TrackedTask[] =>
+  TASK_PHASES.includes(c.status) ? getCaseTasks(c).filter(t => !isTaskConfirmed(t)) : [];
+
+// Closed or settled, and every task confirmed by the other party
+export const isCaseResolved = (c: CaseData) =>
+  TASK_PHASES.includes(c.status) && getCaseTasks(c).every(isTaskConfirmed);
+
+// Returns why `role` may not perform `action` on the task, or null when allowed
+export const checkTaskAction = (task: TrackedTask, role: UserRole, action: TaskAction): string | null => {
+  if (isTaskConfirmed(task)) return "该任务已确认完成";
+  const isAssignee = role === (task.assignee as string);
+  switch (action) {
+    case 'claim':
+      if (!isAssignee) return "只有被指派的一方可以提交完成";
+      if (task.status === 'done') return "已提交完成，等待对方确认";
+      return null;
+    case 'confirm':
+    case 'dispute':
+      if (isAssignee) return "需要由对方确认";
+      if (task.status !== 'done') return "对方还未提交完成";
+      return null;
+  }
+};
+
+const applyAction = (task: TrackedTask, action: TaskAction, details: { proof?: EvidenceItem; reason?: string }): TrackedTask => {
+  const now = Date.now();
+  switch (action) {
+    case 'claim':
+      return { ...task, status: 'done', claimedAt: now, proof: details.proof ?? task.proof };
+    case 'confirm':
+      return { ...task, confirmedAt: now };
+    case 'dispute':
+      return { ...task, status: 'disputed', disputedAt: now, disputeReason: details.reason?.trim() || undefined };
+  }
+};
+
+/**
+ * The case's task list after `role` performed `action` on one task.
+ * Throws when the action is not allowed (see checkTaskAction).
+ */
+export const buildTaskUpdate = (
+  c: CaseData,
+  taskId: string,
+  role: UserRole,
+  action: TaskAction,
+  details: { proof?: EvidenceItem; reason?: string } = {}
+): TrackedTask[] => {
+  const tasks = getCaseTasks(c);
+  const task = tasks.find(t => t.id === taskId);
+  if (!task) throw new Error("任务不存在");
+  if (!TASK_PHASES.includes(c.status)) throw new Error("判决生效或达成和解后才能履行任务");
+  const error = checkTaskAction(task, role, action);
+  if (error) throw new Error(error);
+  return tasks.map(t => t.id === taskId ? applyAction(t, action, details) : t);
+};
+
@@ -0,0 +1,228 @@
+import { supabase } from '../supabaseClient';
+import { JudgePersona, JudgePersonaDefinition, PersonaIcon } from '../types';
+import { number, object, oneOf, optional, string, validate, withDefault } from './aiSchema';
+
+// --- Judge Personas ---
+// Every judge, built in or user defined, is a JudgePersonaDefinition; the verdict system prompt
+// is composed from it (geminiService.personaInstruction). Custom personas are kept per user in
+// localStorage and published to the Supabase `judge_personas` table so others can import them
+// by share code. A case keeps a copy of the custom personas that heard it (`judgeProfiles`),
+// so the other party can display a judge they never imported.
+
+export const PERSONA_ICONS: PersonaIcon[] = ['dog', 'cat', 'bird', 'rabbit', 'squirrel', 'turtle', 'fish', 'panda'];
+
+// Index = strictness (1-5)
+export const STRICTNESS_LEVELS = [
+  null,
+  { label: '宽厚', instruction: '责任认定从轻，多给双方台阶，避免一边倒的判决。' },
+  { label: '温和', instruction: '在认定事实的基础上从宽处理，措辞留有余地。' },
+  { label: '适中', instruction: '严格依据事实与证据，宽严相济。' },
+  { label: '严格', instruction: '过错必须明确指出并承担相应责任，不和稀泥。' },
+  { label: '严苛', instruction: '对过错零容忍，证据不足的主张一律不予支持。' }
+];
+
+export const MAX_CUSTOM_PERSONAS = 10;
+
+// Limits keep user text from crowding out the rest of the system prompt
+const NAME_MAX = 12;
+const PREFIX_MAX = 12;
+const TEXT_MAX = 300;
+
+export const BUILT_IN_PERSONAS: JudgePersonaDefinition[] = [
+  {
+    id: JudgePersona.BORDER_COLLIE,
+    name: '汪汪法官',
+    icon: 'dog',
+    palette: 'cool',
+    description: '客观中立，理性判断，法理思维断案',
+    philosophy: '法理思维 (Legalistic Mindset)。你将亲密关系视为一种特殊的“社会契约”，关注权利与义务的对等、承诺的履行、逻辑的一致性、客观证据的效力。不被情绪绑架，如果一方有错，必须根据逻辑和事实严厉指出，类似于法庭上的判决。',
+    tone: '客观、中立、理性、严肃。',
+    verdictPrefix: '本汪裁判：',
+    strictness: 4,
+    penaltyStyle: '规则明确、有完成标准的互动挑战。',
+    courtTitle: '边牧法庭 · 汪汪裁决',
+    builtIn: true
+  },
+  {
+    id: JudgePersona.CAT,
+    name: '喵喵法官',
+    icon: 'cat',
+    palette: 'warm',
+    description: '兼顾事实与情绪，治愈系中立判决',
+    philosophy: '情绪事实 (Emotional Facts)。你认为在亲密关系中，“感受”也是一种事实，关注双方的情绪需求、沟通中的心理动因、未被看见的委屈。在认定事实对错的基础上，提供情绪价值，用高情商化解对立，追求“案结事了人和”。',
+    tone: '兼顾客观事实与情绪浓度、治愈、温和但中立。',
+    verdictPrefix: '本喵裁判：',
+    strictness: 2,
+    penaltyStyle: '软萌撒娇、治愈系的亲密互动。',
+    courtTitle: '猫猫法庭 · 喵呜裁决',
+    builtIn: true
+  }
+];
+
+export type PersonaDraft = Pick<
+  JudgePersonaDefinition,
+  'name' | 'icon' | 'palette' | 'description' | 'philosophy' | 'tone' | 'verdictPrefix' | 'strictness' | 'penaltyStyle'
+>;
+
+export const courtTitleOf = (p: JudgePersonaDefinition) => p.courtTitle || `${p.name}法庭`;
+
+// Published definitions are shared by anyone, so they are checked like any other untrusted input
+const personaSchema = object({
+  id: string(),
+  name: string(),
+  icon: withDefault(oneOf(PERSONA_ICONS), () => 'dog' as PersonaIcon),
+  palette: withDefault(oneOf(['cool', 'warm'] as const), () => 'cool' as const),
+  description: withDefault(string(), () => ''),
+  philosophy: string(),
+  tone: withDefault(string(), () => ''),
+  verdictPrefix: string(),
+  strictness: withDefault(number({ min: 1, max: 5 }), () => 3),
+  penaltyStyle: withDefault(string(), () => ''),
+  ownerId: optional(string()),
+  shareCode: optional(string()),
+  createdAt: optional(number())
+});
+
+// Returns the problem with a draft, or null when it can be saved
+export const checkPersonaDraft = (d: PersonaDraft): string | null => {
+  if (!d.name.trim()) return "请填写法官名称";
+  if (d.name.trim().length > NAME_MAX) return `法官名称不能超过 ${NAME_MAX} 个字`;
+  if (!d.philosophy.trim()) return "请填写断案理念";
+  if (!d.verdictPrefix.trim()) return "请填写判词开头";
+  if (d.verdictPrefix.trim().length > PREFIX_MAX) return `判词开头不能超过 ${PREFIX_MAX} 个字`;
+  if ([d.description, d.philosophy, d.tone, d.penaltyStyle].some(t => t.trim().length > TEXT_MAX)) {
+    return `每项描述不能超过 ${TEXT_MAX} 个字`;
+  }
+  if (!(d.strictness >= 1 && d.strictness <= 5)) return "严格程度须在 1-5 之间";
+  return null;
+};
+
+const STORAGE_KEY = 'court_of_love_personas_v1';
+const SHARED_TABLE = 'judge_personas';
+
+// Custom personas per user id
+const readAll = (): Record<string, JudgePersonaDefinition[]> => {
+  const str = localStorage.getItem(STORAGE_KEY);
+  return str ? JSON.parse(str) : {};
+};
+
+const writeUser = (userId: string, personas: JudgePersonaDefinition[]) => {
+  const all = readAll();
+  all[userId] = personas;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
+
+const generateShareCode = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+
+// Every persona this device has seen, for synchronous lookups while rendering
+const known = new Map<string, JudgePersonaDefinition>(BUILT_IN_PERSONAS.map(p => [p.id, p]));
+
+const remember = (personas?: JudgePersonaDefinition[]) => {
+  personas?.forEach(p => { if (!known.get(p.id)?.builtIn) known.set(p.id, p); });
+};
+
+const findShared = async (code: string): Promise<JudgePersonaDefinition | null> => {
+  const local = Object.values(readAll()).flat().find(p => p.shareCode === code);
+  if (local) return local;
+
+  const { data, error } = await supabase.from(SHARED_TABLE).select('definition').eq('share_code', code).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const result = validate(personaSchema, data.definition);
+  if (!result.ok) {
+    console.warn("[Personas] Shared persona is malformed:", result.issues);
+    return null;
+  }
+  return result.value as JudgePersonaDefinition;
+};
+
+export const PersonaRegistry = {
+  // Lookup by id; a persona this device has never seen falls back to the built-in dog judge
+  get: (id: string): JudgePersonaDefinition =>
+    known.get(id) || { ...BUILT_IN_PERSONAS[0], id, name: '神秘法官', description: '', builtIn: false },
+
+  isBuiltIn: (id: string) => !!known.get(id)?.builtIn,
+
+  // Built-in judges first, then the user's own and imported personas
+  listForUser: (userId: string): JudgePersonaDefinition[] => {
+    const custom = readAll()[userId] || [];
+    remember(custom);
+    return [...BUILT_IN_PERSONAS, ...custom];
+  },
+
+  create: async (userId: string, draft: PersonaDraft): Promise<JudgePersonaDefinition> => {
+    const problem = checkPersonaDraft(draft);
+    if (problem) throw new Error(problem);
+    const mine = readAll()[userId] || [];
+    if (mine.length >= MAX_CUSTOM_PERSONAS) throw new Error(`最多只能保存 ${MAX_CUSTOM_PERSONAS} 位自定义法官`);
+
+    const persona: JudgePersonaDefinition = {
+      name: draft.name.trim(),
+      icon: draft.icon,
+      palette: draft.palette,
+      description: draft.description.trim(),
+      philosophy: draft.philosophy.trim(),
+      tone: draft.tone.trim(),
+      verdictPrefix: draft.verdictPrefix.trim(),
+      strictness: Math.round(draft.strictness),
+      penaltyStyle: draft.penaltyStyle.trim(),
+      id: `persona_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
+      ownerId: userId,
+      shareCode: generateShareCode(),
+      createdAt: Date.now()
+    };
+    writeUser(userId, [...mine, persona]);
+    remember([persona]);
+
+    const { error } = await supabase.from(SHARED_TABLE).insert({
+      share_code: persona.shareCode,
+      owner_id: userId,
+      definition: persona
+    });
+    if (error) console.warn("[Personas] Publish failed, the share code only works on this device:", error);
+    return persona;
+  },
+
+  // Only removes it from the user's list; cases it judged keep their copy
+  remove: (userId: string, id: string) => {
+    writeUser(userId, (readAll()[userId] || []).filter(p => p.id !== id));
+  },
+
+  importByCode: async (userId: string, code: string): Promise<JudgePersonaDefinition> => {
+    const cleanCode = code.trim().toUpperCase();
+    const mine = readAll()[userId] || [];
+    const existing = mine.find(p => p.shareCode === cleanCode);
+    if (existing) return existing;
+    if (mine.length >= MAX_CUSTOM_PERSONAS) throw new Error(`最多只能保存 ${MAX_CUSTOM_PERSONAS} 位自定义法官`);
+
+    let shared: JudgePersonaDefinition | null;
+    try {
+      shared = await findShared(cleanCode);
+    } catch (e) {
+      console.error("[Personas] Import failed:", e);
+      throw new Error("网络连接失败，请稍后重试");
+    }
+    if (!shared) throw new Error("无效的法官代码");
+    // The schema only checks the shape; the same limits as for one's own judges keep the prompt in bounds
+    const problem = checkPersonaDraft(shared);
+    if (problem) throw new Error(`该法官无法导入：${problem}`);
+
+    const persona = { ...shared, builtIn: false };
+    writeUser(userId, [...mine, persona]);
+    remember([persona]);
+    return persona;
+  },
+
+  // Make the custom judges stored on a case known to this device
+  remember,
+
+  // Custom personas among `ids`, merged into a case's existing judgeProfiles
+  profilesFor: (ids: string[], existing: JudgePersonaDefinition[] = []): JudgePersonaDefinition[] => {
+    const byId = new Map(existing.map(p => [p.id, p]));
+    ids.forEach(id => {
+      const persona = known.get(id);
+      if (persona && !persona.builtIn) byId.set(id, persona);
+    });
+    return [...byId.values()];
+  }
+};
@@ -0,0 +1,117 @@
+import type { AiProvider, AiRequest, AiTask } from "../aiProvider";
+
+// --- Offline Fixture Provider ---
+// Deterministic, network-free responses for every AI task so the full
+// DRAFTING -> CLOSED (or SETTLED) flow can be developed, demoed and tested without an API key.
+// Individual tasks can be overridden with a script (fixed text or a function of the request).
+
+export type FixtureResponse = string | ((req: AiRequest) => string);
+export type FixtureScript = Partial<Record<AiTask, FixtureResponse>>;
+
+// Pull the user text back out of prompts shaped like `Text: "..."`.
+const extractQuoted = (prompt: string) => {
+  const match = prompt.match(/"([\s\S]*)"/);
+  return match ? match[1] : prompt;
+};
+
+const DEFAULT_SCRIPT: Record<AiTask, FixtureResponse> = {
+  title: '生活琐事纠纷案',
+
+  summary: (req) => {
+    const text = extractQuoted(req.prompt);
+    return text.length > 100 ? text.slice(0, 100) + '...' : text;
+  },
+
+  polish: (req) => extractQuoted(req.prompt),
+
+  grammar: (req) => extractQuoted(req.prompt),
+
+  sentiment: JSON.stringify({ isToxic: false, score: 1, reason: '' }),
+
+  facts: JSON.stringify({ facts: ['双方因生活琐事发生争执', '争执后双方均有情绪'] }),
+
+  evidence: '**离线分析**：该证据与争议事实存在一定关联，但双方对其解读不同，需结合其他证据综合判断。',
+
+  dispute: JSON.stringify({
+    points: [
+      { title: '沟通方式', description: '争吵时一方语气较重，另一方感到委屈。这种说话方式是否妥当？' },
+      { title: '事前约定', description: '双方此前对此事有过口头约定。约定是否应当被遵守？' }
+    ]
+  }),
+
+  verdict: (req) => {
+    const prefix = req.systemInstruction?.match(/必须以 "(.+?)" 开头/)?.[1] || '本汪裁判：';
+    // Rule on every demand and counterclaim listed in the prompt: support the first, modify the second, reject the rest
+    const demandIds = [...new Set([...(req.systemInstruction || '').matchAll(/\[((?:demand|counterclaim)_[^\]]+)\]/g)].map(m => m[1]))];
+    const rulings = demandIds.map((demandId, i) => i === 0
+      ? { demandId, outcome: 'SUPPORTED', reasoning: '鉴于被告确实存在过错，本庭予以支持。' }
+      : i === 1
+        ? { demandId, outcome: 'MODIFIED', modifiedRemedy: '请对方吃一顿火锅', reasoning: '诉请本身合理，但方式可以更温和。' }
+        : { demandId, outcome: 'REJECTED', reasoning: '该诉请缺乏依据，本庭不予支持。' });
+    return JSON.stringify({
+      summary: '双方因生活琐事发生争执，经审理查明事实如下。',
+      facts: ['双方因生活琐事发生争执', '被告在争执中语气较重', '原告事后情绪低落'],
+      responsibilitySplit: { plaintiff: 40, defendant: 60 },
+      disputeAnalyses: [
+        { title: '沟通方式', analysis: '被告语气较重，客观上伤害了原告感受。' },
+        { title: '事前约定', analysis: '双方约定清晰，未履行的一方应承担主要责任。' }
+      ],
+      reasoning: '综合双方陈述与证据，被告负主要责任，原告负次要责任。',
+      rulings,
+      finalJudgment: `${prefix}\n吵架是为了更好地在一起，希望双方各退一步，好好说话。`,
+      penaltyTasks: [
+        { assignee: 'DEFENDANT', content: '【彩虹屁挑战】看着对方眼睛，连续夸赞3分钟不重样，笑了就重来。' },
+        { assignee: 'DEFENDANT', content: '【五星级服务】为对方提供一次十分钟的捏肩服务。' },
+        { assignee: 'PLAINTIFF', content: '【无声的告白】双方对视一分钟，谁先说话谁就输。' }
+      ],
+      tone: 'neutral'
+    });
+  },
+
+  settlement: (req) => {
+    // Meet halfway on every demand and counterclaim listed in the instruction
+    const demandIds = [...new Set([...(req.systemInstruction || '').matchAll(/\[((?:demand|counterclaim)_[^\]]+)\]/g)].map(m => m[1]))];
+    return JSON.stringify({
+      terms: demandIds.map(demandId => ({ demandId, resolution: '双方各退一步，按一半的程度履行。' })),
+      tasks: [
+        { assignee: 'DEFENDANT', content: '【和好拥抱】给对方一个持续十秒的拥抱。' },
+        { assignee: 'PLAINTIFF', content: '【真心夸夸】说出对方最近让你感动的一件小事。' }
+      ],
+      note: '这次争执里双方都有委屈，各让一步，把力气留给好好相处。'
+    });
+  }
+};
+
+const STREAM_CHUNK_SIZE = 48;
+
+export const createFixtureProvider = (
+  options: { script?: FixtureScript; delayMs?: number } = {}
+): AiProvider => {
+  const script = { ...DEFAULT_SCRIPT, ...options.script };
+  const wait = () => options.delayMs ? new Promise(resolve => setTimeout(resolve, options.delayMs)) : Promise.resolve();
+
+  return {
+    name: 'fixture',
+
+    generate: async (req: AiRequest) => {
+      await wait();
+      const response = script[req.task];
+      return typeof response === 'function' ? response(req) : response;
+    },
+
+    // Replays the scripted response in small slices to exercise incremental rendering
+    generateStream: async function* (req: AiRequest) {
+      const response = script[req.task];
+      const text = typeof response === 'function' ? response(req) : response;
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        await wait();
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+
+    transcribe: async () => {
+      await wait();
+      return '（离线模式）这是一段示例录音的转录内容。';
+    }
+  };
+};
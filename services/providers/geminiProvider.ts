@@ -0,0 +1,86 @@
+import { GoogleGenAI } from "@google/genai";
+import { getEnv, type AiProvider, type AiRequest, type ModelTier } from "../aiProvider";
+
+// Upgraded to Gemini 3 series as per latest guidelines and to potentially alleviate 2.0 flash quota issues
+// Verdict generation specifically uses Gemini 3 Flash for better creative instruction following
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  flash: 'gemini-3-flash-preview',
+  pro: 'gemini-3-pro-preview',
+  verdict: 'gemini-3-flash-preview',
+};
+
+export const createGeminiProvider = (): AiProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // Create the client on first use so a missing key surfaces as a failed request, not an import crash.
+  const getClient = () => {
+    if (ai) return ai;
+    const apiKey = getEnv('VITE_GOOGLE_API_KEY');
+    if (!apiKey) {
+      throw new Error("❌ 缺少 API Key！请检查 Zeabur 环境变量是否为 VITE_GOOGLE_API_KEY");
+    }
+    ai = new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  const buildParams = (req: AiRequest) => {
+    const config: any = {
+      systemInstruction: req.systemInstruction,
+      temperature: req.temperature ?? 0.7,
+    };
+
+    if (req.jsonMode) {
+      config.responseMimeType = "application/json";
+    }
+
+    let contentsInput: any;
+    if (req.images && req.images.length > 0) {
+      contentsInput = {
+        parts: [
+          { text: req.prompt },
+          ...req.images
+        ]
+      };
+    } else {
+      contentsInput = req.prompt;
+    }
+
+    return {
+      model: GEMINI_MODELS[req.model],
+      contents: contentsInput,
+      config: config
+    };
+  };
+
+  return {
+    name: 'gemini',
+
+    generate: async (req: AiRequest) => {
+      const response = await getClient().models.generateContent(buildParams(req));
+      return response.text || "";
+    },
+
+    generateStream: async function* (req: AiRequest) {
+      const stream = await getClient().models.generateContentStream(buildParams(req));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    transcribe: async (base64Audio: string, mimeType: string) => {
+      const response = await getClient().models.generateContent({
+        model: GEMINI_MODELS.flash,
+        config: {
+          systemInstruction: `You are an expert transcriber. Filter out fillers. Add punctuation.`
+        },
+        contents: {
+          parts: [
+            { inlineData: { mimeType: mimeType, data: base64Audio } },
+            { text: "Transcribe this audio." },
+          ],
+        },
+      });
+      return response.text?.trim() || "";
+    }
+  };
+};
@@ -0,0 +1,101 @@
+import OpenAI, { toFile } from "openai";
+import { getEnv, type AiProvider, type AiRequest, type ModelTier } from "../aiProvider";
+
+// Any OpenAI-compatible endpoint works (OpenAI, DeepSeek, Qwen, local vLLM...) via VITE_OPENAI_BASE_URL.
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  flash: 'gpt-4o-mini',
+  pro: 'gpt-4o',
+  verdict: 'gpt-4o-mini',
+};
+
+const modelFor = (tier: ModelTier) => {
+  const overrides: Record<ModelTier, string | undefined> = {
+    flash: getEnv('VITE_OPENAI_MODEL_FLASH'),
+    pro: getEnv('VITE_OPENAI_MODEL_PRO'),
+    verdict: getEnv('VITE_OPENAI_MODEL_VERDICT'),
+  };
+  return overrides[tier] || getEnv('VITE_OPENAI_MODEL') || DEFAULT_MODELS[tier];
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const createOpenAiProvider = (): AiProvider => {
+  let client: OpenAI | null = null;
+
+  const getClient = () => {
+    if (client) return client;
+    const apiKey = getEnv('VITE_OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error("❌ 缺少 API Key！请检查环境变量是否为 VITE_OPENAI_API_KEY");
+    }
+    client = new OpenAI({
+      apiKey,
+      baseURL: getEnv('VITE_OPENAI_BASE_URL'),
+      // Keys are already shipped to the browser for the Gemini backend; same trade-off here.
+      dangerouslyAllowBrowser: true,
+    });
+    return client;
+  };
+
+  const buildParams = (req: AiRequest) => {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (req.systemInstruction) {
+      messages.push({ role: 'system', content: req.systemInstruction });
+    }
+
+    if (req.images && req.images.length > 0) {
+      messages.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: req.prompt },
+          ...req.images.map(img => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${img.inlineData.mimeType};base64,${img.inlineData.data}` }
+          }))
+        ]
+      });
+    } else {
+      messages.push({ role: 'user', content: req.prompt });
+    }
+
+    return {
+      model: modelFor(req.model),
+      messages,
+      temperature: req.temperature ?? 0.7,
+      ...(req.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    };
+  };
+
+  return {
+    name: 'openai',
+
+    generate: async (req: AiRequest) => {
+      const completion = await getClient().chat.completions.create(buildParams(req));
+      return completion.choices[0]?.message?.content || "";
+    },
+
+    generateStream: async function* (req: AiRequest) {
+      const stream = await getClient().chat.completions.create({ ...buildParams(req), stream: true });
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+
+    transcribe: async (base64Audio: string, mimeType: string) => {
+      const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm';
+      const file = await toFile(base64ToBytes(base64Audio), `evidence.${extension}`, { type: mimeType });
+      const result = await getClient().audio.transcriptions.create({
+        file,
+        model: getEnv('VITE_OPENAI_TRANSCRIBE_MODEL') || 'whisper-1',
+        language: 'zh',
+      });
+      return result.text?.trim() || "";
+    }
+  };
+};
@@ -0,0 +1,126 @@
+// --- Outbound Sync Queue ---
+// Persistent record of cloud writes that did not go through (offline, server errors...).
+// Entries are coalesced per case and kind: the actual data to push is always read from the
+// local cache at replay time, so the queue only has to remember *that* a case needs pushing.
+// 'upload' entries stand for evidence media of the case that is still only on this device.
+// Replay and backoff scheduling live in MockDb; this module only stores and reports state.
+
+const OUTBOX_KEY = 'court_of_love_outbox_v1';
+
+// After this many failed attempts an entry is parked as failed and needs user action
+export const MAX_SYNC_ATTEMPTS = 8;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+export type PendingWriteKind = 'insert' | 'update' | 'upload';
+
+export interface PendingWrite {
+  id: string;
+  caseId: string;
+  kind: PendingWriteKind;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  failed: boolean; // Permanently failed, waiting for the user to retry or discard
+}
+
+export type SyncState = 'synced' | 'pending' | 'failed';
+
+const load = (): PendingWrite[] => {
+  const str = localStorage.getItem(OUTBOX_KEY);
+  if (!str) return [];
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    console.error("[SyncQueue] Outbox is unreadable, starting with an empty queue:", e);
+    return [];
+  }
+};
+
+const listeners = new Set<() => void>();
+
+const save = (entries: PendingWrite[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  listeners.forEach(cb => cb());
+};
+
+// 1s, 2s, 4s ... capped at 5 minutes
+const backoff = (attempts: number) => Math.min(1000 * Math.pow(2, attempts), MAX_BACKOFF_MS);
+
+export const SyncQueue = {
+  list: (): PendingWrite[] => load(),
+
+  forCase: (caseId: string): PendingWrite[] => load().filter(e => e.caseId === caseId),
+
+  getState: (caseId: string): SyncState => {
+    const entries = load().filter(e => e.caseId === caseId);
+    if (entries.some(e => e.failed)) return 'failed';
+    return entries.length > 0 ? 'pending' : 'synced';
+  },
+
+  enqueue: (caseId: string, kind: PendingWriteKind, error?: string) => {
+    const entries = load();
+    const existing = entries.find(e => e.caseId === caseId && e.kind === kind);
+    if (existing) {
+      if (error) existing.lastError = error;
+    } else {
+      entries.push({
+        id: `${caseId}-${kind}-${Date.now()}`,
+        caseId,
+        kind,
+        createdAt: Date.now(),
+        attempts: 0,
+        nextAttemptAt: Date.now() + backoff(0),
+        lastError: error,
+        failed: false
+      });
+    }
+    save(entries);
+  },
+
+  // Record a failed replay: schedule the next attempt or park the entry as failed
+  markAttemptFailed: (id: string, error: string, permanent: boolean) => {
+    const entries = load();
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    entry.attempts += 1;
+    entry.lastError = error;
+    entry.failed = permanent || entry.attempts >= MAX_SYNC_ATTEMPTS;
+    entry.nextAttemptAt = Date.now() + backoff(entry.attempts);
+    save(entries);
+  },
+
+  remove: (id: string) => save(load().filter(e => e.id !== id)),
+
+  removeForCase: (caseId: string, kind?: PendingWriteKind) =>
+    save(load().filter(e => !(e.caseId === caseId && (!kind || e.kind === kind)))),
+
+  // User asked to try again: reset the attempt counter and make it due now
+  reset: (id: string) => {
+    const entries = load();
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+    entry.attempts = 0;
+    entry.failed = false;
+    entry.nextAttemptAt = Date.now();
+    save(entries);
+  },
+
+  // Entries ready for replay, inserts first so updates never target a missing row
+  due: (now = Date.now(), force = false): PendingWrite[] =>
+    load()
+      .filter(e => !e.failed && (force || e.nextAttemptAt <= now))
+      .sort((a, b) => (a.kind === b.kind ? a.createdAt - b.createdAt : a.kind === 'insert' ? -1 : 1)),
+
+  nextDueAt: (): number | null => {
+    const pending = load().filter(e => !e.failed);
+    return pending.length > 0 ? Math.min(...pending.map(e => e.nextAttemptAt)) : null;
+  },
+
+  onChange: (cb: () => void) => {
+    listeners.add(cb);
+    return () => { listeners.delete(cb); };
+  },
+
+  clear: () => save([])
+};
@@ -0,0 +1,102 @@
+-- Tables used by the app. Written to be re-runnable on projects created before the schema was
+-- versioned: tables are only created when missing and every column is added if missing.
+
+-- --- Profiles ---
+-- One row per auth user; `username` is the display name, also accepted at login instead of the email.
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  username text,
+  email text,
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists profiles_username_key on public.profiles (lower(username));
+
+-- Sign-up stores the username in the user metadata; the profile is created here so it also exists
+-- when email confirmation delays the first session
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, username, email)
+  values (new.id, new.raw_user_meta_data ->> 'username', new.email)
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- --- Cases ---
+-- Mirrors CaseData (types.ts); see mapRemoteCase / toRemotePayload in services/mockDb.ts.
+-- Ids are text: case ids are generated on the device, party ids are auth user ids.
+create table if not exists public.cases (
+  id text primary key,
+  share_code text not null,
+  created_at timestamptz not null default now(),
+  plaintiff_id text not null,
+  defendant_id text,
+  status text not null default 'DRAFTING'
+);
+
+alter table public.cases
+  add column if not exists spectator_ids text[] not null default '{}',
+  add column if not exists revision integer not null default 0,
+  add column if not exists category text,
+  add column if not exists title text,
+  add column if not exists description text,
+  add column if not exists plaintiff_summary text,
+  add column if not exists demands text,
+  add column if not exists demand_items jsonb,
+  add column if not exists evidence jsonb,
+  add column if not exists defense_statement text,
+  add column if not exists defense_summary text,
+  add column if not exists defendant_evidence jsonb,
+  add column if not exists counterclaims jsonb,
+  add column if not exists counterclaim_evidence jsonb,
+  add column if not exists plaintiff_rebuttal text,
+  add column if not exists plaintiff_rebuttal_evidence jsonb,
+  add column if not exists defendant_rebuttal text,
+  add column if not exists defendant_rebuttal_evidence jsonb,
+  add column if not exists dispute_points jsonb,
+  add column if not exists last_analyzed_hash text,
+  add column if not exists mediation jsonb,
+  add column if not exists settlement_proposals jsonb,
+  add column if not exists settlement jsonb,
+  add column if not exists cooling_off boolean,
+  add column if not exists moderation_log jsonb,
+  add column if not exists sealed_submissions jsonb,
+  add column if not exists phase_deadlines jsonb,
+  add column if not exists missed_deadlines jsonb,
+  add column if not exists judge_persona text,
+  add column if not exists judge_profiles jsonb,
+  add column if not exists status_history jsonb,
+  add column if not exists verdict jsonb,
+  add column if not exists verdict_history jsonb,
+  add column if not exists appeal jsonb,
+  add column if not exists tasks jsonb,
+  add column if not exists plaintiff_precedent_consent boolean,
+  add column if not exists defendant_precedent_consent boolean;
+
+create unique index if not exists cases_share_code_key on public.cases (share_code);
+create index if not exists cases_plaintiff_id_idx on public.cases (plaintiff_id);
+create index if not exists cases_defendant_id_idx on public.cases (defendant_id);
+
+-- Realtime updates for the other party's device (services/caseChangeFeed.ts)
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'cases'
+    ) then
+    alter publication supabase_realtime add table public.cases;
+  end if;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Cases used to store the parties' display names. Rewrite them to auth user ids wherever a profile
+-- with that username (or email) exists. Rows naming nobody known stay as they are and are not
+-- readable by anyone under the row-level security policies that follow.
+
+update public.cases c
+set plaintiff_id = p.id::text
+from public.profiles p
+where c.plaintiff_id !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  and (lower(c.plaintiff_id) = lower(p.username) or lower(c.plaintiff_id) = lower(p.email));
+
+update public.cases c
+set defendant_id = p.id::text
+from public.profiles p
+where c.defendant_id !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  and (lower(c.defendant_id) = lower(p.username) or lower(c.defendant_id) = lower(p.email));
+
+-- Status history entries name their author the same way
+update public.cases c
+set status_history = (
+  select jsonb_agg(
+    coalesce(
+      (select jsonb_set(t.entry, '{by}', to_jsonb(p.id::text))
+       from public.profiles p
+       where lower(t.entry ->> 'by') in (lower(p.username), lower(p.email))
+       limit 1),
+      t.entry
+    )
+    order by t.ord
+  )
+  from jsonb_array_elements(c.status_history) with ordinality as t(entry, ord)
+)
+where jsonb_typeof(c.status_history) = 'array' and jsonb_array_length(c.status_history) > 0;
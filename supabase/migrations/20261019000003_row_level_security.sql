@@ -0,0 +1,304 @@
+-- Row-level security: only the parties can read and write a case, and every status change must be
+-- one the writer's role may make. Joining a case as the defendant goes through public.join_case
+-- (next migration); spectators of a public hearing never read the table itself (public_hearing).
+
+-- --- Profiles ---
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "profiles_select_self_and_partners" on public.profiles;
+create policy "profiles_select_self_and_partners" on public.profiles
+  for select to authenticated
+  using (
+    id = auth.uid()
+    or exists (
+      select 1 from public.cases c
+      where (c.plaintiff_id = auth.uid()::text and c.defendant_id = profiles.id::text)
+         or (c.defendant_id = auth.uid()::text and c.plaintiff_id = profiles.id::text)
+    )
+  );
+
+drop policy if exists "profiles_insert_self" on public.profiles;
+create policy "profiles_insert_self" on public.profiles
+  for insert to authenticated
+  with check (id = auth.uid());
+
+drop policy if exists "profiles_update_self" on public.profiles;
+create policy "profiles_update_self" on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+-- Login by username happens before there is a session, so the lookup cannot read the table itself
+create or replace function public.get_login_email(p_username text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select email from public.profiles where lower(username) = lower(trim(p_username)) limit 1;
+$$;
+
+revoke all on function public.get_login_email(text) from public;
+grant execute on function public.get_login_email(text) to anon, authenticated;
+
+-- --- Cases ---
+
+alter table public.cases enable row level security;
+
+drop policy if exists "cases_select_parties_and_spectators" on public.cases;
+drop policy if exists "cases_select_parties" on public.cases;
+create policy "cases_select_parties" on public.cases
+  for select to authenticated
+  using (auth.uid()::text in (plaintiff_id, defendant_id));
+
+-- Cases are filed by the signed-in user, always without a defendant, spectators or sealed answers
+drop policy if exists "cases_insert_plaintiff" on public.cases;
+create policy "cases_insert_plaintiff" on public.cases
+  for insert to authenticated
+  with check (
+    plaintiff_id = auth.uid()::text
+    and defendant_id is null
+    and spectator_ids = '{}'
+    and coalesce(sealed_submissions, '[]'::jsonb) = '[]'::jsonb
+    and coalesce(plaintiff_rebuttal, '') = ''
+    and coalesce(defendant_rebuttal, '') = ''
+  );
+
+drop policy if exists "cases_update_parties" on public.cases;
+create policy "cases_update_parties" on public.cases
+  for update to authenticated
+  using (auth.uid()::text in (plaintiff_id, defendant_id))
+  with check (auth.uid()::text in (plaintiff_id, defendant_id));
+
+drop policy if exists "cases_delete_plaintiff" on public.cases;
+create policy "cases_delete_plaintiff" on public.cases
+  for delete to authenticated
+  using (plaintiff_id = auth.uid()::text);
+
+-- --- Status Changes ---
+
+-- Roles allowed to move a case between two statuses; mirrors TRANSITIONS in
+-- services/caseWorkflow.ts. Only the roles are enforced here, the content guards stay in the app.
+create or replace function public.case_transition_roles(p_from text, p_to text)
+returns text[]
+language sql
+immutable
+as $$
+  select t.roles
+  from (values
+    ('DRAFTING', 'PLAINTIFF_EVIDENCE', array['PLAINTIFF']),
+    ('PLAINTIFF_EVIDENCE', 'DRAFTING', array['PLAINTIFF']),
+    ('PLAINTIFF_EVIDENCE', 'DEFENSE_PENDING', array['PLAINTIFF']),
+    ('DEFENSE_PENDING', 'PLAINTIFF_EVIDENCE', array['PLAINTIFF']),
+    -- The plaintiff's device also returns a case once the deadline for revising a filed defense passed
+    ('DEFENSE_PENDING', 'CROSS_EXAMINATION', array['PLAINTIFF', 'DEFENDANT']),
+    -- Default judgment: requested by the plaintiff, or made by either device after the defense deadline
+    ('DEFENSE_PENDING', 'ADJUDICATING', array['PLAINTIFF', 'DEFENDANT']),
+    ('CROSS_EXAMINATION', 'DEFENSE_PENDING', array['PLAINTIFF', 'DEFENDANT']),
+    ('CROSS_EXAMINATION', 'DEBATE', array['PLAINTIFF', 'DEFENDANT']),
+    ('DEBATE', 'CROSS_EXAMINATION', array['PLAINTIFF', 'DEFENDANT']),
+    ('DEBATE', 'ADJUDICATING', array['PLAINTIFF', 'DEFENDANT']),
+    ('CROSS_EXAMINATION', 'MEDIATION', array['PLAINTIFF', 'DEFENDANT']),
+    ('MEDIATION', 'CROSS_EXAMINATION', array['PLAINTIFF', 'DEFENDANT']),
+    ('DEBATE', 'MEDIATION', array['PLAINTIFF', 'DEFENDANT']),
+    ('MEDIATION', 'DEBATE', array['PLAINTIFF', 'DEFENDANT']),
+    ('MEDIATION', 'SETTLED', array['PLAINTIFF', 'DEFENDANT']),
+    ('MEDIATION', 'ADJUDICATING', array['PLAINTIFF', 'DEFENDANT']),
+    ('ADJUDICATING', 'DEBATE', array['PLAINTIFF', 'DEFENDANT']),
+    -- Withdrawing a default judgment; check_case_update also requires the case to be one
+    ('ADJUDICATING', 'DEFENSE_PENDING', array['PLAINTIFF']),
+    ('ADJUDICATING', 'CLOSED', array['PLAINTIFF', 'DEFENDANT']),
+    ('CLOSED', 'APPEAL', array['PLAINTIFF', 'DEFENDANT']),
+    ('APPEAL', 'ADJUDICATING', array['PLAINTIFF', 'DEFENDANT']),
+    ('APPEAL', 'CLOSED', array['PLAINTIFF', 'DEFENDANT']),
+    ('DRAFTING', 'CANCELLED', array['PLAINTIFF']),
+    ('PLAINTIFF_EVIDENCE', 'CANCELLED', array['PLAINTIFF']),
+    ('DEFENSE_PENDING', 'CANCELLED', array['PLAINTIFF']),
+    ('CROSS_EXAMINATION', 'CANCELLED', array['PLAINTIFF']),
+    ('DEBATE', 'CANCELLED', array['PLAINTIFF']),
+    ('MEDIATION', 'CANCELLED', array['PLAINTIFF']),
+    ('ADJUDICATING', 'CANCELLED', array['PLAINTIFF'])
+  ) as t(from_status, to_status, roles)
+  where t.from_status = p_from and t.to_status = p_to;
+$$;
+
+-- Whether the items of a jsonb list changed, apart from the keys in p_keys. Answers to the other
+-- party's items (stances, objections, credibility analyses) are written into their list.
+create or replace function public.case_items_changed(p_old jsonb, p_new jsonb, p_keys text[] default '{}')
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce((
+    select jsonb_agg(e - p_keys order by ord)
+    from jsonb_array_elements(case when jsonb_typeof(p_old) = 'array' then p_old else '[]'::jsonb end) with ordinality as t(e, ord)
+  ), '[]'::jsonb) is distinct from coalesce((
+    select jsonb_agg(e - p_keys order by ord)
+    from jsonb_array_elements(case when jsonb_typeof(p_new) = 'array' then p_new else '[]'::jsonb end) with ordinality as t(e, ord)
+  ), '[]'::jsonb);
+$$;
+
+-- Whether p_new starts with every element of p_old, unchanged
+create or replace function public.jsonb_extends(p_old jsonb, p_new jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(jsonb_typeof(p_new) = 'array', false) and not exists (
+    select 1
+    from jsonb_array_elements(case when jsonb_typeof(p_old) = 'array' then p_old else '[]'::jsonb end) with ordinality as t(e, ord)
+    where p_new -> (ord::integer - 1) is distinct from e
+  );
+$$;
+
+-- Checks direct writes from the app (security definer functions such as join_case and the service
+-- role are trusted):
+-- - the history is append-only; a device may push several status changes at once after being
+--   offline, so every appended entry is checked, together they must lead to the new status, and
+--   their time is the server's (deadlines and reveals are counted from it)
+-- - each party's own statements and evidence are written by that party only; the other party may
+--   only answer them (stances, objections, credibility analyses). The plaintiff's device also
+--   writes the default judgment marker into the defense, and resets it when withdrawing one.
+-- - the deadlines and the cooling-off period are chosen while drafting, and a missed deadline is
+--   only recorded once the deadline of the phase has passed
+create or replace function public.check_case_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  writer text := auth.uid()::text;
+  writer_role text := case auth.uid()::text when old.plaintiff_id then 'PLAINTIFF' when old.defendant_id then 'DEFENDANT' end;
+  old_history jsonb := case when jsonb_typeof(old.status_history) = 'array' then old.status_history else '[]'::jsonb end;
+  old_count integer := jsonb_array_length(old_history);
+  new_count integer := coalesce(jsonb_array_length(case when jsonb_typeof(new.status_history) = 'array' then new.status_history end), 0);
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  entry jsonb;
+  at_status text := old.status;
+  -- A default judgment is the only way from the defense to the adjudication (caseWorkflow)
+  is_default boolean := old_history -> -1 ->> 'from' = 'DEFENSE_PENDING' and old_history -> -1 ->> 'to' = 'ADJUDICATING';
+  entered_default boolean := false;
+  withdrew_default boolean := false;
+  entered_at bigint := (old_history -> -1 ->> 'at')::bigint;
+  hours numeric := case when jsonb_typeof(old.phase_deadlines -> old.status) = 'number' then (old.phase_deadlines ->> old.status)::numeric end;
+  evidence_answers text[] := array['isContested', 'aiAnalysis', 'aiAnalysisHash'];
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if new.id is distinct from old.id
+    or new.share_code is distinct from old.share_code
+    or new.plaintiff_id is distinct from old.plaintiff_id
+    or new.created_at is distinct from old.created_at then
+    raise exception '案件的身份信息不可修改' using errcode = '42501';
+  end if;
+  if new.defendant_id is distinct from old.defendant_id then
+    raise exception '请通过案件码加入案件' using errcode = '42501';
+  end if;
+  -- Each party only answers for themselves whether earlier cases may be used
+  if new.plaintiff_precedent_consent is distinct from old.plaintiff_precedent_consent and writer is distinct from old.plaintiff_id
+    or new.defendant_precedent_consent is distinct from old.defendant_precedent_consent and writer is distinct from old.defendant_id then
+    raise exception '只能修改自己的同意' using errcode = '42501';
+  end if;
+
+  -- --- History ---
+
+  if not public.jsonb_extends(old_history, coalesce(new.status_history, '[]'::jsonb)) then
+    raise exception '状态记录不可修改' using errcode = '42501';
+  end if;
+  if new.status is distinct from old.status and new_count <= old_count then
+    raise exception '状态变更缺少记录' using errcode = '42501';
+  end if;
+
+  for entry in select e from jsonb_array_elements(new.status_history) with ordinality as t(e, ord) where ord > old_count order by ord loop
+    if entry ->> 'from' is distinct from at_status
+      or entry ->> 'role' is distinct from writer_role
+      or entry ->> 'by' is distinct from writer
+      or not (writer_role = any (coalesce(public.case_transition_roles(entry ->> 'from', entry ->> 'to'), '{}'))) then
+      raise exception '无权将案件从 % 变更为 %', entry ->> 'from', entry ->> 'to' using errcode = '42501';
+    end if;
+    if entry ->> 'from' = 'ADJUDICATING' and entry ->> 'to' = 'DEFENSE_PENDING' then
+      if not is_default then
+        raise exception '仅缺席判决可撤回' using errcode = '42501';
+      end if;
+      is_default := false;
+      withdrew_default := true;
+    elsif entry ->> 'from' = 'DEFENSE_PENDING' and entry ->> 'to' = 'ADJUDICATING' then
+      is_default := true;
+      entered_default := true;
+    end if;
+    at_status := entry ->> 'to';
+  end loop;
+
+  if at_status is distinct from new.status then
+    raise exception '状态变更与记录不一致' using errcode = '42501';
+  end if;
+  if new_count > old_count then
+    new.status_history := (
+      select jsonb_agg(case when ord > old_count then e || jsonb_build_object('at', now_ms) else e end order by ord)
+      from jsonb_array_elements(new.status_history) with ordinality as t(e, ord)
+    );
+  end if;
+
+  -- --- Party Content ---
+
+  if writer_role is distinct from 'PLAINTIFF' and (
+    new.title is distinct from old.title
+    or new.category is distinct from old.category
+    or new.description is distinct from old.description
+    or new.plaintiff_summary is distinct from old.plaintiff_summary
+    or new.demands is distinct from old.demands
+    or public.case_items_changed(old.evidence, new.evidence, evidence_answers)
+    or public.case_items_changed(old.plaintiff_rebuttal_evidence, new.plaintiff_rebuttal_evidence, evidence_answers)
+    or (public.case_items_changed(old.demand_items, new.demand_items, array['defendantStance', 'defendantComment'])
+      -- Cases filed before demands were structured get theirs from the text (caseDemands.getCaseDemands)
+      and not (
+        coalesce(jsonb_array_length(case when jsonb_typeof(old.demand_items) = 'array' then old.demand_items end), 0) = 0
+        and jsonb_typeof(new.demand_items) = 'array'
+        and not exists (select 1 from jsonb_array_elements(new.demand_items) as d where d ->> 'id' not like 'demand_legacy_%')
+      ))
+  ) then
+    raise exception '只能修改自己提交的内容' using errcode = '42501';
+  end if;
+  if writer_role is distinct from 'DEFENDANT' and (
+    ((new.defense_statement is distinct from old.defense_statement or new.defense_summary is distinct from old.defense_summary)
+      and not (entered_default and new.defense_statement = '（被告缺席，放弃答辩）')
+      and not (withdrew_default and coalesce(new.defense_statement, '') = ''))
+    or public.case_items_changed(old.defendant_evidence, new.defendant_evidence, evidence_answers)
+    or public.case_items_changed(old.counterclaim_evidence, new.counterclaim_evidence, evidence_answers)
+    or public.case_items_changed(old.defendant_rebuttal_evidence, new.defendant_rebuttal_evidence, evidence_answers)
+    or public.case_items_changed(old.counterclaims, new.counterclaims, array['plaintiffStance', 'plaintiffComment'])
+  ) then
+    raise exception '只能修改自己提交的内容' using errcode = '42501';
+  end if;
+
+  -- --- Deadlines ---
+
+  if (new.phase_deadlines is distinct from old.phase_deadlines or new.cooling_off is distinct from old.cooling_off)
+    and (writer_role is distinct from 'PLAINTIFF' or old.status <> 'DRAFTING') then
+    raise exception '各环节期限和冷静期只能在立案时设置' using errcode = '42501';
+  end if;
+  -- caseDeadlines.buildDeadlineConsequence: misses of the phase the case was in, once its deadline passed
+  if new.missed_deadlines is distinct from old.missed_deadlines and (
+    not public.jsonb_extends(coalesce(old.missed_deadlines, '[]'::jsonb), new.missed_deadlines)
+    or exists (
+      select 1
+      from jsonb_array_elements(case when jsonb_typeof(new.missed_deadlines) = 'array' then new.missed_deadlines else '[]'::jsonb end) with ordinality as t(m, ord)
+      where ord > coalesce(jsonb_array_length(case when jsonb_typeof(old.missed_deadlines) = 'array' then old.missed_deadlines end), 0)
+        and (m ->> 'phase' is distinct from old.status
+          or m ->> 'enteredAt' is distinct from entered_at::text
+          or not coalesce(hours > 0 and entered_at + hours * 3600000 <= now_ms, false))
+    )
+  ) then
+    raise exception '逾期记录只能在期限届满后追加' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_case_update on public.cases;
+create trigger check_case_update
+  before update on public.cases
+  for each row execute function public.check_case_update();
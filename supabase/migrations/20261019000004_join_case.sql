@@ -0,0 +1,40 @@
+-- Joining a case as the defendant. The share code is checked here, on the server: a client cannot
+-- read a case it is not a party of, and cannot set `defendant_id` itself (check_case_update).
+-- Returns the case row; the messages are shown to the user as they are.
+create or replace function public.join_case(p_share_code text)
+returns public.cases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  joiner text := auth.uid()::text;
+  target public.cases;
+begin
+  if joiner is null then
+    raise exception '请先登录' using errcode = '28000';
+  end if;
+
+  select * into target from public.cases where share_code = upper(trim(p_share_code)) for update;
+  if not found then
+    raise exception '无效的案件代码' using errcode = 'P0002';
+  end if;
+  if target.plaintiff_id = joiner then
+    raise exception '您是原告，无法作为被告加入' using errcode = 'P0001';
+  end if;
+  if target.defendant_id is not null and target.defendant_id <> joiner then
+    raise exception '该案件已有被告' using errcode = 'P0001';
+  end if;
+
+  if target.defendant_id is null then
+    update public.cases
+    set defendant_id = joiner, revision = revision + 1
+    where id = target.id
+    returning * into target;
+  end if;
+  return target;
+end;
+$$;
+
+revoke all on function public.join_case(text) from public;
+grant execute on function public.join_case(text) to authenticated;
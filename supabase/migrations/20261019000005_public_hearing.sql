@@ -0,0 +1,229 @@
+-- Public hearings (services/caseHearing.ts). Spectators never read `cases` directly: they join with
+-- a code of their own through public.join_hearing, read the case through public.get_hearing and
+-- vote through public.cast_jury_vote, all of which hand out the redacted row of public.hearing_row.
+-- The parties can close the hearing by clearing `spectator_ids` but can neither add spectators nor
+-- write jury votes themselves.
+
+alter table public.cases
+  add column if not exists plaintiff_hearing_consent boolean,
+  add column if not exists defendant_hearing_consent boolean,
+  add column if not exists spectator_code text,
+  add column if not exists jury_votes jsonb;
+
+create unique index if not exists cases_spectator_code_key on public.cases (spectator_code);
+
+-- --- Party Writes ---
+
+-- Mirrors caseHearing.buildHearingConsentUpdate: each party answers only for themselves, a code is
+-- issued once both agreed (6 characters, see generateSpectatorCode), and closing the hearing clears
+-- the code and the spectators together.
+create or replace function public.check_case_hearing_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  writer text := auth.uid()::text;
+  is_open boolean := coalesce(new.plaintiff_hearing_consent, false) and coalesce(new.defendant_hearing_consent, false);
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if new.plaintiff_hearing_consent is distinct from old.plaintiff_hearing_consent and writer is distinct from old.plaintiff_id
+    or new.defendant_hearing_consent is distinct from old.defendant_hearing_consent and writer is distinct from old.defendant_id then
+    raise exception '只能修改自己的同意' using errcode = '42501';
+  end if;
+  if new.jury_votes is distinct from old.jury_votes then
+    raise exception '陪审团投票只能由旁听者提交' using errcode = '42501';
+  end if;
+  if new.spectator_ids is distinct from old.spectator_ids and new.spectator_ids <> '{}' then
+    raise exception '请通过旁听码加入案件' using errcode = '42501';
+  end if;
+  if new.spectator_code is distinct from old.spectator_code and new.spectator_code is not null
+    and (old.spectator_code is not null or new.spectator_code !~ '^[0-9A-Z]{6}$') then
+    raise exception '旁听码无效' using errcode = '42501';
+  end if;
+
+  if (new.plaintiff_hearing_consent is distinct from old.plaintiff_hearing_consent
+      or new.defendant_hearing_consent is distinct from old.defendant_hearing_consent
+      or new.spectator_code is distinct from old.spectator_code
+      or new.spectator_ids is distinct from old.spectator_ids)
+    and not is_open and (new.spectator_code is not null or new.spectator_ids <> '{}') then
+    raise exception '双方尚未同意公开审理' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_case_hearing_update on public.cases;
+create trigger check_case_hearing_update
+  before update on public.cases
+  for each row execute function public.check_case_hearing_update();
+
+-- --- Spectator View ---
+
+-- The case as `viewer` (a spectator) may see it; mirrors caseHearing.redactForSpectator. Party ids
+-- are replaced by placeholders, other spectators and their votes are anonymous, and unrevealed
+-- sealed answers, the settlement negotiation, the moderation log and task proofs are left out.
+create or replace function public.hearing_row(c public.cases, viewer text)
+returns public.cases
+language plpgsql
+stable
+as $$
+declare
+  r public.cases := c;
+begin
+  r.share_code := '';
+  r.plaintiff_id := 'plaintiff';
+  r.defendant_id := case when c.defendant_id is not null then 'defendant' end;
+  r.spectator_ids := array[viewer];
+  r.moderation_log := null;
+  r.settlement_proposals := null;
+  r.sealed_submissions := case when jsonb_typeof(c.sealed_submissions) = 'array' then coalesce((
+    select jsonb_agg(s order by ord) from jsonb_array_elements(c.sealed_submissions) with ordinality as t(s, ord)
+    where coalesce(s ->> 'revealedAt', '') <> ''
+  ), '[]'::jsonb) end;
+  r.tasks := case when jsonb_typeof(c.tasks) = 'array' then (
+    select coalesce(jsonb_agg(e - 'proof' order by ord), '[]'::jsonb) from jsonb_array_elements(c.tasks) with ordinality as t(e, ord)
+  ) end;
+  r.status_history := case when jsonb_typeof(c.status_history) = 'array' then (
+    select coalesce(jsonb_agg(e || '{"by": ""}'::jsonb order by ord), '[]'::jsonb) from jsonb_array_elements(c.status_history) with ordinality as t(e, ord)
+  ) end;
+  r.appeal := case when jsonb_typeof(c.appeal) = 'object' then c.appeal - 'appellantId' else c.appeal end;
+  r.verdict_history := case when jsonb_typeof(c.verdict_history) = 'array' then (
+    select coalesce(jsonb_agg(
+      case when jsonb_typeof(e -> 'appeal') = 'object' then jsonb_set(e, '{appeal}', (e -> 'appeal') - 'appellantId') else e end
+      order by ord
+    ), '[]'::jsonb) from jsonb_array_elements(c.verdict_history) with ordinality as t(e, ord)
+  ) end;
+  r.jury_votes := case when jsonb_typeof(c.jury_votes) = 'array' then (
+    select coalesce(jsonb_agg(
+      case when v ->> 'id' = viewer then v else v || jsonb_build_object('id', 'juror_' || ord) end
+      order by ord
+    ), '[]'::jsonb) from jsonb_array_elements(c.jury_votes) with ordinality as t(v, ord)
+  ) end;
+  return r;
+end;
+$$;
+
+revoke all on function public.hearing_row(public.cases, text) from public;
+
+-- The redacted case for one of its spectators
+create or replace function public.get_hearing(p_case_id text)
+returns public.cases
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  viewer text := auth.uid()::text;
+  target public.cases;
+begin
+  select * into target from public.cases where id = p_case_id;
+  if not found or viewer is null or not (viewer = any (target.spectator_ids)) then
+    raise exception '您不是本案的旁听者' using errcode = '42501';
+  end if;
+  return public.hearing_row(target, viewer);
+end;
+$$;
+
+revoke all on function public.get_hearing(text) from public;
+grant execute on function public.get_hearing(text) to authenticated;
+
+-- --- Joining ---
+
+-- Returns the redacted case; the messages are shown to the user as they are
+create or replace function public.join_hearing(p_code text)
+returns public.cases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  joiner text := auth.uid()::text;
+  target public.cases;
+begin
+  if joiner is null then
+    raise exception '请先登录' using errcode = '28000';
+  end if;
+
+  select * into target from public.cases where spectator_code = upper(trim(p_code)) for update;
+  if not found then
+    raise exception '无效的旁听码' using errcode = 'P0002';
+  end if;
+  if joiner in (target.plaintiff_id, target.defendant_id) then
+    raise exception '您是本案当事人，无需旁听' using errcode = 'P0001';
+  end if;
+  if not (coalesce(target.plaintiff_hearing_consent, false) and coalesce(target.defendant_hearing_consent, false)) then
+    raise exception '双方尚未同意公开审理' using errcode = 'P0001';
+  end if;
+
+  if not (joiner = any (target.spectator_ids)) then
+    update public.cases
+    set spectator_ids = array_append(spectator_ids, joiner), revision = revision + 1
+    where id = target.id
+    returning * into target;
+  end if;
+  return public.hearing_row(target, joiner);
+end;
+$$;
+
+revoke all on function public.join_hearing(text) from public;
+grant execute on function public.join_hearing(text) to authenticated;
+
+-- --- Voting ---
+
+-- Casts or replaces the caller's vote, with the checks of caseHearing.checkJuryVote
+create or replace function public.cast_jury_vote(p_case_id text, p_points jsonb, p_plaintiff_share integer)
+returns public.cases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  voter text := auth.uid()::text;
+  target public.cases;
+  point_ids text[];
+begin
+  select * into target from public.cases where id = p_case_id for update;
+  if not found or voter is null or not (voter = any (target.spectator_ids)) then
+    raise exception '只有旁听者可以投票' using errcode = '42501';
+  end if;
+  if target.status not in ('DEBATE', 'MEDIATION', 'ADJUDICATING')
+    or coalesce(jsonb_array_length(case when jsonb_typeof(target.dispute_points) = 'array' then target.dispute_points end), 0) = 0 then
+    raise exception '当前环节不能投票' using errcode = 'P0001';
+  end if;
+
+  select coalesce(array_agg(p ->> 'id'), '{}') into point_ids from jsonb_array_elements(target.dispute_points) as p;
+  if jsonb_typeof(p_points) <> 'object' or exists (
+    select 1 from jsonb_each_text(p_points) as v
+    where not (v.key = any (point_ids)) or v.value not in ('PLAINTIFF', 'DEFENDANT')
+  ) then
+    raise exception '投票内容无效' using errcode = 'P0001';
+  end if;
+  if p_points = '{}'::jsonb and p_plaintiff_share is null then
+    raise exception '请至少对一个争议焦点或责任比例投票' using errcode = 'P0001';
+  end if;
+  if p_plaintiff_share is not null and (p_plaintiff_share < 0 or p_plaintiff_share > 100) then
+    raise exception '责任比例需在 0 到 100 之间' using errcode = 'P0001';
+  end if;
+
+  update public.cases
+  set jury_votes = coalesce((
+        select jsonb_agg(v) from jsonb_array_elements(coalesce(jury_votes, '[]'::jsonb)) as v where v ->> 'id' <> voter
+      ), '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+        'id', voter,
+        'points', p_points,
+        'plaintiffShare', p_plaintiff_share,
+        'at', (extract(epoch from now()) * 1000)::bigint
+      ))),
+      revision = revision + 1
+  where id = target.id
+  returning * into target;
+  return public.hearing_row(target, voter);
+end;
+$$;
+
+revoke all on function public.cast_jury_vote(text, jsonb, integer) from public;
+grant execute on function public.cast_jury_vote(text, jsonb, integer) to authenticated;
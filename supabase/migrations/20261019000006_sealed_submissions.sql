@@ -0,0 +1,336 @@
+-- Sealed submissions (services/caseSealing.ts). The sealed answers live in their own table, and a
+-- party can only read their own rows until the round is revealed. `cases.sealed_submissions` keeps
+-- the envelopes (who sealed, and when) for both parties, with the content only once revealed.
+-- Sealing and revealing go through public.seal_submission and public.reveal_submissions; the
+-- rebuttals and debate arguments on `cases` are only written by a reveal.
+
+create table if not exists public.sealed_submissions (
+  case_id text not null references public.cases (id) on delete cascade,
+  id text not null, -- <phase>_<round>_<role>, see caseSealing.sealId
+  author_id text, -- null for the placeholder of a party who let the deadline pass
+  role text not null check (role in ('PLAINTIFF', 'DEFENDANT')),
+  phase text not null check (phase in ('CROSS_EXAMINATION', 'DEBATE')),
+  round integer not null,
+  sealed_at bigint not null,
+  revealed_at bigint,
+  defaulted boolean not null default false,
+  rebuttal text,
+  arguments jsonb,
+  primary key (case_id, id)
+);
+
+-- Submissions stored on the case before this migration
+insert into public.sealed_submissions (case_id, id, author_id, role, phase, round, sealed_at, revealed_at, defaulted, rebuttal, arguments)
+select c.id, s ->> 'id',
+  case when coalesce((s ->> 'defaulted')::boolean, false) then null when s ->> 'role' = 'PLAINTIFF' then c.plaintiff_id else c.defendant_id end,
+  s ->> 'role', s ->> 'phase', (s ->> 'round')::integer, (s ->> 'sealedAt')::bigint, (s ->> 'revealedAt')::bigint,
+  coalesce((s ->> 'defaulted')::boolean, false), s ->> 'rebuttal', s -> 'arguments'
+from public.cases c, jsonb_array_elements(case when jsonb_typeof(c.sealed_submissions) = 'array' then c.sealed_submissions else '[]'::jsonb end) as s
+on conflict (case_id, id) do nothing;
+
+-- --- Reading ---
+
+alter table public.sealed_submissions enable row level security;
+
+-- Rows are only written by the functions below
+drop policy if exists "sealed_submissions_select_author_or_revealed" on public.sealed_submissions;
+create policy "sealed_submissions_select_author_or_revealed" on public.sealed_submissions
+  for select to authenticated
+  using (
+    (author_id = auth.uid()::text or revealed_at is not null)
+    and exists (
+      select 1 from public.cases c
+      where c.id = case_id and auth.uid()::text in (c.plaintiff_id, c.defendant_id)
+    )
+  );
+
+-- The submissions of a case in the shape of CaseData.sealedSubmissions. The content is included
+-- once revealed, and for `viewer`'s own submissions.
+create or replace function public.sealed_envelopes(p_case_id text, viewer text default null)
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'id', s.id,
+    'role', s.role,
+    'phase', s.phase,
+    'round', s.round,
+    'sealedAt', s.sealed_at,
+    'revealedAt', s.revealed_at,
+    'defaulted', case when s.defaulted then true end,
+    'rebuttal', case when s.revealed_at is not null or s.author_id = viewer then s.rebuttal end,
+    'arguments', case when s.revealed_at is not null or s.author_id = viewer then s.arguments end
+  )) order by s.sealed_at, s.id), '[]'::jsonb)
+  from public.sealed_submissions s
+  where s.case_id = p_case_id;
+$$;
+
+revoke all on function public.sealed_envelopes(text, text) from public;
+
+update public.cases c
+set sealed_submissions = public.sealed_envelopes(c.id)
+where jsonb_typeof(c.sealed_submissions) = 'array';
+
+-- --- Direct Writes ---
+
+-- Mirrors caseSealing.checkSealedWrite: the envelopes, the rebuttals and the debate arguments are
+-- written by a reveal only; a party may still clear their own text.
+create or replace function public.check_case_sealed_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  writer text := auth.uid()::text;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if new.sealed_submissions is distinct from old.sealed_submissions then
+    raise exception '密封提交只能通过密封或揭晓写入' using errcode = '42501';
+  end if;
+  if coalesce(new.plaintiff_rebuttal, '') <> '' and new.plaintiff_rebuttal is distinct from coalesce(old.plaintiff_rebuttal, '')
+    or coalesce(new.defendant_rebuttal, '') <> '' and new.defendant_rebuttal is distinct from coalesce(old.defendant_rebuttal, '') then
+    raise exception '质证说明需要密封提交，双方都提交后才会揭晓' using errcode = '42501';
+  end if;
+  if coalesce(new.plaintiff_rebuttal, '') = '' and coalesce(old.plaintiff_rebuttal, '') <> '' and writer is distinct from old.plaintiff_id
+    or coalesce(new.defendant_rebuttal, '') = '' and coalesce(old.defendant_rebuttal, '') <> '' and writer is distinct from old.defendant_id then
+    raise exception '只能清空自己的质证说明' using errcode = '42501';
+  end if;
+  if new.dispute_points is distinct from old.dispute_points and jsonb_typeof(new.dispute_points) = 'array' and exists (
+    select 1
+    from jsonb_array_elements(new.dispute_points) as p
+    left join jsonb_array_elements(case when jsonb_typeof(old.dispute_points) = 'array' then old.dispute_points else '[]'::jsonb end) as o
+      on o ->> 'id' = p ->> 'id'
+    where coalesce(p ->> 'plaintiffArg', '') <> '' and p ->> 'plaintiffArg' is distinct from coalesce(o ->> 'plaintiffArg', '')
+       or coalesce(p ->> 'defendantArg', '') <> '' and p ->> 'defendantArg' is distinct from coalesce(o ->> 'defendantArg', '')
+  ) then
+    raise exception '辩论观点需要密封提交，双方都提交后才会揭晓' using errcode = '42501';
+  end if;
+  if new.dispute_points is distinct from old.dispute_points and jsonb_typeof(new.dispute_points) = 'array'
+    and jsonb_typeof(old.dispute_points) = 'array' and exists (
+    select 1
+    from jsonb_array_elements(new.dispute_points) as p
+    join jsonb_array_elements(old.dispute_points) as o on o ->> 'id' = p ->> 'id'
+    where coalesce(p ->> 'plaintiffArg', '') = '' and coalesce(o ->> 'plaintiffArg', '') <> '' and writer is distinct from old.plaintiff_id
+       or coalesce(p ->> 'defendantArg', '') = '' and coalesce(o ->> 'defendantArg', '') <> '' and writer is distinct from old.defendant_id
+  ) then
+    raise exception '只能清空自己的辩论观点' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_case_sealed_update on public.cases;
+create trigger check_case_sealed_update
+  before update on public.cases
+  for each row execute function public.check_case_sealed_update();
+
+-- --- Sealing ---
+
+-- Mirrors caseSealing.getSealRound: entering the phase again opens a new round, coming back from
+-- mediation continues the same one
+create or replace function public.seal_round(c public.cases, p_phase text)
+returns integer
+language sql
+immutable
+as $$
+  select count(*)::integer
+  from jsonb_array_elements(case when jsonb_typeof(c.status_history) = 'array' then c.status_history else '[]'::jsonb end) as e
+  where e ->> 'to' = p_phase and e ->> 'from' is distinct from 'MEDIATION';
+$$;
+
+-- Reveals the current round of a phase: marks every submission as revealed and copies the content
+-- to the rebuttals or the dispute points (caseSealing.buildReveal). A party who did not seal keeps
+-- what they had before. Only called by the functions below.
+create or replace function public.reveal_round(p_case_id text, p_phase text, p_round integer)
+returns void
+language plpgsql
+as $$
+declare
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  plaintiff public.sealed_submissions;
+  defendant public.sealed_submissions;
+begin
+  update public.sealed_submissions
+  set revealed_at = now_ms
+  where case_id = p_case_id and phase = p_phase and round = p_round;
+
+  select * into plaintiff from public.sealed_submissions
+  where case_id = p_case_id and phase = p_phase and round = p_round and role = 'PLAINTIFF' and not defaulted;
+  select * into defendant from public.sealed_submissions
+  where case_id = p_case_id and phase = p_phase and round = p_round and role = 'DEFENDANT' and not defaulted;
+
+  if p_phase = 'CROSS_EXAMINATION' then
+    update public.cases
+    set plaintiff_rebuttal = case when plaintiff.id is not null then coalesce(plaintiff.rebuttal, '') else plaintiff_rebuttal end,
+        defendant_rebuttal = case when defendant.id is not null then coalesce(defendant.rebuttal, '') else defendant_rebuttal end
+    where id = p_case_id;
+  else
+    update public.cases
+    set dispute_points = (
+      select coalesce(jsonb_agg(
+        p
+          || case when plaintiff.arguments ? (p ->> 'id') then jsonb_build_object('plaintiffArg', plaintiff.arguments -> (p ->> 'id')) else '{}'::jsonb end
+          || case when defendant.arguments ? (p ->> 'id') then jsonb_build_object('defendantArg', defendant.arguments -> (p ->> 'id')) else '{}'::jsonb end
+        order by ord
+      ), '[]'::jsonb)
+      from jsonb_array_elements(dispute_points) with ordinality as t(p, ord)
+    )
+    where id = p_case_id and jsonb_typeof(dispute_points) = 'array';
+  end if;
+end;
+$$;
+
+revoke all on function public.reveal_round(text, text, integer) from public;
+
+-- Seals the caller's answer for the phase the case is in (caseSealing.buildSeal) and reveals the
+-- round once both parties sealed. Returns the case with the caller's own content in the envelopes.
+create or replace function public.seal_submission(p_case_id text, p_rebuttal text, p_arguments jsonb)
+returns public.cases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  author text := auth.uid()::text;
+  target public.cases;
+  party text;
+  current_round integer;
+begin
+  select * into target from public.cases where id = p_case_id for update;
+  if not found or author is null or author is distinct from target.plaintiff_id and author is distinct from target.defendant_id then
+    raise exception '只有原告或被告可以密封提交' using errcode = '42501';
+  end if;
+  party := case author when target.plaintiff_id then 'PLAINTIFF' else 'DEFENDANT' end;
+  if target.status not in ('CROSS_EXAMINATION', 'DEBATE') then
+    raise exception '当前环节无需密封提交' using errcode = 'P0001';
+  end if;
+  if target.status = 'DEBATE' and p_arguments is not null and jsonb_typeof(p_arguments) <> 'object' then
+    raise exception '辩论观点无效' using errcode = 'P0001';
+  end if;
+
+  current_round := public.seal_round(target, target.status);
+  if exists (
+    select 1 from public.sealed_submissions
+    where case_id = target.id and phase = target.status and round = current_round and revealed_at is not null
+  ) then
+    raise exception '本轮已经揭晓，无法再提交' using errcode = 'P0001';
+  end if;
+  if exists (
+    select 1 from public.sealed_submissions
+    where case_id = target.id and phase = target.status and round = current_round and role = party
+  ) then
+    raise exception '你已经密封提交过了' using errcode = 'P0001';
+  end if;
+
+  insert into public.sealed_submissions (case_id, id, author_id, role, phase, round, sealed_at, rebuttal, arguments)
+  values (
+    target.id,
+    target.status || '_' || current_round || '_' || party,
+    author,
+    party,
+    target.status,
+    current_round,
+    (extract(epoch from now()) * 1000)::bigint,
+    case when target.status = 'CROSS_EXAMINATION' then trim(coalesce(p_rebuttal, '')) end,
+    case when target.status = 'DEBATE' then (
+      select coalesce(jsonb_object_agg(a.key, trim(a.value)), '{}'::jsonb) from jsonb_each_text(coalesce(p_arguments, '{}'::jsonb)) as a
+    ) end
+  );
+
+  if (
+    select count(*) from public.sealed_submissions
+    where case_id = target.id and phase = target.status and round = current_round
+  ) = 2 then
+    perform public.reveal_round(target.id, target.status, current_round);
+  end if;
+
+  update public.cases
+  set sealed_submissions = public.sealed_envelopes(id), revision = revision + 1
+  where id = target.id
+  returning * into target;
+  target.sealed_submissions := public.sealed_envelopes(target.id, author);
+  return target;
+end;
+$$;
+
+revoke all on function public.seal_submission(text, text, jsonb) from public;
+grant execute on function public.seal_submission(text, text, jsonb) to authenticated;
+
+-- --- Revealing ---
+
+-- Reveals the current round of a phase (caseSealing.checkReveal): once both parties sealed, once
+-- the seal window passed after the first seal, or once the phase deadline passed. After the
+-- deadline a party who has not sealed gets an empty placeholder (caseSealing.buildDeadlineReveal).
+create or replace function public.reveal_submissions(p_case_id text, p_phase text)
+returns public.cases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  viewer text := auth.uid()::text;
+  target public.cases;
+  current_round integer;
+  now_ms bigint := (extract(epoch from now()) * 1000)::bigint;
+  sealed integer;
+  first_sealed_at bigint;
+  hours numeric;
+  entered_at bigint;
+  deadline_passed boolean;
+begin
+  select * into target from public.cases where id = p_case_id for update;
+  if not found or viewer is null or viewer is distinct from target.plaintiff_id and viewer is distinct from target.defendant_id then
+    raise exception '您不是本案的当事人' using errcode = '42501';
+  end if;
+  if p_phase not in ('CROSS_EXAMINATION', 'DEBATE') or target.status is distinct from p_phase then
+    raise exception '当前环节无需揭晓' using errcode = 'P0001';
+  end if;
+
+  current_round := public.seal_round(target, p_phase);
+  if exists (
+    select 1 from public.sealed_submissions
+    where case_id = target.id and phase = p_phase and round = current_round and revealed_at is not null
+  ) then
+    raise exception '本轮已经揭晓' using errcode = 'P0001';
+  end if;
+
+  select count(*), min(sealed_at) into sealed, first_sealed_at from public.sealed_submissions
+  where case_id = target.id and phase = p_phase and round = current_round;
+
+  -- caseWorkflow.getPhaseDeadline
+  hours := case when jsonb_typeof(target.phase_deadlines -> p_phase) = 'number' then (target.phase_deadlines ->> p_phase)::numeric end;
+  select (e ->> 'at')::bigint into entered_at
+  from jsonb_array_elements(case when jsonb_typeof(target.status_history) = 'array' then target.status_history else '[]'::jsonb end)
+    with ordinality as t(e, ord)
+  where e ->> 'to' = p_phase
+  order by ord desc
+  limit 1;
+  deadline_passed := coalesce(hours > 0 and entered_at + hours * 3600000 <= now_ms, false);
+
+  if deadline_passed then
+    insert into public.sealed_submissions (case_id, id, role, phase, round, sealed_at, defaulted)
+    select target.id, p_phase || '_' || current_round || '_' || r.role, r.role, p_phase, current_round, now_ms, true
+    from (values ('PLAINTIFF'), ('DEFENDANT')) as r(role)
+    on conflict (case_id, id) do nothing;
+  elsif sealed = 0 then
+    raise exception '双方都还没有密封提交' using errcode = 'P0001';
+  elsif sealed < 2 and first_sealed_at + 24 * 3600000 > now_ms then
+    -- caseSealing.SEAL_WINDOW_MS
+    raise exception '需等待对方密封提交，或等到截止时间后揭晓' using errcode = 'P0001';
+  end if;
+
+  perform public.reveal_round(target.id, p_phase, current_round);
+
+  update public.cases
+  set sealed_submissions = public.sealed_envelopes(id), revision = revision + 1
+  where id = target.id
+  returning * into target;
+  return target;
+end;
+$$;
+
+revoke all on function public.reveal_submissions(text, text) from public;
+grant execute on function public.reveal_submissions(text, text) to authenticated;
@@ -0,0 +1,35 @@
+-- Shared custom judges (services/personaRegistry.ts). Publishing a judge stores its definition
+-- under its share code; anybody signed in can import it by that code, only its owner can change it.
+
+create table if not exists public.judge_personas (
+  share_code text primary key,
+  owner_id text not null, -- Auth user id, like the party ids on `cases`
+  definition jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists judge_personas_owner_id_idx on public.judge_personas (owner_id);
+
+alter table public.judge_personas enable row level security;
+
+drop policy if exists "judge_personas_select_signed_in" on public.judge_personas;
+create policy "judge_personas_select_signed_in" on public.judge_personas
+  for select to authenticated
+  using (true);
+
+-- The definition names its owner as well (JudgePersonaDefinition.ownerId)
+drop policy if exists "judge_personas_insert_owner" on public.judge_personas;
+create policy "judge_personas_insert_owner" on public.judge_personas
+  for insert to authenticated
+  with check (owner_id = auth.uid()::text and definition ->> 'ownerId' = owner_id);
+
+drop policy if exists "judge_personas_update_owner" on public.judge_personas;
+create policy "judge_personas_update_owner" on public.judge_personas
+  for update to authenticated
+  using (owner_id = auth.uid()::text)
+  with check (owner_id = auth.uid()::text and definition ->> 'ownerId' = owner_id);
+
+drop policy if exists "judge_personas_delete_owner" on public.judge_personas;
+create policy "judge_personas_delete_owner" on public.judge_personas
+  for delete to authenticated
+  using (owner_id = auth.uid()::text);
@@ -0,0 +1,42 @@
+-- Storage bucket for evidence media (services/evidenceStore.ts). Objects are stored under
+-- `<case id>/<key>`; media attached before the case exists goes to `unfiled/<key>`. Only the
+-- parties of a case can read its media. Set VITE_SUPABASE_EVIDENCE_BUCKET when renaming the bucket.
+
+insert into storage.buckets (id, name, public)
+values ('evidence', 'evidence', false)
+on conflict (id) do nothing;
+
+-- Is the signed-in user a party of the case the object is filed under?
+create or replace function public.is_evidence_party(p_name text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from public.cases c
+    where c.id = (storage.foldername(p_name))[1]
+      and auth.uid()::text in (c.plaintiff_id, c.defendant_id)
+  );
+$$;
+
+drop policy if exists "evidence_select_parties" on storage.objects;
+create policy "evidence_select_parties" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'evidence'
+    and (public.is_evidence_party(name) or ((storage.foldername(name))[1] = 'unfiled' and owner_id = auth.uid()::text))
+  );
+
+-- Uploads never overwrite (evidenceStore uploads with `upsert: false`), so there is no update policy
+drop policy if exists "evidence_insert_parties" on storage.objects;
+create policy "evidence_insert_parties" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'evidence'
+    and (public.is_evidence_party(name) or (storage.foldername(name))[1] = 'unfiled')
+  );
+
+drop policy if exists "evidence_delete_owner" on storage.objects;
+create policy "evidence_delete_owner" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'evidence' and owner_id = auth.uid()::text);
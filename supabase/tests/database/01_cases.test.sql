@@ -0,0 +1,165 @@
+-- Filing, joining, status changes and party content on `cases` (migrations 03 and 04). Run with `npx supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(25);
+
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'plaintiff@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'defendant@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'stranger@example.com');
+
+-- --- Filing ---
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+select lives_ok(
+  $$insert into public.cases (id, share_code, plaintiff_id, status_history)
+    values ('case_1', 'ABC123', '11111111-1111-1111-1111-111111111111', '[]')$$,
+  'the plaintiff files a case'
+);
+select throws_ok(
+  $$insert into public.cases (id, share_code, plaintiff_id, defendant_id)
+    values ('case_2', 'DEF456', '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222')$$,
+  '42501', null,
+  'a case is filed without a defendant'
+);
+select throws_ok(
+  $$insert into public.cases (id, share_code, plaintiff_id)
+    values ('case_3', 'GHI789', '22222222-2222-2222-2222-222222222222')$$,
+  '42501', null,
+  'a case is filed by the signed-in user'
+);
+
+-- --- Status Changes ---
+
+select lives_ok(
+  $$update public.cases
+    set status = 'PLAINTIFF_EVIDENCE',
+        status_history = '[{"from": "DRAFTING", "to": "PLAINTIFF_EVIDENCE", "by": "11111111-1111-1111-1111-111111111111", "role": "PLAINTIFF", "at": 1}]'
+    where id = 'case_1'$$,
+  'the plaintiff submits the case'
+);
+select is(
+  (select (status_history -> 0 ->> 'at')::bigint > 1 from public.cases where id = 'case_1'),
+  true,
+  'the server stamps its own time on a transition'
+);
+select throws_ok(
+  $$update public.cases set status_history = jsonb_set(status_history, '{0,at}', '5') where id = 'case_1'$$,
+  '42501', '状态记录不可修改',
+  'the history cannot be rewritten'
+);
+select throws_ok(
+  $$update public.cases set status = 'DEFENSE_PENDING' where id = 'case_1'$$,
+  '42501', '状态变更缺少记录',
+  'a status change needs a history entry'
+);
+select throws_ok(
+  $$update public.cases
+    set status = 'DEFENSE_PENDING',
+        status_history = status_history || '[{"from": "PLAINTIFF_EVIDENCE", "to": "DEFENSE_PENDING", "by": "11111111-1111-1111-1111-111111111111", "role": "DEFENDANT", "at": 2}]'
+    where id = 'case_1'$$,
+  '42501', '无权将案件从 PLAINTIFF_EVIDENCE 变更为 DEFENSE_PENDING',
+  'the history entry has to name the writer''s own role'
+);
+select throws_ok(
+  $$update public.cases set share_code = 'XYZ000' where id = 'case_1'$$,
+  '42501', '案件的身份信息不可修改',
+  'the share code cannot be changed'
+);
+select throws_ok(
+  $$update public.cases set phase_deadlines = '{"DEFENSE_PENDING": 0}' where id = 'case_1'$$,
+  '42501', '各环节期限和冷静期只能在立案时设置',
+  'the deadlines are chosen while drafting'
+);
+select throws_ok(
+  $$update public.cases set defense_statement = '我认错' where id = 'case_1'$$,
+  '42501', '只能修改自己提交的内容',
+  'the plaintiff cannot write the defense'
+);
+select lives_ok(
+  $$update public.cases set demand_items = '[{"id": "d1", "content": "道歉"}]' where id = 'case_1'$$,
+  'the plaintiff edits their demands'
+);
+select throws_ok(
+  $$select public.join_case('abc123')$$,
+  'P0001', '您是原告，无法作为被告加入',
+  'the plaintiff cannot join their own case'
+);
+
+-- --- Joining ---
+
+set local request.jwt.claims = '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}';
+
+select is_empty(
+  $$select id from public.cases where id = 'case_1'$$,
+  'the case cannot be read before joining'
+);
+select throws_ok(
+  $$select public.join_case('WRONG1')$$,
+  'P0002', '无效的案件代码',
+  'join_case rejects unknown share codes'
+);
+select is(
+  (select defendant_id from public.join_case(' abc123 ')),
+  '22222222-2222-2222-2222-222222222222',
+  'join_case adds the defendant'
+);
+select isnt_empty(
+  $$select id from public.cases where id = 'case_1'$$,
+  'the defendant reads the case after joining'
+);
+select throws_ok(
+  $$update public.cases
+    set status = 'DEFENSE_PENDING',
+        status_history = status_history || '[{"from": "PLAINTIFF_EVIDENCE", "to": "DEFENSE_PENDING", "by": "22222222-2222-2222-2222-222222222222", "role": "DEFENDANT", "at": 2}]'
+    where id = 'case_1'$$,
+  '42501', '无权将案件从 PLAINTIFF_EVIDENCE 变更为 DEFENSE_PENDING',
+  'only the plaintiff starts the defense phase'
+);
+select throws_ok(
+  $$update public.cases set plaintiff_precedent_consent = true where id = 'case_1'$$,
+  '42501', '只能修改自己的同意',
+  'a party cannot consent for the other one'
+);
+select throws_ok(
+  $$update public.cases set description = '什么都没发生' where id = 'case_1'$$,
+  '42501', '只能修改自己提交的内容',
+  'the defendant cannot rewrite the plaintiff''s statement'
+);
+select lives_ok(
+  $$update public.cases set demand_items = '[{"id": "d1", "content": "道歉", "defendantStance": "ACCEPT"}]' where id = 'case_1'$$,
+  'the defendant answers a demand'
+);
+select throws_ok(
+  $$update public.cases set demand_items = '[{"id": "d1", "content": "不道歉", "defendantStance": "ACCEPT"}]' where id = 'case_1'$$,
+  '42501', '只能修改自己提交的内容',
+  'the defendant cannot change a demand'
+);
+select throws_ok(
+  $$update public.cases
+    set missed_deadlines = '[{"id": "m1", "kind": "DEFENSE", "phase": "PLAINTIFF_EVIDENCE", "role": "PLAINTIFF", "enteredAt": 1, "at": 1}]'
+    where id = 'case_1'$$,
+  '42501', '逾期记录只能在期限届满后追加',
+  'a missed deadline needs a passed deadline'
+);
+
+set local request.jwt.claims = '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.join_case('ABC123')$$,
+  'P0001', '该案件已有被告',
+  'a case has one defendant'
+);
+
+update public.cases set title = 'changed' where id = 'case_1';
+reset role;
+select is(
+  (select title from public.cases where id = 'case_1'),
+  null,
+  'others cannot write the case'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,130 @@
+-- Public hearings (migration 05): the parties' writes to the hearing columns, and spectators only
+-- reading the redacted case through the hearing functions. Run with `npx supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(18);
+
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'plaintiff@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'defendant@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'spectator@example.com'),
+  ('44444444-4444-4444-4444-444444444444', 'stranger@example.com');
+
+insert into public.cases (id, share_code, plaintiff_id, defendant_id, status, dispute_points, moderation_log)
+values (
+  'case_h', 'ABC123', '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222',
+  'DEBATE', '[{"id": "p1", "title": "谁洗碗"}]', '[{"id": "m1"}]'
+);
+
+-- --- Consent ---
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+select lives_ok(
+  $$update public.cases set plaintiff_hearing_consent = true where id = 'case_h'$$,
+  'the plaintiff agrees to a public hearing'
+);
+select throws_ok(
+  $$update public.cases set defendant_hearing_consent = true where id = 'case_h'$$,
+  '42501', '只能修改自己的同意',
+  'a party cannot agree for the other one'
+);
+select throws_ok(
+  $$update public.cases set spectator_code = 'HEAR01' where id = 'case_h'$$,
+  '42501', '双方尚未同意公开审理',
+  'no spectator code before both parties agreed'
+);
+
+set local request.jwt.claims = '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}';
+
+select lives_ok(
+  $$update public.cases set defendant_hearing_consent = true where id = 'case_h'$$,
+  'the defendant agrees as well'
+);
+select throws_ok(
+  $$update public.cases set spectator_code = 'bad' where id = 'case_h'$$,
+  '42501', '旁听码无效',
+  'the spectator code has the generated format'
+);
+select lives_ok(
+  $$update public.cases set spectator_code = 'HEAR01' where id = 'case_h'$$,
+  'the spectator code is issued once both agreed'
+);
+
+-- --- Spectators ---
+
+set local request.jwt.claims = '{"sub": "33333333-3333-3333-3333-333333333333", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.get_hearing('case_h')$$,
+  '42501', '您不是本案的旁听者',
+  'get_hearing is for spectators who joined'
+);
+select is(
+  (select plaintiff_id || '/' || share_code from public.join_hearing('hear01')),
+  'plaintiff/',
+  'join_hearing returns the case without party ids or share code'
+);
+select is_empty(
+  $$select id from public.cases where id = 'case_h'$$,
+  'spectators cannot read the table itself'
+);
+select is(
+  (select spectator_ids from public.get_hearing('case_h')),
+  array['33333333-3333-3333-3333-333333333333'],
+  'get_hearing only names the spectator reading it'
+);
+select is(
+  (select moderation_log from public.get_hearing('case_h')),
+  null,
+  'the moderation log is left out'
+);
+select lives_ok(
+  $$select public.cast_jury_vote('case_h', '{"p1": "PLAINTIFF"}', 60)$$,
+  'spectators vote'
+);
+select throws_ok(
+  $$select public.cast_jury_vote('case_h', '{"p9": "PLAINTIFF"}', null)$$,
+  'P0001', '投票内容无效',
+  'votes name existing dispute points'
+);
+
+update public.cases set title = 'changed' where id = 'case_h';
+
+set local request.jwt.claims = '{"sub": "44444444-4444-4444-4444-444444444444", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.cast_jury_vote('case_h', '{"p1": "DEFENDANT"}', null)$$,
+  '42501', '只有旁听者可以投票',
+  'only spectators vote'
+);
+
+-- --- Party Writes ---
+
+set local request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+select throws_ok(
+  $$update public.cases set jury_votes = '[]' where id = 'case_h'$$,
+  '42501', '陪审团投票只能由旁听者提交',
+  'the parties cannot write jury votes'
+);
+select throws_ok(
+  $$update public.cases set spectator_ids = array['44444444-4444-4444-4444-444444444444'] where id = 'case_h'$$,
+  '42501', '请通过旁听码加入案件',
+  'the parties cannot add spectators'
+);
+select lives_ok(
+  $$update public.cases set plaintiff_hearing_consent = false, spectator_code = null, spectator_ids = '{}' where id = 'case_h'$$,
+  'withdrawing closes the hearing'
+);
+
+reset role;
+select is(
+  (select title from public.cases where id = 'case_h'),
+  null,
+  'spectators cannot write the case'
+);
+
+select * from finish();
+rollback;
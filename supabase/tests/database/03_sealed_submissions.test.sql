@@ -0,0 +1,101 @@
+-- Sealed submissions (migration 06): a party cannot read or write the other party's answer before
+-- the round is revealed. Run with `npx supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+select plan(15);
+
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'plaintiff@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'defendant@example.com');
+
+insert into public.cases (id, share_code, plaintiff_id, defendant_id, status, status_history, dispute_points)
+values (
+  'case_s', 'ABC123', '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222',
+  'CROSS_EXAMINATION',
+  '[{"from": "DEFENSE_PENDING", "to": "CROSS_EXAMINATION", "by": "22222222-2222-2222-2222-222222222222", "role": "DEFENDANT", "at": 1}]',
+  '[{"id": "p1", "title": "谁洗碗"}]'
+);
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+select is(
+  (select sealed_submissions -> 0 ->> 'rebuttal' from public.seal_submission('case_s', ' 证据是伪造的 ', null)),
+  '证据是伪造的',
+  'the author gets their own content back'
+);
+select throws_ok(
+  $$select public.seal_submission('case_s', '再来一次', null)$$,
+  'P0001', '你已经密封提交过了',
+  'a party seals once per round'
+);
+select throws_ok(
+  $$update public.cases set plaintiff_rebuttal = '证据是伪造的' where id = 'case_s'$$,
+  '42501', '质证说明需要密封提交，双方都提交后才会揭晓',
+  'rebuttals cannot be written directly'
+);
+select throws_ok(
+  $$update public.cases set sealed_submissions = '[]' where id = 'case_s'$$,
+  '42501', '密封提交只能通过密封或揭晓写入',
+  'the envelopes cannot be written directly'
+);
+select throws_ok(
+  $$update public.cases set dispute_points = '[{"id": "p1", "title": "谁洗碗", "plaintiffArg": "你"}]' where id = 'case_s'$$,
+  '42501', '辩论观点需要密封提交，双方都提交后才会揭晓',
+  'debate arguments cannot be written directly'
+);
+
+set local request.jwt.claims = '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}';
+
+select is_empty(
+  $$select id from public.sealed_submissions where case_id = 'case_s'$$,
+  'the other party cannot read an unrevealed answer'
+);
+select is(
+  (select sealed_submissions -> 0 ? 'rebuttal' from public.cases where id = 'case_s'),
+  false,
+  'the envelope on the case holds no content'
+);
+select throws_ok(
+  $$select public.reveal_submissions('case_s', 'CROSS_EXAMINATION')$$,
+  'P0001', '需等待对方密封提交，或等到截止时间后揭晓',
+  'a round with one answer waits for the seal window'
+);
+select lives_ok(
+  $$select public.seal_submission('case_s', '不是伪造的', null)$$,
+  'the second party seals'
+);
+select is(
+  (select plaintiff_rebuttal || '/' || defendant_rebuttal from public.cases where id = 'case_s'),
+  '证据是伪造的/不是伪造的',
+  'the second seal reveals both rebuttals'
+);
+select is(
+  (select count(*)::integer from public.sealed_submissions where case_id = 'case_s'),
+  2,
+  'both answers can be read once revealed'
+);
+select throws_ok(
+  $$select public.seal_submission('case_s', '补充', null)$$,
+  'P0001', '本轮已经揭晓，无法再提交',
+  'nothing can be sealed after the reveal'
+);
+select throws_ok(
+  $$update public.cases set plaintiff_rebuttal = '' where id = 'case_s'$$,
+  '42501', '只能清空自己的质证说明',
+  'a party cannot clear the other party''s rebuttal'
+);
+select lives_ok(
+  $$update public.cases set defendant_rebuttal = '' where id = 'case_s'$$,
+  'a party can clear their own rebuttal'
+);
+
+reset role;
+select is(
+  (select count(*)::integer from public.sealed_submissions where case_id = 'case_s' and revealed_at is not null),
+  2,
+  'the reveal marks every answer of the round'
+);
+
+select * from finish();
+rollback;
@@ -5,8 +5,11 @@ export enum CaseStatus {
   DEFENSE_PENDING = 'DEFENSE_PENDING', // Waiting for Defendant to join/respond
   CROSS_EXAMINATION = 'CROSS_EXAMINATION', // Both parties can rebut/cross-examine
   DEBATE = 'DEBATE', // New: Core dispute focus debate
+  MEDIATION = 'MEDIATION', // Parties negotiate a settlement instead of waiting for a verdict
   ADJUDICATING = 'ADJUDICATING', // AI is processing
   CLOSED = 'CLOSED', // Verdict delivered
+  APPEAL = 'APPEAL', // A party appealed the verdict, waiting for the other party's response
+  SETTLED = 'SETTLED', // Closed by a settlement both parties accepted, without a verdict
   CANCELLED = 'CANCELLED', // Case cancelled by plaintiff
 }
 
@@ -16,25 +19,60 @@ export enum UserRole {
   SPECTATOR = 'SPECTATOR',
 }
 
+// Ids of the built-in judges. Cases and verdicts store a persona id, which is one of these
+// or the id of a user-defined persona (see services/personaRegistry.ts).
 export enum JudgePersona {
   BORDER_COLLIE = 'BORDER_COLLIE', // 边牧法官: 逻辑，中立，理性
   CAT = 'CAT',                     // 猫猫法官: 情理，抚慰，调解
 }
 
+export type PersonaIcon = 'dog' | 'cat' | 'bird' | 'rabbit' | 'squirrel' | 'turtle' | 'fish' | 'panda';
+
+// Colour scheme of the judge's screens: cool (slate/blue) or warm (rose/orange)
+export type PersonaPalette = 'cool' | 'warm';
+
+export interface JudgePersonaDefinition {
+  id: string;
+  name: string; // e.g. "汪汪法官"
+  icon: PersonaIcon;
+  palette: PersonaPalette;
+  description: string; // One-line introduction shown in the judge picker
+  philosophy: string; // How the judge thinks and what they look at
+  tone: string; // Judging style, e.g. "客观、中立、理性、严肃"
+  verdictPrefix: string; // First line of finalJudgment, e.g. "本汪裁判："
+  strictness: number; // 1 (lenient) - 5 (strict)
+  penaltyStyle: string; // Kind of 爱的破冰大冒险 tasks the judge prefers
+  courtTitle?: string; // Verdict header, defaults to "<name>法庭"
+  builtIn?: boolean;
+  ownerId?: string; // Creator of a custom persona
+  shareCode?: string; // Code other users import the persona with
+  createdAt?: number;
+}
+
 export enum EvidenceType {
   TEXT = 'TEXT',
   IMAGE = 'IMAGE',
   AUDIO = 'AUDIO',
 }
 
+// Binary evidence (image/audio) lives in the evidence blob store; the case only keeps references
+export interface EvidenceMedia {
+  ref: string; // Blob store reference, e.g. "supabase://evidence/<path>" or "idb://<key>"
+  mimeType: string;
+  size: number;
+  thumbnailRef?: string; // Small JPEG preview for lists (images only)
+}
+
 export interface EvidenceItem {
   id: string;
   type: EvidenceType;
-  content: string; // Text content, Image URL, or Audio Transcript/URL
+  content: string; // Text content or Audio Transcript. Legacy records may hold an image data URL.
+  media?: EvidenceMedia;
   description?: string;
   isContested: boolean; // Has the opposing party objected?
   submittedBy: UserRole;
   aiAnalysis?: string; // New: AI analysis of credibility and relevance based on cross-examination
+  aiAnalysisHash?: string; // Fingerprint of the evidence + rebuttals the analysis was based on
 }
 
 export interface DisputePoint {
@@ -50,11 +88,206 @@ export interface DisputeAnalysis {
   analysis: string;
 }
 
+// A party's answer to one demand (or counterclaim) of the other party
+export type DemandStance = 'ACCEPT' | 'PARTIAL' | 'REJECT';
+
+// One thing the plaintiff asks for, answered by the defendant and ruled on in the verdict
+export interface Demand {
+  id: string;
+  content: string;
+  defendantStance?: DemandStance;
+  defendantComment?: string;
+}
+
+// One thing the defendant asks for in return, answered by the plaintiff and ruled on like a demand
+export interface Counterclaim {
+  id: string;
+  content: string;
+  plaintiffStance?: DemandStance;
+  plaintiffComment?: string;
+}
+
+export type RulingOutcome = 'SUPPORTED' | 'REJECTED' | 'MODIFIED';
+
+export interface DemandRuling {
+  demandId: string; // Id of a demand or of a counterclaim
+  outcome: RulingOutcome;
+  modifiedRemedy?: string; // MODIFIED: what the court grants instead
+  reasoning: string;
+}
+
 export interface PenaltyTask {
   assignee: 'PLAINTIFF' | 'DEFENDANT';
   content: string;
 }
 
+// --- Mediation ---
+
+// The compromise a settlement offers on one demand or counterclaim
+export interface SettlementTerm {
+  demandId: string; // Id of a demand or of a counterclaim
+  resolution: string;
+}
+
+export type ProposalResponse = 'ACCEPT' | 'REJECT';
+
+// One settlement offer: by the AI mediator or a counter-proposal of a party
+export interface SettlementProposal {
+  id: string;
+  proposedBy: 'MEDIATOR' | 'PLAINTIFF' | 'DEFENDANT';
+  terms: SettlementTerm[];
+  tasks: PenaltyTask[]; // Suggested reconciliation tasks
+  note?: string; // The mediator's explanation, or the message of a counter-proposal
+  createdAt: number;
+  // A counter-proposal counts as accepted by its author
+  plaintiffResponse?: ProposalResponse;
+  defendantResponse?: ProposalResponse;
+}
+
+// The current (or last) mediation attempt
+export interface MediationRecord {
+  requestedBy: UserRole;
+  startedAt: number;
+  from: CaseStatus; // Phase the mediation was requested from; stepping back returns there
+}
+
+// Terms both parties accepted; replaces the verdict of a SETTLED case
+export interface Settlement {
+  proposalId: string;
+  terms: SettlementTerm[];
+  tasks: PenaltyTask[];
+  note?: string;
+  settledAt: number;
+}
+
+// --- Moderation ---
+
+// Party-authored texts that are checked before the other party sees them
+export type ModeratedField =
+  | 'description'
+  | 'demands'
+  | 'defenseStatement'
+  | 'counterclaims'
+  | 'rebuttal'
+  | 'disputeArgument'
+  | 'evidence';
+
+// PENDING: the author has not decided yet; REWRITTEN: sent the suggested rewrite;
+// REVISED: went back to edit; SENT: sent the original text anyway
+export type ModerationOutcome = 'PENDING' | 'REWRITTEN' | 'REVISED' | 'SENT';
+
+// A text the sentiment check flagged, and what its author did about it (see services/caseModeration.ts)
+export interface ModerationRecord {
+  id: string;
+  role: 'PLAINTIFF' | 'DEFENDANT';
+  field: ModeratedField;
+  score: number; // 0-10, from analyzeSentiment
+  reason: string;
+  at: number;
+  coolingOffUntil?: number; // The original text cannot be sent before this time
+  outcome: ModerationOutcome;
+}
+
+// --- Sealed Submissions ---
+
+// Phases in which both parties write at the same time without seeing each other's answer
+export type SealedPhase = CaseStatus.CROSS_EXAMINATION | CaseStatus.DEBATE;
+
+// What a party seals: the cross-examination rebuttal, or an argument per dispute point
+export interface SealedContent {
+  rebuttal?: string;
+  arguments?: Record<string, string>; // Dispute point id -> argument
+}
+
+// A party's sealed answer for one round of a phase (see services/caseSealing.ts)
+export interface SealedSubmission extends SealedContent {
+  id: string;
+  role: 'PLAINTIFF' | 'DEFENDANT';
+  phase: SealedPhase;
+  round: number; // Entering the phase again opens a new round
+  sealedAt: number;
+  revealedAt?: number; // Set on every submission of the round at the same moment
+  defaulted?: boolean; // Empty placeholder for a party who had not sealed when the phase deadline passed
+}
+
+// --- Phase Deadlines ---
+
+// Phases in which a party can be waited for
+export type DeadlinePhase = CaseStatus.DEFENSE_PENDING | CaseStatus.CROSS_EXAMINATION | CaseStatus.DEBATE;
+
+// Hours each phase may take once entered; a phase without an entry has no deadline
+export type PhaseDeadlines = Partial<Record<DeadlinePhase, number>>;
+
+// DEFENSE: no defense filed (default judgment); REBUTTAL: no rebuttal sealed;
+// COUNTERCLAIMS: counterclaims left unanswered (not contested); ARGUMENTS: dispute points left unanswered (conceded)
+export type MissedDeadlineKind = 'DEFENSE' | 'REBUTTAL' | 'COUNTERCLAIMS' | 'ARGUMENTS';
+
+// What a party had not done when a phase deadline passed (see services/caseDeadlines.ts)
+export interface MissedDeadline {
+  id: string;
+  kind: MissedDeadlineKind;
+  phase: DeadlinePhase;
+  role: 'PLAINTIFF' | 'DEFENDANT';
+  enteredAt: number; // When the phase was entered, so each visit of a phase has its own deadline
+  at: number;
+  itemIds?: string[]; // Counterclaims or dispute points left unanswered
+}
+
+// --- Public Hearing ---
+
+export type JurySide = 'PLAINTIFF' | 'DEFENDANT';
+
+// A spectator's vote as a member of the "people's jury"; voting again replaces it (see services/caseHearing.ts)
+export interface JuryVote {
+  id: string; // The voter's user id
+  points: Record<string, JurySide>; // Dispute point id -> the side the voter agrees with
+  plaintiffShare?: number; // Plaintiff's share of the responsibility in %, when the voter gave one
+  at: number;
+}
+
+// pending: not done yet; done: the assignee says it is done; disputed: the other party disagreed
+export type PenaltyTaskStatus = 'pending' | 'done' | 'disputed';
+
+// A penalty task of the delivered verdict being carried out (see services/penaltyTasks.ts)
+export interface TrackedTask extends PenaltyTask {
+  id: string;
+  status: PenaltyTaskStatus;
+  dueAt: number;
+  claimedAt?: number;
+  proof?: EvidenceItem; // Photo, recording or note attached to the completion claim
+  confirmedAt?: number; // Set when the other party confirms; only confirmed tasks count as finished
+  disputeReason?: string;
+  disputedAt?: number;
+}
+
+export interface StatusTransition {
+  from: CaseStatus;
+  to: CaseStatus;
+  by: string; // User who triggered the transition
+  role: UserRole;
+  at: number; // Timestamp
+  reason: string;
+}
+
+export interface AppealFiling {
+  appellant: UserRole; // PLAINTIFF or DEFENDANT
+  appellantId: string;
+  grounds: string; // Grounds for appeal
+  filedAt: number;
+  response?: string; // The other party's answer to the grounds
+  respondedAt?: number;
+  withdrawnAt?: number; // Set when the appellant withdrew before the re-hearing
+}
+
+// One delivered verdict; CaseData.verdict is always the latest of these
+export interface VerdictRecord {
+  round: number; // 0 = first instance, then one per appeal
+  verdict: Verdict;
+  judgePersona: string;
+  deliveredAt: number;
+  appeal?: AppealFiling; // The appeal this re-hearing answered (absent for the first instance)
+}
+
 export interface CaseData {
   id: string;
   shareCode: string; // 6-digit code for defendant to join
@@ -62,21 +295,24 @@ export interface CaseData {
   lastUpdateDate: number;
   
   // User Identity
-  plaintiffId: string; // Username
-  defendantId?: string; // Username
+  plaintiffId: string; // Auth user id (offline mode: the offline name)
+  defendantId?: string; // Auth user id, set by the join_case function
 
   // Case Content
   title?: string; // AI Summarized short title
   category: string;
   description: string;
   plaintiffSummary?: string; // AI Summarized description
-  demands: string;
+  demands: string; // Text form of the demands (numbered list), kept for older readers
+  demandItems?: Demand[]; // Structured demands; cases filed before these existed only have `demands`
   
   // Evidence & Arguments
   evidence: EvidenceItem[];
   defenseStatement: string;
   defenseSummary?: string; // AI Summarized defense statement
   defendantEvidence: EvidenceItem[];
+  counterclaims?: Counterclaim[]; // The defendant's own demands, answered by the plaintiff during cross-examination
+  counterclaimEvidence?: EvidenceItem[];
   
   // Cross Examination
   plaintiffRebuttal: string;
@@ -90,9 +326,32 @@ export interface CaseData {
   // State Tracking
   lastAnalyzedHash?: string; // Fingerprint of content when disputePoints were last generated
 
-  judgePersona: JudgePersona;
+  judgePersona: string; // Persona id: a JudgePersona or a custom persona
+  judgeProfiles?: JudgePersonaDefinition[]; // Custom personas that heard this case, so both parties can display them
   status: CaseStatus;
+  statusHistory?: StatusTransition[]; // Audit trail of every status change (see services/caseWorkflow.ts)
   verdict?: Verdict;
+  verdictHistory?: VerdictRecord[]; // Every verdict delivered, oldest first (see services/caseAppeal.ts)
+  appeal?: AppealFiling | null; // Appeal being filed or re-heard; cleared when the new verdict is delivered
+  tasks?: TrackedTask[]; // Penalty tasks of the current verdict (or of the settlement) and their progress
+  mediation?: MediationRecord | null;
+  settlementProposals?: SettlementProposal[]; // Every proposal of every mediation attempt, oldest first
+  settlement?: Settlement | null;
+  coolingOff?: boolean; // Chosen when filing: very heated texts have to wait before they can be sent as they are
+  moderationLog?: ModerationRecord[]; // Flagged texts of both parties, oldest first
+  sealedSubmissions?: SealedSubmission[]; // Rebuttals and debate arguments sealed until both parties answered
+  phaseDeadlines?: PhaseDeadlines; // Chosen when filing
+  missedDeadlines?: MissedDeadline[]; // Oldest first; the judge is told about each
+  // Opt-in per party: prior cases between the two are only shown to the AI when both agreed
+  plaintiffPrecedentConsent?: boolean;
+  defendantPrecedentConsent?: boolean;
+  // Public hearing: approved by both parties, spectators join with their own code
+  plaintiffHearingConsent?: boolean;
+  defendantHearingConsent?: boolean;
+  spectatorCode?: string | null; // null once the hearing was closed again
+  spectatorIds?: string[]; // Added by the server when someone joins with the spectator code
+  juryVotes?: JuryVote[];
+  revision?: number; // Row revision in the cloud, bumped on every write (optimistic concurrency)
 }
 
 export interface Verdict {
@@ -107,6 +366,18 @@ export interface Verdict {
   penaltyTasks: PenaltyTask[];
   tone: string;
   disputeAnalyses?: DisputeAnalysis[]; // New: Analysis for each dispute point
+  rulings?: DemandRuling[]; // One per demand and counterclaim; older verdicts only have the rulings inside finalJudgment
+  panel?: JudgeOpinion[]; // Panel mode: each judge's position; the rest of the verdict is the majority opinion
+}
+
+export interface JudgeOpinion {
+  persona: string;
+  position: string; // The judge's view in a sentence or two
+  responsibilitySplit?: {
+    plaintiff: number;
+    defendant: number;
+  };
+  dissent?: string; // Dissenting opinion, only when the judge disagrees with the majority
 }
 
 export interface FactCheckResult {
@@ -118,3 +389,10 @@ export interface SentimentResult {
   score: number; // 0-10
   reason: string;
 }
+
+// Content of a settlement proposal, as drafted by the AI mediator or a party
+export interface SettlementDraft {
+  terms: SettlementTerm[];
+  tasks: PenaltyTask[];
+  note?: string;
+}